@@ -0,0 +1,604 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import WebSocket from "ws"
+import { startGameServer, type GameServer } from "../gameServer"
+import {
+  createGameClient,
+  type GameClient,
+  type WebSocketConstructor,
+} from "../../src/net/gameClient"
+import type { GameEvent } from "../../src/types/game"
+import type { ServerMessage } from "../../src/types/protocol"
+import { getValidCards } from "../../src/utils/cardUtils"
+
+type SnapshotMessage = Extract<ServerMessage, { type: "SNAPSHOT" }>
+
+// Lets a test make the machine throw while handling an INTERRUPT, as a bug
+// in the machine would
+const interruptGuard = vi.hoisted(() => ({ fails: false }))
+vi.mock("../../src/utils/interrupts", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../../src/utils/interrupts")>()
+  return {
+    ...actual,
+    canInterrupt: (...args: Parameters<typeof actual.canInterrupt>) => {
+      if (interruptGuard.fails) throw new Error("Guard failed")
+      return actual.canInterrupt(...args)
+    },
+  }
+})
+
+// A simulated player: a real WebSocket client that records what it receives
+const connect = async (server: GameServer) => {
+  const client = createGameClient(
+    `ws://localhost:${server.port}`,
+    WebSocket as unknown as WebSocketConstructor
+  )
+  const messages: ServerMessage[] = []
+  client.onMessage((message) => messages.push(message))
+  await client.ready
+
+  const waitFor = <T extends ServerMessage>(
+    predicate: (message: ServerMessage) => message is T,
+    timeout = 2000
+  ): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const existing = messages.find(predicate)
+      if (existing) return resolve(existing)
+
+      const timer = setTimeout(
+        () => reject(new Error("Timed out waiting for message")),
+        timeout
+      )
+      const unsubscribe = client.onMessage((message) => {
+        if (predicate(message)) {
+          clearTimeout(timer)
+          unsubscribe()
+          resolve(message)
+        }
+      })
+    })
+
+  const waitForSnapshot = (predicate: (message: SnapshotMessage) => boolean) =>
+    waitFor(
+      (message): message is SnapshotMessage =>
+        message.type === "SNAPSHOT" && predicate(message)
+    )
+
+  const waitForError = () =>
+    waitFor(
+      (message): message is Extract<ServerMessage, { type: "ERROR" }> =>
+        message.type === "ERROR"
+    )
+
+  const waitForRejection = () =>
+    waitFor(
+      (
+        message
+      ): message is Extract<ServerMessage, { type: "EVENT_REJECTED" }> =>
+        message.type === "EVENT_REJECTED"
+    )
+
+  return {
+    client,
+    messages,
+    waitFor,
+    waitForSnapshot,
+    waitForError,
+    waitForRejection,
+  }
+}
+
+type TestClient = Awaited<ReturnType<typeof connect>>
+
+describe("gameServer", () => {
+  let server: GameServer
+  const clients: GameClient[] = []
+
+  const join = async (
+    gameId: string,
+    playerId: string,
+    name: string,
+    reconnectToken?: string
+  ) => {
+    const player = await connect(server)
+    clients.push(player.client)
+    player.client.join(gameId, playerId, name, reconnectToken)
+    return player
+  }
+
+  // Seat Alice and Bob and wait until the dealt game reaches playerTurn
+  const startTwoPlayerGame = async (gameId: string) => {
+    const alice = await join(gameId, "alice", "Alice")
+    const bob = await join(gameId, "bob", "Bob")
+    await bob.waitForSnapshot((m) => m.context.players.length === 2)
+
+    alice.client.send({ type: "START_GAME" })
+    const dealt = await alice.waitForSnapshot((m) => m.state === "playerTurn")
+    return { alice, bob, dealt }
+  }
+
+  beforeEach(async () => {
+    server = await startGameServer({ port: 0 })
+  })
+
+  afterEach(async () => {
+    interruptGuard.fails = false
+    vi.restoreAllMocks()
+    clients.splice(0).forEach((client) => client.close())
+    await server.close()
+  })
+
+  it("seats joining players and broadcasts snapshots to everyone", async () => {
+    const alice = await join("table-1", "alice", "Alice")
+    const bob = await join("table-1", "bob", "Bob")
+
+    const [aliceView, bobView] = await Promise.all([
+      alice.waitForSnapshot((m) => m.context.players.length === 2),
+      bob.waitForSnapshot((m) => m.context.players.length === 2),
+    ])
+
+    expect(aliceView.state).toBe("lobby")
+    expect(bobView.context.players.map((p) => p.name)).toEqual(["Alice", "Bob"])
+  })
+
+  it("hosts separate games per gameId", async () => {
+    await join("table-1", "alice", "Alice")
+    const carol = await join("table-2", "carol", "Carol")
+
+    const snapshot = await carol.waitForSnapshot(
+      (m) => m.context.players.length === 1
+    )
+
+    expect(snapshot.gameId).toBe("table-2")
+    expect(snapshot.context.players[0].name).toBe("Carol")
+    expect(server.getGame("table-1")).not.toBe(server.getGame("table-2"))
+  })
+
+  it("deals with a seed of its own choosing, not the client's", async () => {
+    const alice = await join("table-1", "alice", "Alice")
+    const bob = await join("table-1", "bob", "Bob")
+    await bob.waitForSnapshot((m) => m.context.players.length === 2)
+
+    alice.client.send({ type: "START_GAME", seed: 7 })
+    await alice.waitForRejection()
+    alice.client.send({ type: "START_GAME" })
+    const dealt = await alice.waitForSnapshot((m) => m.state === "playerTurn")
+
+    const seed = server.getGame("table-1")?.getSnapshot().context.seed
+    expect(seed).toEqual(expect.any(Number))
+    expect(seed).not.toBe(7)
+    expect(dealt.context.players[0].hand).toHaveLength(7)
+  })
+
+  it("only reveals each player's own hand", async () => {
+    const { bob, dealt } = await startTwoPlayerGame("table-1")
+    const bobView = await bob.waitForSnapshot((m) => m.state === "playerTurn")
+
+    expect(dealt.context.players[1]).toMatchObject({
+      hand: [],
+      handCount: 7,
+      handHidden: true,
+    })
+    expect(bobView.context.players[0].hand).toEqual([])
+    expect(bobView.context.players[1].hand).toHaveLength(7)
+    expect(dealt.context).not.toHaveProperty("deck")
+    expect(dealt.context.seed).toBeNull()
+  })
+
+  it("does not let a client choose the seed", async () => {
+    const alice = await join("table-1", "alice", "Alice")
+    const bob = await join("table-1", "bob", "Bob")
+    await bob.waitForSnapshot((m) => m.context.players.length === 2)
+
+    alice.client.send({ type: "START_GAME", seed: 7 })
+
+    const rejection = await alice.waitForRejection()
+    expect(rejection.reason).toBe("The server chooses the seed")
+    expect(server.getGame("table-1")?.getSnapshot().value).toBe("lobby")
+  })
+
+  it("rejects plays from a player whose turn it is not", async () => {
+    const { bob } = await startTwoPlayerGame("table-1")
+    const bobView = await bob.waitForSnapshot((m) => m.state === "playerTurn")
+    const [card] = bobView.context.players[1].hand
+
+    bob.client.send({ type: "PLAY_CARDS", cards: [card], playerId: "bob" })
+
+    const rejection = await bob.waitForRejection()
+    expect(rejection.reason).toBe("Event is not allowed right now")
+  })
+
+  it("rejects events sent on behalf of another player", async () => {
+    const { bob, dealt } = await startTwoPlayerGame("table-1")
+    const [card] = dealt.context.players[0].hand
+
+    bob.client.send({ type: "PLAY_CARDS", cards: [card], playerId: "alice" })
+
+    const rejection = await bob.waitForRejection()
+    expect(rejection.reason).toBe("Cannot act on behalf of another player")
+  })
+
+  it("rejects cards the player does not hold", async () => {
+    const { alice, dealt } = await startTwoPlayerGame("table-1")
+    const topCard = dealt.context.discardPile[0]
+    const forged = { ...topCard, id: "forged-card" }
+
+    alice.client.send({
+      type: "PLAY_CARDS",
+      cards: [forged],
+      playerId: "alice",
+    })
+
+    const rejection = await alice.waitForRejection()
+    expect(rejection.reason).toBe("Event is not allowed right now")
+  })
+
+  it("applies a legal move from the current player", async () => {
+    const { alice, bob, dealt } = await startTwoPlayerGame("table-1")
+    const hand = dealt.context.players[0].hand
+    const [validCard] = getValidCards(hand, dealt.context.discardPile[0])
+
+    if (validCard) {
+      alice.client.send({
+        type: "PLAY_CARDS",
+        cards: [validCard],
+        playerId: "alice",
+      })
+    } else {
+      alice.client.send({ type: "DRAW_CARD", playerId: "alice" })
+    }
+
+    const update = await bob.waitForSnapshot(
+      (m) =>
+        m.context.discardPile.length > 1 || m.context.players[0].handCount !== 7
+    )
+    expect(update.context.players[0].handCount).not.toBe(7)
+  })
+
+  it("plays the card the player holds, not the one the client sent", async () => {
+    // Pins the server's seed to a deal where Alice can play at once
+    const random = vi.spyOn(Math, "random").mockReturnValue(0.5)
+    const { alice, bob, dealt } = await startTwoPlayerGame("table-1")
+    random.mockRestore()
+    const [validCard] = getValidCards(
+      dealt.context.players[0].hand,
+      dealt.context.discardPile[0]
+    )
+    expect(validCard).toBeDefined()
+
+    alice.client.send({
+      type: "PLAY_CARDS",
+      cards: [{ ...validCard, points: -1000, extra: true } as typeof validCard],
+      playerId: "alice",
+    })
+
+    const update = await bob.waitForSnapshot(
+      (m) => m.context.discardPile.length > 1
+    )
+    expect(update.context.discardPile.at(-1)).toEqual(validCard)
+    expect(
+      server.getGame("table-1")?.getSnapshot().context.discardPile.at(-1)
+    ).toEqual(validCard)
+  })
+
+  it("keeps the round clock on the server", async () => {
+    const { alice } = await startTwoPlayerGame("table-1")
+
+    alice.client.send({ type: "ROUND_TIMEOUT" })
+
+    const rejection = await alice.waitForRejection()
+    expect(rejection.reason).toBe("ROUND_TIMEOUT is controlled by the server")
+  })
+
+  it("keeps the shot clock on the server", async () => {
+    const { alice, dealt } = await startTwoPlayerGame("table-1")
+    const [card] = dealt.context.players[0].hand
+
+    alice.client.send({
+      type: "AUTO_PLAY",
+      card,
+      playerId: "alice",
+      timedOut: true,
+    })
+    const rejection = await alice.waitForRejection()
+
+    expect(rejection.reason).toBe("Timeouts are controlled by the server")
+  })
+
+  describe("seats", () => {
+    const waitForToken = async (player: TestClient) => {
+      const joined = await player.waitFor(
+        (m): m is Extract<ServerMessage, { type: "JOINED" }> =>
+          m.type === "JOINED"
+      )
+      return joined.reconnectToken
+    }
+
+    it("cannot be claimed while their player is connected", async () => {
+      const { alice } = await startTwoPlayerGame("table-1")
+      const token = await waitForToken(alice)
+
+      const mallory = await join("table-1", "alice", "Mallory", token)
+      const error = await mallory.waitForError()
+
+      expect(error.message).toBe("That seat is taken")
+      expect(mallory.messages.some((m) => m.type === "SNAPSHOT")).toBe(false)
+      mallory.client.send({ type: "END_GAME" })
+      await mallory.waitFor(
+        (m): m is Extract<ServerMessage, { type: "ERROR" }> =>
+          m.type === "ERROR" && m.message === "Join a game first"
+      )
+      expect(server.getGame("table-1")?.getSnapshot().value).toBe("playerTurn")
+    })
+
+    it("gives each player a reconnect token of their own", async () => {
+      const { alice, bob } = await startTwoPlayerGame("table-1")
+
+      const [aliceToken, bobToken] = await Promise.all([
+        waitForToken(alice),
+        waitForToken(bob),
+      ])
+
+      expect(aliceToken).toEqual(expect.any(String))
+      expect(aliceToken).not.toBe(bobToken)
+      expect(alice.messages.filter((m) => m.type === "JOINED")).toHaveLength(1)
+    })
+
+    it("is only given back with the player's reconnect token", async () => {
+      const { alice, bob } = await startTwoPlayerGame("table-1")
+      const token = await waitForToken(alice)
+      alice.client.close()
+      await bob.waitForSnapshot(() => true)
+
+      const mallory = await join("table-1", "alice", "Mallory")
+      expect((await mallory.waitForError()).message).toBe(
+        "Invalid reconnect token"
+      )
+
+      const returning = await join("table-1", "alice", "Alice", token)
+      const view = await returning.waitForSnapshot(
+        (m) => m.state === "playerTurn"
+      )
+      expect(view.context.viewerId).toBe("alice")
+      expect(view.context.players[0].hand).toHaveLength(7)
+    })
+  })
+
+  describe("failing events", () => {
+    it("are turned away without stalling a timed state", async () => {
+      const alice = await join("table-1", "alice", "Alice")
+      const bob = await join("table-1", "bob", "Bob")
+      await bob.waitForSnapshot((m) => m.context.players.length === 2)
+      alice.client.send({
+        type: "SET_RULES",
+        rules: { forcedDrawBeforeSkip: false },
+      })
+      alice.client.send({ type: "START_GAME" })
+      const dealt = await bob.waitForSnapshot((m) => m.state === "playerTurn")
+
+      alice.client.send({ type: "SKIP_TURN" })
+      await bob.waitForSnapshot((m) => m.state === "waitingForTurn")
+      const game = server.getGame("table-1")
+      interruptGuard.fails = true
+      bob.messages.splice(0)
+      bob.client.send({
+        type: "INTERRUPT",
+        card: dealt.context.players[1].hand[0],
+        playerId: "bob",
+      })
+
+      const rejection = await bob.waitForRejection()
+      expect(rejection.reason).toBe("Event could not be applied")
+      // The event never reached the live game, so it was not restarted
+      expect(server.getGame("table-1")).toBe(game)
+      expect(game?.getSnapshot().value).toBe("waitingForTurn")
+      // The pause before the next turn still runs out
+      const next = await bob.waitForSnapshot(
+        (m) => m.state !== "waitingForTurn"
+      )
+      expect(["playerTurn", "gameEnding"]).toContain(next.state)
+      expect(game?.getSnapshot().status).toBe("active")
+    })
+  })
+
+  it("only sends a client snapshots that changed", async () => {
+    const { alice } = await startTwoPlayerGame("table-1")
+    alice.messages.splice(0)
+
+    // Long enough for several clock ticks and a round clock second
+    await new Promise((resolve) => setTimeout(resolve, 1200))
+
+    const sent = alice.messages
+      .filter((m) => m.type === "SNAPSHOT")
+      .map((m) => JSON.stringify(m))
+    expect(sent.length).toBeGreaterThan(0)
+    sent.slice(1).forEach((data, index) => expect(data).not.toBe(sent[index]))
+  })
+
+  describe("malformed messages", () => {
+    // What a client that ignores the protocol types could put on the wire
+    const malformed = [
+      { type: "PLAY_CARDS", playerId: "alice" },
+      { type: "INTERRUPT", playerId: "alice" },
+      { type: "AUTO_PLAY", card: "7 of hearts", playerId: "alice" },
+      {
+        type: "DECLARE_JOKER",
+        cardId: "joker-1",
+        value: "Z",
+        playerId: "alice",
+      },
+      {
+        type: "PLAY_CARDS",
+        cards: [
+          {
+            id: "joker-1",
+            suit: "joker",
+            value: "Joker",
+            points: 50,
+            declaredValue: "Z",
+          },
+        ],
+        playerId: "alice",
+      },
+      { type: "CLOCK_TICK", now: 0 },
+      undefined,
+    ]
+
+    it.each(malformed)(
+      "turns away %j without stopping the game",
+      async (event) => {
+        const { alice, dealt } = await startTwoPlayerGame("table-1")
+
+        alice.client.send(event as unknown as GameEvent)
+
+        const error = await alice.waitForError()
+        expect(error.message).toBe("Malformed message")
+        const game = server.getGame("table-1")
+        expect(game?.getSnapshot().status).toBe("active")
+        expect(game?.getSnapshot().value).toBe(dealt.state)
+      }
+    )
+
+    it("still serves the game after a malformed message", async () => {
+      const { alice, bob } = await startTwoPlayerGame("table-1")
+      alice.client.send({ type: "PLAY_CARDS" } as unknown as GameEvent)
+      await alice.waitForError()
+
+      alice.client.send({ type: "PAUSE" })
+
+      const update = await bob.waitForSnapshot((m) => m.state === "paused")
+      expect(update.context.pausedFrom).toBe("playerTurn")
+    })
+  })
+
+  describe("bots", () => {
+    it("gives each bot an id of the server's choosing", async () => {
+      const alice = await join("table-1", "alice", "Alice")
+      await alice.waitForSnapshot((m) => m.context.players.length === 1)
+
+      alice.client.send({
+        type: "PLAYER_JOIN",
+        playerId: "alice",
+        playerName: "Robo",
+        kind: "bot",
+      })
+
+      const view = await alice.waitForSnapshot(
+        (m) => m.context.players.length === 2
+      )
+      const [human, bot] = view.context.players
+      expect(human).toMatchObject({ id: "alice", kind: "human" })
+      expect(bot).toMatchObject({ name: "Robo", kind: "bot" })
+      expect(bot.id).toMatch(/^bot-/)
+    })
+
+    it("cannot be taken over by joining under their id", async () => {
+      const alice = await join("table-1", "alice", "Alice")
+      alice.client.send({
+        type: "PLAYER_JOIN",
+        playerId: "robo",
+        playerName: "Robo",
+        kind: "bot",
+      })
+      const view = await alice.waitForSnapshot(
+        (m) => m.context.players.length === 2
+      )
+
+      const mallory = await join("table-1", view.context.players[1].id, "M")
+
+      const error = await mallory.waitForError()
+      expect(error.message).toBe("That seat belongs to a bot")
+    })
+  })
+
+  describe("spectators", () => {
+    const spectate = async (gameId: string, name: string) => {
+      const spectator = await connect(server)
+      clients.push(spectator.client)
+      spectator.client.spectate(gameId, name)
+      return spectator
+    }
+
+    it("are told when the server drops their connection", async () => {
+      await join("table-1", "alice", "Alice")
+      const eve = await spectate("table-1", "Eve")
+      await eve.waitForSnapshot((m) => m.spectators.includes("Eve"))
+      const closed = new Promise<void>((resolve) => eve.client.onClose(resolve))
+
+      await server.close()
+
+      await expect(closed).resolves.toBeUndefined()
+      server = await startGameServer({ port: 0 })
+    })
+
+    it("can watch a game in progress without seeing any hand", async () => {
+      const { alice } = await startTwoPlayerGame("table-1")
+      const eve = await spectate("table-1", "Eve")
+
+      const view = await eve.waitForSnapshot((m) => m.state === "playerTurn")
+
+      expect(view.context.players).toHaveLength(2)
+      expect(view.context.players.every((p) => p.handHidden)).toBe(true)
+      expect(view.context.players[0].handCount).toBe(7)
+      expect(view.context.viewerId).toBeNull()
+      const aliceView = await alice.waitForSnapshot(
+        (m) => m.spectators.length === 1
+      )
+      expect(aliceView.spectators).toEqual(["Eve"])
+    })
+
+    it("sees every hand when the table allows it", async () => {
+      const alice = await join("table-1", "alice", "Alice")
+      const bob = await join("table-1", "bob", "Bob")
+      await bob.waitForSnapshot((m) => m.context.players.length === 2)
+      alice.client.send({
+        type: "SET_RULES",
+        rules: { spectatorsSeeHands: true },
+      })
+      alice.client.send({ type: "START_GAME" })
+      await alice.waitForSnapshot((m) => m.state === "playerTurn")
+
+      const eve = await spectate("table-1", "Eve")
+      const view = await eve.waitForSnapshot((m) => m.state === "playerTurn")
+
+      expect(view.context.players[0].hand).toHaveLength(7)
+      expect(view.context.players[1].hand).toHaveLength(7)
+      expect(view.context).not.toHaveProperty("deck")
+      expect(view.context.seed).toBeNull()
+    })
+
+    it("cannot send game events", async () => {
+      const { dealt } = await startTwoPlayerGame("table-1")
+      const eve = await spectate("table-1", "Eve")
+      await eve.waitForSnapshot((m) => m.state === "playerTurn")
+
+      eve.client.send({ type: "END_GAME" })
+
+      const rejection = await eve.waitForRejection()
+      expect(rejection.reason).toBe("Spectators cannot act")
+      expect(server.getGame("table-1")?.getSnapshot().value).toBe(dealt.state)
+    })
+
+    it("can only watch a game that exists", async () => {
+      const eve = await spectate("table-9", "Eve")
+
+      const error = await eve.waitFor(
+        (m): m is Extract<ServerMessage, { type: "ERROR" }> =>
+          m.type === "ERROR"
+      )
+      expect(error.message).toBe("No such game")
+      expect(server.getGame("table-9")).toBeUndefined()
+    })
+  })
+
+  it("does not seat new players once the game has started", async () => {
+    await startTwoPlayerGame("table-1")
+    const late: TestClient = await join("table-1", "dave", "Dave")
+
+    const error = await late.waitFor(
+      (m): m is Extract<ServerMessage, { type: "ERROR" }> => m.type === "ERROR"
+    )
+    expect(error.message).toBe("Game already started")
+  })
+})
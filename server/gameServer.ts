@@ -0,0 +1,413 @@
+/**
+ * Multiplayer Game Server
+ *
+ * Hosts one authoritative cardGameMachine actor per gameId. Clients send
+ * GameEvents over WebSocket; the server checks who sent them, lets the
+ * machine's own guards decide whether they are legal, and broadcasts every
+ * new snapshot to the players seated in that game, each projected down to
+ * what that player may see. Spectators can watch a game in any state but
+ * never send events. Each seat belongs to one open socket at a time, and
+ * after a dropped connection only the player's private reconnect token wins
+ * it back. A malformed message is turned away before it reaches the machine,
+ * and so is an event the machine throws on when it is tried out first, so one
+ * bad client cannot take down a game or the server.
+ */
+
+import { randomUUID } from "node:crypto"
+import { createActor, transition, type Actor, type Snapshot } from "xstate"
+import { WebSocketServer, type WebSocket } from "ws"
+import { v4 as uuidv4 } from "uuid"
+import { cardGameMachine } from "../src/machines/cardGameMachine"
+import type { GameContext, GameEvent, GameState } from "../src/types/game"
+import type { ClientMessage, ServerMessage } from "../src/types/protocol"
+import {
+  projectContextForPlayer,
+  projectContextForSpectator,
+} from "../src/utils/viewUtils"
+import { parseClientMessage } from "./messages"
+
+// Events only the machine itself may send
+const INTERNAL_EVENTS: GameEvent["type"][] = [
+  "ROUND_TIMEOUT",
+  "TURN_TIMEOUT",
+  "CARDS_DEALT",
+  "TURN_COMPLETED",
+  "SCORES_CALCULATED",
+]
+
+interface HostedGame {
+  gameId: string
+  actor: Actor<typeof cardGameMachine>
+  seats: Map<WebSocket, string> // socket -> playerId
+  spectators: Map<WebSocket, string> // socket -> spectator name
+  reconnectTokens: Map<string, string> // playerId -> token
+  lastSent: Map<WebSocket, string> // socket -> last snapshot it was sent
+}
+
+export interface GameServer {
+  port: number
+  getGame: (gameId: string) => Actor<typeof cardGameMachine> | undefined
+  close: () => Promise<void>
+}
+
+interface GameServerOptions {
+  port?: number // 0 picks a free port, which is what tests use
+}
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message))
+  }
+}
+
+// Check that a seated player is allowed to send this event at all; the
+// machine guards then decide whether it is legal right now. Returns the
+// reason for rejecting it, or null if it may go through.
+export const authorizeEvent = (
+  context: GameContext,
+  playerId: string,
+  event: GameEvent
+): string | null => {
+  if (INTERNAL_EVENTS.includes(event.type)) {
+    return `${event.type} is controlled by the server`
+  }
+
+  // Humans take a seat with JOIN_GAME; PLAYER_JOIN is only for adding bots
+  if (event.type === "PLAYER_JOIN") {
+    return event.kind === "bot" ? null : "Use JOIN_GAME to take a seat"
+  }
+
+  // A client that picked the seed would know every hand and the deck order,
+  // so online games are always dealt with one the machine generates
+  if (
+    (event.type === "START_GAME" || event.type === "NEXT_ROUND") &&
+    event.seed !== undefined
+  ) {
+    return "The server chooses the seed"
+  }
+
+  // Timed-out auto-plays come from the machine's shot clock
+  if (event.type === "AUTO_PLAY" && event.timedOut) {
+    return "Timeouts are controlled by the server"
+  }
+
+  if ("playerId" in event && event.playerId !== playerId) {
+    return "Cannot act on behalf of another player"
+  }
+
+  if (event.type === "SKIP_TURN" || event.type === "END_GAME") {
+    const currentPlayer = context.players[context.currentPlayerIndex]
+    if (currentPlayer?.id !== playerId) {
+      return "Only the current player can do that"
+    }
+  }
+
+  return null
+}
+
+export const startGameServer = ({
+  port = 0,
+}: GameServerOptions = {}): Promise<GameServer> => {
+  const games = new Map<string, HostedGame>()
+  const socketGames = new Map<WebSocket, HostedGame>()
+  const wss = new WebSocketServer({ port })
+
+  // The clock wakes the actor far more often than anything a client can see
+  // changes, so a socket is only sent a snapshot that differs from its last
+  const sendSnapshot = (
+    game: HostedGame,
+    socket: WebSocket,
+    message: Extract<ServerMessage, { type: "SNAPSHOT" }>
+  ) => {
+    const data = JSON.stringify(message)
+    if (game.lastSent.get(socket) === data) return
+
+    game.lastSent.set(socket, data)
+    if (socket.readyState === socket.OPEN) socket.send(data)
+  }
+
+  const broadcast = (game: HostedGame) => {
+    const snapshot = game.actor.getSnapshot()
+    const spectators = [...game.spectators.values()]
+    game.seats.forEach((playerId, socket) =>
+      sendSnapshot(game, socket, {
+        type: "SNAPSHOT",
+        gameId: game.gameId,
+        state: snapshot.value as GameState,
+        context: projectContextForPlayer(snapshot.context, playerId),
+        spectators,
+      })
+    )
+
+    const spectatorView = projectContextForSpectator(snapshot.context)
+    game.spectators.forEach((_name, socket) =>
+      sendSnapshot(game, socket, {
+        type: "SNAPSHOT",
+        gameId: game.gameId,
+        state: snapshot.value as GameState,
+        context: spectatorView,
+        spectators,
+      })
+    )
+  }
+
+  // The machine runs its own round clock, so the server only relays events.
+  // A restored actor picks up from the given snapshot.
+  const startActor = (game: HostedGame, snapshot?: Snapshot<unknown>) => {
+    const actor = createActor(cardGameMachine, { snapshot })
+    actor.subscribe({
+      next: () => broadcast(game),
+      // Without an error listener XState rethrows, which would end the process
+      error: (error) => console.error(`Game ${game.gameId} failed:`, error),
+    })
+    // Set before starting, as starting broadcasts the first snapshot
+    game.actor = actor
+    actor.start()
+  }
+
+  // Work out the event's transition without running it on the live actor, so
+  // one the machine's guards or assigns throw on never stops the game or
+  // loses the delays it is waiting on
+  const canApply = (game: HostedGame, event: GameEvent): boolean => {
+    try {
+      const [next] = transition(
+        cardGameMachine,
+        game.actor.getSnapshot(),
+        event
+      )
+      return next.status !== "error"
+    } catch {
+      return false
+    }
+  }
+
+  const createGame = (gameId: string): HostedGame => {
+    const game = {
+      gameId,
+      seats: new Map(),
+      spectators: new Map(),
+      reconnectTokens: new Map(),
+      lastSent: new Map(),
+    } as HostedGame
+    startActor(game)
+    games.set(gameId, game)
+    return game
+  }
+
+  const disposeGame = (game: HostedGame) => {
+    game.actor.stop()
+    games.delete(game.gameId)
+  }
+
+  const handleJoin = (
+    socket: WebSocket,
+    message: Extract<ClientMessage, { type: "JOIN_GAME" }>
+  ) => {
+    if (socketGames.has(socket)) {
+      send(socket, { type: "ERROR", message: "Already joined a game" })
+      return
+    }
+
+    const game = games.get(message.gameId) ?? createGame(message.gameId)
+    const snapshot = game.actor.getSnapshot()
+    const seat = snapshot.context.players.find(
+      (player) => player.id === message.playerId
+    )
+    const isSeated = seat !== undefined
+
+    // Bots are driven by the machine, so nobody can reconnect as one
+    if (seat?.kind === "bot") {
+      send(socket, { type: "ERROR", message: "That seat belongs to a bot" })
+      return
+    }
+
+    // Every player id is visible to the whole table, so a seated player only
+    // gets their seat back with the token they were given on first joining
+    if (isSeated) {
+      if ([...game.seats.values()].includes(message.playerId)) {
+        send(socket, { type: "ERROR", message: "That seat is taken" })
+        return
+      }
+      const token = game.reconnectTokens.get(message.playerId)
+      if (!token || message.reconnectToken !== token) {
+        send(socket, { type: "ERROR", message: "Invalid reconnect token" })
+        return
+      }
+    } else {
+      // Unknown players can only take a seat while the lobby is open
+      if (!snapshot.matches("lobby")) {
+        send(socket, { type: "ERROR", message: "Game already started" })
+        return
+      }
+      if (
+        snapshot.context.players.length >= snapshot.context.rules.maxPlayers
+      ) {
+        send(socket, { type: "ERROR", message: "Game is full" })
+        return
+      }
+    }
+
+    game.seats.set(socket, message.playerId)
+    socketGames.set(socket, game)
+
+    if (isSeated) {
+      broadcast(game)
+    } else {
+      // A secret, so drawn from the system's CSPRNG
+      const reconnectToken = randomUUID()
+      game.reconnectTokens.set(message.playerId, reconnectToken)
+      send(socket, {
+        type: "JOINED",
+        gameId: game.gameId,
+        playerId: message.playerId,
+        reconnectToken,
+      })
+      game.actor.send({
+        type: "PLAYER_JOIN",
+        playerId: message.playerId,
+        playerName: message.playerName,
+      })
+    }
+  }
+
+  // Spectators can watch a game in any state, but only one that exists
+  const handleSpectate = (
+    socket: WebSocket,
+    message: Extract<ClientMessage, { type: "SPECTATE_GAME" }>
+  ) => {
+    if (socketGames.has(socket)) {
+      send(socket, { type: "ERROR", message: "Already joined a game" })
+      return
+    }
+
+    const game = games.get(message.gameId)
+    if (!game) {
+      send(socket, { type: "ERROR", message: "No such game" })
+      return
+    }
+
+    game.spectators.set(socket, message.spectatorName)
+    socketGames.set(socket, game)
+    broadcast(game)
+  }
+
+  const handleEvent = (socket: WebSocket, event: GameEvent) => {
+    const game = socketGames.get(socket)
+    if (game?.spectators.has(socket)) {
+      send(socket, {
+        type: "EVENT_REJECTED",
+        event,
+        reason: "Spectators cannot act",
+      })
+      return
+    }
+
+    const playerId = game?.seats.get(socket)
+    if (!game || !playerId) {
+      send(socket, { type: "ERROR", message: "Join a game first" })
+      return
+    }
+
+    const before = game.actor.getSnapshot()
+    const reason = authorizeEvent(before.context, playerId, event)
+    if (reason) {
+      send(socket, { type: "EVENT_REJECTED", event, reason })
+      return
+    }
+
+    // Bots get their ids from the server, so a client cannot pick one that
+    // would let it act for the bot
+    const accepted: GameEvent =
+      event.type === "PLAYER_JOIN"
+        ? { ...event, playerId: `bot-${uuidv4()}` }
+        : event
+
+    if (!canApply(game, accepted)) {
+      send(socket, {
+        type: "EVENT_REJECTED",
+        event,
+        reason: "Event could not be applied",
+      })
+      return
+    }
+
+    const persisted = game.actor.getPersistedSnapshot()
+    game.actor.send(accepted)
+
+    // The dry run does not run the machine's own actions; should one of those
+    // still fail and stop the actor, carry on from the state before the event
+    if (game.actor.getSnapshot().status === "error") {
+      startActor(game, persisted)
+      send(socket, {
+        type: "EVENT_REJECTED",
+        event,
+        reason: "Event could not be applied",
+      })
+      return
+    }
+
+    // The machine leaves its snapshot untouched when a guard blocks an event
+    if (game.actor.getSnapshot() === before) {
+      send(socket, {
+        type: "EVENT_REJECTED",
+        event,
+        reason: "Event is not allowed right now",
+      })
+    }
+  }
+
+  wss.on("connection", (socket) => {
+    socket.on("message", (data) => {
+      const message = parseClientMessage(data.toString())
+
+      switch (message?.type) {
+        case "JOIN_GAME":
+          handleJoin(socket, message)
+          break
+        case "SPECTATE_GAME":
+          handleSpectate(socket, message)
+          break
+        case "GAME_EVENT":
+          handleEvent(socket, message.event)
+          break
+        default:
+          send(socket, { type: "ERROR", message: "Malformed message" })
+      }
+    })
+
+    socket.on("close", () => {
+      const game = socketGames.get(socket)
+      if (!game) return
+
+      socketGames.delete(socket)
+      game.lastSent.delete(socket)
+      game.seats.delete(socket)
+      const wasSpectating = game.spectators.delete(socket)
+
+      // Seats stay in the machine so players can reconnect; the game itself
+      // goes away once nobody is connected
+      if (game.seats.size === 0 && game.spectators.size === 0) {
+        disposeGame(game)
+      } else if (wasSpectating) {
+        broadcast(game)
+      }
+    })
+  })
+
+  return new Promise((resolve, reject) => {
+    wss.once("error", reject)
+    wss.once("listening", () => {
+      const address = wss.address()
+      resolve({
+        port: address && typeof address === "object" ? address.port : port,
+        getGame: (gameId) => games.get(gameId)?.actor,
+        close: () =>
+          new Promise<void>((resolveClose) => {
+            games.forEach(disposeGame)
+            wss.clients.forEach((client) => client.terminate())
+            wss.close(() => resolveClose())
+          }),
+      })
+    })
+  })
+}
@@ -0,0 +1,11 @@
+import { startGameServer } from "./gameServer"
+
+const port = Number(process.env.PORT ?? 8080)
+
+startGameServer({ port }).then((server) => {
+  console.log(`Card game server listening on ws://localhost:${server.port}`)
+
+  process.on("SIGINT", () => {
+    server.close().then(() => process.exit(0))
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Client Message Validation
+ *
+ * Everything a client sends arrives as untrusted JSON. These checks make sure
+ * a message has the shape its type promises before the server reads it or
+ * hands the event to the machine, whose guards and actions assume well-formed
+ * events and would throw on missing fields.
+ */
+
+import type { GameEvent } from "../src/types/game"
+import type { ClientMessage } from "../src/types/protocol"
+import { botStrategies } from "../src/utils/botStrategies"
+import { isDeclarableValue } from "../src/utils/cardUtils"
+
+type Fields = Record<string, unknown>
+
+const isRecord = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isString = (value: unknown): value is string => typeof value === "string"
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || check(value)
+
+// The fields the machine reads from a card; whether the player actually holds
+// it is left to the machine's guards
+const isCard = (value: unknown): boolean =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.suit) &&
+  isString(value.value) &&
+  typeof value.points === "number" &&
+  isOptional(value.declaredValue, isDeclarableValue)
+
+const hasPlayerId = (event: Fields) => isString(event.playerId)
+
+const hasCardId = (event: Fields) =>
+  isString(event.cardId) && isString(event.playerId)
+
+const hasNoFields = () => true
+
+// One check per event type. Keyed by every GameEvent type, so a new event
+// does not compile until it says what it carries.
+const eventShapes: Record<GameEvent["type"], (event: Fields) => boolean> = {
+  PLAYER_JOIN: (event) =>
+    isString(event.playerId) &&
+    isString(event.playerName) &&
+    isOptional(event.kind, (kind) => kind === "human" || kind === "bot") &&
+    isOptional(
+      event.botStrategy,
+      (strategy) => isString(strategy) && Object.hasOwn(botStrategies, strategy)
+    ),
+  SET_RULES: (event) => isRecord(event.rules),
+  SET_MATCH: (event) => isRecord(event.settings),
+  START_GAME: (event) => isOptional(event.seed, Number.isInteger),
+  CARDS_DEALT: hasNoFields,
+  CARD_SELECTED: hasCardId,
+  CARD_DESELECTED: hasCardId,
+  DECLARE_JOKER: (event) =>
+    hasCardId(event) &&
+    (event.value === null || isDeclarableValue(event.value)),
+  PLAY_CARDS: (event) =>
+    Array.isArray(event.cards) &&
+    event.cards.every(isCard) &&
+    hasPlayerId(event),
+  AUTO_PLAY: (event) =>
+    isCard(event.card) &&
+    hasPlayerId(event) &&
+    isOptional(event.timedOut, (timedOut) => typeof timedOut === "boolean"),
+  INTERRUPT: (event) => isCard(event.card) && hasPlayerId(event),
+  DRAW_CARD: hasPlayerId,
+  SKIP_TURN: hasNoFields,
+  TURN_COMPLETED: (event) => isString(event.nextPlayerId),
+  ROUND_TIMEOUT: hasNoFields,
+  TURN_TIMEOUT: hasNoFields,
+  END_GAME: hasNoFields,
+  PAUSE: hasNoFields,
+  RESUME: hasNoFields,
+  UNDO: hasPlayerId,
+  REQUEST_HINT: hasPlayerId,
+  SCORES_CALCULATED: (event) => Array.isArray(event.finalScores),
+  NEXT_ROUND: (event) => isOptional(event.seed, Number.isInteger),
+  RESTART_GAME: hasNoFields,
+  LEAVE_GAME: hasPlayerId,
+}
+
+export const isGameEvent = (value: unknown): value is GameEvent =>
+  isRecord(value) &&
+  isString(value.type) &&
+  Object.hasOwn(eventShapes, value.type) &&
+  eventShapes[value.type as GameEvent["type"]](value)
+
+// Parse a raw message, or null if it is not JSON or not a well-formed
+// ClientMessage
+export const parseClientMessage = (data: string): ClientMessage | null => {
+  let message: unknown
+  try {
+    message = JSON.parse(data)
+  } catch {
+    return null
+  }
+  if (!isRecord(message)) return null
+
+  switch (message.type) {
+    case "JOIN_GAME":
+      return isString(message.gameId) &&
+        isString(message.playerId) &&
+        isString(message.playerName) &&
+        isOptional(message.reconnectToken, isString)
+        ? (message as ClientMessage)
+        : null
+    case "SPECTATE_GAME":
+      return isString(message.gameId) && isString(message.spectatorName)
+        ? (message as ClientMessage)
+        : null
+    case "GAME_EVENT":
+      return isGameEvent(message.event) ? (message as ClientMessage) : null
+    default:
+      return null
+  }
+}
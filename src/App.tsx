@@ -1,6 +1,19 @@
+import { useState } from "react"
 import GameBoard from "./components/GameBoard"
+import SpectateGame from "./components/SpectateGame"
+
+type AppMode = "play" | "watch"
+
+const modes: { mode: AppMode; label: string }[] = [
+  { mode: "play", label: "🎮 Play" },
+  { mode: "watch", label: "👀 Watch a Game" },
+]
 
 function App() {
+  // Playing runs the game in this browser; watching follows one on the
+  // multiplayer server
+  const [mode, setMode] = useState<AppMode>("play")
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-500 via-purple-600 to-pink-500">
       {/* Main App Container */}
@@ -17,6 +30,22 @@ function App() {
                   Real-time Card Game
                 </h1>
               </div>
+              <nav className="flex items-center gap-2" aria-label="Mode">
+                {modes.map(({ mode: option, label }) => (
+                  <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    aria-pressed={mode === option}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-bold transition-all duration-200 ${
+                      mode === option
+                        ? "bg-white text-purple-700"
+                        : "bg-white/10 text-white hover:bg-white/20"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </nav>
               <div className="text-white/80 text-sm">
                 Built with React & XState
               </div>
@@ -27,7 +56,7 @@ function App() {
         {/* Main Content Area */}
         <main className="flex-1 flex flex-col">
           <div className="flex-1 container mx-auto px-4 py-6">
-            <GameBoard />
+            {mode === "play" ? <GameBoard /> : <SpectateGame />}
           </div>
         </main>
 
@@ -1,15 +1,25 @@
 import React, { memo, useMemo } from "react"
-import type { GameContext } from "../types/game"
-import { getValidCards } from "../utils/cardUtils"
+import type { GameContext, GameContextView } from "../types/game"
+import {
+  canDrawCard,
+  enumerateLegalPlays,
+  getCardName,
+} from "../utils/cardUtils"
+import { formatRoundDuration } from "../utils/gameRules"
+import { describePowerEffect } from "../utils/powerCards"
 
 interface ActionIndicatorProps {
-  context: GameContext
+  context: GameContext | GameContextView // boards pass the viewer's view
   currentState: string
+  playKey?: string // label of the key bound to play
+  pauseKey?: string // label of the key bound to pause and resume
 }
 
 const ActionIndicator: React.FC<ActionIndicatorProps> = ({
   context,
   currentState,
+  playKey = "SPACE",
+  pauseKey = "P",
 }) => {
   const action = useMemo(() => {
     if (currentState === "lobby") {
@@ -39,6 +49,34 @@ const ActionIndicator: React.FC<ActionIndicatorProps> = ({
       }
     }
 
+    if (currentState === "interrupting" && context.pendingInterrupt) {
+      const { playerId, card, contenderIds } = context.pendingInterrupt
+      const nameOf = (id: string) =>
+        context.players.find((player) => player.id === id)?.name ?? id
+      const beaten =
+        contenderIds.length > 0
+          ? ` ${contenderIds.map(nameOf).join(" and ")} ${
+              contenderIds.length > 1 ? "were" : "was"
+            } beaten to it.`
+          : ""
+
+      return {
+        type: "interrupt",
+        message: `${nameOf(playerId)} slammed the ${getCardName(card)} out of turn!${beaten}`,
+        icon: "⚡",
+        color: "bg-fuchsia-100 text-fuchsia-800 border-fuchsia-200",
+      }
+    }
+
+    if (currentState === "paused") {
+      return {
+        type: "paused",
+        message: `Game paused - press ${pauseKey} or click Resume to carry on`,
+        icon: "⏸️",
+        color: "bg-slate-100 text-slate-800 border-slate-200",
+      }
+    }
+
     if (currentState === "gameEnding") {
       // Show detailed message based on why the game ended
       const endReason = context.gameEndReason
@@ -48,8 +86,9 @@ const ActionIndicator: React.FC<ActionIndicatorProps> = ({
 
       switch (endReason) {
         case "timer_expired":
-          message =
-            "⏰ Time's up! Game ended after 3 minutes. Calculating final scores..."
+          message = `⏰ Time's up! Game ended after ${formatRoundDuration(
+            context.rules.roundDurationSeconds
+          )}. Calculating final scores...`
           icon = "⏰"
           break
         case "no_valid_moves":
@@ -102,7 +141,21 @@ const ActionIndicator: React.FC<ActionIndicatorProps> = ({
         }
       }
 
-      const validCards = getValidCards(currentPlayer.hand, topDiscardCard)
+      // Spectators who cannot see the hand only learn whose turn it is
+      if ("handHidden" in currentPlayer && currentPlayer.handHidden) {
+        return {
+          type: "watching",
+          message: `${currentPlayer.name} is taking their turn`,
+          icon: "👀",
+          color: "bg-indigo-100 text-indigo-800 border-indigo-200",
+        }
+      }
+
+      const legalPlays = enumerateLegalPlays(
+        currentPlayer.hand,
+        topDiscardCard,
+        context.rules
+      )
       const hasSelectedCards = context.selectedCards.length > 0
 
       // Player has selected cards
@@ -111,14 +164,14 @@ const ActionIndicator: React.FC<ActionIndicatorProps> = ({
           type: "selection",
           message: `${context.selectedCards.length} card${
             context.selectedCards.length > 1 ? "s" : ""
-          } selected - Press SPACE or click Play button`,
+          } selected - Press ${playKey} or click Play button`,
           icon: "🎯",
           color: "bg-blue-100 text-blue-800 border-blue-200",
         }
       }
 
       // Single cards and no-move scenarios are handled instantly
-      if (validCards.length === 1) {
+      if (legalPlays.length === 1 && legalPlays[0].length === 1) {
         return {
           type: "auto-play",
           message: `Auto-playing ${currentPlayer.name}'s only valid card...`,
@@ -127,7 +180,24 @@ const ActionIndicator: React.FC<ActionIndicatorProps> = ({
         }
       }
 
-      if (validCards.length === 0) {
+      if (
+        legalPlays.length === 0 &&
+        context.rules.forcedDrawBeforeSkip &&
+        !context.hasDrawnThisTurn &&
+        // Views carry a deck count instead of the deck
+        ("deck" in context
+          ? canDrawCard(context.deck, context.discardPile)
+          : context.deckCount > 0 || context.discardPile.length > 1)
+      ) {
+        return {
+          type: "auto-draw",
+          message: `${currentPlayer.name} has no valid moves - drawing a card...`,
+          icon: "📥",
+          color: "bg-amber-100 text-amber-800 border-amber-200",
+        }
+      }
+
+      if (legalPlays.length === 0) {
         return {
           type: "auto-skip",
           message: `${currentPlayer.name} has no valid moves - skipping turn...`,
@@ -136,10 +206,12 @@ const ActionIndicator: React.FC<ActionIndicatorProps> = ({
         }
       }
 
-      // Multiple valid cards
+      // Several legal plays, or a single combination to pick out
       return {
         type: "multiple-cards",
-        message: `${currentPlayer.name} has ${validCards.length} valid cards - click to select and play`,
+        message: `${currentPlayer.name} has ${legalPlays.length} legal play${
+          legalPlays.length > 1 ? "s" : ""
+        } - click to select and play`,
         icon: "🃏",
         color: "bg-indigo-100 text-indigo-800 border-indigo-200",
       }
@@ -151,11 +223,10 @@ const ActionIndicator: React.FC<ActionIndicatorProps> = ({
       icon: "❓",
       color: "bg-gray-100 text-gray-800 border-gray-200",
     }
-  }, [context, currentState])
+  }, [context, currentState, playKey, pauseKey])
 
   return (
     <div
-      role="alert"
       className={`flex items-center gap-3 px-4 py-3 rounded-lg border-2 ${action.color} transition-all duration-300`}
     >
       <div className="text-2xl" role="img" aria-label={action.type}>
@@ -166,8 +237,24 @@ const ActionIndicator: React.FC<ActionIndicatorProps> = ({
           {action.type.replace("-", " ")}
         </div>
         <div className="font-medium">{action.message}</div>
+        {context.powerEffect && (
+          <div className="text-sm mt-1" data-testid="power-effect">
+            ⚡ {describePowerEffect(context.powerEffect)}
+          </div>
+        )}
       </div>
-      {(action.type === "auto-play" || action.type === "auto-skip") && (
+      {currentState === "playerTurn" &&
+        context.rules.turnDurationSeconds !== null && (
+          <div
+            className="font-bold text-lg tabular-nums"
+            data-testid="turn-timer"
+          >
+            ⏱️ {context.turnTimer}s
+          </div>
+        )}
+      {(action.type === "auto-play" ||
+        action.type === "auto-skip" ||
+        action.type === "auto-draw") && (
         <div className="flex items-center gap-1">
           <div className="w-2 h-2 bg-current rounded-full animate-pulse"></div>
           <div
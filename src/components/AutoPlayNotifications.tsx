@@ -1,6 +1,42 @@
 import React, { memo, useMemo } from "react"
 import type { AutoPlayNotification } from "../types/game"
 
+const notificationStyles: Record<
+  AutoPlayNotification["type"],
+  { title: string; icon: string; color: string }
+> = {
+  "auto-play": {
+    title: "Auto-Played",
+    icon: "🤖",
+    color: "bg-green-100 text-green-800 border-green-200",
+  },
+  "auto-skip": {
+    title: "Auto-Skipped",
+    icon: "⏭️",
+    color: "bg-orange-100 text-orange-800 border-orange-200",
+  },
+  "auto-draw": {
+    title: "Auto-Drew",
+    icon: "📥",
+    color: "bg-amber-100 text-amber-800 border-amber-200",
+  },
+  timeout: {
+    title: "Out of Time",
+    icon: "⏱️",
+    color: "bg-red-100 text-red-800 border-red-200",
+  },
+  undo: {
+    title: "Undone",
+    icon: "↩️",
+    color: "bg-sky-100 text-sky-800 border-sky-200",
+  },
+  interrupt: {
+    title: "Interrupt!",
+    icon: "⚡",
+    color: "bg-fuchsia-100 text-fuchsia-800 border-fuchsia-200",
+  },
+}
+
 interface AutoPlayNotificationsProps {
   notifications: AutoPlayNotification[]
   maxVisible?: number
@@ -27,22 +63,16 @@ const AutoPlayNotifications: React.FC<AutoPlayNotificationsProps> = ({
           className={`
             flex items-center gap-3 px-4 py-3 rounded-lg shadow-lg border-2 
             transform transition-all duration-500 ease-in-out
-            ${
-              notification.type === "auto-play"
-                ? "bg-green-100 text-green-800 border-green-200"
-                : "bg-orange-100 text-orange-800 border-orange-200"
-            }
+            ${notificationStyles[notification.type].color}
             animate-slide-in-right
           `}
         >
           <div className="text-xl">
-            {notification.type === "auto-play" ? "🤖" : "⏭️"}
+            {notificationStyles[notification.type].icon}
           </div>
           <div className="flex-1 min-w-0">
             <div className="font-semibold text-sm">
-              {notification.type === "auto-play"
-                ? "Auto-Played"
-                : "Auto-Skipped"}
+              {notificationStyles[notification.type].title}
             </div>
             <div className="text-sm">
               {notification.type === "auto-play" && notification.card ? (
@@ -55,8 +85,51 @@ const AutoPlayNotifications: React.FC<AutoPlayNotificationsProps> = ({
                     {notification.card.suit === "diamonds" && "♦"}
                     {notification.card.suit === "clubs" && "♣"}
                     {notification.card.suit === "spades" && "♠"}
+                    {notification.card.suit === "joker" && "🃏"}
                   </span>
                 </>
+              ) : notification.type === "auto-draw" ? (
+                <>
+                  <span className="font-medium">{notification.playerName}</span>{" "}
+                  drew a card from the deck
+                </>
+              ) : notification.type === "timeout" ? (
+                <>
+                  <span className="font-medium">{notification.playerName}</span>{" "}
+                  ran out of time
+                  {notification.card && (
+                    <>
+                      {" "}
+                      and played{" "}
+                      <span className="font-bold">
+                        {notification.card.value}
+                        {notification.card.suit === "hearts" && "♥"}
+                        {notification.card.suit === "diamonds" && "♦"}
+                        {notification.card.suit === "clubs" && "♣"}
+                        {notification.card.suit === "spades" && "♠"}
+                        {notification.card.suit === "joker" && "🃏"}
+                      </span>
+                    </>
+                  )}
+                </>
+              ) : notification.type === "undo" ? (
+                <>
+                  <span className="font-medium">{notification.playerName}</span>{" "}
+                  took back their last play
+                </>
+              ) : notification.type === "interrupt" && notification.card ? (
+                <>
+                  <span className="font-medium">{notification.playerName}</span>{" "}
+                  slammed{" "}
+                  <span className="font-bold">
+                    {notification.card.value}
+                    {notification.card.suit === "hearts" && "♥"}
+                    {notification.card.suit === "diamonds" && "♦"}
+                    {notification.card.suit === "clubs" && "♣"}
+                    {notification.card.suit === "spades" && "♠"}
+                  </span>{" "}
+                  out of turn
+                </>
               ) : (
                 <>
                   <span className="font-medium">{notification.playerName}</span>{" "}
@@ -1,11 +1,14 @@
-import React, { memo, useMemo } from "react"
+import React, { memo, useEffect, useMemo, useRef } from "react"
 import type { Card as CardType } from "../types/game"
+import { getCardName, isJoker } from "../utils/cardUtils"
 
 interface CardProps {
   card: CardType
   isSelected?: boolean
   isValid?: boolean
   canInteract?: boolean
+  isFocused?: boolean // the keyboard cursor is on this card
+  isOption?: boolean // one of the choices in a hand listbox
   onClick?: () => void
   size?: "small" | "medium" | "large"
 }
@@ -15,9 +18,18 @@ const CardComponent: React.FC<CardProps> = ({
   isSelected = false,
   isValid = false,
   canInteract = false,
+  isFocused = false,
+  isOption = false,
   onClick,
   size = "medium",
 }) => {
+  const cardRef = useRef<HTMLDivElement>(null)
+
+  // Keyboard play moves real focus, so the browser scrolls to the card
+  useEffect(() => {
+    if (isFocused && canInteract) cardRef.current?.focus()
+  }, [isFocused, canInteract])
+
   const suitSymbol = useMemo(() => {
     switch (card.suit) {
       case "hearts":
@@ -28,12 +40,15 @@ const CardComponent: React.FC<CardProps> = ({
         return "♣"
       case "spades":
         return "♠"
+      case "joker":
+        return "🃏"
       default:
         return ""
     }
   }, [card.suit])
 
   const suitColor = useMemo(() => {
+    if (card.suit === "joker") return "text-purple-700"
     return card.suit === "hearts" || card.suit === "diamonds"
       ? "text-red-600"
       : "text-gray-800"
@@ -82,6 +97,10 @@ const CardComponent: React.FC<CardProps> = ({
       classes += " cursor-pointer hover:-translate-y-1 hover:shadow-lg"
     }
 
+    if (isFocused && canInteract) {
+      classes += " ring-4 ring-yellow-400"
+    }
+
     if (isSelected) {
       classes +=
         " border-blue-500 bg-blue-50 -translate-y-2 shadow-lg shadow-blue-500/40"
@@ -92,17 +111,38 @@ const CardComponent: React.FC<CardProps> = ({
     return classes
   }
 
+  // Read out as "7 of hearts, playable, selected"; the corner symbols are
+  // hidden so the card is not spelled out a second time
+  const label = [
+    getCardName(card),
+    isValid && "playable",
+    isSelected && "selected",
+  ]
+    .filter(Boolean)
+    .join(", ")
+
   return (
     <div
+      ref={cardRef}
       className={getCardClasses()}
       onClick={canInteract ? onClick : undefined}
-      role={canInteract ? "button" : undefined}
+      role={isOption ? "option" : canInteract ? "button" : "img"}
+      aria-label={label}
+      aria-selected={isOption ? isSelected : undefined}
+      aria-disabled={isOption && !canInteract ? true : undefined}
       tabIndex={canInteract ? 0 : undefined}
     >
-      <div className="flex flex-col items-center gap-0.5">
-        <div className={`${getTextSizeClasses().value} font-bold`}>
-          {card.value}
-        </div>
+      <div className="flex flex-col items-center gap-0.5" aria-hidden="true">
+        {isJoker(card) ? (
+          // A played joker shows the value it stands for
+          <div className={`${getTextSizeClasses().points} font-bold`}>
+            {card.declaredValue ? `= ${card.declaredValue}` : "JOKER"}
+          </div>
+        ) : (
+          <div className={`${getTextSizeClasses().value} font-bold`}>
+            {card.value}
+          </div>
+        )}
         <div className={getTextSizeClasses().suit}>{suitSymbol}</div>
         <div className={`${getTextSizeClasses().points} opacity-70`}>
           {card.points}
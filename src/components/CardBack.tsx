@@ -0,0 +1,31 @@
+import React, { memo } from "react"
+
+interface CardBackProps {
+  size?: "small" | "medium" | "large"
+}
+
+// A face-down card, used for hands the viewer is not allowed to see
+const CardBack: React.FC<CardBackProps> = ({ size = "medium" }) => {
+  const getSizeClasses = () => {
+    switch (size) {
+      case "small":
+        return "w-12 h-16"
+      case "large":
+        return "w-20 h-28"
+      default:
+        return "w-15 h-21"
+    }
+  }
+
+  return (
+    <div
+      className={`${getSizeClasses()} bg-slate-700 border-2 border-slate-800 rounded-lg flex items-center justify-center text-white/40`}
+      data-testid="card-back"
+      aria-label="Face-down card"
+    >
+      🂠
+    </div>
+  )
+}
+
+export default memo(CardBack)
@@ -1,5 +1,6 @@
 import React from "react"
 import type { Card as CardType } from "../types/game"
+import { getPlayedValue, isJoker } from "../utils/cardUtils"
 import CardComponent from "./Card"
 
 interface DiscardPileProps {
@@ -34,12 +35,24 @@ const DiscardPile: React.FC<DiscardPileProps> = ({ discardPile, deckSize }) => {
         </div>
         <div className="mt-2 text-xs text-gray-600">
           <p className="mb-1">Cards in pile: {discardPile.length}</p>
-          {topCard && (
-            <p>
-              Play cards with value <strong>{topCard.value}</strong> or{" "}
-              <strong>next in sequence</strong>
+          {topCard && isJoker(topCard) && (
+            <p className="mb-1" data-testid="joker-declaration">
+              {topCard.declaredValue
+                ? `Joker played as ${topCard.declaredValue}`
+                : "Joker starts the pile"}
             </p>
           )}
+          {topCard &&
+            (isJoker(topCard) && !topCard.declaredValue ? (
+              <p>
+                Play <strong>any card</strong>
+              </p>
+            ) : (
+              <p>
+                Play cards with value <strong>{getPlayedValue(topCard)}</strong>{" "}
+                or <strong>next in sequence</strong>
+              </p>
+            ))}
         </div>
       </div>
     </div>
@@ -8,28 +8,77 @@
  * - Real-time game state management with XState
  * - Turn-based player interactions
  * - Card selection and batch playing
- * - Timer management and game ending
+ * - Timer display and game ending (the machine runs the round clock)
  * - Skip turn functionality
  * - Auto-play for single valid cards
+ * - Hidden hands: only the viewing player's cards are face up, with a
+ *   hand-over screen between human players sharing one device
+ * - Saves the game in progress to local storage and offers to resume it
+ * - Step-through replay of the finished game from its event log
+ * - Pause overlay, with P to pause and resume
+ * - Undo of the latest play on tables that allow it
+ * - Keyboard play (move, select, play, skip) with rebindable keys and a
+ *   help overlay
+ * - Screen-reader labels for cards and hands, and a live region that reads
+ *   out turns, auto-plays, timer warnings and the result
  *
  * @component
  */
 
-import React, { useEffect, useMemo, useCallback } from "react"
+import React, { useEffect, useMemo, useCallback, useRef, useState } from "react"
 
 import { useMachine } from "@xstate/react"
+import type { Snapshot } from "xstate"
 import { cardGameMachine } from "../machines/cardGameMachine"
-import type { GameContext, Player } from "../types/game"
-import { getValidCards } from "../utils/cardUtils"
+import type { CardValue, GameContext, Player } from "../types/game"
+import {
+  canDrawCard,
+  enumerateLegalPlays,
+  getCardName,
+  getValidCards,
+  hasLegalPlay,
+} from "../utils/cardUtils"
+import { getInterruptCards } from "../utils/interrupts"
+import { projectContextForPlayer } from "../utils/viewUtils"
+import { isMatchComplete } from "../utils/matchUtils"
+import {
+  clearSavedGame,
+  isResumableState,
+  loadSavedGame,
+  resumeRoundClock,
+  saveGame,
+  type GameStorage,
+  type PersistedGameSnapshot,
+  type SavedGame,
+} from "../utils/savedGame"
+import { canReplay } from "../utils/replay"
+import { getHint } from "../utils/hints"
+import { getAnnouncements, type AnnouncedState } from "../utils/announcements"
+import {
+  defaultKeyBindings,
+  findKeyAction,
+  formatKeyCode,
+  getCardIndexForKey,
+  loadKeyBindings,
+  saveKeyBindings,
+  type KeyBindings,
+} from "../utils/keyBindings"
 import PlayerHand from "./PlayerHand"
 import DiscardPile from "./DiscardPile"
 import GameTimer from "./GameTimer"
+import TurnTimer from "./TurnTimer"
 import GameStatus from "./GameStatus"
 import Lobby from "./Lobby"
 import GameOver from "./GameOver"
 import { RuleHelper } from "./RuleHelper"
 import ActionIndicator from "./ActionIndicator"
 import AutoPlayNotifications from "./AutoPlayNotifications"
+import HandoverScreen from "./HandoverScreen"
+import PauseOverlay from "./PauseOverlay"
+import KeyboardHelp from "./KeyboardHelp"
+import ReplayViewer from "./ReplayViewer"
+import LiveAnnouncer from "./LiveAnnouncer"
+import JokerPicker from "./JokerPicker"
 
 // Helper function to check if current player has valid moves
 const currentPlayerHasValidMoves = (context: GameContext): boolean => {
@@ -39,7 +88,7 @@ const currentPlayerHasValidMoves = (context: GameContext): boolean => {
   const currentPlayer = context.players[context.currentPlayerIndex]
   if (!currentPlayer) return true
 
-  return getValidCards(currentPlayer.hand, topDiscardCard).length > 0
+  return hasLegalPlay(currentPlayer.hand, topDiscardCard, context.rules)
 }
 
 // Helper function to check if any player has valid moves (for automatic game ending)
@@ -47,15 +96,142 @@ const hasAnyValidMoves = (context: GameContext): boolean => {
   const topDiscardCard = context.discardPile[context.discardPile.length - 1]
   if (!topDiscardCard) return true
 
-  return context.players.some(
-    (player: Player) => getValidCards(player.hand, topDiscardCard).length > 0
+  // Under the forced-draw rule a stuck player can still draw
+  const canDraw =
+    context.rules.forcedDrawBeforeSkip &&
+    canDrawCard(context.deck, context.discardPile)
+
+  if (canDraw) return true
+
+  return context.players.some((player: Player) =>
+    hasLegalPlay(player.hand, topDiscardCard, context.rules)
   )
 }
 
-const GameBoard: React.FC = () => {
-  const [state, send] = useMachine(cardGameMachine)
+// The human whose turn it is, if any
+const getCurrentHumanId = (context: GameContext): string | null => {
+  const currentPlayer = context.players[context.currentPlayerIndex]
+  return currentPlayer?.kind === "human" ? currentPlayer.id : null
+}
+
+interface GameSessionProps {
+  snapshot?: PersistedGameSnapshot
+  savedGame: SavedGame | null
+  onResumeGame: () => void
+  onDiscardSavedGame: () => void
+  onSaveGame: (snapshot: Snapshot<unknown>) => void
+  keyBindings: KeyBindings
+  onKeyBindingsChange: (bindings: KeyBindings) => void
+  onAnnounce: (message: string) => void
+}
+
+// Keys typed into a form field are text, not commands
+const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+
+// One game from lobby to restart; remounted with a stored snapshot to resume
+const GameSession: React.FC<GameSessionProps> = ({
+  snapshot,
+  savedGame,
+  onResumeGame,
+  onDiscardSavedGame,
+  onSaveGame,
+  keyBindings,
+  onKeyBindingsChange,
+  onAnnounce,
+}) => {
+  const [state, send, actorRef] = useMachine(cardGameMachine, {
+    snapshot: snapshot as Snapshot<unknown> | undefined,
+  })
   const { context } = state
 
+  // Hot-seat: the human who last confirmed they are holding the device. A
+  // resumed game starts with nobody confirmed, behind the hand-over screen.
+  const [viewerId, setViewerId] = useState<string | null>(() =>
+    snapshot ? null : getCurrentHumanId(context)
+  )
+  const [isReplaying, setIsReplaying] = useState(false)
+  const [isHelpOpen, setIsHelpOpen] = useState(false)
+  // Keyboard cursor within the hand being played
+  const [focusedCardIndex, setFocusedCardIndex] = useState(0)
+
+  const humanPlayers = context.players.filter(
+    (player) => player.kind === "human"
+  )
+  const isHotSeat = humanPlayers.length > 1
+  const currentHumanId = getCurrentHumanId(context)
+
+  const awaitingHandover =
+    isHotSeat &&
+    state.matches("playerTurn") &&
+    currentHumanId !== null &&
+    currentHumanId !== viewerId
+
+  // With a single human there is nobody to hide their hand from; while the
+  // device is being handed over nobody's hand is shown
+  const activeViewerId = isHotSeat
+    ? awaitingHandover
+      ? null
+      : viewerId
+    : (humanPlayers[0]?.id ?? null)
+
+  const view = useMemo(
+    () => projectContextForPlayer(context, activeViewerId),
+    [context, activeViewerId]
+  )
+
+  // The hand the keyboard plays: the current player's, while it is theirs
+  // to play and face up
+  const currentView = view.players[view.currentPlayerIndex]
+  const isKeyboardTurn =
+    state.matches("playerTurn") &&
+    currentView?.kind === "human" &&
+    !currentView.handHidden
+  const keyboardHand = useMemo(
+    () => (isKeyboardTurn ? currentView.hand : []),
+    [isKeyboardTurn, currentView]
+  )
+  // Worked out from what the player can see, for RuleHelper to reveal
+  const bestPlay = useMemo(
+    () =>
+      isKeyboardTurn
+        ? getHint(keyboardHand, view.discardPile, view.rules)
+        : null,
+    [isKeyboardTurn, keyboardHand, view.discardPile, view.rules]
+  )
+  // The hand shrinks as cards are played, so the cursor is kept inside it
+  const focusedCard =
+    keyboardHand[Math.min(focusedCardIndex, keyboardHand.length - 1)]
+
+  // Bots never take a play back, so only a human's play offers undo
+  const undoPlayer =
+    (state.matches("playerTurn") || state.matches("waitingForTurn")) &&
+    view.undoableBy
+      ? context.players.find(
+          (player) => player.id === view.undoableBy && player.kind === "human"
+        )
+      : undefined
+
+  // Cards the humans whose hands are face up could slam out of turn. Claims
+  // are still offered while a slam is contended; the machine settles them.
+  const interruptOptions = useMemo(
+    () =>
+      state.matches("playerTurn") ||
+      state.matches("waitingForTurn") ||
+      state.matches("interrupting")
+        ? view.players
+            .filter((player) => player.kind === "human" && !player.handHidden)
+            .flatMap((player) =>
+              getInterruptCards(view, player.id).map((card) => ({
+                player,
+                card,
+              }))
+            )
+        : [],
+    [state, view]
+  )
+
   // Memoize expensive computations
   const currentPlayerNoValidMoves = useMemo(() => {
     return !currentPlayerHasValidMoves(context)
@@ -65,17 +241,37 @@ const GameBoard: React.FC = () => {
     return !hasAnyValidMoves(context)
   }, [context])
 
-  // Timer effect
-  useEffect(() => {
-    if (state.matches("playerTurn") || state.matches("waitingForTurn")) {
-      const interval = setInterval(() => {
-        const newTime = Math.max(0, context.gameTimer - 1)
-        send({ type: "TIMER_TICK", remainingTime: newTime })
-      }, 1000)
+  // Save a settled state; a finished match has nothing left to resume
+  const saveProgress = useCallback(() => {
+    const latest = actorRef.getSnapshot()
+    if (!isResumableState(latest.value)) return
 
-      return () => clearInterval(interval)
+    if (latest.matches("gameOver") && isMatchComplete(latest.context)) {
+      onDiscardSavedGame()
+    } else {
+      onSaveGame(actorRef.getPersistedSnapshot())
     }
-  }, [state, context.gameTimer, send])
+  }, [actorRef, onSaveGame, onDiscardSavedGame])
+
+  // Save whenever play moves on. The clocks are not logged, so their seconds
+  // are only saved as the page goes away rather than on every tick.
+  useEffect(() => {
+    saveProgress()
+  }, [state.value, context.eventLog, saveProgress])
+
+  useEffect(() => {
+    window.addEventListener("pagehide", saveProgress)
+    return () => window.removeEventListener("pagehide", saveProgress)
+  }, [saveProgress])
+
+  // Read out what changed since the last state the board showed
+  const announcedRef = useRef<AnnouncedState | null>(null)
+  useEffect(() => {
+    const current = { state: String(state.value), context: state.context }
+    const messages = getAnnouncements(announcedRef.current, current)
+    announcedRef.current = current
+    if (messages.length > 0) onAnnounce(messages.join(". "))
+  }, [state, onAnnounce])
 
   // Instant auto-play effect - immediately play single cards and skip no-move scenarios
   useEffect(() => {
@@ -84,28 +280,48 @@ const GameBoard: React.FC = () => {
       const currentPlayer = context.players[context.currentPlayerIndex]
       const topDiscardCard = context.discardPile[context.discardPile.length - 1]
 
-      if (currentPlayer && topDiscardCard) {
-        const validCards = getValidCards(currentPlayer.hand, topDiscardCard)
-
-        // Instantly auto-play if only one valid card (no choice needed)
-        if (validCards.length === 1) {
+      // Bots are played by the machine, and a hot-seat turn waits until the
+      // next player has taken the device so nothing is played before they see it
+      if (
+        currentPlayer?.kind === "human" &&
+        !awaitingHandover &&
+        topDiscardCard
+      ) {
+        const legalPlays = enumerateLegalPlays(
+          currentPlayer.hand,
+          topDiscardCard,
+          context.rules
+        )
+
+        // Instantly auto-play if the only legal play is a single card (no
+        // choice needed); a lone combination is left for the player to pick
+        if (legalPlays.length === 1 && legalPlays[0].length === 1) {
           // Use setTimeout with 0ms to avoid state update conflicts
           setTimeout(() => {
             send({
               type: "AUTO_PLAY",
-              card: validCards[0],
+              card: legalPlays[0][0],
               playerId: currentPlayer.id,
             })
           }, 0)
         }
-        // Instantly auto-skip if no valid cards (no choice needed)
-        else if (validCards.length === 0) {
+        // Instantly auto-draw (forced-draw rule) or auto-skip if no legal play
+        else if (legalPlays.length === 0) {
+          const mustDraw =
+            context.rules.forcedDrawBeforeSkip &&
+            !context.hasDrawnThisTurn &&
+            canDrawCard(context.deck, context.discardPile)
+
           // Use setTimeout with 0ms to avoid state update conflicts
           setTimeout(() => {
-            send({ type: "SKIP_TURN" })
+            if (mustDraw) {
+              send({ type: "DRAW_CARD", playerId: currentPlayer.id })
+            } else {
+              send({ type: "SKIP_TURN" })
+            }
           }, 0)
         }
-        // Multiple valid cards = manual play required (no auto-play)
+        // Several legal plays = manual play required (no auto-play)
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -116,29 +332,10 @@ const GameBoard: React.FC = () => {
     context.selectedCards.length,
     context.players.length,
     context.discardPile.length,
+    context.hasDrawnThisTurn,
+    awaitingHandover,
   ])
 
-  // Keyboard event handler for SPACE key
-  useEffect(() => {
-    const handleKeyPress = (event: KeyboardEvent) => {
-      if (event.code === "Space" && state.matches("playerTurn")) {
-        event.preventDefault()
-        const currentPlayer = context.players[context.currentPlayerIndex]
-
-        if (currentPlayer && context.selectedCards.length > 0) {
-          send({
-            type: "PLAY_CARDS",
-            cards: context.selectedCards,
-            playerId: currentPlayer.id,
-          })
-        }
-      }
-    }
-
-    window.addEventListener("keydown", handleKeyPress)
-    return () => window.removeEventListener("keydown", handleKeyPress)
-  }, [state, context, send])
-
   const handleCardSelect = useCallback(
     (cardId: string) => {
       const currentPlayer = context.players[context.currentPlayerIndex]
@@ -165,6 +362,21 @@ const GameBoard: React.FC = () => {
     [context.players, context.currentPlayerIndex, context.selectedCards, send]
   )
 
+  const handleDeclareJoker = useCallback(
+    (cardId: string, value: CardValue | null) => {
+      const currentPlayer = context.players[context.currentPlayerIndex]
+      if (currentPlayer) {
+        send({
+          type: "DECLARE_JOKER",
+          cardId,
+          value,
+          playerId: currentPlayer.id,
+        })
+      }
+    },
+    [context.players, context.currentPlayerIndex, send]
+  )
+
   const handlePlayCards = useCallback(() => {
     const currentPlayer = context.players[context.currentPlayerIndex]
     if (currentPlayer && context.selectedCards.length > 0) {
@@ -176,6 +388,107 @@ const GameBoard: React.FC = () => {
     }
   }, [context.players, context.currentPlayerIndex, context.selectedCards, send])
 
+  // Keyboard controls (see keyBindings); the help overlay takes over the
+  // keyboard while it is open
+  useEffect(() => {
+    if (isHelpOpen) return
+
+    const handleKeyPress = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return
+
+      const action = findKeyAction(keyBindings, event.code)
+      const isPlaying =
+        state.matches("playerTurn") || state.matches("waitingForTurn")
+
+      if (action === "help" && (isPlaying || state.matches("paused"))) {
+        event.preventDefault()
+        setIsHelpOpen(true)
+        return
+      }
+
+      if (action === "pause") {
+        if (isPlaying) {
+          send({ type: "PAUSE" })
+        } else if (state.matches("paused")) {
+          send({ type: "RESUME" })
+        }
+        return
+      }
+
+      if (!state.matches("playerTurn")) return
+      const currentPlayer = context.players[context.currentPlayerIndex]
+      if (!currentPlayer) return
+
+      if (action === "play") {
+        event.preventDefault()
+        if (context.selectedCards.length > 0) {
+          send({
+            type: "PLAY_CARDS",
+            cards: context.selectedCards,
+            playerId: currentPlayer.id,
+          })
+        }
+        return
+      }
+
+      if (action === "skip") {
+        if (currentPlayer.kind === "human" && currentPlayerNoValidMoves) {
+          send({ type: "SKIP_TURN" })
+        }
+        return
+      }
+
+      // The rest move through or select from the hand being played
+      if (keyboardHand.length === 0) return
+
+      const cardIndex = getCardIndexForKey(event.code)
+      if (cardIndex !== null) {
+        if (cardIndex < keyboardHand.length) setFocusedCardIndex(cardIndex)
+        return
+      }
+
+      const cursor = keyboardHand.indexOf(focusedCard)
+      switch (action) {
+        case "focusPrevious":
+          event.preventDefault()
+          setFocusedCardIndex(
+            (cursor - 1 + keyboardHand.length) % keyboardHand.length
+          )
+          break
+        case "focusNext":
+          event.preventDefault()
+          setFocusedCardIndex((cursor + 1) % keyboardHand.length)
+          break
+        case "toggleSelect":
+          event.preventDefault()
+          handleCardSelect(focusedCard.id)
+          break
+        case "clearSelection":
+          context.selectedCards.forEach((card) =>
+            send({
+              type: "CARD_DESELECTED",
+              cardId: card.id,
+              playerId: currentPlayer.id,
+            })
+          )
+          break
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyPress)
+    return () => window.removeEventListener("keydown", handleKeyPress)
+  }, [
+    isHelpOpen,
+    keyBindings,
+    state,
+    context,
+    send,
+    currentPlayerNoValidMoves,
+    keyboardHand,
+    focusedCard,
+    handleCardSelect,
+  ])
+
   if (state.matches("lobby")) {
     return (
       <Lobby
@@ -183,17 +496,56 @@ const GameBoard: React.FC = () => {
         onPlayerJoin={(playerId, playerName) =>
           send({ type: "PLAYER_JOIN", playerId, playerName })
         }
+        onBotJoin={(playerId, playerName, botStrategy) =>
+          send({
+            type: "PLAYER_JOIN",
+            playerId,
+            playerName,
+            kind: "bot",
+            botStrategy,
+          })
+        }
+        rules={context.rules}
+        onRulesChange={(rules) => send({ type: "SET_RULES", rules })}
+        matchSettings={context.matchSettings}
+        onMatchSettingsChange={(settings) =>
+          send({ type: "SET_MATCH", settings })
+        }
         onStartGame={() => send({ type: "START_GAME" })}
+        savedGame={savedGame}
+        onResumeGame={onResumeGame}
+        onDiscardSavedGame={onDiscardSavedGame}
       />
     )
   }
 
+  if (state.matches("gameOver") && isReplaying) {
+    return (
+      <ReplayViewer context={context} onClose={() => setIsReplaying(false)} />
+    )
+  }
+
   if (state.matches("gameOver")) {
     return (
       <GameOver
         finalScores={context.finalScores}
-        winner={context.winner}
+        winners={context.winners}
+        tieBreak={context.tieBreak}
+        teamScores={context.teamScores}
         gameEndReason={context.gameEndReason}
+        seed={context.seed}
+        roundDurationSeconds={context.rules.roundDurationSeconds}
+        match={{
+          settings: context.matchSettings,
+          roundNumber: context.roundNumber,
+          history: context.roundHistory,
+          totals: context.matchTotals,
+          isComplete: isMatchComplete(context),
+        }}
+        onNextRound={() => send({ type: "NEXT_ROUND" })}
+        onWatchReplay={
+          canReplay(context.eventLog) ? () => setIsReplaying(true) : undefined
+        }
         onRestart={() => send({ type: "RESTART_GAME" })}
         onLeave={(playerId) => send({ type: "LEAVE_GAME", playerId })}
       />
@@ -205,6 +557,10 @@ const GameBoard: React.FC = () => {
       <div className="flex justify-between items-center bg-white/95 px-6 py-4 rounded-xl mb-5 shadow-lg">
         <div className="flex items-center gap-6">
           <GameTimer timeRemaining={context.gameTimer} />
+          {context.rules.turnDurationSeconds !== null &&
+            state.matches("playerTurn") && (
+              <TurnTimer timeRemaining={context.turnTimer} />
+            )}
 
           <div className="flex flex-col items-center gap-2">
             <div className="px-4 py-2 rounded-lg font-bold text-sm bg-blue-100 text-blue-800 border-2 border-blue-200">
@@ -224,6 +580,31 @@ const GameBoard: React.FC = () => {
           noValidMoves={currentPlayerNoValidMoves}
         />
 
+        {(state.matches("playerTurn") || state.matches("waitingForTurn")) && (
+          <button
+            onClick={() => send({ type: "PAUSE" })}
+            className="bg-slate-600 text-white border-none px-5 py-3 rounded-lg text-base font-bold cursor-pointer transition-all duration-200 hover:bg-slate-700"
+          >
+            ⏸️ Pause ({formatKeyCode(keyBindings.pause)})
+          </button>
+        )}
+
+        <button
+          onClick={() => setIsHelpOpen(true)}
+          className="bg-white text-gray-700 border-2 border-gray-300 px-4 py-3 rounded-lg text-base font-bold cursor-pointer transition-all duration-200 hover:bg-gray-100"
+        >
+          ⌨️ Keys ({formatKeyCode(keyBindings.help)})
+        </button>
+
+        {undoPlayer && (
+          <button
+            onClick={() => send({ type: "UNDO", playerId: undoPlayer.id })}
+            className="bg-sky-600 text-white border-none px-5 py-3 rounded-lg text-base font-bold cursor-pointer transition-all duration-200 hover:bg-sky-700"
+          >
+            ↩️ Undo {undoPlayer.name}'s Play
+          </button>
+        )}
+
         {noValidMoves && state.matches("playerTurn") && (
           <button
             onClick={() => send({ type: "END_GAME" })}
@@ -237,8 +618,10 @@ const GameBoard: React.FC = () => {
       {/* Action Indicator - Always visible to show what's happening */}
       <div className="mb-5">
         <ActionIndicator
-          context={context}
+          context={view}
           currentState={state.value as string}
+          playKey={formatKeyCode(keyBindings.play).toUpperCase()}
+          pauseKey={formatKeyCode(keyBindings.pause)}
         />
       </div>
 
@@ -248,27 +631,61 @@ const GameBoard: React.FC = () => {
         <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
           <div className="flex justify-center">
             <DiscardPile
-              discardPile={context.discardPile}
-              deckSize={context.deck.length}
+              discardPile={view.discardPile}
+              deckSize={view.deckCount}
             />
           </div>
         </div>
 
+        {/* Out-of-turn slams */}
+        {interruptOptions.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-3">
+            {interruptOptions.map(({ player, card }) => (
+              <button
+                key={card.id}
+                onClick={() =>
+                  send({ type: "INTERRUPT", card, playerId: player.id })
+                }
+                className="bg-fuchsia-600 text-white border-none px-6 py-3 rounded-xl text-base font-bold cursor-pointer transition-all duration-200 hover:bg-fuchsia-700 hover:-translate-y-0.5"
+              >
+                ⚡ {player.name}: Slam the {getCardName(card)}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Rule Helper */}
         <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
           <RuleHelper
+            // A revealed hint stays up until the position changes
+            key={`${view.currentPlayerIndex}:${bestPlay?.explanation}`}
             topDiscardCard={
               context.discardPile[context.discardPile.length - 1] || null
             }
             validCards={getValidCards(
-              context.players[context.currentPlayerIndex]?.hand || [],
-              context.discardPile[context.discardPile.length - 1]
+              view.players[view.currentPlayerIndex]?.hand || [],
+              view.discardPile[view.discardPile.length - 1],
+              view.rules
             )}
-            selectedCards={context.selectedCards}
-            isVisible={state.matches("playerTurn")}
+            aceWrapsOnKing={view.rules.aceWrapsOnKing}
+            selectedCards={view.selectedCards}
+            isVisible={state.matches("playerTurn") && !awaitingHandover}
+            bestPlay={bestPlay}
+            onShowHint={() =>
+              currentView &&
+              send({ type: "REQUEST_HINT", playerId: currentView.id })
+            }
           />
         </div>
 
+        {/* Hand-over screen keeps the next player's cards covered */}
+        {awaitingHandover && (
+          <HandoverScreen
+            playerName={context.players[context.currentPlayerIndex].name}
+            onReady={() => setViewerId(currentHumanId)}
+          />
+        )}
+
         {/* Players Section */}
         <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
           <div className="flex items-center gap-3 mb-6">
@@ -278,28 +695,40 @@ const GameBoard: React.FC = () => {
             <h3 className="text-white font-bold text-lg">Players</h3>
           </div>
           <div className="flex flex-col gap-4">
-            {context.players.map((player, index) => (
+            {view.players.map((player, index) => (
               <PlayerHand
                 key={player.id}
                 player={player}
-                isCurrentPlayer={index === context.currentPlayerIndex}
-                selectedCards={context.selectedCards}
+                isCurrentPlayer={index === view.currentPlayerIndex}
+                selectedCards={view.selectedCards}
                 onCardSelect={handleCardSelect}
                 canInteract={
                   state.matches("playerTurn") &&
-                  index === context.currentPlayerIndex
+                  index === view.currentPlayerIndex &&
+                  player.kind === "human" &&
+                  !player.handHidden
+                }
+                focusedCardId={
+                  index === view.currentPlayerIndex ? focusedCard?.id : null
                 }
                 topDiscardCard={
                   context.discardPile[context.discardPile.length - 1]
                 }
+                rules={view.rules}
               />
             ))}
           </div>
         </div>
 
         {/* Play Button */}
-        {state.matches("playerTurn") && context.selectedCards.length > 0 && (
+        {state.matches("playerTurn") && view.selectedCards.length > 0 && (
           <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+            <JokerPicker
+              selectedCards={view.selectedCards}
+              topDiscardCard={view.discardPile[view.discardPile.length - 1]}
+              rules={view.rules}
+              onDeclare={handleDeclareJoker}
+            />
             <div className="flex justify-center">
               <button
                 onClick={handlePlayCards}
@@ -307,17 +736,102 @@ const GameBoard: React.FC = () => {
               >
                 <span>🎯</span>
                 Play Selected Cards
-                <span className="text-sm opacity-80">(or press SPACE)</span>
+                <span className="text-sm opacity-80">
+                  (or press {formatKeyCode(keyBindings.play).toUpperCase()})
+                </span>
               </button>
             </div>
           </div>
         )}
       </div>
 
+      {state.matches("paused") && (
+        <PauseOverlay onResume={() => send({ type: "RESUME" })} />
+      )}
+
+      {isHelpOpen && (
+        <KeyboardHelp
+          bindings={keyBindings}
+          onChange={onKeyBindingsChange}
+          onClose={() => setIsHelpOpen(false)}
+        />
+      )}
+
       {/* Auto-play notifications - floating on top right */}
       <AutoPlayNotifications notifications={context.autoPlayNotifications} />
     </div>
   )
 }
 
+interface GameBoardProps {
+  // Where the game in progress is saved; null turns saving off
+  storage?: GameStorage | null
+}
+
+const GameBoard: React.FC<GameBoardProps> = ({
+  storage = window.localStorage,
+}) => {
+  const [savedGame, setSavedGame] = useState(() =>
+    storage ? loadSavedGame(storage) : null
+  )
+  const [keyBindings, setKeyBindings] = useState(() =>
+    storage ? loadKeyBindings(storage) : defaultKeyBindings
+  )
+  const [announcement, setAnnouncement] = useState("")
+  const [session, setSession] = useState<{
+    id: number
+    snapshot?: PersistedGameSnapshot
+  }>({ id: 0 })
+
+  const handleResumeGame = useCallback(() => {
+    if (!savedGame) return
+    setSession((current) => ({
+      id: current.id + 1,
+      snapshot: resumeRoundClock(savedGame.snapshot),
+    }))
+    setSavedGame(null)
+  }, [savedGame])
+
+  const handleDiscardSavedGame = useCallback(() => {
+    if (storage) clearSavedGame(storage)
+    setSavedGame(null)
+  }, [storage])
+
+  // A new game replaces whatever was saved before
+  const handleSaveGame = useCallback(
+    (snapshot: Snapshot<unknown>) => {
+      if (storage) saveGame(storage, snapshot)
+      setSavedGame(null)
+    },
+    [storage]
+  )
+
+  const handleKeyBindingsChange = useCallback(
+    (bindings: KeyBindings) => {
+      if (storage) saveKeyBindings(storage, bindings)
+      setKeyBindings(bindings)
+    },
+    [storage]
+  )
+
+  // The live region lives out here so it stays put when a game is restarted
+  // or resumed; screen readers only read changes to a region already shown
+  return (
+    <>
+      <LiveAnnouncer message={announcement} />
+      <GameSession
+        key={session.id}
+        snapshot={session.snapshot}
+        savedGame={savedGame}
+        onResumeGame={handleResumeGame}
+        onDiscardSavedGame={handleDiscardSavedGame}
+        onSaveGame={handleSaveGame}
+        keyBindings={keyBindings}
+        onKeyBindingsChange={handleKeyBindingsChange}
+        onAnnounce={setAnnouncement}
+      />
+    </>
+  )
+}
+
 export default GameBoard
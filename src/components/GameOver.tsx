@@ -1,31 +1,130 @@
 import React from "react"
-import type { PlayerScore, GameEndReason } from "../types/game"
+import type {
+  PlayerScore,
+  GameEndReason,
+  MatchSettings,
+  RoundResult,
+  ScoreLine,
+  TeamScore,
+  TieBreak,
+} from "../types/game"
+import { defaultGameRules, formatRoundDuration } from "../utils/gameRules"
+import { getMatchStandings, isMultiRoundMatch } from "../utils/matchUtils"
+import { tieBreakers } from "../utils/tieBreakers"
 import CardComponent from "./Card"
 
+interface MatchSummary {
+  settings: MatchSettings
+  roundNumber: number
+  history: RoundResult[]
+  totals: PlayerScore[]
+  isComplete: boolean
+}
+
 interface GameOverProps {
   finalScores: PlayerScore[]
-  winner: PlayerScore | null
+  winners: PlayerScore[]
+  tieBreak?: TieBreak | null
+  teamScores?: TeamScore[] // only for team play
   gameEndReason: GameEndReason
-  onRestart: () => void
-  onLeave: (playerId: string) => void
+  seed?: number | null
+  roundDurationSeconds?: number
+  match?: MatchSummary
+  onNextRound?: () => void
+  onWatchReplay?: () => void
+  onRestart?: () => void // spectators get neither
+  onLeave?: (playerId: string) => void
 }
 
 const GameOver: React.FC<GameOverProps> = ({
   finalScores,
-  winner,
+  winners,
+  tieBreak = null,
+  teamScores = [],
   gameEndReason,
+  seed,
+  roundDurationSeconds = defaultGameRules.roundDurationSeconds,
+  match,
+  onNextRound,
+  onWatchReplay,
   onRestart,
 }) => {
+  const isWinner = (playerId: string) =>
+    winners.some((winner) => winner.playerId === playerId)
+
+  // Lowest first, with the winners ahead of anyone they beat on a tie-break
   const sortedScores = [...finalScores].sort(
-    (a, b) => a.finalScore - b.finalScore
+    (a, b) =>
+      a.finalScore - b.finalScore ||
+      Number(isWinner(b.playerId)) - Number(isWinner(a.playerId))
   )
+  const winner = winners[0]
+
+  // Teams come sorted lowest first; a tie for the lowest total is shared
+  const bestTeamScore = teamScores[0]?.finalScore
+  const isWinningTeam = (team: TeamScore) => team.finalScore === bestTeamScore
+
+  const isMatch = match !== undefined && isMultiRoundMatch(match.settings)
+  const standings = match ? getMatchStandings(match.totals) : []
+  const matchLeader = standings[0]
+
+  const getTitle = () => {
+    if (!isMatch) return "Game Over!"
+    return match.isComplete
+      ? "Match Over!"
+      : `Round ${match.roundNumber} Complete!`
+  }
+
+  // "Alice", "Alice and Bob", "Alice, Bob and Carol"
+  const formatNames = (names: string[]) =>
+    names.length > 1
+      ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+      : (names[0] ?? "")
+
+  const getTieBreakMessage = () => {
+    if (!tieBreak || !winner) return null
+
+    const beaten = finalScores
+      .filter(
+        (score) =>
+          tieBreak.tiedPlayerIds.includes(score.playerId) &&
+          !isWinner(score.playerId)
+      )
+      .map((score) => score.playerName)
+
+    if (!tieBreak.decidedBy) {
+      const ahead =
+        beaten.length > 0
+          ? `, ahead of ${formatNames(beaten)} on the tie-breakers`
+          : ""
+      return `Tied on ${winner.finalScore} points${ahead}, so the win is shared`
+    }
+
+    return `Tied with ${formatNames(beaten)} on ${winner.finalScore} points - won on ${tieBreakers[
+      tieBreak.decidedBy
+    ].name.toLowerCase()}`
+  }
+
+  // "Cards 14, Spades doubled +6": adjustments are shown with their sign
+  const formatBreakdown = (breakdown: ScoreLine[]) =>
+    breakdown
+      .map(({ label, points }, index) =>
+        index > 0 && points > 0 ? `${label} +${points}` : `${label} ${points}`
+      )
+      .join(", ")
+
+  // A player's score in one round, or a dash if they were not seated
+  const getRoundScore = (round: RoundResult, playerId: string) =>
+    round.scores.find((score) => score.playerId === playerId)?.finalScore ?? "-"
 
   // Get game end reason message
   const getEndReasonMessage = () => {
     switch (gameEndReason) {
       case "timer_expired":
         return {
-          message: "Game ended when the 3-minute timer expired",
+          message: `Game ended when the timer expired after ${formatRoundDuration(
+            roundDurationSeconds
+          )}`,
           icon: "⏰",
           color: "bg-orange-100 text-orange-800 border-orange-200",
         }
@@ -63,7 +162,9 @@ const GameOver: React.FC<GameOverProps> = ({
   return (
     <div className="flex flex-col items-center justify-center min-h-screen p-5 text-center">
       <div className="mb-10">
-        <h1 className="text-5xl text-white mb-5 drop-shadow-lg">Game Over!</h1>
+        <h1 className="text-5xl text-white mb-5 drop-shadow-lg">
+          {getTitle()}
+        </h1>
 
         {/* Game End Reason */}
         <div
@@ -75,18 +176,68 @@ const GameOver: React.FC<GameOverProps> = ({
           </div>
         </div>
 
+        {isMatch && match.isComplete && matchLeader && (
+          <div className="bg-white/95 px-6 py-6 rounded-xl shadow-lg mb-5">
+            <h2 className="text-yellow-500 mb-2">
+              🏆 {matchLeader.playerName} Wins the Match! 🏆
+            </h2>
+            <p className="text-gray-800 text-xl">
+              Match Total: {matchLeader.finalScore} points
+            </p>
+          </div>
+        )}
+
         {winner && (
           <div className="bg-white/95 px-6 py-6 rounded-xl shadow-lg mb-5">
             <h2 className="text-green-500 mb-2">
-              🎉 {winner.playerName} Wins! 🎉
+              🎉 {formatNames(winners.map((score) => score.playerName))}{" "}
+              {winners.length > 1 ? "Share the Win" : "Wins"}! 🎉
             </h2>
             <p className="text-gray-800 text-xl">
               Final Score: {winner.finalScore} points
             </p>
+            {tieBreak && (
+              <p className="text-sm text-gray-600 mt-2">
+                {getTieBreakMessage()}
+              </p>
+            )}
           </div>
         )}
       </div>
 
+      {teamScores.length > 0 && (
+        <div className="bg-white/95 px-6 py-6 rounded-xl shadow-lg mb-8 max-w-4xl w-full">
+          <h3 className="text-gray-800 mb-5">Team Scores</h3>
+          <div className="flex flex-col gap-4">
+            {teamScores.map((team, index) => (
+              <div
+                key={team.teamNumber}
+                data-testid="team-score"
+                className={`grid grid-cols-1 gap-2 items-center px-4 py-4 rounded-lg border-l-4 ${
+                  isWinningTeam(team)
+                    ? "bg-green-50 border-green-500"
+                    : "bg-gray-50 border-gray-300"
+                } md:grid-cols-3 md:gap-4 md:text-center`}
+              >
+                <div
+                  className={`font-bold text-lg ${
+                    isWinningTeam(team) ? "text-green-500" : "text-gray-600"
+                  }`}
+                >
+                  #{index + 1}
+                </div>
+                <div className="font-bold text-left md:text-center">
+                  Team {team.teamNumber}: {formatNames(team.playerNames)}
+                </div>
+                <div className="font-bold text-gray-800">
+                  {team.finalScore} points
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white/95 px-6 py-6 rounded-xl shadow-lg mb-8 max-w-4xl w-full">
         <h3 className="text-gray-800 mb-5">Final Scores</h3>
         <div className="flex flex-col gap-4">
@@ -94,14 +245,14 @@ const GameOver: React.FC<GameOverProps> = ({
             <div
               key={score.playerId}
               className={`grid grid-cols-1 gap-2 items-center px-4 py-4 rounded-lg border-l-4 ${
-                index === 0
+                isWinner(score.playerId)
                   ? "bg-green-50 border-green-500"
                   : "bg-gray-50 border-gray-300"
               } md:grid-cols-4 md:gap-4 md:text-center`}
             >
               <div
                 className={`font-bold text-lg ${
-                  index === 0 ? "text-green-500" : "text-gray-600"
+                  isWinner(score.playerId) ? "text-green-500" : "text-gray-600"
                 }`}
               >
                 #{index + 1}
@@ -111,6 +262,22 @@ const GameOver: React.FC<GameOverProps> = ({
               </div>
               <div className="font-bold text-gray-800">
                 {score.finalScore} points
+                {score.breakdown && score.breakdown.length > 1 && (
+                  <div className="text-xs font-normal text-gray-600">
+                    {formatBreakdown(score.breakdown)}
+                  </div>
+                )}
+                {score.penaltyPoints && (
+                  <div className="text-xs font-normal text-red-600">
+                    incl. {score.penaltyPoints} timeout penalty
+                  </div>
+                )}
+                {score.hintsUsed && (
+                  <div className="text-xs font-normal text-amber-600">
+                    💡 {score.hintsUsed} hint{score.hintsUsed !== 1 ? "s" : ""}{" "}
+                    used
+                  </div>
+                )}
               </div>
               <div className="flex gap-1 flex-wrap justify-start md:justify-center">
                 {score.handCards.map((card) => (
@@ -122,13 +289,75 @@ const GameOver: React.FC<GameOverProps> = ({
         </div>
       </div>
 
-      <div className="mb-8">
-        <button
-          onClick={onRestart}
-          className="bg-green-500 text-white border-none px-8 py-4 rounded-lg text-lg font-bold cursor-pointer transition-all duration-200 hover:bg-green-600 hover:-translate-y-0.5 hover:shadow-xl hover:shadow-green-500/30"
-        >
-          Play Again
-        </button>
+      {isMatch && (
+        <div className="bg-white/95 px-6 py-6 rounded-xl shadow-lg mb-8 max-w-4xl w-full overflow-x-auto">
+          <h3 className="text-gray-800 mb-1">Match Standings</h3>
+          <p className="text-sm text-gray-600 mb-5">
+            Round {match.roundNumber} of {match.settings.rounds}
+            {match.settings.pointLimit !== null &&
+              ` - ends when a player reaches ${match.settings.pointLimit} points`}
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-600 border-b border-gray-200">
+                <th className="py-2 text-left">Player</th>
+                {match.history.map((round) => (
+                  <th key={round.roundNumber} className="py-2">
+                    R{round.roundNumber}
+                  </th>
+                ))}
+                <th className="py-2">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map((total, index) => (
+                <tr
+                  key={total.playerId}
+                  className={`border-b border-gray-100 last:border-b-0 ${
+                    index === 0 ? "bg-green-50 font-bold" : ""
+                  }`}
+                >
+                  <td className="py-2 text-left text-gray-800">
+                    {total.playerName}
+                  </td>
+                  {match.history.map((round) => (
+                    <td key={round.roundNumber} className="py-2 text-gray-600">
+                      {getRoundScore(round, total.playerId)}
+                    </td>
+                  ))}
+                  <td className="py-2 text-gray-800">{total.finalScore}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mb-8 flex gap-4 justify-center">
+        {isMatch && !match.isComplete && onNextRound && (
+          <button
+            onClick={onNextRound}
+            className="bg-blue-500 text-white border-none px-8 py-4 rounded-lg text-lg font-bold cursor-pointer transition-all duration-200 hover:bg-blue-600 hover:-translate-y-0.5 hover:shadow-xl hover:shadow-blue-500/30"
+          >
+            Next Round
+          </button>
+        )}
+        {onWatchReplay && (
+          <button
+            onClick={onWatchReplay}
+            className="bg-purple-500 text-white border-none px-8 py-4 rounded-lg text-lg font-bold cursor-pointer transition-all duration-200 hover:bg-purple-600 hover:-translate-y-0.5 hover:shadow-xl hover:shadow-purple-500/30"
+          >
+            Watch Replay
+          </button>
+        )}
+        {onRestart && (
+          <button
+            onClick={onRestart}
+            className="bg-green-500 text-white border-none px-8 py-4 rounded-lg text-lg font-bold cursor-pointer transition-all duration-200 hover:bg-green-600 hover:-translate-y-0.5 hover:shadow-xl hover:shadow-green-500/30"
+          >
+            Play Again
+          </button>
+        )}
       </div>
 
       <div className="bg-white/95 px-5 py-5 rounded-xl shadow-lg max-w-md w-full">
@@ -156,6 +385,12 @@ const GameOver: React.FC<GameOverProps> = ({
               points
             </span>
           </div>
+          {seed != null && (
+            <div className="flex justify-between py-2 border-b border-gray-200 last:border-b-0">
+              <span className="text-gray-600">Game Seed:</span>
+              <span className="font-mono font-bold text-gray-800">{seed}</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -24,6 +24,10 @@ const GameStatus: React.FC<GameStatusProps> = ({
         return currentPlayer ? `${currentPlayer.name}'s turn` : "Player turn"
       case "waitingForTurn":
         return "Processing turn..."
+      case "interrupting":
+        return "Interrupt!"
+      case "paused":
+        return "Game paused"
       case "gameEnding":
         return "Time's up! Calculating scores..."
       case "gameOver":
@@ -0,0 +1,33 @@
+import React from "react"
+
+interface HandoverScreenProps {
+  playerName: string
+  onReady: () => void
+}
+
+// Hot-seat mode: covers every hand while the device is passed between humans
+const HandoverScreen: React.FC<HandoverScreenProps> = ({
+  playerName,
+  onReady,
+}) => {
+  return (
+    <div className="bg-white/95 rounded-xl p-10 shadow-lg text-center">
+      <div className="text-5xl mb-4">🔄</div>
+      <h2 className="text-2xl font-bold text-gray-800 mb-2">
+        Hand over to {playerName}
+      </h2>
+      <p className="text-gray-600 mb-6">
+        Pass the device to {playerName}. Their cards stay hidden until they are
+        ready.
+      </p>
+      <button
+        onClick={onReady}
+        className="bg-gradient-to-r from-green-500 to-emerald-600 text-white border-none px-8 py-4 rounded-xl text-lg font-bold cursor-pointer transition-all duration-200 hover:from-green-600 hover:to-emerald-700 hover:-translate-y-0.5 hover:shadow-lg hover:shadow-green-500/30"
+      >
+        I'm {playerName} - Show My Cards
+      </button>
+    </div>
+  )
+}
+
+export default HandoverScreen
@@ -0,0 +1,54 @@
+import React from "react"
+import type { Card as CardType, CardValue, GameRules } from "../types/game"
+import { getJokerOptions, isJoker } from "../utils/cardUtils"
+
+interface JokerPickerProps {
+  selectedCards: CardType[]
+  topDiscardCard: CardType
+  rules: GameRules
+  onDeclare: (cardId: string, value: CardValue | null) => void
+}
+
+// Lets the player say what each selected joker stands for. Only values that
+// make the selection a legal play are offered; a joker left on "Any" is
+// given the first value that works when it is played.
+const JokerPicker: React.FC<JokerPickerProps> = ({
+  selectedCards,
+  topDiscardCard,
+  rules,
+  onDeclare,
+}) => {
+  const jokers = selectedCards.filter(isJoker)
+  if (jokers.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap justify-center gap-4 mb-4">
+      {jokers.map((joker, index) => (
+        <label
+          key={joker.id}
+          className="flex items-center gap-2 text-white font-medium"
+        >
+          🃏 Joker{jokers.length > 1 ? ` ${index + 1}` : ""} stands for
+          <select
+            value={joker.declaredValue ?? ""}
+            onChange={(e) =>
+              onDeclare(joker.id, (e.target.value || null) as CardValue | null)
+            }
+            className="px-2 py-1 rounded-md border border-gray-300 text-gray-800"
+          >
+            <option value="">Any value that fits</option>
+            {getJokerOptions(selectedCards, joker, topDiscardCard, rules).map(
+              (value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              )
+            )}
+          </select>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export default JokerPicker
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react"
+import {
+  defaultKeyBindings,
+  formatKeyCode,
+  getCardIndexForKey,
+  keyActions,
+  rebindKey,
+  type KeyAction,
+  type KeyBindings,
+} from "../utils/keyBindings"
+
+interface KeyboardHelpProps {
+  bindings: KeyBindings
+  onChange: (bindings: KeyBindings) => void
+  onClose: () => void
+}
+
+// Lists the keyboard controls and lets the player rebind them. While it is
+// open it owns the keyboard: the next key press after "Change" becomes the
+// new binding, and otherwise Escape or the help key closes it.
+const KeyboardHelp: React.FC<KeyboardHelpProps> = ({
+  bindings,
+  onChange,
+  onClose,
+}) => {
+  const [rebinding, setRebinding] = useState<KeyAction | null>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (rebinding) {
+        event.preventDefault()
+        // Number keys stay reserved for jumping to a card
+        if (getCardIndexForKey(event.code) !== null) return
+        onChange(rebindKey(bindings, rebinding, event.code))
+        setRebinding(null)
+      } else if (event.code === "Escape" || event.code === bindings.help) {
+        // Tab and Enter are left alone so the dialog works from the keyboard
+        event.preventDefault()
+        onClose()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [bindings, rebinding, onChange, onClose])
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="keyboard-help-title"
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+    >
+      <div className="bg-white/95 rounded-xl p-8 shadow-lg max-w-lg w-full">
+        <h2
+          id="keyboard-help-title"
+          className="text-2xl font-bold text-gray-800 mb-4 text-center"
+        >
+          Keyboard Controls
+        </h2>
+
+        <table className="w-full text-left text-gray-700 mb-6">
+          <tbody>
+            {(Object.keys(keyActions) as KeyAction[]).map((action) => (
+              <tr key={action} className="border-b border-gray-200">
+                <td className="py-2">{keyActions[action].description}</td>
+                <td className="py-2 w-24">
+                  <kbd className="px-2 py-1 rounded bg-gray-100 border border-gray-300 font-mono text-sm">
+                    {rebinding === action
+                      ? "Press a key…"
+                      : formatKeyCode(bindings[action])}
+                  </kbd>
+                </td>
+                <td className="py-2 w-20 text-right">
+                  <button
+                    onClick={() => setRebinding(action)}
+                    aria-label={`Change key: ${keyActions[action].description}`}
+                    className="text-sm text-blue-600 hover:underline cursor-pointer"
+                  >
+                    Change
+                  </button>
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td className="py-2">Jump to a card</td>
+              <td className="py-2" colSpan={2}>
+                <kbd className="px-2 py-1 rounded bg-gray-100 border border-gray-300 font-mono text-sm">
+                  1-9
+                </kbd>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="flex gap-4 justify-center">
+          <button
+            onClick={() => onChange(defaultKeyBindings)}
+            className="bg-gray-200 text-gray-800 border-none px-6 py-3 rounded-lg font-bold cursor-pointer transition-all duration-200 hover:bg-gray-300"
+          >
+            Reset to Defaults
+          </button>
+          <button
+            onClick={onClose}
+            className="bg-blue-500 text-white border-none px-6 py-3 rounded-lg font-bold cursor-pointer transition-all duration-200 hover:bg-blue-600"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default KeyboardHelp
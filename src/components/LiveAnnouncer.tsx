@@ -0,0 +1,22 @@
+import React from "react"
+
+interface LiveAnnouncerProps {
+  message: string
+}
+
+// Visually hidden live region; screen readers read each new message out
+// without interrupting. It stays mounted so the change is always heard.
+const LiveAnnouncer: React.FC<LiveAnnouncerProps> = ({ message }) => {
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      aria-atomic="true"
+      className="sr-only"
+    >
+      {message}
+    </div>
+  )
+}
+
+export default LiveAnnouncer
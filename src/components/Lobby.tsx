@@ -1,30 +1,106 @@
 import React, { useState } from "react"
-import type { Player } from "../types/game"
+import type {
+  BotStrategyId,
+  GameRules,
+  GameRulesPresetId,
+  MatchSettings,
+  Player,
+  ScoringSystemId,
+  TieBreakerId,
+  TurnTimeoutPolicy,
+} from "../types/game"
+import { botStrategies } from "../utils/botStrategies"
+import {
+  defaultGameRules,
+  findGameRulesPreset,
+  formatRoundDuration,
+  gameRulePresets,
+  jokerPointOptions,
+  MAX_JOKERS,
+  turnDurationOptions,
+  turnTimeoutPolicies,
+} from "../utils/gameRules"
+import { defaultMatchSettings, matchLengthOptions } from "../utils/matchUtils"
+import type { SavedGame } from "../utils/savedGame"
+import { scoringSystems } from "../utils/scoringSystems"
+import { getTeamNumber, TEAM_PLAYERS } from "../utils/teams"
+import {
+  formatTieBreakerOrder,
+  tieBreakerOrderOptions,
+} from "../utils/tieBreakers"
 import { v4 as uuidv4 } from "uuid"
 
 interface LobbyProps {
   players: Player[]
   onPlayerJoin: (playerId: string, playerName: string) => void
+  onBotJoin?: (
+    playerId: string,
+    playerName: string,
+    botStrategy: BotStrategyId
+  ) => void
+  rules?: GameRules
+  onRulesChange?: (rules: GameRules) => void
+  matchSettings?: MatchSettings
+  onMatchSettingsChange?: (settings: MatchSettings) => void
   onStartGame: () => void
+  savedGame?: SavedGame | null
+  onResumeGame?: () => void
+  onDiscardSavedGame?: () => void
 }
 
 const Lobby: React.FC<LobbyProps> = ({
   players,
   onPlayerJoin,
+  onBotJoin,
+  rules = defaultGameRules,
+  onRulesChange,
+  matchSettings = defaultMatchSettings,
+  onMatchSettingsChange,
   onStartGame,
+  savedGame = null,
+  onResumeGame,
+  onDiscardSavedGame,
 }) => {
   const [playerName, setPlayerName] = useState("")
+  const [botStrategy, setBotStrategy] = useState<BotStrategyId>("greedy")
+
+  const { maxPlayers } = rules
+  const isFull = players.length >= maxPlayers
+  // Team play only starts with every seat filled
+  const minPlayers = rules.teamPlay ? TEAM_PLAYERS : 2
+  const playerRange =
+    minPlayers === maxPlayers ? `${maxPlayers}` : `${minPlayers}-${maxPlayers}`
+  const roundDuration = formatRoundDuration(rules.roundDurationSeconds)
+  const selectedPreset = findGameRulesPreset(rules)
+  const selectedMatchLength = matchLengthOptions.find(
+    (option) =>
+      option.settings.rounds === matchSettings.rounds &&
+      option.settings.pointLimit === matchSettings.pointLimit
+  )
+
+  // Presets that cannot seat everyone already in the lobby are unavailable
+  const canUsePreset = (presetId: GameRulesPresetId) =>
+    players.length <= gameRulePresets[presetId].rules.maxPlayers
 
   const handleJoinGame = (e: React.FormEvent) => {
     e.preventDefault()
-    if (playerName.trim() && players.length < 4) {
+    if (playerName.trim() && !isFull) {
       const playerId = uuidv4()
       onPlayerJoin(playerId, playerName.trim())
       setPlayerName("") // Clear the input for next player
     }
   }
 
-  const canStartGame = players.length >= 2
+  const handleAddBot = () => {
+    if (onBotJoin && !isFull) {
+      const botCount = players.filter((player) => player.kind === "bot").length
+      const botName = `${botStrategies[botStrategy].name} Bot ${botCount + 1}`
+      onBotJoin(uuidv4(), botName, botStrategy)
+    }
+  }
+
+  const canStartGame = players.length >= minPlayers
+  const playersNeeded = Math.max(0, minPlayers - players.length)
 
   return (
     <div className="flex flex-col items-center justify-center flex-1 p-6 text-center">
@@ -37,12 +113,42 @@ const Lobby: React.FC<LobbyProps> = ({
           <h2 className="text-3xl text-white font-bold">Game Lobby</h2>
         </div>
         <p className="text-lg text-white/90 max-w-2xl">
-          Welcome to the Real-time Card Game! Add 2-4 players to start competing
-          for the lowest hand value. The game runs for exactly 3 minutes - may
-          the best strategist win!
+          Welcome to the Real-time Card Game! Add {playerRange} players to start
+          competing for the lowest hand value. The game runs for exactly{" "}
+          {roundDuration} - may the best strategist win!
         </p>
       </div>
 
+      {/* Resume Prompt */}
+      {savedGame && onResumeGame && (
+        <div className="mb-8 bg-white/95 p-6 rounded-2xl shadow-xl border border-white/20 max-w-2xl w-full">
+          <h3 className="text-xl font-bold text-gray-800 mb-2">Resume game?</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            {savedGame.snapshot.context.players
+              .map((player) => player.name)
+              .join(", ")}{" "}
+            - round {savedGame.snapshot.context.roundNumber}, saved{" "}
+            {savedGame.savedAt.toLocaleString()}
+          </p>
+          <div className="flex gap-3 justify-center">
+            <button
+              onClick={onResumeGame}
+              className="px-6 py-3 bg-green-500 text-white rounded-xl font-bold hover:bg-green-600 transition-all duration-200"
+            >
+              Resume Game
+            </button>
+            {onDiscardSavedGame && (
+              <button
+                onClick={onDiscardSavedGame}
+                className="px-6 py-3 bg-gray-200 text-gray-700 rounded-xl font-bold hover:bg-gray-300 transition-all duration-200"
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 max-w-6xl w-full">
         {/* Game Rules Card */}
@@ -58,21 +164,425 @@ const Lobby: React.FC<LobbyProps> = ({
               <strong>Objective:</strong> Get the lowest total hand value
             </li>
             <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
-              <strong>Time Limit:</strong> 3 minutes per round
+              <strong>Time Limit:</strong> {roundDuration} per round
             </li>
+            {rules.turnDurationSeconds !== null && (
+              <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
+                <strong>Turn Limit:</strong> {rules.turnDurationSeconds} seconds
+                per turn, then{" "}
+                {turnTimeoutPolicies[
+                  rules.turnTimeoutPolicy
+                ].description.toLowerCase()}
+              </li>
+            )}
+            {rules.allowUndo && (
+              <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
+                <strong>Undo:</strong> A play can be taken back until the next
+                player acts
+              </li>
+            )}
+            {rules.spectatorsSeeHands && (
+              <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
+                <strong>Spectators:</strong> Anyone watching sees every hand
+              </li>
+            )}
+            {rules.jokers > 0 && (
+              <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
+                <strong>Jokers:</strong> {rules.jokers} wild, played as any
+                value you declare; {rules.jokerPoints} points if left in hand
+              </li>
+            )}
+            {rules.teamPlay && (
+              <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
+                <strong>Teams:</strong> Two against two with partners sitting
+                opposite; a team scores its members' hands added up
+                {rules.partnersSeeHands
+                  ? ", and partners see each other's"
+                  : ""}
+              </li>
+            )}
+            {rules.interrupts && (
+              <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
+                <strong>Interrupts:</strong> Anyone holding a card of the same
+                value as the top card may slam it out of turn; the first to
+                claim it wins, and play carries on after them
+              </li>
+            )}
+            {rules.powerCards && (
+              <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
+                <strong>Power Cards:</strong> A Jack skips the next player, an 8
+                reverses the turn order and a 2 makes the next player draw two
+              </li>
+            )}
             <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
-              <strong>Card Values:</strong> Ace=1, 2-10=face value, J=11, Q=12,
-              K=13
+              <strong>Ties:</strong>{" "}
+              {rules.tieBreakers.length > 0
+                ? `Broken by ${formatTieBreakerOrder(rules.tieBreakers).toLowerCase()}`
+                : "The lowest scores share the win"}
+            </li>
+            <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
+              <strong>Card Values:</strong>{" "}
+              {scoringSystems[rules.scoringSystem].description}
             </li>
             <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
               <strong>Play Rules:</strong> Match value or play ascending
               sequence
+              {rules.aceWrapsOnKing ? " (Ace follows King)" : ""}
+              {rules.allowSumPlays
+                ? ", or cards that add up to the top card"
+                : ""}
+            </li>
+            <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
+              <strong>No Legal Play:</strong>{" "}
+              {rules.forcedDrawBeforeSkip
+                ? "Draw a card first, then skip if it does not help"
+                : "Skip the turn"}
             </li>
             <li className="mb-2 pl-5 relative before:content-['•'] before:text-green-500 before:font-bold before:absolute before:left-0">
               <strong>Controls:</strong> Click cards to select, SPACE to play
-              batch
+              batch, or play by keyboard alone (press H in a game to see and
+              change the keys)
             </li>
           </ul>
+
+          {/* Rule Presets */}
+          {onRulesChange && (
+            <div className="mt-6 pt-6 border-t border-gray-200">
+              <label
+                htmlFor="rules-preset"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Rule Preset
+              </label>
+              <select
+                id="rules-preset"
+                value={selectedPreset?.id ?? ""}
+                onChange={(e) =>
+                  onRulesChange(
+                    gameRulePresets[e.target.value as GameRulesPresetId].rules
+                  )
+                }
+                className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+              >
+                {!selectedPreset && (
+                  <option value="" disabled>
+                    Custom
+                  </option>
+                )}
+                {Object.values(gameRulePresets).map((preset) => (
+                  <option
+                    key={preset.id}
+                    value={preset.id}
+                    disabled={!canUsePreset(preset.id)}
+                  >
+                    {preset.name} - {preset.description}
+                  </option>
+                ))}
+              </select>
+
+              <div className="grid grid-cols-2 gap-4 mt-4">
+                <div>
+                  <label
+                    htmlFor="turn-timer"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Turn Timer
+                  </label>
+                  <select
+                    id="turn-timer"
+                    value={rules.turnDurationSeconds ?? ""}
+                    onChange={(e) =>
+                      onRulesChange({
+                        ...rules,
+                        turnDurationSeconds: e.target.value
+                          ? Number(e.target.value)
+                          : null,
+                      })
+                    }
+                    className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+                  >
+                    {turnDurationOptions.map((seconds) => (
+                      <option key={seconds ?? "off"} value={seconds ?? ""}>
+                        {seconds === null ? "Off" : `${seconds} seconds`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label
+                    htmlFor="turn-timeout-policy"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    On Timeout
+                  </label>
+                  <select
+                    id="turn-timeout-policy"
+                    value={rules.turnTimeoutPolicy}
+                    disabled={rules.turnDurationSeconds === null}
+                    onChange={(e) =>
+                      onRulesChange({
+                        ...rules,
+                        turnTimeoutPolicy: e.target.value as TurnTimeoutPolicy,
+                      })
+                    }
+                    className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl text-sm focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                  >
+                    {(
+                      Object.keys(turnTimeoutPolicies) as TurnTimeoutPolicy[]
+                    ).map((policy) => (
+                      <option key={policy} value={policy}>
+                        {turnTimeoutPolicies[policy].name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label
+                htmlFor="scoring-system"
+                className="block text-sm font-medium text-gray-700 mt-4 mb-2"
+              >
+                Scoring
+              </label>
+              <select
+                id="scoring-system"
+                value={rules.scoringSystem}
+                onChange={(e) =>
+                  onRulesChange({
+                    ...rules,
+                    scoringSystem: e.target.value as ScoringSystemId,
+                  })
+                }
+                className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+              >
+                {Object.values(scoringSystems).map((system) => (
+                  <option key={system.id} value={system.id}>
+                    {system.name} - {system.description}
+                  </option>
+                ))}
+              </select>
+
+              <div className="grid grid-cols-2 gap-4 mt-4">
+                <div>
+                  <label
+                    htmlFor="jokers"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Jokers
+                  </label>
+                  <select
+                    id="jokers"
+                    value={rules.jokers}
+                    onChange={(e) =>
+                      onRulesChange({
+                        ...rules,
+                        jokers: Number(e.target.value),
+                      })
+                    }
+                    className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+                  >
+                    {Array.from({ length: MAX_JOKERS + 1 }, (_, count) => (
+                      <option key={count} value={count}>
+                        {count === 0 ? "None" : `${count} wild`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label
+                    htmlFor="joker-points"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Joker Left in Hand
+                  </label>
+                  <select
+                    id="joker-points"
+                    value={rules.jokerPoints}
+                    disabled={rules.jokers === 0}
+                    onChange={(e) =>
+                      onRulesChange({
+                        ...rules,
+                        jokerPoints: Number(e.target.value),
+                      })
+                    }
+                    className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl text-sm focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                  >
+                    {jokerPointOptions.map((points) => (
+                      <option key={points} value={points}>
+                        {points} points
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label
+                htmlFor="tie-breakers"
+                className="block text-sm font-medium text-gray-700 mt-4 mb-2"
+              >
+                Tie-Breakers
+              </label>
+              <select
+                id="tie-breakers"
+                value={rules.tieBreakers.join(",")}
+                onChange={(e) =>
+                  onRulesChange({
+                    ...rules,
+                    tieBreakers: e.target.value
+                      ? (e.target.value.split(",") as TieBreakerId[])
+                      : [],
+                  })
+                }
+                className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+              >
+                {!tieBreakerOrderOptions.some(
+                  (order) => order.join(",") === rules.tieBreakers.join(",")
+                ) && (
+                  <option value={rules.tieBreakers.join(",")} disabled>
+                    {formatTieBreakerOrder(rules.tieBreakers)}
+                  </option>
+                )}
+                {tieBreakerOrderOptions.map((order) => (
+                  <option key={order.join(",")} value={order.join(",")}>
+                    {formatTieBreakerOrder(order)}
+                  </option>
+                ))}
+              </select>
+
+              <label className="flex items-center gap-2 mt-4 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rules.allowUndo}
+                  onChange={(e) =>
+                    onRulesChange({ ...rules, allowUndo: e.target.checked })
+                  }
+                  className="w-4 h-4"
+                />
+                Allow Undo (practice and casual tables)
+              </label>
+
+              <label className="flex items-center gap-2 mt-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rules.forcedDrawBeforeSkip}
+                  onChange={(e) =>
+                    onRulesChange({
+                      ...rules,
+                      forcedDrawBeforeSkip: e.target.checked,
+                    })
+                  }
+                  className="w-4 h-4"
+                />
+                Forced Draw Before Skip
+              </label>
+
+              <label className="flex items-center gap-2 mt-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rules.spectatorsSeeHands}
+                  onChange={(e) =>
+                    onRulesChange({
+                      ...rules,
+                      spectatorsSeeHands: e.target.checked,
+                    })
+                  }
+                  className="w-4 h-4"
+                />
+                Spectators See All Hands
+              </label>
+
+              <label className="flex items-center gap-2 mt-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rules.powerCards}
+                  onChange={(e) =>
+                    onRulesChange({ ...rules, powerCards: e.target.checked })
+                  }
+                  className="w-4 h-4"
+                />
+                Power Cards (J skips, 8 reverses, 2 draws two)
+              </label>
+
+              <label className="flex items-center gap-2 mt-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rules.interrupts}
+                  onChange={(e) =>
+                    onRulesChange({ ...rules, interrupts: e.target.checked })
+                  }
+                  className="w-4 h-4"
+                />
+                Interrupts (slam a matching card out of turn)
+              </label>
+
+              <label className="flex items-center gap-2 mt-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rules.teamPlay}
+                  onChange={(e) =>
+                    onRulesChange({
+                      ...rules,
+                      teamPlay: e.target.checked,
+                      partnersSeeHands: false,
+                    })
+                  }
+                  className="w-4 h-4"
+                />
+                Team Play (2 vs 2, partners opposite)
+              </label>
+
+              {rules.teamPlay && (
+                <label className="flex items-center gap-2 mt-2 ml-6 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={rules.partnersSeeHands}
+                    onChange={(e) =>
+                      onRulesChange({
+                        ...rules,
+                        partnersSeeHands: e.target.checked,
+                      })
+                    }
+                    className="w-4 h-4"
+                  />
+                  Partners See Each Other's Hands
+                </label>
+              )}
+            </div>
+          )}
+
+          {/* Match Length */}
+          {onMatchSettingsChange && (
+            <div className="mt-4">
+              <label
+                htmlFor="match-length"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Match Length
+              </label>
+              <select
+                id="match-length"
+                value={selectedMatchLength?.id ?? ""}
+                onChange={(e) => {
+                  const option = matchLengthOptions.find(
+                    (candidate) => candidate.id === e.target.value
+                  )
+                  if (option) onMatchSettingsChange(option.settings)
+                }}
+                className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+              >
+                {!selectedMatchLength && (
+                  <option value="" disabled>
+                    Custom
+                  </option>
+                )}
+                {matchLengthOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
         {/* Players Card */}
@@ -82,7 +592,7 @@ const Lobby: React.FC<LobbyProps> = ({
               <span className="text-white text-sm font-bold">👥</span>
             </div>
             <h3 className="text-xl font-bold text-gray-800">
-              Players ({players.length}/4)
+              Players ({players.length}/{maxPlayers})
             </h3>
           </div>
           {/* Players List */}
@@ -105,9 +615,20 @@ const Lobby: React.FC<LobbyProps> = ({
                   <span className="font-medium text-gray-800">
                     {player.name}
                   </span>
-                  <div className="ml-auto text-xs text-green-600 bg-green-100 px-2 py-1 rounded-full">
-                    Ready
-                  </div>
+                  {rules.teamPlay && (
+                    <div className="text-xs text-blue-600 bg-blue-100 px-2 py-1 rounded-full">
+                      Team {getTeamNumber(index)}
+                    </div>
+                  )}
+                  {player.kind === "bot" ? (
+                    <div className="ml-auto text-xs text-purple-600 bg-purple-100 px-2 py-1 rounded-full">
+                      🤖 Bot
+                    </div>
+                  ) : (
+                    <div className="ml-auto text-xs text-green-600 bg-green-100 px-2 py-1 rounded-full">
+                      Ready
+                    </div>
+                  )}
                 </div>
               ))
             )}
@@ -127,23 +648,58 @@ const Lobby: React.FC<LobbyProps> = ({
                   type="text"
                   value={playerName}
                   onChange={(e) => setPlayerName(e.target.value)}
-                  placeholder={
-                    players.length >= 4 ? "Game Full" : "Enter your name..."
-                  }
+                  placeholder={isFull ? "Game Full" : "Enter your name..."}
                   maxLength={20}
                   required
-                  disabled={players.length >= 4}
+                  disabled={isFull}
                   className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl text-base text-center focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 disabled:bg-gray-100 disabled:cursor-not-allowed transition-all duration-200"
                 />
               </div>
               <button
                 type="submit"
-                disabled={!playerName.trim() || players.length >= 4}
+                disabled={!playerName.trim() || isFull}
                 className="bg-gradient-to-r from-blue-500 to-purple-600 text-white border-none px-8 py-3 rounded-xl text-base font-bold cursor-pointer transition-all duration-200 hover:from-blue-600 hover:to-purple-700 hover:-translate-y-0.5 hover:shadow-lg hover:shadow-blue-500/30 disabled:bg-gray-300 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-none disabled:from-gray-300 disabled:to-gray-300"
               >
-                {players.length >= 4 ? "Lobby Full" : "Add Player"}
+                {isFull ? "Lobby Full" : "Add Player"}
               </button>
             </form>
+
+            {/* Add Bot Controls */}
+            {onBotJoin && (
+              <div className="flex flex-col gap-3 items-center mt-6 pt-6 border-t border-gray-200">
+                <label
+                  htmlFor="bot-strategy"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Computer Opponent
+                </label>
+                <div className="flex gap-2 w-full max-w-sm">
+                  <select
+                    id="bot-strategy"
+                    value={botStrategy}
+                    onChange={(e) =>
+                      setBotStrategy(e.target.value as BotStrategyId)
+                    }
+                    disabled={isFull}
+                    className="flex-1 px-3 py-2 border-2 border-gray-300 rounded-xl text-sm focus:outline-none focus:border-purple-500 disabled:bg-gray-100"
+                  >
+                    {Object.values(botStrategies).map((strategy) => (
+                      <option key={strategy.id} value={strategy.id}>
+                        {strategy.name} - {strategy.description}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleAddBot}
+                    disabled={isFull}
+                    className="bg-purple-500 text-white border-none px-4 py-2 rounded-xl text-sm font-bold cursor-pointer transition-all duration-200 hover:bg-purple-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                  >
+                    Add Bot
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Start Game Section */}
@@ -159,8 +715,8 @@ const Lobby: React.FC<LobbyProps> = ({
                   </h4>
                 </div>
                 <p className="text-green-700 mb-4">
-                  All players are ready. Click below to begin the 3-minute
-                  challenge!
+                  All players are ready. Click below to begin the{" "}
+                  {roundDuration} challenge!
                 </p>
                 <button
                   onClick={onStartGame}
@@ -173,11 +729,11 @@ const Lobby: React.FC<LobbyProps> = ({
               <div className="bg-gray-50 rounded-2xl p-6 border-2 border-dashed border-gray-200">
                 <div className="text-gray-400 text-4xl mb-3">⏳</div>
                 <p className="text-gray-600 font-medium">
-                  Minimum 2 players required to start
+                  Minimum {minPlayers} players required to start
                 </p>
                 <p className="text-sm text-gray-500 mt-1">
-                  Add {Math.max(0, 2 - players.length)} more player
-                  {Math.max(0, 2 - players.length) !== 1 ? "s" : ""} to begin
+                  Add {playersNeeded} more player
+                  {playersNeeded !== 1 ? "s" : ""} to begin
                 </p>
               </div>
             )}
@@ -185,10 +741,12 @@ const Lobby: React.FC<LobbyProps> = ({
             {!canStartGame && (
               <div className="text-center mt-4">
                 <p className="mb-2 text-gray-700">
-                  Need {2 - players.length} more player
-                  {2 - players.length !== 1 ? "s" : ""} to start
+                  Need {playersNeeded} more player
+                  {playersNeeded !== 1 ? "s" : ""} to start
+                </p>
+                <p className="text-sm text-gray-600">
+                  ({playerRange} players required)
                 </p>
-                <p className="text-sm text-gray-600">(2-4 players required)</p>
               </div>
             )}
           </div>
@@ -0,0 +1,37 @@
+import React from "react"
+
+interface PauseOverlayProps {
+  onResume: () => void
+}
+
+// Covers the table while the round is paused. The machine has already
+// stopped both clocks; this only keeps the board out of play.
+const PauseOverlay: React.FC<PauseOverlayProps> = ({ onResume }) => {
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="pause-title"
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+    >
+      <div className="bg-white/95 rounded-xl p-10 shadow-lg text-center max-w-md">
+        <div className="text-5xl mb-4">⏸️</div>
+        <h2 id="pause-title" className="text-2xl font-bold text-gray-800 mb-2">
+          Game Paused
+        </h2>
+        <p className="text-gray-600 mb-6">
+          The round and turn timers are stopped. Press P or resume when everyone
+          is ready.
+        </p>
+        <button
+          onClick={onResume}
+          className="bg-gradient-to-r from-green-500 to-emerald-600 text-white border-none px-8 py-4 rounded-xl text-lg font-bold cursor-pointer transition-all duration-200 hover:from-green-600 hover:to-emerald-700 hover:-translate-y-0.5 hover:shadow-lg hover:shadow-green-500/30"
+        >
+          Resume Game
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default PauseOverlay
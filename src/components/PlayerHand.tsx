@@ -1,15 +1,26 @@
 import React, { memo, useMemo, useCallback } from "react"
-import type { Player, Card as CardType } from "../types/game"
-import { getValidCards, calculateHandScore } from "../utils/cardUtils"
+import type {
+  Player,
+  PlayerView,
+  Card as CardType,
+  GameRules,
+} from "../types/game"
+import { getValidCards } from "../utils/cardUtils"
+import { botStrategies } from "../utils/botStrategies"
+import { defaultGameRules } from "../utils/gameRules"
+import { scoreHand } from "../utils/scoringSystems"
 import CardComponent from "./Card"
+import CardBack from "./CardBack"
 
 interface PlayerHandProps {
-  player: Player
+  player: Player | PlayerView // hidden views render face down
   isCurrentPlayer: boolean
   selectedCards: CardType[]
   onCardSelect: (cardId: string) => void
   canInteract: boolean
+  focusedCardId?: string | null // keyboard cursor, when the hand has one
   topDiscardCard?: CardType
+  rules?: GameRules
 }
 
 const PlayerHand: React.FC<PlayerHandProps> = ({
@@ -18,16 +29,30 @@ const PlayerHand: React.FC<PlayerHandProps> = ({
   selectedCards,
   onCardSelect,
   canInteract,
+  focusedCardId = null,
   topDiscardCard,
+  rules,
 }) => {
+  const handHidden = "handHidden" in player && player.handHidden
+  const handCount =
+    "handCount" in player ? player.handCount : player.hand.length
+
+  const scoringSystem = rules?.scoringSystem ?? defaultGameRules.scoringSystem
   const handScore = useMemo(
-    () => calculateHandScore(player.hand),
-    [player.hand]
+    () => scoreHand(player.hand, scoringSystem).total,
+    [player.hand, scoringSystem]
   )
 
   const validCards = useMemo(() => {
-    return topDiscardCard ? getValidCards(player.hand, topDiscardCard) : []
-  }, [player.hand, topDiscardCard])
+    return topDiscardCard
+      ? getValidCards(player.hand, topDiscardCard, rules)
+      : []
+  }, [player.hand, topDiscardCard, rules])
+
+  // A hidden hand is only a count; a visible one is a list of choices
+  const handLabel = handHidden
+    ? `${player.name}'s hand, ${handCount} card${handCount !== 1 ? "s" : ""} face down`
+    : `${player.name}'s hand`
 
   const handleCardClick = useCallback(
     (cardId: string) => {
@@ -47,10 +72,17 @@ const PlayerHand: React.FC<PlayerHandProps> = ({
       }`}
     >
       <div className="flex justify-between items-center mb-4">
-        <h3 className="text-gray-800 m-0">{player.name}</h3>
+        <h3 className="text-gray-800 m-0 flex items-center gap-2">
+          {player.name}
+          {player.kind === "bot" && (
+            <span className="bg-purple-100 text-purple-700 px-2 py-0.5 rounded text-xs font-bold">
+              🤖 {botStrategies[player.botStrategy ?? "random"].name} Bot
+            </span>
+          )}
+        </h3>
         <div className="flex gap-4 text-sm text-gray-600">
-          <span>Cards: {player.hand.length}</span>
-          <span>Score: {handScore}</span>
+          <span>Cards: {handCount}</span>
+          {!handHidden && <span>Score: {handScore}</span>}
           {isCurrentPlayer && (
             <span className="bg-green-500 text-white px-2 py-1 rounded text-xs font-bold">
               Your Turn
@@ -59,7 +91,16 @@ const PlayerHand: React.FC<PlayerHandProps> = ({
         </div>
       </div>
 
-      <div className="flex flex-wrap gap-2 justify-start">
+      <div
+        className="flex flex-wrap gap-2 justify-start"
+        role={handHidden ? "group" : "listbox"}
+        aria-label={handLabel}
+        aria-multiselectable={handHidden ? undefined : true}
+      >
+        {handHidden &&
+          Array.from({ length: handCount }, (_, index) => (
+            <CardBack key={index} />
+          ))}
         {player.hand.map((card) => {
           const isSelected = selectedCards.some(
             (selectedCard) => selectedCard.id === card.id
@@ -75,6 +116,8 @@ const PlayerHand: React.FC<PlayerHandProps> = ({
               isSelected={isSelected}
               isValid={isValid}
               canInteract={canInteract}
+              isFocused={card.id === focusedCardId}
+              isOption
               onClick={() => handleCardClick(card.id)}
             />
           )
@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from "react"
+import type { GameContext } from "../types/game"
+import { buildReplay, describeLogEntry, isReplayMove } from "../utils/replay"
+import DiscardPile from "./DiscardPile"
+import PlayerHand from "./PlayerHand"
+
+interface ReplayViewerProps {
+  context: Pick<GameContext, "eventLog" | "rules" | "matchSettings" | "seed">
+  onClose: () => void
+}
+
+// Steps through a finished game move by move, every hand face up, by
+// re-feeding its event log into the state machine
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ context, onClose }) => {
+  const steps = useMemo(() => buildReplay(context.eventLog, context), [context])
+  const moves = useMemo(
+    () =>
+      steps
+        .map((step, index) => ({ step, before: steps[index - 1] ?? step }))
+        .filter(({ step }) => isReplayMove(step)),
+    [steps]
+  )
+  const [moveIndex, setMoveIndex] = useState(0)
+
+  const { step, before } = moves[moveIndex]
+  const { context: stepContext } = step
+  const topDiscardCard =
+    stepContext.discardPile[stepContext.discardPile.length - 1]
+
+  return (
+    <div className="flex-1 flex flex-col w-full max-w-6xl mx-auto gap-6">
+      <div className="flex justify-between items-center bg-white/95 px-6 py-4 rounded-xl shadow-lg">
+        <div className="text-left">
+          <h2 className="text-2xl font-bold text-gray-800">Replay</h2>
+          <p className="text-sm text-gray-600">
+            Move {moveIndex + 1} of {moves.length}
+            {context.seed !== null && ` • Seed ${context.seed}`}
+          </p>
+        </div>
+
+        <p className="font-medium text-gray-800" data-testid="replay-event">
+          {step.entry
+            ? describeLogEntry(step.entry.event, before.context)
+            : "Lobby opened"}
+        </p>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => setMoveIndex((index) => index - 1)}
+            disabled={moveIndex === 0}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-bold hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ◀ Previous
+          </button>
+          <button
+            onClick={() => setMoveIndex((index) => index + 1)}
+            disabled={moveIndex === moves.length - 1}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg font-bold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next ▶
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-red-500 text-white rounded-lg font-bold hover:bg-red-600"
+          >
+            Close Replay
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+        <div className="flex justify-center">
+          <DiscardPile
+            discardPile={stepContext.discardPile}
+            deckSize={stepContext.deck.length}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4">
+        {stepContext.players.map((player, index) => (
+          <PlayerHand
+            key={player.id}
+            player={player}
+            isCurrentPlayer={
+              step.state !== "lobby" && index === stepContext.currentPlayerIndex
+            }
+            selectedCards={[]}
+            onCardSelect={() => {}}
+            canInteract={false}
+            topDiscardCard={topDiscardCard}
+            rules={stepContext.rules}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default ReplayViewer
@@ -1,11 +1,16 @@
-import React from "react"
+import React, { useState } from "react"
 import type { Card as CardType } from "../types/game"
+import { getPlayedValue } from "../utils/cardUtils"
+import type { Hint } from "../utils/hints"
 
 interface RuleHelperProps {
   topDiscardCard: CardType | null
   validCards: CardType[]
   selectedCards: CardType[]
   isVisible: boolean
+  aceWrapsOnKing?: boolean
+  bestPlay?: Hint | null // the best play for the current hand, kept hidden until asked for
+  onShowHint?: () => void
 }
 
 export const RuleHelper: React.FC<RuleHelperProps> = ({
@@ -13,11 +18,25 @@ export const RuleHelper: React.FC<RuleHelperProps> = ({
   validCards,
   selectedCards,
   isVisible,
+  aceWrapsOnKing = true,
+  bestPlay = null,
+  onShowHint,
 }) => {
+  // The board gives this a new key when the position changes, which hides
+  // the hint again
+  const [isHintShown, setIsHintShown] = useState(false)
+
   if (!isVisible || !topDiscardCard) return null
 
+  const handleShowHint = () => {
+    setIsHintShown(true)
+    onShowHint?.()
+  }
+
+  // A joker on the pile counts as what it was declared as
+  const topValue = getPlayedValue(topDiscardCard)
+
   const getValidMoveHint = () => {
-    const topValue = topDiscardCard.value
     const nextValue = getNextValue(topValue)
 
     return {
@@ -66,8 +85,10 @@ export const RuleHelper: React.FC<RuleHelperProps> = ({
         </div>
         <div className="ml-3">
           <h3 className="text-sm font-medium text-blue-800">
-            Valid Moves on {topDiscardCard.value}
-            {topDiscardCard.suit === "hearts"
+            Valid Moves on {topValue}
+            {topDiscardCard.suit === "joker"
+              ? "🃏"
+              : topDiscardCard.suit === "hearts"
               ? "♥"
               : topDiscardCard.suit === "diamonds"
               ? "♦"
@@ -80,14 +101,25 @@ export const RuleHelper: React.FC<RuleHelperProps> = ({
               <li>
                 Play another <strong>{hint.sameValue}</strong> (same value)
               </li>
-              <li>
-                Play a <strong>{hint.nextValue}</strong> (next in sequence)
-              </li>
-              {topDiscardCard.value === "K" && (
+              {topValue !== "K" && (
+                <li>
+                  Play a <strong>{hint.nextValue}</strong> (next in sequence)
+                </li>
+              )}
+              {topValue === "K" && aceWrapsOnKing && (
                 <li>
                   Play an <strong>Ace</strong> (wraps around from King)
                 </li>
               )}
+              {(aceWrapsOnKing || !["Q", "K"].includes(topValue)) && (
+                <li>
+                  Play a run such as{" "}
+                  <strong>
+                    {hint.nextValue}-{getNextValue(hint.nextValue)}
+                  </strong>{" "}
+                  (each card one higher, starting from a card you could play)
+                </li>
+              )}
             </ul>
           </div>
 
@@ -106,6 +138,20 @@ export const RuleHelper: React.FC<RuleHelperProps> = ({
             </div>
           )}
 
+          {bestPlay &&
+            (isHintShown ? (
+              <p className="mt-3 text-sm text-blue-900 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                💡 {bestPlay.explanation}
+              </p>
+            ) : (
+              <button
+                onClick={handleShowHint}
+                className="mt-3 text-sm font-medium text-blue-700 bg-white border border-blue-300 rounded-lg px-3 py-1 cursor-pointer hover:bg-blue-100"
+              >
+                💡 Show Hint
+              </button>
+            ))}
+
           {selectedCards.length > 0 && (
             <div className="mt-3 text-sm">
               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
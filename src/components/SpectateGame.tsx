@@ -0,0 +1,226 @@
+import React, { useCallback, useEffect, useRef, useState } from "react"
+import type { GameContextView, GameState } from "../types/game"
+import { createGameClient, type GameClient } from "../net/gameClient"
+import SpectatorBoard from "./SpectatorBoard"
+
+// Where `npm run server` listens unless PORT says otherwise
+const DEFAULT_SERVER_URL = `ws://${window.location.hostname || "localhost"}:8080`
+
+interface SpectateGameProps {
+  serverUrl?: string
+  connect?: (url: string) => GameClient // swapped out in tests
+}
+
+interface Watching {
+  state: GameState
+  view: GameContextView
+  spectators: string[]
+}
+
+const inputClassName =
+  "w-full px-4 py-3 border-2 border-gray-300 rounded-xl text-base text-center focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all duration-200"
+
+// Watch a game on the multiplayer server without a seat: connects through
+// the game client as a spectator and shows the snapshots it is sent on a
+// SpectatorBoard. A dropped connection leaves the last snapshot up, marked
+// as disconnected.
+const SpectateGame: React.FC<SpectateGameProps> = ({
+  serverUrl = DEFAULT_SERVER_URL,
+  connect = createGameClient,
+}) => {
+  const [url, setUrl] = useState(serverUrl)
+  const [gameId, setGameId] = useState("")
+  const [spectatorName, setSpectatorName] = useState("")
+  const [isConnecting, setIsConnecting] = useState(false)
+  const [watching, setWatching] = useState<Watching | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isDisconnected, setIsDisconnected] = useState(false)
+  const clientRef = useRef<GameClient | null>(null)
+
+  const disconnect = useCallback(() => {
+    clientRef.current?.close()
+    clientRef.current = null
+  }, [])
+
+  useEffect(() => disconnect, [disconnect])
+
+  const fail = useCallback(
+    (message: string) => {
+      setError(message)
+      setWatching(null)
+      setIsConnecting(false)
+      disconnect()
+    },
+    [disconnect]
+  )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    disconnect()
+    setError(null)
+    setIsDisconnected(false)
+    setIsConnecting(true)
+
+    const address = url.trim()
+    let client: GameClient | null = null
+    try {
+      client = connect(address)
+      clientRef.current = client
+      const current = client
+      client.onMessage((message) => {
+        if (clientRef.current !== current) return
+
+        if (message.type === "SNAPSHOT") {
+          setWatching({
+            state: message.state,
+            view: message.context,
+            spectators: message.spectators,
+          })
+          setIsConnecting(false)
+        } else if (message.type === "ERROR") {
+          fail(message.message)
+        }
+      })
+      client.onClose(() => {
+        if (clientRef.current !== current) return
+
+        clientRef.current = null
+        setIsDisconnected(true)
+        setIsConnecting(false)
+      })
+      await client.ready
+    } catch {
+      // A later attempt may have taken over while this one was connecting
+      if (client === clientRef.current) {
+        fail(`Could not reach the game server at ${address}`)
+      }
+      return
+    }
+
+    if (clientRef.current === client) {
+      client.spectate(gameId.trim(), spectatorName.trim())
+    }
+  }
+
+  const handleStopWatching = () => {
+    disconnect()
+    setWatching(null)
+    setIsDisconnected(false)
+  }
+
+  if (watching) {
+    return (
+      <div className="flex-1 flex flex-col gap-4">
+        <div className="flex items-center justify-end gap-4">
+          {isDisconnected && (
+            <p
+              role="alert"
+              className="flex-1 px-4 py-2 bg-red-500/90 text-white rounded-xl font-bold"
+            >
+              Disconnected from the game server, showing the last update
+            </p>
+          )}
+          <button
+            onClick={handleStopWatching}
+            className="px-4 py-2 bg-white/20 text-white rounded-xl font-bold hover:bg-white/30 transition-all duration-200"
+          >
+            {isDisconnected ? "Back" : "Stop Watching"}
+          </button>
+        </div>
+        <SpectatorBoard
+          state={watching.state}
+          view={watching.view}
+          spectators={watching.spectators}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 flex flex-col items-center p-5">
+      <div className="bg-white/95 rounded-xl p-8 shadow-lg max-w-md w-full">
+        <h2 className="text-2xl font-bold text-gray-800 mb-2 text-center">
+          👀 Watch a Game
+        </h2>
+        <p className="text-gray-600 text-sm text-center mb-6">
+          Follow a game on the multiplayer server without taking a seat
+        </p>
+
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <div>
+            <label
+              htmlFor="spectate-server"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Server
+            </label>
+            <input
+              id="spectate-server"
+              type="text"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="spectate-game-id"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Game ID
+            </label>
+            <input
+              id="spectate-game-id"
+              type="text"
+              value={gameId}
+              onChange={(e) => setGameId(e.target.value)}
+              placeholder="table-1"
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="spectate-name"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Your Name
+            </label>
+            <input
+              id="spectate-name"
+              type="text"
+              value={spectatorName}
+              onChange={(e) => setSpectatorName(e.target.value)}
+              placeholder="Enter your name..."
+              maxLength={20}
+              required
+              className={inputClassName}
+            />
+          </div>
+
+          {(error || isDisconnected) && (
+            <p role="alert" className="text-red-600 text-sm text-center">
+              {error ?? "Disconnected from the game server"}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={
+              isConnecting ||
+              !url.trim() ||
+              !gameId.trim() ||
+              !spectatorName.trim()
+            }
+            className="bg-gradient-to-r from-blue-500 to-purple-600 text-white border-none px-8 py-3 rounded-xl text-base font-bold cursor-pointer transition-all duration-200 hover:from-blue-600 hover:to-purple-700 disabled:cursor-not-allowed disabled:from-gray-300 disabled:to-gray-300"
+          >
+            {isConnecting ? "Connecting..." : "Watch"}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default SpectateGame
@@ -0,0 +1,139 @@
+import React from "react"
+import type { GameContextView, GameState } from "../types/game"
+import { isMatchComplete } from "../utils/matchUtils"
+import PlayerHand from "./PlayerHand"
+import DiscardPile from "./DiscardPile"
+import GameTimer from "./GameTimer"
+import TurnTimer from "./TurnTimer"
+import GameStatus from "./GameStatus"
+import GameOver from "./GameOver"
+import ActionIndicator from "./ActionIndicator"
+import AutoPlayNotifications from "./AutoPlayNotifications"
+
+interface SpectatorBoardProps {
+  state: GameState
+  view: GameContextView // from projectContextForSpectator
+  spectators?: string[]
+}
+
+// A read-only table for someone watching without a seat. It renders the
+// snapshots the server sends spectators and has nothing that sends events.
+const SpectatorBoard: React.FC<SpectatorBoardProps> = ({
+  state,
+  view,
+  spectators = [],
+}) => {
+  const watchingBadge = (
+    <div className="px-4 py-2 rounded-lg font-bold text-sm bg-indigo-100 text-indigo-800 border-2 border-indigo-200">
+      👀 Spectating
+      {spectators.length > 0 && (
+        <span className="font-normal"> • {spectators.length} watching</span>
+      )}
+    </div>
+  )
+
+  if (state === "lobby") {
+    return (
+      <div className="flex-1 flex flex-col items-center gap-6 p-5">
+        {watchingBadge}
+        <div className="bg-white/95 rounded-xl p-8 shadow-lg max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">
+            Waiting for the game to start
+          </h2>
+          <ul className="text-gray-700">
+            {view.players.map((player) => (
+              <li key={player.id}>{player.name}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    )
+  }
+
+  if (state === "gameOver") {
+    return (
+      <GameOver
+        finalScores={view.finalScores}
+        winners={view.winners}
+        tieBreak={view.tieBreak}
+        teamScores={view.teamScores}
+        gameEndReason={view.gameEndReason}
+        seed={view.seed}
+        roundDurationSeconds={view.rules.roundDurationSeconds}
+        match={{
+          settings: view.matchSettings,
+          roundNumber: view.roundNumber,
+          history: view.roundHistory,
+          totals: view.matchTotals,
+          isComplete: isMatchComplete(view),
+        }}
+      />
+    )
+  }
+
+  const topDiscardCard = view.discardPile[view.discardPile.length - 1]
+
+  return (
+    <div className="flex-1 flex flex-col w-full max-w-6xl mx-auto">
+      <div className="flex justify-between items-center bg-white/95 px-6 py-4 rounded-xl mb-5 shadow-lg">
+        <div className="flex items-center gap-6">
+          <GameTimer timeRemaining={view.gameTimer} />
+          {view.rules.turnDurationSeconds !== null &&
+            state === "playerTurn" && (
+              <TurnTimer timeRemaining={view.turnTimer} />
+            )}
+        </div>
+
+        <GameStatus
+          currentState={state}
+          currentPlayer={view.players[view.currentPlayerIndex]}
+          playersCount={view.players.length}
+        />
+
+        {watchingBadge}
+      </div>
+
+      <div className="mb-5">
+        <ActionIndicator context={view} currentState={state} />
+      </div>
+
+      <div className="flex-1 flex flex-col gap-6">
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+          <div className="flex justify-center">
+            <DiscardPile
+              discardPile={view.discardPile}
+              deckSize={view.deckCount}
+            />
+          </div>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 border border-white/20">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-8 h-8 bg-white/20 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold">👥</span>
+            </div>
+            <h3 className="text-white font-bold text-lg">Players</h3>
+          </div>
+          <div className="flex flex-col gap-4">
+            {view.players.map((player, index) => (
+              <PlayerHand
+                key={player.id}
+                player={player}
+                isCurrentPlayer={index === view.currentPlayerIndex}
+                selectedCards={view.selectedCards}
+                onCardSelect={() => {}}
+                canInteract={false}
+                topDiscardCard={topDiscardCard}
+                rules={view.rules}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <AutoPlayNotifications notifications={view.autoPlayNotifications} />
+    </div>
+  )
+}
+
+export default SpectatorBoard
@@ -0,0 +1,25 @@
+import React, { memo, useMemo } from "react"
+
+interface TurnTimerProps {
+  timeRemaining: number
+}
+
+// The current player's shot clock, shown beside the round timer
+const TurnTimer: React.FC<TurnTimerProps> = ({ timeRemaining }) => {
+  const timerClasses = useMemo(() => {
+    const baseClasses = "text-center px-4 py-2.5 rounded-lg font-bold"
+    if (timeRemaining <= 3)
+      return `${baseClasses} bg-red-500 text-white animate-pulse`
+    if (timeRemaining <= 5) return `${baseClasses} bg-orange-500 text-white`
+    return `${baseClasses} bg-blue-500 text-white`
+  }, [timeRemaining])
+
+  return (
+    <div className={timerClasses}>
+      <div className="text-xs opacity-90">Turn Time</div>
+      <div className="text-2xl font-bold">{timeRemaining}s</div>
+    </div>
+  )
+}
+
+export default memo(TurnTimer)
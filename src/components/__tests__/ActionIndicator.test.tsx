@@ -5,7 +5,10 @@ import {
   createMockGameContext,
   createMockPlayer,
   createCards,
+  createMockCard,
 } from "../../test/test-utils"
+import { projectContextForSpectator } from "../../utils/viewUtils"
+import { defaultGameRules } from "../../utils/gameRules"
 
 describe("ActionIndicator", () => {
   it("shows lobby message in lobby state", () => {
@@ -43,9 +46,8 @@ describe("ActionIndicator", () => {
 
     render(<ActionIndicator context={context} currentState="playerTurn" />)
 
-    expect(
-      screen.getByText(/Auto-playing Alice's only valid card/)
-    ).toBeInTheDocument()
+    // The 7 on the 6, or the 7-8 run
+    expect(screen.getByText(/Alice has 2 legal plays/)).toBeInTheDocument()
   })
 
   it("shows auto-play message for single valid card", () => {
@@ -90,6 +92,78 @@ describe("ActionIndicator", () => {
     ).toBeInTheDocument()
   })
 
+  it("shows auto-draw message when a stuck player must draw first", () => {
+    const context = createMockGameContext({
+      players: [
+        createMockPlayer({
+          id: "player-1",
+          name: "Alice",
+          hand: createCards(["2", "3"]),
+          isCurrentPlayer: true,
+        }),
+      ],
+      deck: createCards(["9"]),
+      discardPile: createCards(["7"]),
+      rules: { ...defaultGameRules, forcedDrawBeforeSkip: true },
+      selectedCards: [],
+    })
+
+    render(<ActionIndicator context={context} currentState="playerTurn" />)
+
+    expect(
+      screen.getByText(/Alice has no valid moves - drawing a card/)
+    ).toBeInTheDocument()
+  })
+
+  it("only names the current player to spectators who cannot see hands", () => {
+    const context = createMockGameContext({
+      players: [
+        createMockPlayer({
+          id: "player-1",
+          name: "Alice",
+          hand: createCards(["2", "3"]),
+          isCurrentPlayer: true,
+        }),
+      ],
+      discardPile: createCards(["7"]),
+    })
+
+    render(
+      <ActionIndicator
+        context={projectContextForSpectator(context)}
+        currentState="playerTurn"
+      />
+    )
+
+    expect(screen.getByText("Alice is taking their turn")).toBeInTheDocument()
+  })
+
+  it("works out forced draws from a spectator's deck count", () => {
+    const context = createMockGameContext({
+      players: [
+        createMockPlayer({
+          id: "player-1",
+          name: "Alice",
+          hand: createCards(["2", "3"]),
+          isCurrentPlayer: true,
+        }),
+      ],
+      deck: createCards(["9"]),
+      discardPile: createCards(["7"]),
+      rules: { ...defaultGameRules, forcedDrawBeforeSkip: true },
+    })
+    const view = projectContextForSpectator({
+      ...context,
+      rules: { ...context.rules, spectatorsSeeHands: true },
+    })
+
+    render(<ActionIndicator context={view} currentState="playerTurn" />)
+
+    expect(
+      screen.getByText(/Alice has no valid moves - drawing a card/)
+    ).toBeInTheDocument()
+  })
+
   it("shows multiple cards message when player has multiple valid cards", () => {
     const context = createMockGameContext({
       players: [
@@ -106,7 +180,27 @@ describe("ActionIndicator", () => {
 
     render(<ActionIndicator context={context} currentState="playerTurn" />)
 
-    expect(screen.getByText(/Alice has 2 valid cards/)).toBeInTheDocument()
+    // 7, 8, or both together
+    expect(screen.getByText(/Alice has 3 legal plays/)).toBeInTheDocument()
+  })
+
+  it("does not skip a player whose only play is a combination", () => {
+    const context = createMockGameContext({
+      players: [
+        createMockPlayer({
+          id: "player-1",
+          name: "Alice",
+          hand: createCards(["2", "3", "K"]), // 2+3 on a 5
+          isCurrentPlayer: true,
+        }),
+      ],
+      discardPile: createCards(["5"]),
+      selectedCards: [],
+    })
+
+    render(<ActionIndicator context={context} currentState="playerTurn" />)
+
+    expect(screen.getByText(/Alice has 1 legal play -/)).toBeInTheDocument()
   })
 
   it("shows card selection message when cards are selected", () => {
@@ -131,6 +225,49 @@ describe("ActionIndicator", () => {
     ).toBeInTheDocument()
   })
 
+  it("shows the shot clock during a turn when the table uses one", () => {
+    const context = createMockGameContext({
+      rules: { ...createMockGameContext().rules, turnDurationSeconds: 10 },
+      turnTimer: 7,
+    })
+
+    const { rerender } = render(
+      <ActionIndicator context={context} currentState="playerTurn" />
+    )
+    expect(screen.getByTestId("turn-timer")).toHaveTextContent("7s")
+
+    rerender(
+      <ActionIndicator
+        context={createMockGameContext()}
+        currentState="playerTurn"
+      />
+    )
+    expect(screen.queryByTestId("turn-timer")).not.toBeInTheDocument()
+  })
+
+  it("shows a paused message", () => {
+    render(
+      <ActionIndicator
+        context={createMockGameContext()}
+        currentState="paused"
+      />
+    )
+
+    expect(screen.getByText(/Game paused/)).toBeInTheDocument()
+  })
+
+  it("names the key bound to pause", () => {
+    render(
+      <ActionIndicator
+        context={createMockGameContext()}
+        currentState="paused"
+        pauseKey="Esc"
+      />
+    )
+
+    expect(screen.getByText(/press Esc or click Resume/)).toBeInTheDocument()
+  })
+
   it("shows waiting for turn message", () => {
     const context = createMockGameContext()
     render(<ActionIndicator context={context} currentState="waitingForTurn" />)
@@ -140,6 +277,26 @@ describe("ActionIndicator", () => {
     ).toBeInTheDocument()
   })
 
+  it("names who slammed a card and who was beaten to it", () => {
+    const context = createMockGameContext({
+      players: ["Alice", "Bob", "Carol"].map((name, index) =>
+        createMockPlayer({ id: `player-${index + 1}`, name })
+      ),
+      pendingInterrupt: {
+        playerId: "player-3",
+        card: createMockCard({ value: "6", suit: "hearts" }),
+        contenderIds: ["player-2"],
+      },
+    })
+    render(<ActionIndicator context={context} currentState="interrupting" />)
+
+    expect(
+      screen.getByText(
+        "Carol slammed the 6 of hearts out of turn! Bob was beaten to it."
+      )
+    ).toBeInTheDocument()
+  })
+
   describe("game ending messages", () => {
     it("shows timer expired message", () => {
       const context = createMockGameContext({
@@ -255,4 +412,33 @@ describe("ActionIndicator", () => {
       unmount()
     })
   })
+
+  it("explains the effect of a power card", () => {
+    const context = createMockGameContext({
+      powerEffect: {
+        type: "draw-two",
+        card: createMockCard({ value: "2", suit: "clubs" }),
+        playerName: "Alice",
+        targetName: "Bob",
+        cardsDrawn: 2,
+      },
+    })
+
+    render(<ActionIndicator context={context} currentState="playerTurn" />)
+
+    expect(screen.getByTestId("power-effect")).toHaveTextContent(
+      "Alice's 2 of clubs made Bob draw 2 cards"
+    )
+  })
+
+  it("shows no effect line when the last play had none", () => {
+    render(
+      <ActionIndicator
+        context={createMockGameContext()}
+        currentState="playerTurn"
+      />
+    )
+
+    expect(screen.queryByTestId("power-effect")).not.toBeInTheDocument()
+  })
 })
@@ -62,6 +62,38 @@ describe("AutoPlayNotifications", () => {
     expect(screen.getByText("⏭️")).toBeInTheDocument()
   })
 
+  it("renders timeout notifications with and without a played card", () => {
+    const notifications = [
+      createMockNotification({
+        id: "timeout-1",
+        type: "timeout",
+        playerName: "Bob",
+        card: null,
+      }),
+      createMockNotification({
+        id: "timeout-2",
+        type: "timeout",
+        playerName: "Carol",
+        card: createMockCard({ value: "4", suit: "clubs" }),
+      }),
+    ]
+
+    render(<AutoPlayNotifications notifications={notifications} />)
+
+    expect(screen.getAllByText("Out of Time")).toHaveLength(2)
+    expect(screen.getAllByText(/ran out of time/)).toHaveLength(2)
+    expect(screen.getByText("4♣")).toBeInTheDocument()
+  })
+
+  it("renders undo notifications", () => {
+    const notification = createMockNotification({ type: "undo", card: null })
+
+    render(<AutoPlayNotifications notifications={[notification]} />)
+
+    expect(screen.getByText("Undone")).toBeInTheDocument()
+    expect(screen.getByText("took back their last play")).toBeInTheDocument()
+  })
+
   it("displays correct suit symbols", () => {
     const suits = [
       { suit: "hearts", symbol: "♥" },
@@ -122,6 +154,20 @@ describe("AutoPlayNotifications", () => {
     )
   })
 
+  it("renders auto-draw notification without revealing the card", () => {
+    const notification = createMockNotification({
+      type: "auto-draw",
+      card: null,
+    })
+    const { container } = render(
+      <AutoPlayNotifications notifications={[notification]} />
+    )
+
+    expect(screen.getByText("Auto-Drew")).toBeInTheDocument()
+    expect(screen.getByText(/drew a card from the deck/)).toBeInTheDocument()
+    expect(container.querySelector(".bg-amber-100")).toBeInTheDocument()
+  })
+
   it("renders multiple notifications", () => {
     const notifications = [
       createMockNotification({
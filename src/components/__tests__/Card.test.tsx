@@ -111,16 +111,54 @@ describe("CardComponent", () => {
     expect(cardElement).toHaveAttribute("tabIndex", "0")
   })
 
-  it("does not set role and tabIndex when canInteract is false", () => {
+  it("takes focus when the keyboard cursor is on it", () => {
+    const card = createMockCard()
+    render(<CardComponent card={card} canInteract={true} isFocused={true} />)
+
+    const cardElement = screen.getByRole("button")
+    expect(cardElement).toHaveFocus()
+    expect(cardElement).toHaveClass("ring-4")
+  })
+
+  it("is a labelled image without tabIndex when canInteract is false", () => {
     const card = createMockCard()
     const { container } = render(
       <CardComponent card={card} canInteract={false} />
     )
 
-    expect(container.firstChild).not.toHaveAttribute("role")
+    expect(screen.getByRole("img", { name: "7 of hearts" })).toBe(
+      container.firstChild
+    )
     expect(container.firstChild).not.toHaveAttribute("tabIndex")
   })
 
+  it("reads out its name, whether it is playable and whether it is selected", () => {
+    const card = createMockCard({ value: "Q", suit: "spades" })
+    render(
+      <CardComponent
+        card={card}
+        canInteract={true}
+        isValid={true}
+        isSelected={true}
+        isOption={true}
+      />
+    )
+
+    const option = screen.getByRole("option", {
+      name: "Queen of spades, playable, selected",
+    })
+    expect(option).toHaveAttribute("aria-selected", "true")
+  })
+
+  it("is a disabled option when it is in a hand that cannot be played", () => {
+    const card = createMockCard({ value: "A", suit: "clubs" })
+    render(<CardComponent card={card} isOption={true} />)
+
+    const option = screen.getByRole("option", { name: "Ace of clubs" })
+    expect(option).toHaveAttribute("aria-selected", "false")
+    expect(option).toHaveAttribute("aria-disabled", "true")
+  })
+
   it("calls onClick when clicked and canInteract is true", () => {
     const card = createMockCard()
     render(
@@ -191,4 +229,18 @@ describe("CardComponent", () => {
       unmount()
     })
   })
+
+  it("draws a joker, and what a played joker stands for", () => {
+    const joker = createMockCard({ suit: "joker", value: "Joker" })
+    const { rerender } = render(<CardComponent card={joker} />)
+
+    expect(screen.getByText("JOKER")).toBeInTheDocument()
+    expect(screen.getByText("🃏")).toBeInTheDocument()
+    expect(screen.getByRole("img")).toHaveAccessibleName("Joker")
+
+    rerender(<CardComponent card={{ ...joker, declaredValue: "Q" }} />)
+
+    expect(screen.getByText("= Q")).toBeInTheDocument()
+    expect(screen.getByRole("img")).toHaveAccessibleName("Joker as Queen")
+  })
 })
@@ -1,6 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from "vitest"
-import { render, screen, fireEvent } from "../../test/test-utils"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { act, render, screen, fireEvent } from "../../test/test-utils"
 import GameBoard from "../GameBoard"
+import { SAVED_GAME_KEY, loadSavedGame } from "../../utils/savedGame"
+import { KEY_BINDINGS_KEY } from "../../utils/keyBindings"
 import type { Player, GameContext } from "../../types/game"
 
 // Mock the machine to control state for testing
@@ -16,11 +18,52 @@ vi.mock("../../machines/cardGameMachine", () => ({
       gameTimer: 180,
       selectedCards: [],
       gameId: "test-game",
+      seed: null,
+      reshuffleCount: 0,
+      rules: {
+        roundDurationSeconds: 180,
+        turnDurationSeconds: null,
+        turnTimeoutPolicy: "auto-play" as const,
+        handSize: 7,
+        maxPlayers: 4,
+        aceWrapsOnKing: true,
+        allowSumPlays: true,
+        forcedDrawBeforeSkip: true,
+        tieBreakers: ["fewest-cards", "lowest-high-card", "last-to-play"],
+        scoringSystem: "classic",
+        allowUndo: false,
+        spectatorsSeeHands: false,
+        powerCards: false,
+        jokers: 0,
+        jokerPoints: 25,
+        teamPlay: false,
+        partnersSeeHands: false,
+        interrupts: false,
+      },
+      matchSettings: { rounds: 1, pointLimit: null },
+      roundNumber: 1,
+      roundHistory: [],
+      matchTotals: [],
+      hasDrawnThisTurn: false,
+      lastPlayedBy: null,
       roundStartTime: null,
+      turnStartTime: null,
+      turnTimer: 0,
+      penaltyPoints: {},
+      hintsUsed: {},
+      turnDirection: 1,
+      powerEffect: null,
+      pendingInterrupt: null,
+      pausedFrom: null,
+      pausedAt: null,
+      undoSnapshot: null,
       finalScores: [],
-      winner: null,
+      winners: [],
+      tieBreak: null,
+      teamScores: [],
       autoPlayNotifications: [],
       gameEndReason: null,
+      eventLog: [],
     },
   },
 }))
@@ -37,21 +80,86 @@ const mockState = {
     gameTimer: 180,
     selectedCards: [],
     gameId: "test-game",
+    seed: null,
+    reshuffleCount: 0,
+    rules: {
+      roundDurationSeconds: 180,
+      turnDurationSeconds: null,
+      turnTimeoutPolicy: "auto-play" as const,
+      handSize: 7,
+      maxPlayers: 4,
+      aceWrapsOnKing: true,
+      allowSumPlays: true,
+      forcedDrawBeforeSkip: true,
+      tieBreakers: ["fewest-cards", "lowest-high-card", "last-to-play"],
+      scoringSystem: "classic",
+      allowUndo: false,
+      spectatorsSeeHands: false,
+      powerCards: false,
+      jokers: 0,
+      jokerPoints: 25,
+      teamPlay: false,
+      partnersSeeHands: false,
+      interrupts: false,
+    },
+    matchSettings: { rounds: 1, pointLimit: null },
+    roundNumber: 1,
+    roundHistory: [],
+    matchTotals: [],
+    hasDrawnThisTurn: false,
+    lastPlayedBy: null,
     roundStartTime: null,
+    turnStartTime: null,
+    turnTimer: 0,
+    penaltyPoints: {},
+    hintsUsed: {},
+    turnDirection: 1,
+    powerEffect: null,
+    pendingInterrupt: null,
+    pausedFrom: null,
+    pausedAt: null,
+    undoSnapshot: null,
     finalScores: [],
-    winner: null,
+    winners: [],
+    tieBreak: null,
+    teamScores: [],
     autoPlayNotifications: [],
     gameEndReason: null,
+    eventLog: [],
   } as GameContext,
   matches: vi.fn((state: string) => mockState.value === state),
 }
 
+const mockActorRef = {
+  getSnapshot: () => mockState,
+  getPersistedSnapshot: () => ({
+    status: "active",
+    value: mockState.value,
+    context: mockState.context,
+    children: {},
+  }),
+}
+const mockUseMachine = vi.fn<(options?: unknown) => unknown[]>(() => [
+  mockState,
+  mockSend,
+  mockActorRef,
+])
+
 vi.mock("@xstate/react", () => ({
-  useMachine: () => [mockState, mockSend],
+  useMachine: (_machine: unknown, options?: unknown) => mockUseMachine(options),
 }))
 
+// Let the board's zero-delay auto-play timers fire
+const flushAutoPlay = () =>
+  act(() => new Promise((resolve) => setTimeout(resolve, 0)))
+
+const autoPlayBy = (playerId: string) =>
+  expect.objectContaining({ type: "AUTO_PLAY", playerId })
+
 describe("GameBoard Integration", () => {
-  beforeEach(() => {
+  beforeEach(async () => {
+    // Auto-plays the last test scheduled must not land in this one
+    await flushAutoPlay()
     mockSend.mockClear()
     mockState.value = "lobby"
     mockState.context = {
@@ -62,11 +170,52 @@ describe("GameBoard Integration", () => {
       gameTimer: 180,
       selectedCards: [],
       gameId: "test-game",
+      seed: null,
+      reshuffleCount: 0,
+      rules: {
+        roundDurationSeconds: 180,
+        turnDurationSeconds: null,
+        turnTimeoutPolicy: "auto-play" as const,
+        handSize: 7,
+        maxPlayers: 4,
+        aceWrapsOnKing: true,
+        allowSumPlays: true,
+        forcedDrawBeforeSkip: true,
+        tieBreakers: ["fewest-cards", "lowest-high-card", "last-to-play"],
+        scoringSystem: "classic",
+        allowUndo: false,
+        spectatorsSeeHands: false,
+        powerCards: false,
+        jokers: 0,
+        jokerPoints: 25,
+        teamPlay: false,
+        partnersSeeHands: false,
+        interrupts: false,
+      },
+      matchSettings: { rounds: 1, pointLimit: null },
+      roundNumber: 1,
+      roundHistory: [],
+      matchTotals: [],
+      hasDrawnThisTurn: false,
+      lastPlayedBy: null,
       roundStartTime: null,
+      turnStartTime: null,
+      turnTimer: 0,
+      penaltyPoints: {},
+      hintsUsed: {},
+      turnDirection: 1,
+      powerEffect: null,
+      pendingInterrupt: null,
+      pausedFrom: null,
+      pausedAt: null,
+      undoSnapshot: null,
       finalScores: [],
-      winner: null,
+      winners: [],
+      tieBreak: null,
+      teamScores: [],
       autoPlayNotifications: [],
       gameEndReason: null,
+      eventLog: [],
     } as GameContext
   })
 
@@ -92,12 +241,14 @@ describe("GameBoard Integration", () => {
             { id: "card-2", value: "8", suit: "spades", points: 8 },
           ],
           isCurrentPlayer: true,
+          kind: "human",
         },
         {
           id: "player-2",
           name: "Bob",
           hand: [{ id: "card-3", value: "9", suit: "clubs", points: 9 }],
           isCurrentPlayer: false,
+          kind: "human",
         },
       ],
       discardPile: [
@@ -132,12 +283,14 @@ describe("GameBoard Integration", () => {
           handCards: [],
         },
       ],
-      winner: {
-        playerId: "player-1",
-        playerName: "Alice",
-        finalScore: 15,
-        handCards: [],
-      },
+      winners: [
+        {
+          playerId: "player-1",
+          playerName: "Alice",
+          finalScore: 15,
+          handCards: [],
+        },
+      ],
       gameEndReason: "timer_expired",
     }
 
@@ -158,6 +311,7 @@ describe("GameBoard Integration", () => {
           name: "Alice",
           hand: [{ id: "card-1", value: "7", suit: "hearts", points: 7 }],
           isCurrentPlayer: true,
+          kind: "human",
         },
       ],
       discardPile: [
@@ -167,7 +321,7 @@ describe("GameBoard Integration", () => {
 
     render(<GameBoard />)
 
-    const card = screen.getByRole("button")
+    const card = screen.getByRole("option", { name: /7/ })
     fireEvent.click(card)
 
     expect(mockSend).toHaveBeenCalledWith({
@@ -187,6 +341,7 @@ describe("GameBoard Integration", () => {
           name: "Alice",
           hand: [{ id: "card-1", value: "7", suit: "hearts", points: 7 }],
           isCurrentPlayer: true,
+          kind: "human",
         },
       ],
       discardPile: [
@@ -197,7 +352,7 @@ describe("GameBoard Integration", () => {
     render(<GameBoard />)
 
     // Should show action indicator
-    expect(screen.getByRole("alert")).toBeInTheDocument()
+    expect(screen.getByRole("img", { name: "auto-play" })).toBeInTheDocument()
   })
 
   it("displays timer correctly", () => {
@@ -254,6 +409,7 @@ describe("GameBoard Integration", () => {
           name: "Alice",
           hand: [{ id: "card-1", value: "7", suit: "hearts", points: 7 }],
           isCurrentPlayer: true,
+          kind: "human",
         },
       ],
       selectedCards: [{ id: "card-1", value: "7", suit: "hearts", points: 7 }],
@@ -272,6 +428,204 @@ describe("GameBoard Integration", () => {
     })
   })
 
+  describe("keyboard play", () => {
+    const startKeyboardTurn = (selectedCards: GameContext["selectedCards"]) => {
+      mockState.value = "playerTurn"
+      mockState.context = {
+        ...mockState.context,
+        players: [
+          {
+            id: "player-1",
+            name: "Alice",
+            hand: [
+              { id: "card-1", value: "7", suit: "hearts", points: 7 },
+              { id: "card-2", value: "7", suit: "spades", points: 7 },
+              { id: "card-3", value: "8", suit: "clubs", points: 8 },
+            ],
+            isCurrentPlayer: true,
+            kind: "human",
+          },
+        ],
+        selectedCards,
+        discardPile: [
+          { id: "card-0", value: "7", suit: "diamonds", points: 7 },
+        ],
+      }
+      render(<GameBoard />)
+    }
+
+    it("moves through the hand with the arrows and selects with Enter", () => {
+      startKeyboardTurn([])
+
+      fireEvent.keyDown(document, { code: "ArrowRight" })
+      fireEvent.keyDown(document, { code: "Enter" })
+      fireEvent.keyDown(document, { code: "ArrowLeft" })
+      fireEvent.keyDown(document, { code: "ArrowLeft" })
+      fireEvent.keyDown(document, { code: "Enter" })
+
+      expect(mockSend.mock.calls).toEqual([
+        [{ type: "CARD_SELECTED", cardId: "card-2", playerId: "player-1" }],
+        [{ type: "CARD_SELECTED", cardId: "card-3", playerId: "player-1" }],
+      ])
+    })
+
+    it("jumps to a card with the number keys", () => {
+      startKeyboardTurn([])
+
+      fireEvent.keyDown(document, { code: "Digit3" })
+      fireEvent.keyDown(document, { code: "Digit9" })
+      fireEvent.keyDown(document, { code: "Enter" })
+
+      expect(mockSend).toHaveBeenCalledWith({
+        type: "CARD_SELECTED",
+        cardId: "card-3",
+        playerId: "player-1",
+      })
+      expect(document.activeElement).toHaveTextContent("8♣")
+    })
+
+    it("deselects a selected card with Enter and clears with Escape", () => {
+      startKeyboardTurn([
+        { id: "card-1", value: "7", suit: "hearts", points: 7 },
+        { id: "card-2", value: "7", suit: "spades", points: 7 },
+      ])
+
+      fireEvent.keyDown(document, { code: "Enter" })
+      fireEvent.keyDown(document, { code: "Escape" })
+
+      expect(mockSend.mock.calls).toEqual([
+        [{ type: "CARD_DESELECTED", cardId: "card-1", playerId: "player-1" }],
+        [{ type: "CARD_DESELECTED", cardId: "card-1", playerId: "player-1" }],
+        [{ type: "CARD_DESELECTED", cardId: "card-2", playerId: "player-1" }],
+      ])
+    })
+
+    it("skips with S only when stuck", () => {
+      startKeyboardTurn([])
+      fireEvent.keyDown(document, { code: "KeyS" })
+      expect(mockSend).not.toHaveBeenCalledWith({ type: "SKIP_TURN" })
+
+      mockState.context = {
+        ...mockState.context,
+        discardPile: [
+          { id: "card-0", value: "2", suit: "diamonds", points: 2 },
+        ],
+      }
+      render(<GameBoard />)
+      fireEvent.keyDown(document, { code: "KeyS" })
+
+      expect(mockSend).toHaveBeenCalledWith({ type: "SKIP_TURN" })
+    })
+
+    it("ignores keys typed into a text field", () => {
+      startKeyboardTurn([])
+      const input = document.createElement("input")
+      document.body.appendChild(input)
+
+      fireEvent.keyDown(input, { code: "Enter" })
+
+      expect(mockSend).not.toHaveBeenCalled()
+      input.remove()
+    })
+
+    it("opens the help and uses remapped keys saved locally", () => {
+      startKeyboardTurn([])
+
+      fireEvent.keyDown(document, { code: "KeyH" })
+      expect(screen.getByRole("dialog")).toHaveTextContent("Keyboard Controls")
+      fireEvent.click(
+        screen.getByLabelText("Change key: Select or deselect the card")
+      )
+      fireEvent.keyDown(window, { code: "KeyE" })
+      fireEvent.click(screen.getByText("Close"))
+      fireEvent.keyDown(document, { code: "KeyE" })
+
+      expect(mockSend).toHaveBeenCalledWith({
+        type: "CARD_SELECTED",
+        cardId: "card-1",
+        playerId: "player-1",
+      })
+      expect(
+        JSON.parse(window.localStorage.getItem(KEY_BINDINGS_KEY)!)
+      ).toMatchObject({ toggleSelect: "KeyE" })
+    })
+  })
+
+  it("pauses with the P key or the Pause button", () => {
+    mockState.value = "playerTurn"
+
+    render(<GameBoard />)
+    fireEvent.keyDown(document, { key: "p", code: "KeyP" })
+    fireEvent.click(screen.getByText(/Pause \(P\)/))
+
+    expect(mockSend).toHaveBeenCalledTimes(2)
+    expect(mockSend).toHaveBeenCalledWith({ type: "PAUSE" })
+  })
+
+  it("covers the table while paused and resumes from the overlay or P", () => {
+    mockState.value = "paused"
+
+    render(<GameBoard />)
+
+    expect(screen.getByRole("dialog")).toHaveTextContent("Game Paused")
+    expect(screen.queryByText(/Pause \(P\)/)).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByText("Resume Game"))
+    fireEvent.keyDown(document, { key: "p", code: "KeyP" })
+
+    expect(mockSend.mock.calls).toEqual([
+      [{ type: "RESUME" }],
+      [{ type: "RESUME" }],
+    ])
+  })
+
+  it("offers undo to the player who just played", () => {
+    mockState.value = "playerTurn"
+    const players: Player[] = [
+      {
+        id: "player-1",
+        name: "Alice",
+        hand: [],
+        isCurrentPlayer: false,
+        kind: "human",
+      },
+      {
+        id: "player-2",
+        name: "Bob",
+        hand: [{ id: "card-2", value: "8", suit: "spades", points: 8 }],
+        isCurrentPlayer: true,
+        kind: "human",
+      },
+    ]
+    mockState.context = {
+      ...mockState.context,
+      rules: { ...mockState.context.rules, allowUndo: true },
+      players,
+      currentPlayerIndex: 1,
+      discardPile: [{ id: "card-1", value: "7", suit: "hearts", points: 7 }],
+      undoSnapshot: {
+        playerId: "player-1",
+        logIndex: 0,
+        players,
+        discardPile: [],
+        deck: [],
+        reshuffleCount: 0,
+        currentPlayerIndex: 0,
+        turnDirection: 1,
+        hasDrawnThisTurn: false,
+        lastPlayedBy: null,
+      },
+    }
+
+    render(<GameBoard />)
+    fireEvent.click(screen.getByText(/Undo Alice's Play/))
+
+    expect(mockSend).toHaveBeenCalledWith({
+      type: "UNDO",
+      playerId: "player-1",
+    })
+  })
+
   it("prevents interactions when not current player", () => {
     mockState.value = "playerTurn"
     mockState.context = {
@@ -282,12 +636,14 @@ describe("GameBoard Integration", () => {
           name: "Alice",
           hand: [{ id: "card-1", value: "7", suit: "hearts", points: 7 }],
           isCurrentPlayer: false, // Not current player
+          kind: "human",
         },
         {
           id: "player-2",
           name: "Bob",
           hand: [{ id: "card-2", value: "8", suit: "spades", points: 8 }],
           isCurrentPlayer: true,
+          kind: "human",
         },
       ],
       currentPlayerIndex: 1,
@@ -297,7 +653,7 @@ describe("GameBoard Integration", () => {
     render(<GameBoard />)
 
     // Try to click Alice's card (she's not current player)
-    const aliceCards = screen.getAllByRole("button")
+    const aliceCards = screen.getAllByRole("option")
     const aliceCard = aliceCards.find(
       (card) => card.closest('[class*="border-3"]') === null
     )
@@ -313,4 +669,461 @@ describe("GameBoard Integration", () => {
       )
     }
   })
+
+  it("only shows the viewing player's cards face up", () => {
+    mockState.value = "playerTurn"
+    mockState.context = {
+      ...mockState.context,
+      players: [
+        {
+          id: "player-1",
+          name: "Alice",
+          hand: [
+            { id: "card-1", value: "7", suit: "hearts", points: 7 },
+            { id: "card-2", value: "8", suit: "spades", points: 8 },
+          ],
+          isCurrentPlayer: true,
+          kind: "human",
+        },
+        {
+          id: "player-2",
+          name: "Robo",
+          hand: [
+            { id: "card-3", value: "9", suit: "clubs", points: 9 },
+            { id: "card-4", value: "K", suit: "clubs", points: 13 },
+          ],
+          isCurrentPlayer: false,
+          kind: "bot",
+          botStrategy: "greedy",
+        },
+      ],
+      discardPile: [
+        { id: "discard-1", value: "6", suit: "diamonds", points: 6 },
+      ],
+    }
+
+    render(<GameBoard />)
+
+    expect(screen.getAllByTestId("card-back")).toHaveLength(2)
+    expect(screen.queryByText("K")).not.toBeInTheDocument()
+    expect(screen.getAllByRole("option", { name: /7|8/ })).toHaveLength(2)
+  })
+
+  it("does not let the action indicator give away a bot's hand", () => {
+    mockState.value = "playerTurn"
+    mockState.context = {
+      ...mockState.context,
+      players: [
+        {
+          id: "player-1",
+          name: "Alice",
+          hand: [{ id: "card-1", value: "K", suit: "hearts", points: 13 }],
+          isCurrentPlayer: false,
+          kind: "human",
+        },
+        {
+          id: "player-2",
+          name: "Robo",
+          hand: [{ id: "card-2", value: "7", suit: "clubs", points: 7 }],
+          isCurrentPlayer: true,
+          kind: "bot",
+          botStrategy: "greedy",
+        },
+      ],
+      currentPlayerIndex: 1,
+      discardPile: [
+        { id: "discard-1", value: "6", suit: "diamonds", points: 6 },
+      ],
+    }
+
+    render(<GameBoard />)
+
+    expect(screen.getByText("Robo is taking their turn")).toBeInTheDocument()
+    expect(screen.queryByText(/only valid card/)).not.toBeInTheDocument()
+  })
+
+  it("leaves a bot's turn to the machine", async () => {
+    mockState.value = "playerTurn"
+    mockState.context = {
+      ...mockState.context,
+      players: [
+        {
+          id: "player-1",
+          name: "Alice",
+          hand: [{ id: "card-1", value: "K", suit: "hearts", points: 13 }],
+          isCurrentPlayer: false,
+          kind: "human",
+        },
+        {
+          id: "player-2",
+          name: "Robo",
+          hand: [{ id: "card-2", value: "7", suit: "clubs", points: 7 }],
+          isCurrentPlayer: true,
+          kind: "bot",
+          botStrategy: "greedy",
+        },
+      ],
+      currentPlayerIndex: 1,
+      discardPile: [
+        { id: "discard-1", value: "6", suit: "diamonds", points: 6 },
+      ],
+    }
+
+    render(<GameBoard />)
+    await flushAutoPlay()
+
+    expect(mockSend).not.toHaveBeenCalledWith(autoPlayBy("player-2"))
+  })
+
+  it("waits for the hand-over before auto-playing", async () => {
+    mockState.value = "playerTurn"
+    mockState.context = {
+      ...mockState.context,
+      players: [
+        {
+          id: "player-1",
+          name: "Alice",
+          hand: [
+            { id: "card-1", value: "7", suit: "hearts", points: 7 },
+            { id: "card-3", value: "6", suit: "clubs", points: 6 },
+          ],
+          isCurrentPlayer: true,
+          kind: "human",
+        },
+        {
+          id: "player-2",
+          name: "Bob",
+          hand: [{ id: "card-2", value: "7", suit: "spades", points: 7 }],
+          isCurrentPlayer: false,
+          kind: "human",
+        },
+      ],
+      currentPlayerIndex: 0,
+      discardPile: [{ id: "card-0", value: "6", suit: "diamonds", points: 6 }],
+    }
+    const { rerender } = render(<GameBoard />)
+
+    // Bob's only card is playable, but he has not taken the device yet
+    mockState.context = {
+      ...mockState.context,
+      players: mockState.context.players.map((player, index) => ({
+        ...player,
+        isCurrentPlayer: index === 1,
+      })),
+      currentPlayerIndex: 1,
+    }
+    rerender(<GameBoard />)
+    await flushAutoPlay()
+    expect(mockSend).not.toHaveBeenCalledWith(autoPlayBy("player-2"))
+
+    fireEvent.click(screen.getByText(/I'm Bob/))
+    await flushAutoPlay()
+
+    expect(mockSend).toHaveBeenCalledWith({
+      type: "AUTO_PLAY",
+      card: { id: "card-2", value: "7", suit: "spades", points: 7 },
+      playerId: "player-2",
+    })
+  })
+
+  it("shows a hand-over screen between human players", () => {
+    mockState.value = "playerTurn"
+    mockState.context = {
+      ...mockState.context,
+      players: [
+        {
+          id: "player-1",
+          name: "Alice",
+          hand: [{ id: "card-1", value: "7", suit: "hearts", points: 7 }],
+          isCurrentPlayer: true,
+          kind: "human",
+        },
+        {
+          id: "player-2",
+          name: "Bob",
+          hand: [{ id: "card-2", value: "8", suit: "spades", points: 8 }],
+          isCurrentPlayer: false,
+          kind: "human",
+        },
+      ],
+      currentPlayerIndex: 0,
+      discardPile: [{ id: "card-0", value: "6", suit: "diamonds", points: 6 }],
+    }
+
+    const { rerender } = render(<GameBoard />)
+    expect(screen.queryByText(/Hand over to/)).not.toBeInTheDocument()
+
+    // Turn passes to Bob: everything stays covered until he confirms
+    mockState.context = {
+      ...mockState.context,
+      players: mockState.context.players.map((player, index) => ({
+        ...player,
+        isCurrentPlayer: index === 1,
+      })),
+      currentPlayerIndex: 1,
+    }
+    rerender(<GameBoard />)
+
+    expect(screen.getByText("Hand over to Bob")).toBeInTheDocument()
+    expect(screen.getAllByTestId("card-back")).toHaveLength(2)
+
+    fireEvent.click(screen.getByText(/I'm Bob/))
+
+    expect(screen.queryByText(/Hand over to/)).not.toBeInTheDocument()
+    expect(screen.getAllByTestId("card-back")).toHaveLength(1)
+  })
+
+  it("reveals a hint on demand and counts it", () => {
+    mockState.value = "playerTurn"
+    mockState.context = {
+      ...mockState.context,
+      players: [
+        {
+          id: "player-1",
+          name: "Alice",
+          hand: [
+            { id: "card-1", value: "2", suit: "hearts", points: 2 },
+            { id: "card-2", value: "3", suit: "diamonds", points: 3 },
+            { id: "card-3", value: "9", suit: "spades", points: 9 },
+          ],
+          isCurrentPlayer: true,
+          kind: "human",
+        },
+      ],
+      discardPile: [{ id: "card-0", value: "5", suit: "clubs", points: 5 }],
+    }
+
+    render(<GameBoard />)
+    expect(screen.queryByText(/as a sum/)).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole("button", { name: /Show Hint/ }))
+
+    expect(
+      screen.getByText(/Play 3\+2 as a sum to shed 5 points/)
+    ).toBeInTheDocument()
+    expect(mockSend).toHaveBeenCalledWith({
+      type: "REQUEST_HINT",
+      playerId: "player-1",
+    })
+  })
+
+  describe("announcements", () => {
+    // The live region reacts to new machine states, so each render gets a
+    // fresh state object the way useMachine hands one out on every change
+    beforeEach(() => {
+      mockUseMachine.mockImplementation(() => [
+        { ...mockState },
+        mockSend,
+        mockActorRef,
+      ])
+    })
+
+    afterEach(() => {
+      mockUseMachine.mockImplementation(() => [
+        mockState,
+        mockSend,
+        mockActorRef,
+      ])
+    })
+
+    const startAlicesTurn = () => {
+      mockState.value = "playerTurn"
+      mockState.context = {
+        ...mockState.context,
+        players: [
+          {
+            id: "player-1",
+            name: "Alice",
+            hand: [
+              { id: "card-1", value: "7", suit: "hearts", points: 7 },
+              { id: "card-2", value: "9", suit: "hearts", points: 9 },
+            ],
+            isCurrentPlayer: true,
+            kind: "human",
+          },
+          {
+            id: "player-2",
+            name: "Bob",
+            hand: [{ id: "card-3", value: "8", suit: "spades", points: 8 }],
+            isCurrentPlayer: false,
+            kind: "bot",
+            botStrategy: "random",
+          },
+        ],
+        currentPlayerIndex: 0,
+        gameTimer: 90,
+        discardPile: [
+          { id: "card-0", value: "6", suit: "diamonds", points: 6 },
+        ],
+      }
+      return render(<GameBoard />)
+    }
+
+    it("stays quiet about the state the board first shows", () => {
+      startAlicesTurn()
+
+      expect(screen.getByRole("status")).toBeEmptyDOMElement()
+    })
+
+    it("announces auto-plays and the next turn", () => {
+      const { rerender } = startAlicesTurn()
+
+      mockState.context = {
+        ...mockState.context,
+        currentPlayerIndex: 1,
+        autoPlayNotifications: [
+          {
+            id: "notification-1",
+            playerId: "player-1",
+            playerName: "Alice",
+            card: { id: "card-1", value: "7", suit: "hearts", points: 7 },
+            timestamp: new Date(),
+            type: "auto-play",
+          },
+        ],
+      }
+      rerender(<GameBoard />)
+
+      expect(screen.getByRole("status")).toHaveTextContent(
+        "Alice auto-played 7 of hearts. Bob's turn"
+      )
+    })
+
+    it("warns as the round clock runs down", () => {
+      const { rerender } = startAlicesTurn()
+
+      mockState.context = { ...mockState.context, gameTimer: 59 }
+      rerender(<GameBoard />)
+
+      expect(screen.getByRole("status")).toHaveTextContent(
+        "60 seconds left in the round"
+      )
+    })
+
+    it("announces the winner when the game ends", () => {
+      const { rerender } = startAlicesTurn()
+
+      mockState.value = "gameOver"
+      mockState.context = {
+        ...mockState.context,
+        winners: [
+          {
+            playerId: "player-2",
+            playerName: "Bob",
+            finalScore: 8,
+            handCards: [],
+          },
+        ],
+      }
+      rerender(<GameBoard />)
+
+      expect(screen.getByRole("status")).toHaveTextContent(
+        "Game over. Bob wins with 8 points"
+      )
+    })
+  })
+
+  describe("saved games", () => {
+    const playerTurnContext = (): GameContext => ({
+      ...mockState.context,
+      players: [
+        {
+          id: "player-1",
+          name: "Alice",
+          hand: [{ id: "card-1", value: "7", suit: "hearts", points: 7 }],
+          isCurrentPlayer: true,
+          kind: "human",
+        },
+        {
+          id: "player-2",
+          name: "Bob",
+          hand: [{ id: "card-2", value: "8", suit: "spades", points: 8 }],
+          isCurrentPlayer: false,
+          kind: "human",
+        },
+      ],
+      discardPile: [{ id: "card-0", value: "6", suit: "diamonds", points: 6 }],
+      roundStartTime: new Date("2024-05-01T12:00:00Z"),
+    })
+
+    // Render a game in progress so it gets saved, then return to the lobby
+    const saveGameInProgress = () => {
+      mockState.value = "playerTurn"
+      mockState.context = playerTurnContext()
+      const { unmount } = render(<GameBoard />)
+      unmount()
+
+      mockState.value = "lobby"
+      mockState.context = { ...mockState.context, players: [] }
+    }
+
+    it("saves the game in progress", () => {
+      saveGameInProgress()
+
+      const saved = loadSavedGame(window.localStorage)
+      expect(saved?.snapshot.value).toBe("playerTurn")
+      expect(saved?.snapshot.context.roundStartTime).toEqual(
+        new Date("2024-05-01T12:00:00Z")
+      )
+    })
+
+    it("saves the clocks only as the page goes away", () => {
+      mockState.value = "playerTurn"
+      mockState.context = playerTurnContext()
+      const { rerender, unmount } = render(<GameBoard />)
+
+      mockState.context = { ...mockState.context, gameTimer: 179 }
+      rerender(<GameBoard />)
+      expect(
+        loadSavedGame(window.localStorage)?.snapshot.context.gameTimer
+      ).toBe(180)
+
+      window.dispatchEvent(new Event("pagehide"))
+      expect(
+        loadSavedGame(window.localStorage)?.snapshot.context.gameTimer
+      ).toBe(179)
+
+      unmount()
+      mockState.value = "lobby"
+      mockState.context = { ...mockState.context, players: [] }
+    })
+
+    it("does not save while in the lobby", () => {
+      render(<GameBoard />)
+
+      expect(window.localStorage.getItem(SAVED_GAME_KEY)).toBeNull()
+    })
+
+    it("offers to resume a saved game from the lobby", () => {
+      saveGameInProgress()
+      render(<GameBoard />)
+
+      expect(screen.getByText("Resume game?")).toBeInTheDocument()
+      expect(screen.getByText(/Alice, Bob - round 1/)).toBeInTheDocument()
+
+      fireEvent.click(screen.getByText("Resume Game"))
+
+      expect(mockUseMachine).toHaveBeenLastCalledWith({
+        snapshot: expect.objectContaining({ value: "playerTurn" }),
+      })
+      expect(screen.queryByText("Resume game?")).not.toBeInTheDocument()
+    })
+
+    it("discards a saved game", () => {
+      saveGameInProgress()
+      render(<GameBoard />)
+
+      fireEvent.click(screen.getByText("Discard"))
+
+      expect(screen.queryByText("Resume game?")).not.toBeInTheDocument()
+      expect(window.localStorage.getItem(SAVED_GAME_KEY)).toBeNull()
+    })
+
+    it("does not offer a corrupted save", () => {
+      window.localStorage.setItem(SAVED_GAME_KEY, "{broken")
+      render(<GameBoard />)
+
+      expect(screen.queryByText("Resume game?")).not.toBeInTheDocument()
+    })
+  })
 })
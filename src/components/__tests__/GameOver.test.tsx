@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from "vitest"
+import { render, screen, fireEvent } from "../../test/test-utils"
+import GameOver from "../GameOver"
+import type { PlayerScore } from "../../types/game"
+
+const score = (
+  playerId: string,
+  playerName: string,
+  finalScore: number
+): PlayerScore => ({ playerId, playerName, finalScore, handCards: [] })
+
+describe("GameOver", () => {
+  const defaultProps = {
+    finalScores: [score("1", "Alice", 4), score("2", "Bob", 9)],
+    winners: [score("1", "Alice", 4)],
+    gameEndReason: "manual_end" as const,
+    onRestart: vi.fn(),
+    onLeave: vi.fn(),
+  }
+
+  const roundOne = {
+    roundNumber: 1,
+    scores: [score("1", "Alice", 10), score("2", "Bob", 2)],
+    winnerIds: ["2"],
+    endReason: "manual_end" as const,
+  }
+  const roundTwo = {
+    roundNumber: 2,
+    scores: [score("1", "Alice", 4), score("2", "Bob", 9)],
+    winnerIds: ["1"],
+    endReason: "manual_end" as const,
+  }
+
+  it("shows a plain game over screen for a single round", () => {
+    render(<GameOver {...defaultProps} />)
+
+    expect(screen.getByText("Game Over!")).toBeInTheDocument()
+    expect(screen.queryByText("Match Standings")).not.toBeInTheDocument()
+  })
+
+  it("offers no way to restart without a restart handler", () => {
+    render(<GameOver {...defaultProps} onRestart={undefined} />)
+
+    expect(screen.queryByText("Play Again")).not.toBeInTheDocument()
+  })
+
+  it("points out timeout penalties included in a score", () => {
+    render(
+      <GameOver
+        {...defaultProps}
+        finalScores={[
+          score("1", "Alice", 4),
+          { ...score("2", "Bob", 9), penaltyPoints: 5 },
+        ]}
+      />
+    )
+
+    expect(screen.getByText("incl. 5 timeout penalty")).toBeInTheDocument()
+    expect(screen.getAllByText(/timeout penalty/)).toHaveLength(1)
+  })
+
+  it("shows how many hints each player used", () => {
+    render(
+      <GameOver
+        {...defaultProps}
+        finalScores={[
+          { ...score("1", "Alice", 4), hintsUsed: 2 },
+          { ...score("2", "Bob", 9), hintsUsed: 1 },
+        ]}
+      />
+    )
+
+    expect(screen.getByText("💡 2 hints used")).toBeInTheDocument()
+    expect(screen.getByText("💡 1 hint used")).toBeInTheDocument()
+  })
+
+  it("breaks down scores with adjustments", () => {
+    render(
+      <GameOver
+        {...defaultProps}
+        finalScores={[
+          {
+            ...score("1", "Alice", -10),
+            breakdown: [
+              { label: "Cards", points: 0 },
+              { label: "Went out first", points: -10 },
+            ],
+          },
+          {
+            ...score("2", "Bob", 15),
+            breakdown: [
+              { label: "Cards", points: 9 },
+              { label: "Spades doubled", points: 6 },
+            ],
+          },
+          {
+            ...score("3", "Carol", 8),
+            breakdown: [{ label: "Cards", points: 8 }],
+          },
+        ]}
+      />
+    )
+
+    expect(screen.getByText("Cards 0, Went out first -10")).toBeInTheDocument()
+    expect(screen.getByText("Cards 9, Spades doubled +6")).toBeInTheDocument()
+    expect(screen.queryByText("Cards 8")).not.toBeInTheDocument()
+  })
+
+  it("explains how a tied round was decided", () => {
+    render(
+      <GameOver
+        {...defaultProps}
+        finalScores={[score("1", "Alice", 4), score("2", "Bob", 4)]}
+        winners={[score("2", "Bob", 4)]}
+        tieBreak={{ tiedPlayerIds: ["1", "2"], decidedBy: "fewest-cards" }}
+      />
+    )
+
+    expect(screen.getByText(/Bob Wins!/)).toBeInTheDocument()
+    expect(
+      screen.getByText("Tied with Alice on 4 points - won on fewest cards")
+    ).toBeInTheDocument()
+    expect(screen.getAllByText(/#\d/)[0].parentElement).toHaveTextContent("Bob")
+  })
+
+  it("crowns every player who shares the win", () => {
+    render(
+      <GameOver
+        {...defaultProps}
+        finalScores={[
+          score("1", "Alice", 4),
+          score("2", "Bob", 4),
+          score("3", "Carol", 4),
+        ]}
+        winners={[score("1", "Alice", 4), score("3", "Carol", 4)]}
+        tieBreak={{ tiedPlayerIds: ["1", "2", "3"], decidedBy: null }}
+      />
+    )
+
+    expect(
+      screen.getByText(/Alice and Carol Share the Win!/)
+    ).toBeInTheDocument()
+    expect(
+      screen.getByText(
+        "Tied on 4 points, ahead of Bob on the tie-breakers, so the win is shared"
+      )
+    ).toBeInTheDocument()
+  })
+
+  it("ranks the teams alongside the players", () => {
+    render(
+      <GameOver
+        {...defaultProps}
+        teamScores={[
+          {
+            teamNumber: 2,
+            playerIds: ["2", "4"],
+            playerNames: ["Bob", "Dave"],
+            finalScore: 12,
+          },
+          {
+            teamNumber: 1,
+            playerIds: ["1", "3"],
+            playerNames: ["Alice", "Carol"],
+            finalScore: 20,
+          },
+        ]}
+      />
+    )
+
+    expect(
+      screen.getAllByTestId("team-score").map((row) => row.textContent)
+    ).toEqual([
+      "#1Team 2: Bob and Dave12 points",
+      "#2Team 1: Alice and Carol20 points",
+    ])
+    expect(screen.getByText("Final Scores")).toBeInTheDocument()
+  })
+
+  it("leaves out team scores when everyone plays for themselves", () => {
+    render(<GameOver {...defaultProps} />)
+
+    expect(screen.queryByText("Team Scores")).not.toBeInTheDocument()
+  })
+
+  it("shows per-round standings and offers the next round", () => {
+    const onNextRound = vi.fn()
+    render(
+      <GameOver
+        {...defaultProps}
+        match={{
+          settings: { rounds: 3, pointLimit: null },
+          roundNumber: 2,
+          history: [roundOne, roundTwo],
+          totals: [score("1", "Alice", 14), score("2", "Bob", 11)],
+          isComplete: false,
+        }}
+        onNextRound={onNextRound}
+      />
+    )
+
+    expect(screen.getByText("Round 2 Complete!")).toBeInTheDocument()
+    expect(screen.getByText("Match Standings")).toBeInTheDocument()
+    expect(screen.getByText("R1")).toBeInTheDocument()
+    expect(screen.getByText("R2")).toBeInTheDocument()
+    expect(screen.getByText("14")).toBeInTheDocument()
+    expect(screen.getByText("11")).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText("Next Round"))
+    expect(onNextRound).toHaveBeenCalled()
+  })
+
+  it("crowns the match winner once the match is complete", () => {
+    render(
+      <GameOver
+        {...defaultProps}
+        match={{
+          settings: { rounds: 2, pointLimit: null },
+          roundNumber: 2,
+          history: [roundOne, roundTwo],
+          totals: [score("1", "Alice", 14), score("2", "Bob", 11)],
+          isComplete: true,
+        }}
+        onNextRound={vi.fn()}
+      />
+    )
+
+    expect(screen.getByText("Match Over!")).toBeInTheDocument()
+    expect(screen.getByText(/Bob Wins the Match!/)).toBeInTheDocument()
+    expect(screen.queryByText("Next Round")).not.toBeInTheDocument()
+  })
+})
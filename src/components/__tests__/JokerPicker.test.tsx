@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from "vitest"
+import { render, screen, fireEvent } from "../../test/test-utils"
+import JokerPicker from "../JokerPicker"
+import { createMockCard } from "../../test/test-utils"
+import { defaultGameRules } from "../../utils/gameRules"
+
+describe("JokerPicker", () => {
+  const joker = createMockCard({ id: "joker-1", suit: "joker", value: "Joker" })
+  const four = createMockCard({ id: "four", value: "4" })
+  const top = createMockCard({ value: "3" })
+
+  it("shows nothing when no joker is selected", () => {
+    const { container } = render(
+      <JokerPicker
+        selectedCards={[four]}
+        topDiscardCard={top}
+        rules={defaultGameRules}
+        onDeclare={vi.fn()}
+      />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it("offers only the values that keep the selection legal", () => {
+    render(
+      <JokerPicker
+        selectedCards={[four, joker]}
+        topDiscardCard={top}
+        rules={defaultGameRules}
+        onDeclare={vi.fn()}
+      />
+    )
+
+    const options = screen
+      .getAllByRole("option")
+      .map((option) => option.textContent)
+    expect(options).toEqual(["Any value that fits", "3", "4", "5"])
+  })
+
+  it("declares the joker, or leaves it open again", () => {
+    const onDeclare = vi.fn()
+    render(
+      <JokerPicker
+        selectedCards={[{ ...joker, declaredValue: "4" }]}
+        topDiscardCard={top}
+        rules={defaultGameRules}
+        onDeclare={onDeclare}
+      />
+    )
+    const select = screen.getByLabelText(/Joker stands for/)
+    expect(select).toHaveValue("4")
+
+    fireEvent.change(select, { target: { value: "3" } })
+    fireEvent.change(select, { target: { value: "" } })
+
+    expect(onDeclare).toHaveBeenNthCalledWith(1, "joker-1", "3")
+    expect(onDeclare).toHaveBeenNthCalledWith(2, "joker-1", null)
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from "vitest"
+import { render, screen, fireEvent } from "../../test/test-utils"
+import KeyboardHelp from "../KeyboardHelp"
+import { defaultKeyBindings } from "../../utils/keyBindings"
+
+describe("KeyboardHelp", () => {
+  const defaultProps = {
+    bindings: defaultKeyBindings,
+    onChange: vi.fn(),
+    onClose: vi.fn(),
+  }
+
+  it("lists every binding", () => {
+    render(<KeyboardHelp {...defaultProps} />)
+
+    expect(screen.getByRole("dialog")).toHaveTextContent("Keyboard Controls")
+    expect(screen.getByText("Play the selected cards")).toBeInTheDocument()
+    expect(screen.getByText("Space")).toBeInTheDocument()
+    expect(screen.getByText("1-9")).toBeInTheDocument()
+  })
+
+  it("binds the next key pressed after Change", () => {
+    const onChange = vi.fn()
+    render(<KeyboardHelp {...defaultProps} onChange={onChange} />)
+
+    fireEvent.click(
+      screen.getByLabelText("Change key: Skip the turn when stuck")
+    )
+    expect(screen.getByText("Press a key…")).toBeInTheDocument()
+    fireEvent.keyDown(window, { code: "Digit2" })
+    fireEvent.keyDown(window, { code: "KeyK" })
+
+    expect(onChange).toHaveBeenCalledTimes(1)
+    expect(onChange).toHaveBeenCalledWith({
+      ...defaultKeyBindings,
+      skip: "KeyK",
+    })
+  })
+
+  it("resets to the default keys", () => {
+    const onChange = vi.fn()
+    render(
+      <KeyboardHelp
+        {...defaultProps}
+        bindings={{ ...defaultKeyBindings, play: "KeyX" }}
+        onChange={onChange}
+      />
+    )
+
+    fireEvent.click(screen.getByText("Reset to Defaults"))
+
+    expect(onChange).toHaveBeenCalledWith(defaultKeyBindings)
+  })
+
+  it("closes with Escape or the help key", () => {
+    const onClose = vi.fn()
+    render(<KeyboardHelp {...defaultProps} onClose={onClose} />)
+
+    fireEvent.keyDown(window, { code: "Escape" })
+    fireEvent.keyDown(window, { code: "KeyH" })
+
+    expect(onClose).toHaveBeenCalledTimes(2)
+  })
+})
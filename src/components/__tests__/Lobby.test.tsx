@@ -226,4 +226,327 @@ describe("Lobby", () => {
 
     expect(screen.getByText("Players (3/4)")).toBeInTheDocument()
   })
+
+  it("hides bot controls when bots are not supported", () => {
+    render(<Lobby {...defaultProps} />)
+
+    expect(screen.queryByText("Add Bot")).not.toBeInTheDocument()
+  })
+
+  it("adds a bot with the selected strategy", () => {
+    const mockOnBotJoin = vi.fn()
+    render(<Lobby {...defaultProps} onBotJoin={mockOnBotJoin} />)
+
+    fireEvent.change(screen.getByLabelText("Computer Opponent"), {
+      target: { value: "lookahead" },
+    })
+    fireEvent.click(screen.getByText("Add Bot"))
+
+    expect(mockOnBotJoin).toHaveBeenCalledWith(
+      expect.any(String),
+      "Lookahead Bot 1",
+      "lookahead"
+    )
+  })
+
+  it("marks bots in the players list", () => {
+    const players = [
+      createMockPlayer({ id: "p1", name: "Alice" }),
+      createMockPlayer({ id: "p2", name: "Greedy Bot 1", kind: "bot" }),
+    ]
+
+    render(<Lobby {...defaultProps} players={players} onBotJoin={vi.fn()} />)
+
+    expect(screen.getByText("🤖 Bot")).toBeInTheDocument()
+  })
+
+  it("disables adding bots when the lobby is full", () => {
+    const players = ["1", "2", "3", "4"].map((id) =>
+      createMockPlayer({ id, name: `Player ${id}` })
+    )
+
+    render(<Lobby {...defaultProps} players={players} onBotJoin={vi.fn()} />)
+
+    expect(screen.getByText("Add Bot")).toBeDisabled()
+  })
+
+  it("lets the table pick a rule preset", () => {
+    const onRulesChange = vi.fn()
+    render(<Lobby {...defaultProps} onRulesChange={onRulesChange} />)
+
+    fireEvent.change(screen.getByLabelText("Rule Preset"), {
+      target: { value: "blitz" },
+    })
+
+    expect(onRulesChange).toHaveBeenCalledWith(
+      expect.objectContaining({ roundDurationSeconds: 60 })
+    )
+  })
+
+  it("sets a shot clock and what happens when it runs out", () => {
+    const onRulesChange = vi.fn()
+    const { rerender } = render(
+      <Lobby {...defaultProps} onRulesChange={onRulesChange} />
+    )
+    expect(screen.getByLabelText("On Timeout")).toBeDisabled()
+
+    fireEvent.change(screen.getByLabelText("Turn Timer"), {
+      target: { value: "10" },
+    })
+    expect(onRulesChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ turnDurationSeconds: 10 })
+    )
+
+    const rules = onRulesChange.mock.lastCall![0]
+    rerender(
+      <Lobby {...defaultProps} rules={rules} onRulesChange={onRulesChange} />
+    )
+    fireEvent.change(screen.getByLabelText("On Timeout"), {
+      target: { value: "penalty" },
+    })
+
+    expect(onRulesChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        turnDurationSeconds: 10,
+        turnTimeoutPolicy: "penalty",
+      })
+    )
+    expect(screen.getByText(/10 seconds per turn/)).toBeInTheDocument()
+  })
+
+  it("describes and enforces the chosen rules", () => {
+    const rules = {
+      roundDurationSeconds: 60,
+      turnDurationSeconds: null,
+      turnTimeoutPolicy: "auto-play" as const,
+      handSize: 7,
+      maxPlayers: 2,
+      aceWrapsOnKing: false,
+      allowSumPlays: true,
+      forcedDrawBeforeSkip: true,
+      tieBreakers: [],
+      scoringSystem: "face-tens" as const,
+      allowUndo: false,
+      spectatorsSeeHands: false,
+      powerCards: false,
+      jokers: 0,
+      jokerPoints: 25,
+      teamPlay: false,
+      partnersSeeHands: false,
+      interrupts: false,
+    }
+    const players = [
+      createMockPlayer({ id: "1", name: "Alice" }),
+      createMockPlayer({ id: "2", name: "Bob" }),
+    ]
+
+    render(<Lobby {...defaultProps} players={players} rules={rules} />)
+
+    expect(screen.getByText(/1 minute per round/)).toBeInTheDocument()
+    expect(screen.getByText("Players (2/2)")).toBeInTheDocument()
+    expect(screen.getByText("Lobby Full")).toBeDisabled()
+    expect(
+      screen.getByText("The lowest scores share the win")
+    ).toBeInTheDocument()
+    expect(
+      screen.getByText(/Ace=1, 2-10=face value, J, Q and K=10/)
+    ).toBeInTheDocument()
+  })
+
+  it("lets the table pick a scoring system", () => {
+    const onRulesChange = vi.fn()
+    render(<Lobby {...defaultProps} onRulesChange={onRulesChange} />)
+
+    fireEvent.change(screen.getByLabelText("Scoring"), {
+      target: { value: "spades-double" },
+    })
+
+    expect(onRulesChange).toHaveBeenCalledWith(
+      expect.objectContaining({ scoringSystem: "spades-double" })
+    )
+  })
+
+  it("lets the table allow undo", () => {
+    const onRulesChange = vi.fn()
+    const { rerender } = render(
+      <Lobby {...defaultProps} onRulesChange={onRulesChange} />
+    )
+    expect(screen.queryByText("Undo:")).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText(/Allow Undo/))
+
+    const rules = onRulesChange.mock.lastCall![0]
+    expect(rules.allowUndo).toBe(true)
+    rerender(
+      <Lobby {...defaultProps} rules={rules} onRulesChange={onRulesChange} />
+    )
+    expect(screen.getByText("Undo:")).toBeInTheDocument()
+  })
+
+  it("lets the table make stuck players draw before skipping", () => {
+    const onRulesChange = vi.fn()
+    const { rerender } = render(
+      <Lobby {...defaultProps} onRulesChange={onRulesChange} />
+    )
+    expect(screen.getByText("Skip the turn")).toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText("Forced Draw Before Skip"))
+
+    const rules = onRulesChange.mock.lastCall![0]
+    expect(rules.forcedDrawBeforeSkip).toBe(true)
+    rerender(
+      <Lobby {...defaultProps} rules={rules} onRulesChange={onRulesChange} />
+    )
+    expect(screen.getByText(/Draw a card first/)).toBeInTheDocument()
+  })
+
+  it("lets the table show spectators every hand", () => {
+    const onRulesChange = vi.fn()
+    render(<Lobby {...defaultProps} onRulesChange={onRulesChange} />)
+
+    fireEvent.click(screen.getByLabelText("Spectators See All Hands"))
+
+    expect(onRulesChange).toHaveBeenCalledWith(
+      expect.objectContaining({ spectatorsSeeHands: true })
+    )
+  })
+
+  it("shuffles in jokers and sets what one left in hand scores", () => {
+    const onRulesChange = vi.fn()
+    const { rerender } = render(
+      <Lobby {...defaultProps} onRulesChange={onRulesChange} />
+    )
+    expect(screen.getByLabelText("Joker Left in Hand")).toBeDisabled()
+
+    fireEvent.change(screen.getByLabelText("Jokers"), {
+      target: { value: "2" },
+    })
+
+    const rules = onRulesChange.mock.lastCall![0]
+    expect(rules.jokers).toBe(2)
+    rerender(
+      <Lobby {...defaultProps} rules={rules} onRulesChange={onRulesChange} />
+    )
+    fireEvent.change(screen.getByLabelText("Joker Left in Hand"), {
+      target: { value: "50" },
+    })
+    expect(onRulesChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ jokers: 2, jokerPoints: 50 })
+    )
+    expect(screen.getByText("Jokers:")).toBeInTheDocument()
+  })
+
+  it("turns on power cards and lists them with the rules", () => {
+    const onRulesChange = vi.fn()
+    const { rerender } = render(
+      <Lobby {...defaultProps} onRulesChange={onRulesChange} />
+    )
+    expect(screen.queryByText("Power Cards:")).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText(/Power Cards/))
+
+    const rules = onRulesChange.mock.lastCall![0]
+    expect(rules.powerCards).toBe(true)
+    rerender(
+      <Lobby {...defaultProps} rules={rules} onRulesChange={onRulesChange} />
+    )
+    expect(screen.getByText("Power Cards:")).toBeInTheDocument()
+  })
+
+  it("lets the table play with interrupts", () => {
+    const onRulesChange = vi.fn()
+    const { rerender } = render(
+      <Lobby {...defaultProps} onRulesChange={onRulesChange} />
+    )
+    expect(screen.queryByText("Interrupts:")).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText(/Interrupts/))
+
+    const rules = onRulesChange.mock.lastCall![0]
+    expect(rules.interrupts).toBe(true)
+    rerender(
+      <Lobby {...defaultProps} rules={rules} onRulesChange={onRulesChange} />
+    )
+    expect(screen.getByText("Interrupts:")).toBeInTheDocument()
+  })
+
+  it("seats partners opposite each other in team play", () => {
+    const onRulesChange = vi.fn()
+    const players = ["Alice", "Bob", "Carol"].map((name) =>
+      createMockPlayer({ id: name, name })
+    )
+    const { rerender } = render(
+      <Lobby
+        {...defaultProps}
+        players={players}
+        onRulesChange={onRulesChange}
+      />
+    )
+    expect(screen.queryByText("Teams:")).not.toBeInTheDocument()
+    expect(
+      screen.queryByLabelText(/Partners See Each Other's Hands/)
+    ).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText(/Team Play/))
+
+    const rules = onRulesChange.mock.lastCall![0]
+    expect(rules.teamPlay).toBe(true)
+    rerender(
+      <Lobby
+        {...defaultProps}
+        players={players}
+        rules={rules}
+        onRulesChange={onRulesChange}
+      />
+    )
+    expect(screen.getByText("Teams:")).toBeInTheDocument()
+    expect(
+      screen.getAllByText(/^Team \d$/).map((label) => label.textContent)
+    ).toEqual(["Team 1", "Team 2", "Team 1"])
+    // Three players are not enough for two teams
+    expect(screen.queryByText("🎮 Start Game")).not.toBeInTheDocument()
+    expect(
+      screen.getByText("Minimum 4 players required to start")
+    ).toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText(/Partners See Each Other's Hands/))
+    expect(onRulesChange.mock.lastCall![0].partnersSeeHands).toBe(true)
+  })
+
+  it("picks the tie-breakers and the order they apply in", () => {
+    const onRulesChange = vi.fn()
+    render(<Lobby {...defaultProps} onRulesChange={onRulesChange} />)
+    expect(
+      screen.getByText(
+        "Broken by fewest cards, then lowest high card, then last to play"
+      )
+    ).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText("Tie-Breakers"), {
+      target: { value: "last-to-play" },
+    })
+    fireEvent.change(screen.getByLabelText("Tie-Breakers"), {
+      target: { value: "" },
+    })
+
+    expect(
+      onRulesChange.mock.calls.map(([rules]) => rules.tieBreakers)
+    ).toEqual([["last-to-play"], []])
+  })
+
+  it("lets the table pick a match length", () => {
+    const onMatchSettingsChange = vi.fn()
+    render(
+      <Lobby {...defaultProps} onMatchSettingsChange={onMatchSettingsChange} />
+    )
+
+    fireEvent.change(screen.getByLabelText("Match Length"), {
+      target: { value: "rounds-3" },
+    })
+
+    expect(onMatchSettingsChange).toHaveBeenCalledWith({
+      rounds: 3,
+      pointLimit: null,
+    })
+  })
 })
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest"
-import { render, screen, fireEvent } from "../../test/test-utils"
+import { render, screen, fireEvent, within } from "../../test/test-utils"
+import { defaultGameRules } from "../../utils/gameRules"
 import PlayerHand from "../PlayerHand"
 import {
   createMockPlayer,
@@ -44,6 +45,22 @@ describe("PlayerHand", () => {
     expect(screen.getByText("Score: 17")).toBeInTheDocument()
   })
 
+  it("scores the hand with the table's scoring system", () => {
+    const player = createMockPlayer({
+      hand: createCards(["A", "5", "J"]), // 1 + 5 + 10 = 16
+    })
+
+    render(
+      <PlayerHand
+        {...defaultProps}
+        player={player}
+        rules={{ ...defaultGameRules, scoringSystem: "face-tens" }}
+      />
+    )
+
+    expect(screen.getByText("Score: 16")).toBeInTheDocument()
+  })
+
   it('shows "Your Turn" indicator for current player', () => {
     render(<PlayerHand {...defaultProps} isCurrentPlayer={true} />)
 
@@ -73,7 +90,7 @@ describe("PlayerHand", () => {
     render(<PlayerHand {...defaultProps} player={player} />)
 
     // Should render 3 cards
-    const cards = screen.getAllByRole("button")
+    const cards = screen.getAllByRole("option")
     expect(cards).toHaveLength(3)
   })
 
@@ -84,7 +101,7 @@ describe("PlayerHand", () => {
 
     render(<PlayerHand {...defaultProps} player={player} canInteract={true} />)
 
-    const card = screen.getByRole("button")
+    const card = screen.getByRole("option")
     fireEvent.click(card)
 
     expect(mockOnCardSelect).toHaveBeenCalledWith("test-card")
@@ -97,7 +114,7 @@ describe("PlayerHand", () => {
 
     render(<PlayerHand {...defaultProps} player={player} canInteract={false} />)
 
-    // When interaction is disabled, cards don't have button role
+    // When interaction is disabled, cards are not interactive
     // Find the card by its large value text (not the small score text)
     const cardValue = screen.getByText((content, element) => {
       return !!(element?.classList.contains("text-lg") && content === "7")
@@ -123,7 +140,7 @@ describe("PlayerHand", () => {
     )
 
     // The selected card should have different styling (tested via CardComponent)
-    const cards = screen.getAllByRole("button")
+    const cards = screen.getAllByRole("option")
     expect(cards).toHaveLength(2)
   })
 
@@ -142,7 +159,7 @@ describe("PlayerHand", () => {
     )
 
     // Should render cards with valid/invalid states
-    const cards = screen.getAllByRole("button")
+    const cards = screen.getAllByRole("option")
     expect(cards).toHaveLength(3)
   })
 
@@ -155,7 +172,7 @@ describe("PlayerHand", () => {
 
     expect(screen.getByText("Cards: 0")).toBeInTheDocument()
     expect(screen.getByText("Score: 0")).toBeInTheDocument()
-    expect(screen.queryByRole("button")).not.toBeInTheDocument()
+    expect(screen.queryByRole("option")).not.toBeInTheDocument()
   })
 
   it("handles missing discard card", () => {
@@ -163,7 +180,7 @@ describe("PlayerHand", () => {
 
     // Should still render without errors
     expect(screen.getByText("Test Player")).toBeInTheDocument()
-    const cards = screen.getAllByRole("button")
+    const cards = screen.getAllByRole("option")
     expect(cards).toHaveLength(3)
   })
 
@@ -181,4 +198,66 @@ describe("PlayerHand", () => {
 
     expect(screen.getByText("Cards: 2")).toBeInTheDocument()
   })
+
+  it("shows a bot badge with the bot's strategy", () => {
+    const player = createMockPlayer({
+      name: "Robo",
+      kind: "bot",
+      botStrategy: "lookahead",
+    })
+
+    render(<PlayerHand {...defaultProps} player={player} />)
+
+    expect(screen.getByText(/Lookahead Bot/)).toBeInTheDocument()
+  })
+
+  it("shows a hidden hand face down without its score", () => {
+    const player = {
+      ...createMockPlayer({ name: "Opponent" }),
+      hand: [],
+      handCount: 4,
+      handHidden: true,
+    }
+
+    render(<PlayerHand {...defaultProps} player={player} />)
+
+    expect(screen.getByText("Cards: 4")).toBeInTheDocument()
+    expect(screen.getAllByTestId("card-back")).toHaveLength(4)
+    expect(screen.queryByText(/Score:/)).not.toBeInTheDocument()
+    expect(screen.queryByRole("option")).not.toBeInTheDocument()
+    expect(
+      screen.getByRole("group", { name: "Opponent's hand, 4 cards face down" })
+    ).toBeInTheDocument()
+  })
+
+  it("exposes a visible hand as a multi-select listbox of its cards", () => {
+    const sevenOfHearts = createMockCard({ id: "seven", value: "7" })
+    const player = createMockPlayer({
+      name: "Alice",
+      hand: [
+        sevenOfHearts,
+        createMockCard({ id: "two", value: "2", suit: "clubs" }),
+      ],
+    })
+
+    render(
+      <PlayerHand
+        {...defaultProps}
+        player={player}
+        selectedCards={[sevenOfHearts]}
+        topDiscardCard={createMockCard({ value: "6", suit: "spades" })}
+      />
+    )
+
+    const hand = screen.getByRole("listbox", { name: "Alice's hand" })
+    expect(hand).toHaveAttribute("aria-multiselectable", "true")
+    expect(
+      within(hand).getByRole("option", {
+        name: "7 of hearts, playable, selected",
+      })
+    ).toBeInTheDocument()
+    expect(
+      within(hand).getByRole("option", { name: "2 of clubs" })
+    ).toBeInTheDocument()
+  })
 })
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest"
+import { render, screen, fireEvent } from "../../test/test-utils"
+import ReplayViewer from "../ReplayViewer"
+import type { GameLogEntry } from "../../types/game"
+import { defaultGameRules } from "../../utils/gameRules"
+import { defaultMatchSettings } from "../../utils/matchUtils"
+
+const at = (seconds: number) => new Date(Date.UTC(2024, 0, 1, 0, 0, seconds))
+
+// Two humans join and the game is dealt; the replay shows the dealt hands
+const eventLog: GameLogEntry[] = [
+  {
+    timestamp: at(0),
+    event: { type: "PLAYER_JOIN", playerId: "alice", playerName: "Alice" },
+  },
+  {
+    timestamp: at(1),
+    event: { type: "PLAYER_JOIN", playerId: "bob", playerName: "Bob" },
+  },
+  { timestamp: at(2), event: { type: "START_GAME", seed: 42 } },
+  {
+    timestamp: at(4),
+    event: { type: "CARD_SELECTED", playerId: "alice", cardId: "card-1" },
+  },
+  { timestamp: at(5), event: { type: "END_GAME" } },
+]
+
+const context = {
+  eventLog,
+  rules: defaultGameRules,
+  matchSettings: defaultMatchSettings,
+  seed: 42,
+}
+
+describe("ReplayViewer", () => {
+  it("steps forward and back through the moves", () => {
+    render(<ReplayViewer context={context} onClose={vi.fn()} />)
+
+    // The lobby, two joins, the deal and the early end; the selection is
+    // skipped
+    expect(screen.getByText(/Move 1 of 5/)).toBeInTheDocument()
+    expect(screen.getByTestId("replay-event")).toHaveTextContent("Lobby opened")
+
+    fireEvent.click(screen.getByText(/Next/))
+    expect(screen.getByTestId("replay-event")).toHaveTextContent("Alice joined")
+
+    fireEvent.click(screen.getByText(/Next/))
+    fireEvent.click(screen.getByText(/Next/))
+    expect(screen.getByTestId("replay-event")).toHaveTextContent(
+      "Game started with seed 42"
+    )
+    expect(screen.getByText("Alice")).toBeInTheDocument()
+    expect(screen.getByText("Bob")).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText(/Previous/))
+    expect(screen.getByText(/Move 3 of 5/)).toBeInTheDocument()
+  })
+
+  it("closes the replay", () => {
+    const onClose = vi.fn()
+    render(<ReplayViewer context={context} onClose={onClose} />)
+
+    fireEvent.click(screen.getByText("Close Replay"))
+
+    expect(onClose).toHaveBeenCalled()
+  })
+})
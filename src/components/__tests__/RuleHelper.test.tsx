@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest"
+import { render, screen, fireEvent } from "../../test/test-utils"
+import { RuleHelper } from "../RuleHelper"
+import { createMockCard } from "../../test/test-utils"
+import type { Hint } from "../../utils/hints"
+
+describe("RuleHelper", () => {
+  const defaultProps = {
+    topDiscardCard: createMockCard({ value: "3", suit: "clubs" }),
+    validCards: [],
+    selectedCards: [],
+    isVisible: true,
+  }
+
+  it("explains runs climbing from the top card", () => {
+    render(<RuleHelper {...defaultProps} />)
+
+    expect(screen.getByText("4-5")).toBeInTheDocument()
+    expect(screen.getByText(/each card one higher/)).toBeInTheDocument()
+  })
+
+  it("leaves out runs that would need the Ace to wrap when it does not", () => {
+    render(
+      <RuleHelper
+        {...defaultProps}
+        topDiscardCard={createMockCard({ value: "Q", suit: "clubs" })}
+        aceWrapsOnKing={false}
+      />
+    )
+
+    expect(screen.queryByText(/each card one higher/)).not.toBeInTheDocument()
+  })
+
+  it("keeps the hint hidden until it is asked for", () => {
+    const onShowHint = vi.fn()
+    const bestPlay: Hint = {
+      cards: [createMockCard({ value: "4" })],
+      pointsShed: 4,
+      followers: 7,
+      winsRound: false,
+      explanation: "Play the 4 of hearts.",
+    }
+    render(
+      <RuleHelper
+        {...defaultProps}
+        bestPlay={bestPlay}
+        onShowHint={onShowHint}
+      />
+    )
+    expect(screen.queryByText(/Play the 4 of hearts/)).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole("button", { name: /Show Hint/ }))
+
+    expect(screen.getByText(/Play the 4 of hearts/)).toBeInTheDocument()
+    expect(onShowHint).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from "vitest"
+import { act, waitFor } from "@testing-library/react"
+import { render, screen, fireEvent } from "../../test/test-utils"
+import SpectateGame from "../SpectateGame"
+import {
+  createCards,
+  createMockGameContext,
+  createMockPlayer,
+} from "../../test/test-utils"
+import { projectContextForSpectator } from "../../utils/viewUtils"
+import type { GameClient } from "../../net/gameClient"
+import type { ServerMessage } from "../../types/protocol"
+
+// A game client that never opens a socket; the test pushes server messages
+// and drops the connection
+const createFakeClient = (ready: Promise<void> = Promise.resolve()) => {
+  const listeners: ((message: ServerMessage) => void)[] = []
+  const closeListeners: (() => void)[] = []
+  const client: GameClient = {
+    ready,
+    join: vi.fn(),
+    spectate: vi.fn(),
+    send: vi.fn(),
+    onMessage: (listener) => {
+      listeners.push(listener)
+      return () => {}
+    },
+    onClose: (listener) => {
+      closeListeners.push(listener)
+      return () => {}
+    },
+    close: vi.fn(),
+  }
+  const receive = (message: ServerMessage) =>
+    act(() => listeners.forEach((listener) => listener(message)))
+  const drop = () => act(() => closeListeners.forEach((listener) => listener()))
+  return { client, receive, drop }
+}
+
+const view = projectContextForSpectator(
+  createMockGameContext({
+    players: [
+      createMockPlayer({
+        id: "player-1",
+        name: "Alice",
+        hand: createCards(["7", "8"]),
+        isCurrentPlayer: true,
+      }),
+    ],
+    discardPile: createCards(["7"]),
+  })
+)
+
+const watch = (gameId = "table-1", name = "Eve") => {
+  fireEvent.change(screen.getByLabelText("Game ID"), {
+    target: { value: gameId },
+  })
+  fireEvent.change(screen.getByLabelText("Your Name"), {
+    target: { value: name },
+  })
+  fireEvent.click(screen.getByText("Watch"))
+}
+
+describe("SpectateGame", () => {
+  it("spectates the chosen game through the game client", async () => {
+    const { client } = createFakeClient()
+    const connect = vi.fn(() => client)
+    render(<SpectateGame serverUrl="ws://test:8080" connect={connect} />)
+
+    watch(" table-1 ", " Eve ")
+
+    await waitFor(() =>
+      expect(client.spectate).toHaveBeenCalledWith("table-1", "Eve")
+    )
+    expect(connect).toHaveBeenCalledWith("ws://test:8080")
+    expect(screen.getByText("Connecting...")).toBeInTheDocument()
+  })
+
+  it("shows the spectator board once a snapshot arrives", async () => {
+    const { client, receive } = createFakeClient()
+    render(<SpectateGame connect={() => client} />)
+
+    watch()
+    await waitFor(() => expect(client.spectate).toHaveBeenCalled())
+    receive({
+      type: "SNAPSHOT",
+      gameId: "table-1",
+      state: "playerTurn",
+      context: view,
+      spectators: ["Eve"],
+    })
+
+    expect(screen.getByText(/Spectating/)).toBeInTheDocument()
+    expect(screen.getByText("Alice is taking their turn")).toBeInTheDocument()
+  })
+
+  it("goes back to the form when the viewer stops watching", async () => {
+    const { client, receive } = createFakeClient()
+    render(<SpectateGame connect={() => client} />)
+
+    watch()
+    await waitFor(() => expect(client.spectate).toHaveBeenCalled())
+    receive({
+      type: "SNAPSHOT",
+      gameId: "table-1",
+      state: "playerTurn",
+      context: view,
+      spectators: ["Eve"],
+    })
+    fireEvent.click(screen.getByText("Stop Watching"))
+
+    expect(client.close).toHaveBeenCalled()
+    expect(screen.queryByText(/Spectating/)).not.toBeInTheDocument()
+    expect(screen.getByText("Watch")).toBeInTheDocument()
+  })
+
+  it("keeps the last snapshot up when the server drops the connection", async () => {
+    const { client, receive, drop } = createFakeClient()
+    render(<SpectateGame connect={() => client} />)
+
+    watch()
+    await waitFor(() => expect(client.spectate).toHaveBeenCalled())
+    receive({
+      type: "SNAPSHOT",
+      gameId: "table-1",
+      state: "playerTurn",
+      context: view,
+      spectators: ["Eve"],
+    })
+    drop()
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Disconnected from the game server"
+    )
+    expect(screen.getByText("Alice is taking their turn")).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText("Back"))
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument()
+    expect(screen.getByText("Watch")).toBeInTheDocument()
+  })
+
+  it("reports a connection dropped before the first snapshot", async () => {
+    const { client, drop } = createFakeClient()
+    render(<SpectateGame connect={() => client} />)
+
+    watch()
+    await waitFor(() => expect(client.spectate).toHaveBeenCalled())
+    drop()
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Disconnected from the game server"
+    )
+    expect(screen.getByText("Watch")).toBeInTheDocument()
+  })
+
+  it("shows the server's error and disconnects", async () => {
+    const { client, receive } = createFakeClient()
+    render(<SpectateGame connect={() => client} />)
+
+    watch("missing")
+    await waitFor(() => expect(client.spectate).toHaveBeenCalled())
+    receive({ type: "ERROR", message: "No such game" })
+
+    expect(screen.getByRole("alert")).toHaveTextContent("No such game")
+    expect(client.close).toHaveBeenCalled()
+  })
+
+  it("reports a server it cannot reach", async () => {
+    const { client } = createFakeClient(Promise.reject(new Error("refused")))
+    render(<SpectateGame serverUrl="ws://nowhere:1" connect={() => client} />)
+
+    watch()
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Could not reach the game server at ws://nowhere:1"
+    )
+    expect(client.spectate).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest"
+import { render, screen } from "../../test/test-utils"
+import SpectatorBoard from "../SpectatorBoard"
+import {
+  createCards,
+  createMockGameContext,
+  createMockPlayer,
+} from "../../test/test-utils"
+import { projectContextForSpectator } from "../../utils/viewUtils"
+
+const createContext = (spectatorsSeeHands: boolean) => {
+  const context = createMockGameContext({
+    players: [
+      createMockPlayer({
+        id: "player-1",
+        name: "Alice",
+        hand: createCards(["7", "8"]),
+        isCurrentPlayer: true,
+      }),
+      createMockPlayer({
+        id: "player-2",
+        name: "Bob",
+        hand: createCards(["2", "3", "4"]),
+      }),
+    ],
+    discardPile: createCards(["7"]),
+  })
+  return { ...context, rules: { ...context.rules, spectatorsSeeHands } }
+}
+
+describe("SpectatorBoard", () => {
+  it("shows the table read-only with hands face down", () => {
+    render(
+      <SpectatorBoard
+        state="playerTurn"
+        view={projectContextForSpectator(createContext(false))}
+        spectators={["Eve", "Finn"]}
+      />
+    )
+
+    expect(screen.getByText(/Spectating/)).toBeInTheDocument()
+    expect(screen.getByText(/2 watching/)).toBeInTheDocument()
+    expect(screen.getByText("Alice is taking their turn")).toBeInTheDocument()
+    expect(screen.getByText("Cards: 3")).toBeInTheDocument()
+    expect(screen.queryByText(/Play Selected Cards/)).not.toBeInTheDocument()
+    expect(screen.queryByText(/Pause/)).not.toBeInTheDocument()
+  })
+
+  it("shows every hand when the table allows it", () => {
+    render(
+      <SpectatorBoard
+        state="playerTurn"
+        view={projectContextForSpectator(createContext(true))}
+      />
+    )
+
+    expect(screen.getByText(/Alice has 3 legal plays/)).toBeInTheDocument()
+    expect(screen.getAllByText(/Score:/)).toHaveLength(2)
+  })
+
+  it("waits in the lobby and shows results without table controls", () => {
+    const view = projectContextForSpectator(createContext(false))
+    const { rerender } = render(<SpectatorBoard state="lobby" view={view} />)
+
+    expect(
+      screen.getByText("Waiting for the game to start")
+    ).toBeInTheDocument()
+    expect(screen.getByText("Alice")).toBeInTheDocument()
+
+    rerender(<SpectatorBoard state="gameOver" view={view} />)
+
+    expect(screen.getByText("Game Over!")).toBeInTheDocument()
+    expect(screen.queryByText("Play Again")).not.toBeInTheDocument()
+  })
+})
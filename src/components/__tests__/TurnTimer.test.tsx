@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest"
+import { render, screen } from "../../test/test-utils"
+import TurnTimer from "../TurnTimer"
+
+describe("TurnTimer", () => {
+  it("shows the seconds left in the turn", () => {
+    render(<TurnTimer timeRemaining={8} />)
+
+    expect(screen.getByText("Turn Time")).toBeInTheDocument()
+    expect(screen.getByText("8s")).toBeInTheDocument()
+  })
+
+  it("turns orange with five seconds left", () => {
+    const { container } = render(<TurnTimer timeRemaining={5} />)
+
+    expect(container.firstChild).toHaveClass("bg-orange-500")
+  })
+
+  it("pulses red in the last three seconds", () => {
+    const { container } = render(<TurnTimer timeRemaining={3} />)
+
+    expect(container.firstChild).toHaveClass("bg-red-500", "animate-pulse")
+  })
+})
@@ -1,6 +1,57 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest"
-import { createActor } from "xstate"
-import { cardGameMachine } from "../cardGameMachine"
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { createActor, SimulatedClock } from "xstate"
+import {
+  BOT_TURN_DELAY,
+  cardGameMachine,
+  decideBotAction,
+  decideTimeoutAction,
+  getRemainingSeconds,
+  withClock,
+} from "../cardGameMachine"
+import type { Card, CardValue, GameContext, GameRules } from "../../types/game"
+import { defaultGameRules } from "../../utils/gameRules"
+import { INTERRUPT_WINDOW_MS } from "../../utils/interrupts"
+import { greedyBot } from "../../utils/botStrategies"
+import {
+  createCards,
+  createMockCard,
+  createMockGameContext,
+  createMockPlayer,
+} from "../../test/test-utils"
+
+// The machine on a simulated clock, for its delays and timestamps alike
+const clockedMachine = (clock: SimulatedClock) =>
+  cardGameMachine.provide(withClock(clock))
+
+// Start an actor directly in a given state with a hand-built context
+const startInState = (value: string, context: GameContext) => {
+  const snapshot = cardGameMachine.resolveState({ value, context })
+  const restoredActor = createActor(cardGameMachine, { snapshot })
+  restoredActor.start()
+  return restoredActor
+}
+
+// Two players where Alice (to play) holds nothing playable on the 6, at a
+// table that makes her draw before she can skip
+const createStuckContext = (overrides?: Partial<GameContext>) =>
+  createMockGameContext({
+    players: [
+      createMockPlayer({
+        id: "player-1",
+        name: "Alice",
+        hand: [createMockCard({ id: "a-2", value: "2" })],
+        isCurrentPlayer: true,
+      }),
+      createMockPlayer({
+        id: "player-2",
+        name: "Bob",
+        hand: [createMockCard({ id: "b-7", value: "7" })],
+      }),
+    ],
+    deck: [createMockCard({ id: "deck-7", value: "7", suit: "spades" })],
+    rules: { ...defaultGameRules, forcedDrawBeforeSkip: true },
+    ...overrides,
+  })
 
 describe("cardGameMachine", () => {
   let actor: ReturnType<typeof createActor>
@@ -31,6 +82,24 @@ describe("cardGameMachine", () => {
     expect(snapshot.context.players[0].id).toBe("player-1")
   })
 
+  it("does not seat a second player under a taken id", () => {
+    actor.send({
+      type: "PLAYER_JOIN",
+      playerId: "player-1",
+      playerName: "Alice",
+    })
+    actor.send({
+      type: "PLAYER_JOIN",
+      playerId: "player-1",
+      playerName: "Mallory",
+      kind: "bot",
+    })
+
+    const { players } = actor.getSnapshot().context
+    expect(players).toHaveLength(1)
+    expect(players[0].name).toBe("Alice")
+  })
+
   it("prevents game start with less than 2 players", () => {
     actor.send({
       type: "PLAYER_JOIN",
@@ -181,14 +250,17 @@ describe("cardGameMachine", () => {
         const snapshot = actor.getSnapshot()
         expect(snapshot.value).toBe("playerTurn")
 
-        // Now send timer tick
+        // Report a time a minute into the round
+        const { roundStartTime, rules } = snapshot.context
         actor.send({
-          type: "TIMER_TICK",
-          remainingTime: 120,
+          type: "CLOCK_TICK",
+          now: roundStartTime!.getTime() + 60_000,
         })
 
         const updatedSnapshot = actor.getSnapshot()
-        expect(updatedSnapshot.context.gameTimer).toBe(120)
+        expect(updatedSnapshot.context.gameTimer).toBe(
+          rules.roundDurationSeconds - 60
+        )
         resolve()
       }, 1100) // Wait for gameStarting transition
     })
@@ -211,10 +283,7 @@ describe("cardGameMachine", () => {
         expect(snapshot.value).toBe("playerTurn")
 
         // Send timer expiration
-        actor.send({
-          type: "TIMER_TICK",
-          remainingTime: 0,
-        })
+        actor.send({ type: "ROUND_TIMEOUT" })
 
         const updatedSnapshot = actor.getSnapshot()
         expect(updatedSnapshot.value).toBe("gameEnding")
@@ -272,7 +341,7 @@ describe("cardGameMachine", () => {
         const snapshot = actor.getSnapshot()
         expect(snapshot.value).toBe("gameOver")
         expect(snapshot.context.finalScores).toHaveLength(2)
-        expect(snapshot.context.winner).toBeDefined()
+        expect(snapshot.context.winners.length).toBeGreaterThan(0)
         resolve()
       }, 2100) // Wait slightly longer than the 2000ms delay
     })
@@ -320,15 +389,68 @@ describe("cardGameMachine", () => {
     expect(snapshot.context.gameTimer).toBe(180)
     expect(snapshot.context.selectedCards).toEqual([])
     expect(snapshot.context.gameId).toBeDefined()
+    expect(snapshot.context.seed).toBeNull()
     expect(snapshot.context.roundStartTime).toBeNull()
     expect(snapshot.context.finalScores).toEqual([])
-    expect(snapshot.context.winner).toBeNull()
+    expect(snapshot.context.winners).toEqual([])
+    expect(snapshot.context.tieBreak).toBeNull()
     expect(snapshot.context.autoPlayNotifications).toEqual([])
     expect(snapshot.context.gameEndReason).toBeNull()
 
     freshActor.stop()
   })
 
+  it("deals identical games for the same seed", () => {
+    vi.useFakeTimers()
+
+    const dealWithSeed = (seed: number) => {
+      const seededActor = createActor(cardGameMachine)
+      seededActor.start()
+      seededActor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-1",
+        playerName: "Alice",
+      })
+      seededActor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-2",
+        playerName: "Bob",
+      })
+      seededActor.send({ type: "START_GAME", seed })
+      vi.advanceTimersByTime(1000)
+
+      const { context } = seededActor.getSnapshot()
+      seededActor.stop()
+      return context
+    }
+
+    try {
+      const first = dealWithSeed(2024)
+      const second = dealWithSeed(2024)
+
+      expect(first.seed).toBe(2024)
+      expect(first.players.map((p) => p.hand)).toEqual(
+        second.players.map((p) => p.hand)
+      )
+      expect(first.discardPile).toEqual(second.discardPile)
+      expect(first.deck).toEqual(second.deck)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it("generates a seed when START_GAME has none", () => {
+    actor.send({
+      type: "PLAYER_JOIN",
+      playerId: "player-1",
+      playerName: "Alice",
+    })
+    actor.send({ type: "PLAYER_JOIN", playerId: "player-2", playerName: "Bob" })
+    actor.send({ type: "START_GAME" })
+
+    expect(actor.getSnapshot().context.seed).toEqual(expect.any(Number))
+  })
+
   it("prevents invalid transitions", () => {
     // Try to send playerTurn events while in lobby
     actor.send({
@@ -339,4 +461,1996 @@ describe("cardGameMachine", () => {
 
     expect(actor.getSnapshot().value).toBe("lobby")
   })
+
+  it("rejects plays with cards the player does not hold", () => {
+    const context = createMockGameContext({
+      players: [
+        createMockPlayer({
+          id: "player-1",
+          hand: [createMockCard({ id: "a-7", value: "7" })],
+          isCurrentPlayer: true,
+        }),
+        createMockPlayer({ id: "player-2" }),
+      ],
+      discardPile: [createMockCard({ id: "top", value: "7", suit: "spades" })],
+    })
+    const gameActor = startInState("playerTurn", context)
+
+    // A forged card, and the held card sent twice
+    gameActor.send({
+      type: "PLAY_CARDS",
+      playerId: "player-1",
+      cards: [createMockCard({ id: "forged", value: "7" })],
+    })
+    gameActor.send({
+      type: "PLAY_CARDS",
+      playerId: "player-1",
+      cards: [context.players[0].hand[0], context.players[0].hand[0]],
+    })
+
+    expect(gameActor.getSnapshot().value).toBe("playerTurn")
+    expect(gameActor.getSnapshot().context.players[0].hand).toHaveLength(1)
+    gameActor.stop()
+  })
+
+  it("puts a run on the discard pile in run order", () => {
+    const run = [
+      createMockCard({ id: "a-6", value: "6" }),
+      createMockCard({ id: "a-4", value: "4" }),
+      createMockCard({ id: "a-5", value: "5" }),
+    ]
+    const context = createMockGameContext({
+      players: [
+        createMockPlayer({
+          id: "player-1",
+          hand: [...run, createMockCard({ id: "a-K", value: "K" })],
+          isCurrentPlayer: true,
+        }),
+        createMockPlayer({ id: "player-2" }),
+      ],
+      discardPile: [createMockCard({ id: "top", value: "3", suit: "spades" })],
+    })
+    const gameActor = startInState("playerTurn", context)
+
+    gameActor.send({ type: "PLAY_CARDS", playerId: "player-1", cards: run })
+
+    const { discardPile, players } = gameActor.getSnapshot().context
+    expect(gameActor.getSnapshot().value).toBe("waitingForTurn")
+    expect(discardPile.map((card) => card.id)).toEqual([
+      "top",
+      "a-4",
+      "a-5",
+      "a-6",
+    ])
+    expect(players[0].hand.map((card) => card.id)).toEqual(["a-K"])
+    gameActor.stop()
+  })
+
+  describe("draw pile", () => {
+    it("lets a stuck player draw a card", () => {
+      const drawActor = startInState("playerTurn", createStuckContext())
+
+      drawActor.send({ type: "DRAW_CARD", playerId: "player-1" })
+
+      const { context } = drawActor.getSnapshot()
+      expect(context.players[0].hand.map((c) => c.id)).toEqual([
+        "a-2",
+        "deck-7",
+      ])
+      expect(context.deck).toHaveLength(0)
+      expect(context.hasDrawnThisTurn).toBe(true)
+      expect(context.autoPlayNotifications.at(-1)?.type).toBe("auto-draw")
+      drawActor.stop()
+    })
+
+    it("only allows one draw per turn", () => {
+      const drawActor = startInState(
+        "playerTurn",
+        createStuckContext({
+          deck: createCards(["2", "3"]),
+        })
+      )
+
+      drawActor.send({ type: "DRAW_CARD", playerId: "player-1" })
+      drawActor.send({ type: "DRAW_CARD", playerId: "player-1" })
+
+      expect(drawActor.getSnapshot().context.players[0].hand).toHaveLength(2)
+      drawActor.stop()
+    })
+
+    it("rejects drawing when the player has a valid move", () => {
+      const context = createStuckContext()
+      context.players[0].hand = [createMockCard({ id: "a-7", value: "7" })]
+      const drawActor = startInState("playerTurn", context)
+
+      drawActor.send({ type: "DRAW_CARD", playerId: "player-1" })
+
+      expect(drawActor.getSnapshot().context.players[0].hand).toHaveLength(1)
+      drawActor.stop()
+    })
+
+    it("rejects drawing out of turn", () => {
+      const drawActor = startInState("playerTurn", createStuckContext())
+
+      drawActor.send({ type: "DRAW_CARD", playerId: "player-2" })
+
+      expect(drawActor.getSnapshot().context.deck).toHaveLength(1)
+      drawActor.stop()
+    })
+
+    it("requires a draw before skipping under the forced-draw rule", () => {
+      const drawActor = startInState("playerTurn", createStuckContext())
+
+      drawActor.send({ type: "SKIP_TURN" })
+      expect(drawActor.getSnapshot().value).toBe("playerTurn")
+
+      drawActor.send({ type: "DRAW_CARD", playerId: "player-1" })
+      drawActor.send({ type: "SKIP_TURN" })
+      expect(drawActor.getSnapshot().value).toBe("waitingForTurn")
+      drawActor.stop()
+    })
+
+    it("allows skipping straight away without the forced-draw rule", () => {
+      const drawActor = startInState(
+        "playerTurn",
+        createStuckContext({
+          rules: { ...defaultGameRules, forcedDrawBeforeSkip: false },
+        })
+      )
+
+      drawActor.send({ type: "SKIP_TURN" })
+
+      expect(drawActor.getSnapshot().value).toBe("waitingForTurn")
+      drawActor.stop()
+    })
+
+    it("reshuffles the discard pile when the deck runs out", () => {
+      const drawActor = startInState(
+        "playerTurn",
+        createStuckContext({
+          deck: [],
+          discardPile: [
+            createMockCard({ id: "old-3", value: "3" }),
+            createMockCard({ id: "old-4", value: "4" }),
+            createMockCard({ id: "top-6", value: "6" }),
+          ],
+        })
+      )
+
+      drawActor.send({ type: "DRAW_CARD", playerId: "player-1" })
+
+      const { context } = drawActor.getSnapshot()
+      expect(context.discardPile.map((c) => c.id)).toEqual(["top-6"])
+      expect(context.deck).toHaveLength(1)
+      expect(context.players[0].hand).toHaveLength(2)
+      expect(context.reshuffleCount).toBe(1)
+      drawActor.stop()
+    })
+  })
+
+  describe("game rules", () => {
+    const joinPlayers = (count: number) => {
+      for (let i = 1; i <= count; i++) {
+        actor.send({
+          type: "PLAYER_JOIN",
+          playerId: `player-${i}`,
+          playerName: `Player ${i}`,
+        })
+      }
+    }
+
+    it("plays with the rules chosen in the lobby", () => {
+      vi.useFakeTimers()
+      try {
+        joinPlayers(2)
+        actor.send({
+          type: "SET_RULES",
+          rules: { roundDurationSeconds: 60, handSize: 5 },
+        })
+        actor.send({ type: "START_GAME" })
+        vi.advanceTimersByTime(1000)
+
+        const { context } = actor.getSnapshot()
+        expect(context.rules.roundDurationSeconds).toBe(60)
+        expect(context.gameTimer).toBe(60)
+        expect(context.players[0].hand).toHaveLength(5)
+        expect(context.players[1].hand).toHaveLength(5)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("shuffles the table's jokers into the deck", () => {
+      joinPlayers(2)
+      actor.send({ type: "SET_RULES", rules: { jokers: 2 } })
+      actor.send({ type: "START_GAME", seed: 7 })
+
+      const { deck }: GameContext = actor.getSnapshot().context
+      expect(deck).toHaveLength(54)
+      expect(deck.filter((card) => card.value === "Joker")).toHaveLength(2)
+    })
+
+    it("caps the lobby at the configured number of players", () => {
+      actor.send({ type: "SET_RULES", rules: { maxPlayers: 2 } })
+      joinPlayers(3)
+
+      expect(actor.getSnapshot().context.players).toHaveLength(2)
+    })
+
+    it("rejects rules that cannot seat the lobby or be dealt", () => {
+      joinPlayers(3)
+      actor.send({ type: "SET_RULES", rules: { maxPlayers: 2 } })
+      actor.send({ type: "SET_RULES", rules: { handSize: 20 } })
+
+      expect(actor.getSnapshot().context.rules).toEqual(
+        createMockGameContext().rules
+      )
+    })
+
+    it("locks the rules once the game has started", () => {
+      const started = startInState("playerTurn", createMockGameContext())
+      started.send({ type: "SET_RULES", rules: { allowSumPlays: false } })
+
+      expect(started.getSnapshot().context.rules.allowSumPlays).toBe(true)
+      started.stop()
+    })
+
+    it("validates plays against the table rules", () => {
+      const context = createMockGameContext({
+        players: [
+          createMockPlayer({
+            id: "player-1",
+            hand: [
+              createMockCard({ id: "a-2", value: "2" }),
+              createMockCard({ id: "a-4", value: "4" }),
+              createMockCard({ id: "a-9", value: "9" }),
+            ],
+            isCurrentPlayer: true,
+          }),
+          createMockPlayer({ id: "player-2" }),
+        ],
+        rules: { ...createMockGameContext().rules, allowSumPlays: false },
+      })
+      const rulesActor = startInState("playerTurn", context)
+
+      rulesActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: context.players[0].hand.slice(0, 2),
+      })
+
+      expect(rulesActor.getSnapshot().context.players[0].hand).toHaveLength(3)
+      rulesActor.stop()
+    })
+
+    it("scores the round with the table's scoring system", () => {
+      const context = createStuckContext({
+        players: [
+          createMockPlayer({
+            id: "player-1",
+            hand: [createMockCard({ id: "a-K", value: "K", suit: "spades" })],
+            isCurrentPlayer: true,
+          }),
+          createMockPlayer({
+            id: "player-2",
+            hand: [createMockCard({ id: "b-Q", value: "Q" })],
+          }),
+        ],
+      })
+      const scoringActor = startInState("playerTurn", {
+        ...context,
+        rules: { ...context.rules, scoringSystem: "spades-double" },
+      })
+
+      scoringActor.send({ type: "END_GAME" })
+
+      const [alice, bob] = scoringActor.getSnapshot().context.finalScores
+      expect(alice.finalScore).toBe(26)
+      expect(alice.breakdown).toEqual([
+        { label: "Cards", points: 13 },
+        { label: "Spades doubled", points: 13 },
+      ])
+      expect(bob.finalScore).toBe(12)
+      scoringActor.stop()
+    })
+
+    it("gives the going-out bonus to the player who empties their hand", () => {
+      const aliceSeven = createMockCard({ id: "a-7", value: "7" })
+      const context = createStuckContext({
+        players: [
+          createMockPlayer({
+            id: "player-1",
+            hand: [aliceSeven],
+            isCurrentPlayer: true,
+          }),
+          createMockPlayer({
+            id: "player-2",
+            hand: [createMockCard({ id: "b-3", value: "3" })],
+          }),
+        ],
+      })
+      const scoringActor = startInState("playerTurn", {
+        ...context,
+        rules: { ...context.rules, scoringSystem: "going-out-bonus" },
+      })
+
+      scoringActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [aliceSeven],
+      })
+
+      const { finalScores, winners } = scoringActor.getSnapshot().context
+      expect(finalScores.map((score) => score.finalScore)).toEqual([-10, 3])
+      expect(winners[0].playerId).toBe("player-1")
+      scoringActor.stop()
+    })
+  })
+
+  describe("match play", () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    // Play a round to the end and wait for the scores
+    const playRound = () => {
+      vi.advanceTimersByTime(1000)
+      actor.send({ type: "END_GAME" })
+      vi.advanceTimersByTime(2000)
+    }
+
+    const startMatch = (settings: { rounds?: number; pointLimit?: number }) => {
+      actor.send({ type: "SET_MATCH", settings })
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-1",
+        playerName: "Alice",
+      })
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-2",
+        playerName: "Bob",
+      })
+      actor.send({ type: "START_GAME" })
+    }
+
+    it("plays a single round by default", () => {
+      startMatch({})
+      playRound()
+
+      const snapshot = actor.getSnapshot()
+      expect(snapshot.value).toBe("gameOver")
+      expect(snapshot.context.roundHistory).toHaveLength(1)
+
+      actor.send({ type: "NEXT_ROUND" })
+      expect(actor.getSnapshot().value).toBe("gameOver")
+    })
+
+    it("accumulates scores across rounds and rotates the first player", () => {
+      startMatch({ rounds: 3 })
+      playRound()
+
+      const afterRoundOne = actor.getSnapshot().context
+      expect(afterRoundOne.roundHistory[0].roundNumber).toBe(1)
+      expect(afterRoundOne.matchTotals[0].finalScore).toBe(
+        afterRoundOne.finalScores[0].finalScore
+      )
+      expect(afterRoundOne.matchTotals[1].finalScore).toBe(
+        afterRoundOne.finalScores[1].finalScore
+      )
+
+      actor.send({ type: "NEXT_ROUND" })
+      vi.advanceTimersByTime(1000)
+
+      const roundTwo = actor.getSnapshot()
+      expect(roundTwo.value).toBe("playerTurn")
+      expect(roundTwo.context.roundNumber).toBe(2)
+      expect(roundTwo.context.currentPlayerIndex).toBe(1)
+      expect(roundTwo.context.players[1].isCurrentPlayer).toBe(true)
+      expect(roundTwo.context.players[0].hand).toHaveLength(7)
+      expect(roundTwo.context.players[0].id).toBe("player-1")
+      expect(roundTwo.context.players[1].id).toBe("player-2")
+
+      actor.send({ type: "END_GAME" })
+      vi.advanceTimersByTime(2000)
+
+      const context = actor.getSnapshot().context as GameContext
+      expect(context.roundHistory).toHaveLength(2)
+      context.matchTotals.forEach((total) => {
+        const roundScores = context.roundHistory.map(
+          (round) =>
+            round.scores.find((score) => score.playerId === total.playerId)
+              ?.finalScore ?? 0
+        )
+        expect(total.finalScore).toBe(roundScores[0] + roundScores[1])
+      })
+    })
+
+    it("stops after the configured number of rounds", () => {
+      startMatch({ rounds: 2 })
+      playRound()
+      actor.send({ type: "NEXT_ROUND" })
+      playRound()
+
+      actor.send({ type: "NEXT_ROUND" })
+
+      const snapshot = actor.getSnapshot()
+      expect(snapshot.value).toBe("gameOver")
+      expect(snapshot.context.roundNumber).toBe(2)
+    })
+
+    it("ends the match once a player reaches the point limit", () => {
+      startMatch({ rounds: 10, pointLimit: 1 })
+      playRound()
+
+      actor.send({ type: "NEXT_ROUND" })
+
+      expect(actor.getSnapshot().value).toBe("gameOver")
+    })
+
+    it("rejects invalid match settings", () => {
+      actor.send({ type: "SET_MATCH", settings: { rounds: 0 } })
+
+      expect(actor.getSnapshot().context.matchSettings).toEqual({
+        rounds: 1,
+        pointLimit: null,
+      })
+    })
+
+    it("keeps the match length on restart but clears the results", () => {
+      startMatch({ rounds: 3 })
+      playRound()
+      actor.send({ type: "RESTART_GAME" })
+
+      const { context } = actor.getSnapshot()
+      expect(context.matchSettings.rounds).toBe(3)
+      expect(context.roundNumber).toBe(1)
+      expect(context.roundHistory).toEqual([])
+      expect(context.matchTotals).toEqual([])
+    })
+  })
+
+  describe("event log", () => {
+    const eventTypes = () =>
+      (actor.getSnapshot().context as GameContext).eventLog.map(
+        (entry) => entry.event.type
+      )
+
+    it("logs every accepted event with a timestamp", () => {
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-1",
+        playerName: "Alice",
+      })
+      actor.send({ type: "SET_RULES", rules: { handSize: 5 } })
+
+      const { eventLog } = actor.getSnapshot().context as GameContext
+      expect(eventTypes()).toEqual(["PLAYER_JOIN", "SET_RULES"])
+      expect(eventLog[0].timestamp).toBeInstanceOf(Date)
+      expect(eventLog[1].event).toEqual({
+        type: "SET_RULES",
+        rules: { handSize: 5 },
+      })
+    })
+
+    it("does not log rejected events", () => {
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-1",
+        playerName: "Alice",
+      })
+      actor.send({ type: "START_GAME" })
+      actor.send({ type: "SET_RULES", rules: { handSize: 99 } })
+
+      expect(eventTypes()).toEqual(["PLAYER_JOIN"])
+    })
+
+    it("logs the seed each deal was made with", () => {
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-1",
+        playerName: "Alice",
+      })
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-2",
+        playerName: "Bob",
+      })
+      actor.send({ type: "START_GAME" })
+
+      const { eventLog, seed } = actor.getSnapshot().context as GameContext
+      expect(eventLog[2].event).toEqual({ type: "START_GAME", seed })
+    })
+
+    it("logs plays made during a turn", () => {
+      const context = createStuckContext({
+        players: [
+          createMockPlayer({
+            id: "player-1",
+            hand: createCards(["7", "2"]),
+            isCurrentPlayer: true,
+          }),
+          createMockPlayer({ id: "player-2" }),
+        ],
+      })
+      const logActor = startInState("playerTurn", context)
+      const cards = [context.players[0].hand[0]]
+
+      logActor.send({ type: "PLAY_CARDS", playerId: "player-1", cards })
+
+      expect(logActor.getSnapshot().context.eventLog).toEqual([
+        {
+          timestamp: expect.any(Date),
+          event: { type: "PLAY_CARDS", playerId: "player-1", cards },
+        },
+      ])
+      logActor.stop()
+    })
+  })
+
+  describe("round clock", () => {
+    // Two players dealt in on a simulated clock; the round starts at 1000ms
+    const startClockedGame = (clock: SimulatedClock) => {
+      const clockedActor = createActor(clockedMachine(clock), { clock })
+      clockedActor.start()
+      clockedActor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-1",
+        playerName: "Alice",
+      })
+      clockedActor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-2",
+        playerName: "Bob",
+      })
+      clockedActor.send({ type: "START_GAME", seed: 7 })
+      clock.increment(1000)
+      return clockedActor
+    }
+
+    it("works out the whole seconds left from the round start", () => {
+      const context = {
+        roundStartTime: new Date(10_000),
+        rules: { ...createMockGameContext().rules, roundDurationSeconds: 60 },
+      }
+
+      expect(getRemainingSeconds(context, 10_000)).toBe(60)
+      expect(getRemainingSeconds(context, 10_999)).toBe(60)
+      expect(getRemainingSeconds(context, 11_000)).toBe(59)
+      expect(getRemainingSeconds(context, 200_000)).toBe(0)
+      expect(getRemainingSeconds({ ...context, roundStartTime: null }, 0)).toBe(
+        60
+      )
+    })
+
+    it("starts the round clock when the cards are dealt", () => {
+      const clock = new SimulatedClock()
+      const clockedActor = startClockedGame(clock)
+
+      const { context } = clockedActor.getSnapshot()
+      expect(clockedActor.getSnapshot().value).toBe("playerTurn")
+      expect(context.roundStartTime).toEqual(new Date(1000))
+      expect(context.gameTimer).toBe(context.rules.roundDurationSeconds)
+      clockedActor.stop()
+    })
+
+    it("counts the round down once a second", () => {
+      const clock = new SimulatedClock()
+      const clockedActor = startClockedGame(clock)
+      const duration =
+        clockedActor.getSnapshot().context.rules.roundDurationSeconds
+
+      for (let elapsed = 0; elapsed < 3000; elapsed += 250) {
+        clock.increment(250)
+      }
+
+      const { context } = clockedActor.getSnapshot()
+      expect(context.gameTimer).toBe(duration - 3)
+      // The seconds are not logged: only the joins and the deal are
+      expect(context.eventLog).toHaveLength(3)
+      clockedActor.stop()
+    })
+
+    it("stamps notifications with the machine's clock", () => {
+      const clock = new SimulatedClock()
+      clock.set(42_000)
+      const snapshot = clockedMachine(clock).resolveState({
+        value: "playerTurn",
+        context: createStuckContext(),
+      })
+      const clockedActor = createActor(clockedMachine(clock), {
+        snapshot,
+        clock,
+      })
+      clockedActor.start()
+
+      clockedActor.send({ type: "DRAW_CARD", playerId: "player-1" })
+
+      expect(
+        clockedActor.getSnapshot().context.autoPlayNotifications
+      ).toMatchObject([{ type: "auto-draw", timestamp: new Date(42_000) }])
+      clockedActor.stop()
+    })
+
+    it("catches up in one step after a long gap", () => {
+      const clock = new SimulatedClock()
+      const clockedActor = startClockedGame(clock)
+      const duration =
+        clockedActor.getSnapshot().context.rules.roundDurationSeconds
+
+      clock.increment(42_000)
+
+      expect(clockedActor.getSnapshot().context.gameTimer).toBe(duration - 42)
+      clockedActor.stop()
+    })
+
+    it("ends the round when the clock runs out", () => {
+      const clock = new SimulatedClock()
+      const clockedActor = startClockedGame(clock)
+      const duration =
+        clockedActor.getSnapshot().context.rules.roundDurationSeconds
+
+      clock.increment(duration * 1000)
+
+      const { context } = clockedActor.getSnapshot()
+      expect(clockedActor.getSnapshot().value).toBe("gameEnding")
+      expect(context.gameTimer).toBe(0)
+      expect(context.gameEndReason).toBe("timer_expired")
+      clockedActor.stop()
+    })
+  })
+
+  describe("shot clock", () => {
+    // Bob plays a 6 at 0ms on the simulated clock, which hands Alice a real
+    // turn (and so a running shot clock) at 500ms. The shot clock is 10
+    // seconds unless the rules say otherwise.
+    const startTimedTurn = (
+      clock: SimulatedClock,
+      rules: Partial<GameRules>,
+      overrides?: Partial<GameContext>
+    ) => {
+      const base = createStuckContext(overrides)
+      const bobsSix = createMockCard({ id: "b-6", value: "6", suit: "clubs" })
+      const snapshot = cardGameMachine.resolveState({
+        value: "playerTurn",
+        context: {
+          ...base,
+          players: base.players.map((player, index) => ({
+            ...player,
+            hand: index === 1 ? [...player.hand, bobsSix] : player.hand,
+            isCurrentPlayer: index === 1,
+          })),
+          currentPlayerIndex: 1,
+          rules: { ...base.rules, turnDurationSeconds: 10, ...rules },
+          roundStartTime: new Date(0),
+        },
+      })
+      const timedActor = createActor(clockedMachine(clock), { snapshot, clock })
+      timedActor.start()
+      timedActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-2",
+        cards: [bobsSix],
+      })
+      clock.increment(500)
+      return timedActor
+    }
+
+    const aliceWithChoices = {
+      players: [
+        createMockPlayer({
+          id: "player-1",
+          name: "Alice",
+          hand: [
+            createMockCard({ id: "a-7", value: "7" }),
+            createMockCard({ id: "a-6", value: "6", suit: "spades" }),
+            createMockCard({ id: "a-K", value: "K" }),
+          ],
+          isCurrentPlayer: true,
+        }),
+        createMockPlayer({ id: "player-2", name: "Bob" }),
+      ],
+    }
+
+    it("counts the turn down", () => {
+      const clock = new SimulatedClock()
+      const timedActor = startTimedTurn(
+        clock,
+        { turnTimeoutPolicy: "auto-play" },
+        aliceWithChoices
+      )
+
+      for (let elapsed = 0; elapsed < 3000; elapsed += 250) {
+        clock.increment(250)
+      }
+
+      expect(timedActor.getSnapshot().value).toBe("playerTurn")
+      expect(timedActor.getSnapshot().context.turnTimer).toBe(7)
+      timedActor.stop()
+    })
+
+    it("starts every turn with a full shot clock", () => {
+      const clock = new SimulatedClock()
+      const timedActor = startTimedTurn(
+        clock,
+        { turnTimeoutPolicy: "auto-play" },
+        aliceWithChoices
+      )
+      clock.increment(4000)
+
+      timedActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [aliceWithChoices.players[0].hand[0]],
+      })
+      clock.increment(500)
+
+      const { context } = timedActor.getSnapshot()
+      expect(timedActor.getSnapshot().value).toBe("playerTurn")
+      expect(context.currentPlayerIndex).toBe(1)
+      expect(context.turnTimer).toBe(10)
+      expect(context.turnStartTime).toEqual(new Date(5000))
+      timedActor.stop()
+    })
+
+    it("auto-plays the lowest-point valid card when time runs out", () => {
+      const clock = new SimulatedClock()
+      const timedActor = startTimedTurn(
+        clock,
+        { turnTimeoutPolicy: "auto-play" },
+        aliceWithChoices
+      )
+
+      clock.increment(10_000)
+
+      const { context } = timedActor.getSnapshot()
+      expect(timedActor.getSnapshot().value).toBe("waitingForTurn")
+      expect(context.discardPile.at(-1)?.id).toBe("a-6")
+      expect(context.autoPlayNotifications.at(-1)).toMatchObject({
+        type: "timeout",
+        playerId: "player-1",
+        card: { id: "a-6" },
+      })
+      timedActor.stop()
+    })
+
+    it("skips a player with nothing to auto-play without forcing a draw", () => {
+      const clock = new SimulatedClock()
+      const timedActor = startTimedTurn(clock, {
+        turnTimeoutPolicy: "auto-play",
+      })
+
+      clock.increment(10_000)
+
+      const { context } = timedActor.getSnapshot()
+      expect(timedActor.getSnapshot().value).toBe("waitingForTurn")
+      expect(context.players[0].hand).toHaveLength(1)
+      expect(context.autoPlayNotifications.at(-1)).toMatchObject({
+        type: "timeout",
+        card: null,
+      })
+      timedActor.stop()
+    })
+
+    it("skips the turn under the auto-skip policy", () => {
+      const clock = new SimulatedClock()
+      const timedActor = startTimedTurn(
+        clock,
+        { turnTimeoutPolicy: "auto-skip" },
+        aliceWithChoices
+      )
+
+      clock.increment(10_000)
+
+      const { context } = timedActor.getSnapshot()
+      expect(timedActor.getSnapshot().value).toBe("waitingForTurn")
+      expect(context.players[0].hand).toHaveLength(3)
+      expect(context.penaltyPoints).toEqual({})
+      timedActor.stop()
+    })
+
+    it("adds a penalty to the round score under the penalty policy", () => {
+      const clock = new SimulatedClock()
+      const timedActor = startTimedTurn(
+        clock,
+        { turnTimeoutPolicy: "penalty" },
+        aliceWithChoices
+      )
+
+      clock.increment(10_000)
+      expect(timedActor.getSnapshot().context.penaltyPoints).toEqual({
+        "player-1": 5,
+      })
+
+      clock.increment(500)
+      timedActor.send({ type: "END_GAME" })
+
+      const [alice, bob] = timedActor.getSnapshot().context.finalScores
+      expect(alice).toMatchObject({
+        finalScore: 7 + 6 + 13 + 5,
+        penaltyPoints: 5,
+      })
+      expect(bob.penaltyPoints).toBeUndefined()
+      timedActor.stop()
+    })
+
+    it("never runs out without a shot clock", () => {
+      const clock = new SimulatedClock()
+      const untimedActor = startTimedTurn(
+        clock,
+        { turnDurationSeconds: null },
+        aliceWithChoices
+      )
+
+      clock.increment(60_000)
+
+      expect(untimedActor.getSnapshot().value).toBe("playerTurn")
+      expect(untimedActor.getSnapshot().context.turnTimer).toBe(0)
+      untimedActor.stop()
+    })
+
+    it("ignores a stray timeout when the table has no shot clock", () => {
+      const timeoutActor = startInState(
+        "playerTurn",
+        createStuckContext(aliceWithChoices)
+      )
+
+      timeoutActor.send({ type: "TURN_TIMEOUT" })
+
+      expect(timeoutActor.getSnapshot().value).toBe("playerTurn")
+      timeoutActor.stop()
+    })
+
+    it("falls back to a timeout when only a combination is playable", () => {
+      const context = createStuckContext({
+        players: [
+          createMockPlayer({
+            id: "player-1",
+            hand: createCards(["2", "4"]),
+            isCurrentPlayer: true,
+          }),
+          createMockPlayer({ id: "player-2" }),
+        ],
+      })
+
+      expect(decideTimeoutAction(context)).toEqual({ type: "TURN_TIMEOUT" })
+    })
+  })
+
+  describe("winners", () => {
+    // Alice and Bob both finish on 5 points; Alice holds more cards
+    const createTiedContext = (overrides?: Partial<GameContext>) =>
+      createStuckContext({
+        players: [
+          createMockPlayer({
+            id: "player-1",
+            name: "Alice",
+            hand: createCards(["2", "3"]),
+            isCurrentPlayer: true,
+          }),
+          createMockPlayer({
+            id: "player-2",
+            name: "Bob",
+            hand: [createMockCard({ id: "b-5", value: "5" })],
+          }),
+        ],
+        ...overrides,
+      })
+
+    it("breaks a tie for the lowest score with the table's tie-breakers", () => {
+      const tiedActor = startInState("playerTurn", createTiedContext())
+
+      tiedActor.send({ type: "END_GAME" })
+
+      const { context } = tiedActor.getSnapshot()
+      expect(context.winners.map((winner) => winner.playerName)).toEqual([
+        "Bob",
+      ])
+      expect(context.tieBreak).toEqual({
+        tiedPlayerIds: ["player-1", "player-2"],
+        decidedBy: "fewest-cards",
+      })
+      expect(context.roundHistory[0].winnerIds).toEqual(["player-2"])
+      tiedActor.stop()
+    })
+
+    it("shares the win when the table plays without tie-breakers", () => {
+      const context = createTiedContext()
+      const tiedActor = startInState("playerTurn", {
+        ...context,
+        rules: { ...context.rules, tieBreakers: [] },
+      })
+
+      tiedActor.send({ type: "END_GAME" })
+
+      const { winners, tieBreak, roundHistory } =
+        tiedActor.getSnapshot().context
+      expect(winners).toHaveLength(2)
+      expect(tieBreak?.decidedBy).toBeNull()
+      expect(roundHistory[0].winnerIds).toEqual(["player-1", "player-2"])
+      tiedActor.stop()
+    })
+
+    it("remembers who played last for the last-to-play tie-breaker", () => {
+      const context = createTiedContext()
+      const aliceSeven = createMockCard({ id: "a-7", value: "7" })
+      const playingActor = startInState("playerTurn", {
+        ...context,
+        players: context.players.map((player, index) =>
+          index === 0
+            ? { ...player, hand: [...player.hand, aliceSeven] }
+            : player
+        ),
+      })
+
+      playingActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [aliceSeven],
+      })
+      expect(playingActor.getSnapshot().context.lastPlayedBy).toBe("player-1")
+      playingActor.stop()
+
+      const tiedActor = startInState("playerTurn", {
+        ...context,
+        rules: { ...context.rules, tieBreakers: ["last-to-play"] },
+        lastPlayedBy: "player-1",
+      })
+      tiedActor.send({ type: "END_GAME" })
+
+      expect(tiedActor.getSnapshot().context.winners[0].playerName).toBe(
+        "Alice"
+      )
+      tiedActor.stop()
+    })
+  })
+
+  describe("undo", () => {
+    const aliceSeven = createMockCard({ id: "a-7", value: "7" })
+
+    // Alice holds a 7 and a King on the 6; Bob holds an 8
+    const startUndoableTurn = (
+      allowUndo: boolean,
+      clock = new SimulatedClock()
+    ) => {
+      const base = createStuckContext({
+        players: [
+          createMockPlayer({
+            id: "player-1",
+            name: "Alice",
+            hand: [aliceSeven, createMockCard({ id: "a-K", value: "K" })],
+            isCurrentPlayer: true,
+          }),
+          createMockPlayer({
+            id: "player-2",
+            name: "Bob",
+            hand: [createMockCard({ id: "b-8", value: "8" })],
+          }),
+        ],
+      })
+      const snapshot = cardGameMachine.resolveState({
+        value: "playerTurn",
+        context: { ...base, rules: { ...base.rules, allowUndo } },
+      })
+      const undoActor = createActor(clockedMachine(clock), { snapshot, clock })
+      undoActor.start()
+      undoActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [aliceSeven],
+      })
+      return undoActor
+    }
+
+    it("takes back a play and hands the turn back", () => {
+      const undoActor = startUndoableTurn(true)
+      expect(undoActor.getSnapshot().value).toBe("waitingForTurn")
+
+      undoActor.send({ type: "UNDO", playerId: "player-1" })
+
+      const { context } = undoActor.getSnapshot()
+      expect(undoActor.getSnapshot().value).toBe("playerTurn")
+      expect(context.currentPlayerIndex).toBe(0)
+      expect(context.players[0].hand.map((card) => card.id)).toEqual([
+        "a-7",
+        "a-K",
+      ])
+      expect(context.discardPile.at(-1)?.value).toBe("6")
+      expect(context.undoSnapshot).toBeNull()
+      expect(context.eventLog.at(-1)?.event).toEqual({
+        type: "UNDO",
+        playerId: "player-1",
+      })
+      expect(context.autoPlayNotifications.at(-1)).toMatchObject({
+        type: "undo",
+        playerName: "Alice",
+      })
+      undoActor.stop()
+    })
+
+    it("only undoes on tables that allow it", () => {
+      const undoActor = startUndoableTurn(false)
+
+      undoActor.send({ type: "UNDO", playerId: "player-1" })
+
+      expect(undoActor.getSnapshot().value).toBe("waitingForTurn")
+      expect(undoActor.getSnapshot().context.undoSnapshot).toBeNull()
+      undoActor.stop()
+    })
+
+    it("lets only the player who made the play take it back", () => {
+      const clock = new SimulatedClock()
+      const undoActor = startUndoableTurn(true, clock)
+      clock.increment(500)
+      expect(undoActor.getSnapshot().context.currentPlayerIndex).toBe(1)
+
+      undoActor.send({ type: "UNDO", playerId: "player-2" })
+      expect(undoActor.getSnapshot().context.currentPlayerIndex).toBe(1)
+
+      undoActor.send({ type: "UNDO", playerId: "player-1" })
+      expect(undoActor.getSnapshot().context.currentPlayerIndex).toBe(0)
+      undoActor.stop()
+    })
+
+    it("closes once the next player acts", () => {
+      const clock = new SimulatedClock()
+      const undoActor = startUndoableTurn(true, clock)
+      clock.increment(500)
+
+      undoActor.send({
+        type: "CARD_SELECTED",
+        playerId: "player-2",
+        cardId: "b-8",
+      })
+      undoActor.send({ type: "UNDO", playerId: "player-1" })
+
+      const { context } = undoActor.getSnapshot()
+      expect(context.currentPlayerIndex).toBe(1)
+      expect(context.players[0].hand).toHaveLength(1)
+      undoActor.stop()
+    })
+  })
+
+  describe("hints", () => {
+    it("counts the hints the current player asks for", () => {
+      const hintActor = startInState("playerTurn", createStuckContext())
+
+      hintActor.send({ type: "REQUEST_HINT", playerId: "player-1" })
+      hintActor.send({ type: "REQUEST_HINT", playerId: "player-1" })
+      // Only the player whose turn it is gets a hint
+      hintActor.send({ type: "REQUEST_HINT", playerId: "player-2" })
+
+      const { context, value } = hintActor.getSnapshot()
+      expect(value).toBe("playerTurn")
+      expect(context.hintsUsed).toEqual({ "player-1": 2 })
+      expect(context.eventLog.at(-1)?.event).toEqual({
+        type: "REQUEST_HINT",
+        playerId: "player-1",
+      })
+      hintActor.stop()
+    })
+
+    it("shows the hints used in the round scores", () => {
+      const hintActor = startInState("playerTurn", createStuckContext())
+
+      hintActor.send({ type: "REQUEST_HINT", playerId: "player-1" })
+      hintActor.send({ type: "END_GAME" })
+
+      const { finalScores } = hintActor.getSnapshot().context
+      expect(finalScores.find((s) => s.playerId === "player-1")).toMatchObject({
+        hintsUsed: 1,
+      })
+      expect(
+        finalScores.find((s) => s.playerId === "player-2")
+      ).not.toHaveProperty("hintsUsed")
+      hintActor.stop()
+    })
+  })
+
+  describe("power cards", () => {
+    // Alice, Bob and Carol each hold a pair of `value`s, and Alice is to play
+    // one on the card below it at a table with power cards. `table` replaces
+    // the piles, e.g. to run the deck dry.
+    const startPowerTurn = (
+      value: "J" | "8" | "2",
+      below: "10" | "7" | "A",
+      rules: Partial<GameRules> = {},
+      clock = new SimulatedClock(),
+      table: Partial<GameContext> = {}
+    ) => {
+      const [alice, bob, carol] = ["Alice", "Bob", "Carol"].map((name, index) =>
+        createMockPlayer({
+          id: `player-${index + 1}`,
+          name,
+          hand: [
+            createMockCard({ id: `${name}-1`, value }),
+            createMockCard({ id: `${name}-2`, value, suit: "spades" }),
+          ],
+          isCurrentPlayer: index === 0,
+        })
+      )
+      const base = createStuckContext({
+        players: [alice, bob, carol],
+        discardPile: [createMockCard({ id: "top", value: below })],
+        deck: createCards(["3", "4", "5"]),
+        ...table,
+      })
+      const snapshot = cardGameMachine.resolveState({
+        value: "playerTurn",
+        context: {
+          ...base,
+          rules: {
+            ...base.rules,
+            forcedDrawBeforeSkip: false,
+            powerCards: true,
+            ...rules,
+          },
+        },
+      })
+      const powerActor = createActor(clockedMachine(clock), { snapshot, clock })
+      powerActor.start()
+      powerActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [alice.hand[0]],
+      })
+      return powerActor
+    }
+
+    it("skips the next player after a Jack", () => {
+      const powerActor = startPowerTurn("J", "10")
+
+      const { context } = powerActor.getSnapshot()
+      expect(context.currentPlayerIndex).toBe(2)
+      expect(context.powerEffect).toMatchObject({
+        type: "skip",
+        playerName: "Alice",
+        targetName: "Bob",
+      })
+      powerActor.stop()
+    })
+
+    it("reverses the turn order after an 8 until it is reversed again", () => {
+      const clock = new SimulatedClock()
+      const powerActor = startPowerTurn("8", "7", {}, clock)
+
+      expect(powerActor.getSnapshot().context).toMatchObject({
+        currentPlayerIndex: 2,
+        turnDirection: -1,
+        powerEffect: { type: "reverse", targetName: null },
+      })
+
+      clock.increment(500)
+      const carol = powerActor.getSnapshot().context.players[2]
+      powerActor.send({
+        type: "PLAY_CARDS",
+        playerId: carol.id,
+        cards: [carol.hand[0]],
+      })
+
+      // Carol's 8 turns play back the other way, on to Alice
+      expect(powerActor.getSnapshot().context).toMatchObject({
+        currentPlayerIndex: 0,
+        turnDirection: 1,
+      })
+      powerActor.stop()
+    })
+
+    it("makes the next player draw two from the deck after a 2", () => {
+      const powerActor = startPowerTurn("2", "A")
+
+      const { context } = powerActor.getSnapshot()
+      expect(context.currentPlayerIndex).toBe(1)
+      expect(context.players[1].hand).toHaveLength(4)
+      expect(context.deck).toHaveLength(1)
+      expect(context.powerEffect).toMatchObject({
+        type: "draw-two",
+        targetName: "Bob",
+        cardsDrawn: 2,
+      })
+      powerActor.stop()
+    })
+
+    it("leaves the card on top alone when the next player skips", () => {
+      const clock = new SimulatedClock()
+      const powerActor = startPowerTurn("J", "10", {}, clock)
+
+      clock.increment(500)
+      powerActor.send({ type: "SKIP_TURN" })
+
+      // The Jack is still on top, but Carol's skip passes to Alice
+      const { context } = powerActor.getSnapshot()
+      expect(context.currentPlayerIndex).toBe(0)
+      expect(context.powerEffect).toBeNull()
+      powerActor.stop()
+    })
+
+    it("plays the cards as ordinary cards when the rule is off", () => {
+      const powerActor = startPowerTurn("2", "A", { powerCards: false })
+
+      const { context } = powerActor.getSnapshot()
+      expect(context.currentPlayerIndex).toBe(1)
+      expect(context.players[1].hand).toHaveLength(2)
+      expect(context.powerEffect).toBeNull()
+      powerActor.stop()
+    })
+
+    it("undoes a reverse along with the play", () => {
+      const powerActor = startPowerTurn("8", "7", { allowUndo: true })
+      powerActor.send({ type: "UNDO", playerId: "player-1" })
+
+      expect(powerActor.getSnapshot().context).toMatchObject({
+        currentPlayerIndex: 0,
+        turnDirection: 1,
+        powerEffect: null,
+      })
+      powerActor.stop()
+    })
+
+    it("undoes a draw-two that reshuffled the discard pile", () => {
+      const discardPile = [
+        createMockCard({ id: "d-3", value: "3" }),
+        createMockCard({ id: "d-9", value: "9" }),
+        createMockCard({ id: "top", value: "A" }),
+      ]
+      const powerActor = startPowerTurn(
+        "2",
+        "A",
+        { allowUndo: true },
+        new SimulatedClock(),
+        { deck: [], discardPile }
+      )
+      expect(powerActor.getSnapshot().context.reshuffleCount).toBe(1)
+
+      powerActor.send({ type: "UNDO", playerId: "player-1" })
+
+      const { context } = powerActor.getSnapshot()
+      expect(context.reshuffleCount).toBe(0)
+      expect(context.deck).toEqual([])
+      expect(context.discardPile).toEqual(discardPile)
+      expect(context.players[1].hand).toHaveLength(2)
+      powerActor.stop()
+    })
+  })
+
+  describe("pausing", () => {
+    // Two players dealt in at 1000ms on a simulated clock, with a 10 second
+    // shot clock
+    const startPausableGame = (clock: SimulatedClock) => {
+      const pausableActor = createActor(clockedMachine(clock), { clock })
+      pausableActor.start()
+      pausableActor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-1",
+        playerName: "Alice",
+      })
+      pausableActor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-2",
+        playerName: "Bob",
+      })
+      pausableActor.send({
+        type: "SET_RULES",
+        rules: {
+          ...pausableActor.getSnapshot().context.rules,
+          turnDurationSeconds: 10,
+        },
+      })
+      pausableActor.send({ type: "START_GAME", seed: 7 })
+      clock.increment(1000)
+      return pausableActor
+    }
+
+    it("stops both clocks while paused", () => {
+      const clock = new SimulatedClock()
+      const pausableActor = startPausableGame(clock)
+      const duration =
+        pausableActor.getSnapshot().context.rules.roundDurationSeconds
+      clock.increment(2000)
+
+      pausableActor.send({ type: "PAUSE" })
+      clock.increment(30_000)
+
+      const { context } = pausableActor.getSnapshot()
+      expect(pausableActor.getSnapshot().value).toBe("paused")
+      expect(context.pausedFrom).toBe("playerTurn")
+      expect(context.pausedAt).toEqual(new Date(3000))
+      expect(context.gameTimer).toBe(duration - 2)
+      expect(context.turnTimer).toBe(8)
+      pausableActor.stop()
+    })
+
+    it("picks up the same turn without counting the pause", () => {
+      const clock = new SimulatedClock()
+      const pausableActor = startPausableGame(clock)
+      const { rules, players } = pausableActor.getSnapshot().context
+      pausableActor.send({
+        type: "CARD_SELECTED",
+        playerId: "player-1",
+        cardId: players[0].hand[0].id,
+      })
+      clock.increment(2000)
+      pausableActor.send({ type: "PAUSE" })
+      clock.increment(30_000)
+
+      pausableActor.send({ type: "RESUME" })
+      clock.increment(1000)
+
+      const { context } = pausableActor.getSnapshot()
+      expect(pausableActor.getSnapshot().value).toBe("playerTurn")
+      expect(context.currentPlayerIndex).toBe(0)
+      expect(context.selectedCards).toEqual([players[0].hand[0]])
+      expect(context.gameTimer).toBe(rules.roundDurationSeconds - 3)
+      expect(context.turnTimer).toBe(7)
+      expect(context.pausedFrom).toBeNull()
+      expect(context.pausedAt).toBeNull()
+      pausableActor.stop()
+    })
+
+    it("ignores card events while paused", () => {
+      const clock = new SimulatedClock()
+      const pausableActor = startPausableGame(clock)
+      pausableActor.send({ type: "PAUSE" })
+      const paused = pausableActor.getSnapshot()
+
+      pausableActor.send({ type: "DRAW_CARD", playerId: "player-1" })
+      pausableActor.send({
+        type: "CARD_SELECTED",
+        playerId: "player-1",
+        cardId: paused.context.players[0].hand[0].id,
+      })
+      pausableActor.send({ type: "END_GAME" })
+
+      expect(pausableActor.getSnapshot()).toBe(paused)
+      pausableActor.stop()
+    })
+
+    it("hands over to the next player once when paused between turns", () => {
+      const waitingActor = startInState(
+        "waitingForTurn",
+        createMockGameContext({ currentPlayerIndex: 1 })
+      )
+
+      waitingActor.send({ type: "PAUSE" })
+      expect(waitingActor.getSnapshot().value).toBe("paused")
+      expect(waitingActor.getSnapshot().context.pausedFrom).toBe(
+        "waitingForTurn"
+      )
+
+      waitingActor.send({ type: "RESUME" })
+
+      const { context } = waitingActor.getSnapshot()
+      expect(waitingActor.getSnapshot().value).toBe("playerTurn")
+      expect(context.currentPlayerIndex).toBe(1)
+      expect(context.pausedFrom).toBeNull()
+      waitingActor.stop()
+    })
+
+    it("only pauses a game in progress", () => {
+      actor.send({ type: "PAUSE" })
+
+      expect(actor.getSnapshot().value).toBe("lobby")
+    })
+  })
+
+  describe("jokers", () => {
+    const joker = createMockCard({
+      id: "joker-1",
+      suit: "joker",
+      value: "Joker",
+    })
+
+    // Alice holds a joker and a King on the 6
+    const createJokerContext = () =>
+      createStuckContext({
+        players: [
+          createMockPlayer({
+            id: "player-1",
+            name: "Alice",
+            hand: [joker, createMockCard({ id: "a-K", value: "K" })],
+            isCurrentPlayer: true,
+          }),
+          createMockPlayer({
+            id: "player-2",
+            name: "Bob",
+            hand: [createMockCard({ id: "b-7", value: "7" })],
+          }),
+        ],
+      })
+
+    it("plays a selected joker as the value it was declared", () => {
+      const jokerActor = startInState("playerTurn", createJokerContext())
+
+      jokerActor.send({
+        type: "CARD_SELECTED",
+        cardId: "joker-1",
+        playerId: "player-1",
+      })
+      jokerActor.send({
+        type: "DECLARE_JOKER",
+        cardId: "joker-1",
+        value: "7",
+        playerId: "player-1",
+      })
+      jokerActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: jokerActor.getSnapshot().context.selectedCards,
+      })
+
+      const { context } = jokerActor.getSnapshot()
+      expect(context.discardPile.at(-1)).toMatchObject({
+        id: "joker-1",
+        declaredValue: "7",
+      })
+      expect(context.currentPlayerIndex).toBe(1)
+      jokerActor.stop()
+    })
+
+    it("rejects a declaration the top card does not allow", () => {
+      const jokerActor = startInState("playerTurn", createJokerContext())
+
+      jokerActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [{ ...joker, declaredValue: "K" }],
+      })
+
+      expect(jokerActor.getSnapshot().value).toBe("playerTurn")
+      jokerActor.stop()
+    })
+
+    it("declares an undeclared joker as the first value that fits", () => {
+      const jokerActor = startInState("playerTurn", createJokerContext())
+
+      jokerActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [joker],
+      })
+
+      expect(
+        jokerActor.getSnapshot().context.discardPile.at(-1)?.declaredValue
+      ).toBe("6")
+      jokerActor.stop()
+    })
+
+    it("only lets the current player deselect", () => {
+      const jokerActor = startInState("playerTurn", createJokerContext())
+
+      jokerActor.send({
+        type: "CARD_SELECTED",
+        cardId: "joker-1",
+        playerId: "player-1",
+      })
+      jokerActor.send({
+        type: "CARD_DESELECTED",
+        cardId: "joker-1",
+        playerId: "player-2",
+      })
+
+      expect(jokerActor.getSnapshot().context.selectedCards).toEqual([joker])
+      jokerActor.stop()
+    })
+
+    it("only lets jokers be declared", () => {
+      const jokerActor = startInState("playerTurn", createJokerContext())
+      const king = createMockCard({ id: "a-K", value: "K" })
+
+      jokerActor.send({
+        type: "CARD_SELECTED",
+        cardId: "a-K",
+        playerId: "player-1",
+      })
+      jokerActor.send({
+        type: "DECLARE_JOKER",
+        cardId: "a-K",
+        value: "7",
+        playerId: "player-1",
+      })
+      jokerActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [{ ...king, declaredValue: "7" }],
+      })
+
+      const { context, value } = jokerActor.getSnapshot()
+      expect(context.selectedCards[0].declaredValue).toBeUndefined()
+      expect(value).toBe("playerTurn")
+      jokerActor.stop()
+    })
+
+    it("only lets a joker be declared as a real card value", () => {
+      const jokerActor = startInState("playerTurn", createJokerContext())
+
+      jokerActor.send({
+        type: "CARD_SELECTED",
+        cardId: "joker-1",
+        playerId: "player-1",
+      })
+      jokerActor.send({
+        type: "DECLARE_JOKER",
+        cardId: "joker-1",
+        value: "Z" as CardValue,
+        playerId: "player-1",
+      })
+      jokerActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [{ ...joker, declaredValue: "Z" as CardValue }],
+      })
+
+      const { context, value } = jokerActor.getSnapshot()
+      expect(context.selectedCards[0].declaredValue).toBeUndefined()
+      expect(context.discardPile.at(-1)?.id).not.toBe("joker-1")
+      expect(value).toBe("playerTurn")
+      jokerActor.stop()
+    })
+  })
+
+  describe("teams", () => {
+    const names = ["Alice", "Bob", "Carol", "Dave"]
+
+    it("only starts team play with all four seats filled", () => {
+      actor.send({ type: "SET_RULES", rules: { teamPlay: true } })
+      names.slice(0, 3).forEach((name, index) =>
+        actor.send({
+          type: "PLAYER_JOIN",
+          playerId: `player-${index + 1}`,
+          playerName: name,
+        })
+      )
+
+      actor.send({ type: "START_GAME" })
+      expect(actor.getSnapshot().value).toBe("lobby")
+
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-4",
+        playerName: "Dave",
+      })
+      actor.send({ type: "START_GAME" })
+      expect(actor.getSnapshot().value).toBe("gameStarting")
+    })
+
+    it("adds up each team's scores when the round ends", () => {
+      const context = createMockGameContext({
+        players: names.map((name, index) =>
+          createMockPlayer({
+            id: `player-${index + 1}`,
+            name,
+            hand: [createMockCard({ id: `${name}-card`, value: "2" })],
+            isCurrentPlayer: index === 0,
+          })
+        ),
+      })
+      context.players[1].hand = [createMockCard({ id: "b-K", value: "K" })]
+      const teamActor = startInState("playerTurn", {
+        ...context,
+        rules: { ...context.rules, teamPlay: true },
+      })
+
+      teamActor.send({ type: "END_GAME" })
+
+      const { teamScores, winners } = teamActor.getSnapshot().context
+      expect(
+        teamScores.map(({ teamNumber, finalScore }) => [teamNumber, finalScore])
+      ).toEqual([
+        [1, 4],
+        [2, 15],
+      ])
+      expect(teamScores[0].playerNames).toEqual(["Alice", "Carol"])
+      // Players are still ranked on their own as well
+      expect(winners).toHaveLength(3)
+      teamActor.stop()
+    })
+
+    it("leaves team scores empty when everyone plays for themselves", () => {
+      const soloActor = startInState("playerTurn", createStuckContext())
+
+      soloActor.send({ type: "END_GAME" })
+
+      expect(soloActor.getSnapshot().context.teamScores).toEqual([])
+      soloActor.stop()
+    })
+  })
+
+  describe("interrupts", () => {
+    // Alice is to play on the 6 of clubs, unless given another top card; Bob
+    // and Carol each hold a 6 they could slam, and Dave holds a 7 unless
+    // given another hand
+    const startInterruptTable = ({
+      rules = { interrupts: true },
+      clock = new SimulatedClock(),
+      daveHand = [createMockCard({ id: "d-7", value: "7" })],
+      top = createMockCard({ id: "discard-1", value: "6", suit: "clubs" }),
+    }: {
+      rules?: Partial<GameRules>
+      clock?: SimulatedClock
+      daveHand?: Card[]
+      top?: Card
+    } = {}) => {
+      const hands = {
+        Alice: [createMockCard({ id: "a-2", value: "2" })],
+        Bob: [
+          createMockCard({ id: "b-6", value: "6", suit: "spades" }),
+          createMockCard({ id: "b-K", value: "K" }),
+        ],
+        Carol: [
+          createMockCard({ id: "c-6", value: "6", suit: "hearts" }),
+          createMockCard({ id: "c-Q", value: "Q" }),
+        ],
+        Dave: daveHand,
+      }
+      const base = createStuckContext({
+        players: Object.entries(hands).map(([name, hand], index) =>
+          createMockPlayer({
+            id: `player-${index + 1}`,
+            name,
+            hand,
+            isCurrentPlayer: index === 0,
+          })
+        ),
+        discardPile: [top],
+      })
+      const snapshot = cardGameMachine.resolveState({
+        value: "playerTurn",
+        context: { ...base, rules: { ...base.rules, ...rules } },
+      })
+      const interruptActor = createActor(clockedMachine(clock), {
+        snapshot,
+        clock,
+      })
+      interruptActor.start()
+      return interruptActor
+    }
+
+    const slam = (playerId: string, id: string) => ({
+      type: "INTERRUPT" as const,
+      playerId,
+      card: createMockCard({ id, value: "6" }),
+    })
+
+    it("lands a slam after the window and passes the turn on from it", () => {
+      const clock = new SimulatedClock()
+      const interruptActor = startInterruptTable({ clock })
+
+      interruptActor.send(slam("player-3", "c-6"))
+
+      expect(interruptActor.getSnapshot().value).toBe("interrupting")
+      expect(
+        interruptActor.getSnapshot().context.pendingInterrupt
+      ).toMatchObject({ playerId: "player-3", contenderIds: [] })
+
+      clock.increment(INTERRUPT_WINDOW_MS)
+
+      const { value, context } = interruptActor.getSnapshot()
+      expect(value).toBe("waitingForTurn")
+      expect(context.discardPile.at(-1)?.id).toBe("c-6")
+      expect(context.players[2].hand.map((card) => card.id)).toEqual(["c-Q"])
+      expect(context.currentPlayerIndex).toBe(3)
+      expect(context.lastPlayedBy).toBe("player-3")
+      expect(context.pendingInterrupt).toBeNull()
+      expect(context.autoPlayNotifications.at(-1)).toMatchObject({
+        type: "interrupt",
+        playerName: "Carol",
+      })
+      interruptActor.stop()
+    })
+
+    it("gives a contended slam to the first claim", () => {
+      const clock = new SimulatedClock()
+      const interruptActor = startInterruptTable({ clock })
+
+      interruptActor.send(slam("player-3", "c-6"))
+      interruptActor.send(slam("player-2", "b-6"))
+      interruptActor.send(slam("player-2", "b-6"))
+
+      expect(
+        interruptActor.getSnapshot().context.pendingInterrupt?.contenderIds
+      ).toEqual(["player-2"])
+
+      clock.increment(INTERRUPT_WINDOW_MS)
+
+      const { context } = interruptActor.getSnapshot()
+      expect(context.discardPile.at(-1)?.id).toBe("c-6")
+      expect(context.players[1].hand).toHaveLength(2)
+      interruptActor.stop()
+    })
+
+    it("only takes exact matches from players waiting their turn", () => {
+      const offActor = startInterruptTable({ rules: { interrupts: false } })
+      offActor.send(slam("player-3", "c-6"))
+      expect(offActor.getSnapshot().value).toBe("playerTurn")
+      offActor.stop()
+
+      const interruptActor = startInterruptTable()
+      // Alice is the one to move, Bob's King is no 6 and Dave's 7 follows
+      // the 6 but does not match it
+      interruptActor.send(slam("player-1", "a-2"))
+      interruptActor.send(slam("player-2", "b-K"))
+      interruptActor.send(slam("player-4", "d-7"))
+
+      expect(interruptActor.getSnapshot().value).toBe("playerTurn")
+      interruptActor.stop()
+    })
+
+    it("ends the round when a slam empties the hand", () => {
+      const clock = new SimulatedClock()
+      const interruptActor = startInterruptTable({
+        clock,
+        daveHand: [createMockCard({ id: "d-6", value: "6" })],
+      })
+
+      interruptActor.send(slam("player-4", "d-6"))
+      clock.increment(INTERRUPT_WINDOW_MS)
+
+      const { value, context } = interruptActor.getSnapshot()
+      expect(value).toBe("gameEnding")
+      expect(context.gameEndReason).toBe("player_won")
+      expect(context.winners[0].playerName).toBe("Dave")
+      interruptActor.stop()
+    })
+
+    it("applies the power of a slammed power card", () => {
+      const clock = new SimulatedClock()
+      const interruptActor = startInterruptTable({
+        rules: { interrupts: true, powerCards: true },
+        clock,
+        daveHand: [
+          createMockCard({ id: "d-J", value: "J", suit: "hearts" }),
+          createMockCard({ id: "d-7", value: "7" }),
+        ],
+        top: createMockCard({ id: "top-J", value: "J" }),
+      })
+
+      interruptActor.send({
+        type: "INTERRUPT",
+        playerId: "player-4",
+        card: createMockCard({ id: "d-J", value: "J", suit: "hearts" }),
+      })
+      clock.increment(INTERRUPT_WINDOW_MS)
+
+      // Play carries on from Dave, and his Jack skips Alice
+      const { context } = interruptActor.getSnapshot()
+      expect(context.currentPlayerIndex).toBe(1)
+      expect(context.powerEffect).toMatchObject({
+        type: "skip",
+        playerName: "Dave",
+        targetName: "Alice",
+      })
+      expect(context.pendingInterrupt).toBeNull()
+      interruptActor.stop()
+    })
+  })
+
+  describe("combination plays", () => {
+    it("does not pass over a player whose only play is a combination", () => {
+      const context = createMockGameContext({
+        players: [
+          createMockPlayer({
+            id: "player-1",
+            hand: createCards(["7", "9"]),
+            isCurrentPlayer: true,
+          }),
+          createMockPlayer({
+            id: "player-2",
+            hand: [
+              createMockCard({ id: "b-3", value: "3" }),
+              createMockCard({ id: "b-4", value: "4" }),
+            ],
+          }),
+          createMockPlayer({
+            id: "player-3",
+            hand: [createMockCard({ id: "c-8", value: "8" })],
+          }),
+        ],
+        deck: [],
+        discardPile: [createMockCard({ id: "top", value: "6" })],
+      })
+      const comboActor = startInState("playerTurn", context)
+
+      comboActor.send({
+        type: "PLAY_CARDS",
+        playerId: "player-1",
+        cards: [context.players[0].hand[0]],
+      })
+
+      // 3+4 on the new 7 is legal even though neither card is on its own
+      expect(comboActor.getSnapshot().context.currentPlayerIndex).toBe(1)
+      comboActor.stop()
+    })
+
+    it("does not let a player holding a combination draw", () => {
+      const context = createStuckContext()
+      context.players[0].hand = [
+        createMockCard({ id: "a-2", value: "2" }),
+        createMockCard({ id: "a-4", value: "4" }),
+      ]
+      const drawActor = startInState("playerTurn", context)
+
+      drawActor.send({ type: "DRAW_CARD", playerId: "player-1" })
+
+      expect(drawActor.getSnapshot().context.players[0].hand).toHaveLength(2)
+      drawActor.stop()
+    })
+  })
+
+  describe("bots", () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("joins bots with their strategy", () => {
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "bot-1",
+        playerName: "Greedy Bot",
+        kind: "bot",
+        botStrategy: "greedy",
+      })
+
+      const [bot] = actor.getSnapshot().context.players
+      expect(bot.kind).toBe("bot")
+      expect(bot.botStrategy).toBe("greedy")
+    })
+
+    it("defaults joining players to humans", () => {
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "player-1",
+        playerName: "Alice",
+      })
+
+      expect(actor.getSnapshot().context.players[0].kind).toBe("human")
+    })
+
+    it("makes no decision for human players", () => {
+      expect(decideBotAction(createStuckContext())).toBeNull()
+    })
+
+    it("only shows a strategy what the bot's seat can see", () => {
+      const decide = vi.spyOn(greedyBot, "decide")
+      const base = createStuckContext()
+      decideBotAction({
+        ...base,
+        players: [
+          { ...base.players[0], kind: "bot", botStrategy: "greedy" },
+          base.players[1],
+        ],
+        rules: { ...base.rules, forcedDrawBeforeSkip: false },
+        seed: 42,
+      })
+
+      const [view] = decide.mock.calls[0]
+      expect(view.players[0].hand).toHaveLength(1)
+      expect(view.players[1]).toMatchObject({ hand: [], handHidden: true })
+      expect(view).not.toHaveProperty("deck")
+      expect(view.seed).toBeNull()
+      decide.mockRestore()
+    })
+
+    // Bob (human) plays his 6, handing the turn to Alice the bot. Going
+    // through a real transition makes the machine invoke the bot driver.
+    const startBotTurn = (overrides: Partial<GameContext>) => {
+      const base = createStuckContext()
+      const context = createStuckContext({
+        players: [
+          { ...base.players[0], kind: "bot", botStrategy: "greedy" },
+          {
+            ...base.players[1],
+            hand: [
+              createMockCard({ id: "b-6", value: "6", suit: "spades" }),
+              createMockCard({ id: "b-K", value: "K" }),
+            ],
+            isCurrentPlayer: true,
+          },
+        ],
+        currentPlayerIndex: 1,
+        // Start the round now so the round clock leaves it running
+        roundStartTime: new Date(),
+        ...overrides,
+      })
+      const botActor = startInState("playerTurn", context)
+      botActor.send({
+        type: "PLAY_CARDS",
+        cards: [context.players[1].hand[0]],
+        playerId: "player-2",
+      })
+      vi.advanceTimersByTime(500)
+      expect(botActor.getSnapshot().context.currentPlayerIndex).toBe(0)
+      return botActor
+    }
+
+    it("plays a bot turn through the normal PLAY_CARDS guards", () => {
+      const base = createStuckContext()
+      const botActor = startBotTurn({
+        players: [
+          {
+            ...base.players[0],
+            kind: "bot",
+            botStrategy: "greedy",
+            hand: [
+              createMockCard({ id: "a-6", value: "6" }),
+              createMockCard({ id: "a-7", value: "7" }),
+              createMockCard({ id: "a-2", value: "2" }),
+            ],
+          },
+          {
+            ...base.players[1],
+            hand: [
+              createMockCard({ id: "b-6", value: "6", suit: "spades" }),
+              createMockCard({ id: "b-K", value: "K" }),
+            ],
+            isCurrentPlayer: true,
+          },
+        ],
+      })
+
+      vi.advanceTimersByTime(BOT_TURN_DELAY)
+
+      const snapshot = botActor.getSnapshot()
+      expect(snapshot.value).toBe("waitingForTurn")
+      // Greedy dumps both the 6 and the 7 rather than a single card
+      expect(snapshot.context.players[0].hand.map((c) => c.id)).toEqual(["a-2"])
+      botActor.stop()
+    })
+
+    it("draws and then skips when a bot is stuck", () => {
+      const botActor = startBotTurn({
+        deck: [createMockCard({ id: "deck-3", value: "3" })],
+      })
+
+      vi.advanceTimersByTime(BOT_TURN_DELAY)
+      expect(botActor.getSnapshot().context.hasDrawnThisTurn).toBe(true)
+
+      vi.advanceTimersByTime(BOT_TURN_DELAY)
+      const snapshot = botActor.getSnapshot()
+      expect(snapshot.value).toBe("waitingForTurn")
+      expect(snapshot.context.players[0].hand).toHaveLength(2)
+      botActor.stop()
+    })
+
+    it("plays an all-bot game to completion", () => {
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "bot-1",
+        playerName: "Random",
+        kind: "bot",
+        botStrategy: "random",
+      })
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "bot-2",
+        playerName: "Greedy",
+        kind: "bot",
+        botStrategy: "greedy",
+      })
+      actor.send({
+        type: "PLAYER_JOIN",
+        playerId: "bot-3",
+        playerName: "Lookahead",
+        kind: "bot",
+        botStrategy: "lookahead",
+      })
+      actor.send({ type: "START_GAME", seed: 99 })
+
+      for (let step = 0; step < 2000; step++) {
+        if (actor.getSnapshot().value === "gameOver") break
+        vi.advanceTimersByTime(500)
+      }
+
+      const snapshot = actor.getSnapshot()
+      expect(snapshot.value).toBe("gameOver")
+      expect(snapshot.context.finalScores).toHaveLength(3)
+    })
+  })
 })
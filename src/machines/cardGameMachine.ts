@@ -6,25 +6,280 @@
  *
  */
 
-import { createMachine, assign } from "xstate"
-import type { GameContext, Player, PlayerScore, Card } from "../types/game"
+import {
+  createMachine,
+  assign,
+  fromCallback,
+  raise,
+  type AnyEventObject,
+  type ProvidedActor,
+} from "xstate"
+import type {
+  AutoPlayNotification,
+  GameContext,
+  GameEvent,
+  InternalGameEvent,
+  Player,
+  PlayerScore,
+  Card,
+} from "../types/game"
 import {
   createDeck,
   dealCards,
-  getValidCards,
-  calculateHandScore,
+  arrangePlay,
   canPlayCards,
+  canDrawCard,
+  drawCard,
+  getValidCards,
+  hasLegalPlay,
+  isDeclarableValue,
+  isJoker,
 } from "../utils/cardUtils"
+import { createSeededRandom, generateSeed } from "../utils/random"
+import { DRAW_TWO_COUNT, getPowerEffectType } from "../utils/powerCards"
+import { canInterrupt, INTERRUPT_WINDOW_MS } from "../utils/interrupts"
+import { botStrategies } from "../utils/botStrategies"
+import {
+  areGameRulesValid,
+  defaultGameRules,
+  TIMEOUT_PENALTY_POINTS,
+} from "../utils/gameRules"
+import {
+  addRoundToTotals,
+  areMatchSettingsValid,
+  defaultMatchSettings,
+  getFirstPlayerIndex,
+  isMatchComplete,
+} from "../utils/matchUtils"
+import { scoreHand } from "../utils/scoringSystems"
+import { getTeamScores, isTeamTableReady } from "../utils/teams"
+import { resolveWinners } from "../utils/tieBreakers"
+import { canUndo, takeUndoSnapshot } from "../utils/undoUtils"
+import { projectContextForPlayer } from "../utils/viewUtils"
 import { v4 as uuidv4 } from "uuid"
 
+// How long a bot "thinks" before acting, so humans can follow along
+export const BOT_TURN_DELAY = 800
+
+// Helper function to check if a player is stuck with no legal play, counting
+// multi-card combinations as well as single cards
+const hasNoValidCards = (context: GameContext, player: Player): boolean => {
+  const topDiscardCard = context.discardPile[context.discardPile.length - 1]
+  if (!topDiscardCard) return false
+
+  return !hasLegalPlay(player.hand, topDiscardCard, context.rules)
+}
+
+// Helper function to check if a player can still act, either by playing a
+// card or (under the forced-draw rule) by drawing one
+const canPlayerAct = (context: GameContext, player: Player): boolean => {
+  if (!hasNoValidCards(context, player)) return true
+
+  return (
+    context.rules.forcedDrawBeforeSkip &&
+    canDrawCard(context.deck, context.discardPile)
+  )
+}
+
+// Helper function to check if the current player may draw a card this turn
+const canCurrentPlayerDraw = (context: GameContext): boolean => {
+  const currentPlayer = context.players[context.currentPlayerIndex]
+  if (!currentPlayer) return false
+
+  return (
+    !context.hasDrawnThisTurn &&
+    hasNoValidCards(context, currentPlayer) &&
+    canDrawCard(context.deck, context.discardPile)
+  )
+}
+
+// Work out the event a bot sends for the current turn, or null if the
+// current player is not a bot
+export const decideBotAction = (context: GameContext): GameEvent | null => {
+  const currentPlayer = context.players[context.currentPlayerIndex]
+  if (!currentPlayer || currentPlayer.kind !== "bot") return null
+
+  // Stuck bots draw first whenever the table's rules let them
+  if (context.rules.forcedDrawBeforeSkip && canCurrentPlayerDraw(context)) {
+    return { type: "DRAW_CARD", playerId: currentPlayer.id }
+  }
+
+  const strategy = botStrategies[currentPlayer.botStrategy ?? "random"]
+  // Seed bot randomness from the game so bot games replay exactly
+  const random = createSeededRandom(
+    (context.seed ?? 0) +
+      context.discardPile.length * 31 +
+      context.currentPlayerIndex
+  )
+  const decision = strategy.decide(
+    projectContextForPlayer(context, currentPlayer.id),
+    currentPlayer.id,
+    random
+  )
+
+  return decision.type === "PLAY_CARDS"
+    ? { type: "PLAY_CARDS", cards: decision.cards, playerId: currentPlayer.id }
+    : decision
+}
+
+// Prompts the bot whose turn it is with BOT_TURN; the machine answers with
+// the bot's decision, which goes through the same guards as a human's play.
+// A draw keeps the turn open, so the bot is prompted again until it is over.
+const botTurn = fromCallback<InternalGameEvent, { isBotTurn: boolean }>(
+  ({ sendBack, input }) => {
+    if (!input.isBotTurn) return
+
+    const interval = setInterval(
+      () => sendBack({ type: "BOT_TURN" }),
+      BOT_TURN_DELAY
+    )
+    return () => clearInterval(interval)
+  }
+)
+
+// Where the machine reads the time. XState's SimulatedClock fits, so tests
+// and replays can run a game on simulated time.
+export interface GameClock {
+  now(): number
+  setTimeout(fn: () => void, timeout: number): unknown
+  clearTimeout(id: unknown): void
+}
+
+const systemClock: GameClock = {
+  now: () => Date.now(),
+  setTimeout: (fn, timeout) => setTimeout(fn, timeout),
+  clearTimeout: (id) => clearTimeout(id as ReturnType<typeof setTimeout>),
+}
+
+// How often the clock reports the time. The remaining time is worked out
+// from roundStartTime on every report, so this only limits how late a second
+// can be shown, never how far the clock drifts.
+export const ROUND_CLOCK_CHECK_MS = 250
+
+// Whole seconds left in the round at a given time
+export const getRemainingSeconds = (
+  context: Pick<GameContext, "roundStartTime" | "rules">,
+  now: number
+): number => {
+  if (!context.roundStartTime) return context.rules.roundDurationSeconds
+
+  const elapsedSeconds = Math.floor(
+    (now - context.roundStartTime.getTime()) / 1000
+  )
+  return Math.max(0, context.rules.roundDurationSeconds - elapsedSeconds)
+}
+
+// Whole seconds left on the current player's shot clock at a given time
+export const getTurnRemainingSeconds = (
+  context: Pick<GameContext, "turnStartTime" | "rules">,
+  now: number
+): number => {
+  const duration = context.rules.turnDurationSeconds ?? 0
+  if (!context.turnStartTime) return duration
+
+  const elapsedSeconds = Math.floor(
+    (now - context.turnStartTime.getTime()) / 1000
+  )
+  return Math.max(0, duration - elapsedSeconds)
+}
+
+// Work out the event sent when the current player runs out of time. Under
+// the auto-play policy that is their lowest-point valid card; anything else
+// (or a hand with no single card to play) ends the turn with TURN_TIMEOUT.
+export const decideTimeoutAction = (context: GameContext): GameEvent => {
+  const currentPlayer = context.players[context.currentPlayerIndex]
+  const topDiscardCard = context.discardPile[context.discardPile.length - 1]
+
+  if (
+    context.rules.turnTimeoutPolicy === "auto-play" &&
+    currentPlayer &&
+    topDiscardCard
+  ) {
+    const [lowestCard] = getValidCards(
+      currentPlayer.hand,
+      topDiscardCard,
+      context.rules
+    ).sort((a, b) => a.points - b.points)
+
+    if (lowestCard) {
+      return {
+        type: "AUTO_PLAY",
+        card: lowestCard,
+        playerId: currentPlayer.id,
+        timedOut: true,
+      }
+    }
+  }
+
+  return { type: "TURN_TIMEOUT" }
+}
+
+// Whether the shot clock has run out on the current turn
+const isTurnOver = (context: GameContext, now: number): boolean =>
+  context.rules.turnDurationSeconds !== null &&
+  getTurnRemainingSeconds(context, now) <= 0
+
+// The clocks' whole seconds at a given time, each only when it has moved on
+// since the last report, so the context changes at most once a second
+const readRoundClock = (
+  context: GameContext,
+  now: number
+): Pick<GameContext, "gameTimer"> | null => {
+  const gameTimer = getRemainingSeconds(context, now)
+  return gameTimer < context.gameTimer ? { gameTimer } : null
+}
+
+const readTurnClock = (
+  context: GameContext,
+  now: number
+): Pick<GameContext, "turnTimer"> | null => {
+  if (context.rules.turnDurationSeconds === null) return null
+
+  const turnTimer = getTurnRemainingSeconds(context, now)
+  return turnTimer < context.turnTimer ? { turnTimer } : null
+}
+
+// A turn resumed from a pause keeps its selection, draw and shot clock
+const isResumedTurn = (context: GameContext, event: AnyEventObject) =>
+  event.type === "RESUME" && context.pausedFrom === "playerTurn"
+
+// Helper function to check that played cards really are in the player's hand,
+// so a (possibly remote) client cannot invent or duplicate cards, or declare
+// anything but a joker, or a joker as anything but a real card value
+const areCardsInHand = (player: Player, cards: Card[]): boolean => {
+  const cardIds = new Set(cards.map((card) => card.id))
+  if (cardIds.size !== cards.length) return false
+
+  return cards.every(
+    (card) =>
+      (card.declaredValue === undefined ||
+        (isJoker(card) && isDeclarableValue(card.declaredValue))) &&
+      player.hand.some(
+        (handCard) =>
+          handCard.id === card.id &&
+          handCard.value === card.value &&
+          handCard.suit === card.suit
+      )
+  )
+}
+
+// The played cards as the player holds them, so the only thing taken from
+// the event is a joker's declared value. Call once areCardsInHand has passed.
+const toHeldCards = (player: Player, cards: Card[]): Card[] =>
+  cards.flatMap((card) => {
+    const held = player.hand.find((handCard) => handCard.id === card.id)
+    if (!held) return []
+    return card.declaredValue === undefined
+      ? [held]
+      : [{ ...held, declaredValue: card.declaredValue }]
+  })
+
 // Helper function to check if any player has valid moves
 const hasAnyValidMoves = (context: GameContext): boolean => {
   const topDiscardCard = context.discardPile[context.discardPile.length - 1]
   if (!topDiscardCard) return true
 
-  return context.players.some(
-    (player) => getValidCards(player.hand, topDiscardCard).length > 0
-  )
+  return context.players.some((player) => canPlayerAct(context, player))
 }
 
 const initialContext: GameContext = {
@@ -32,16 +287,323 @@ const initialContext: GameContext = {
   currentPlayerIndex: 0,
   deck: [],
   discardPile: [],
-  gameTimer: 180, // 3 minutes
+  gameTimer: defaultGameRules.roundDurationSeconds,
   selectedCards: [],
   gameId: uuidv4(),
+  seed: null,
+  reshuffleCount: 0,
+  rules: defaultGameRules,
+  matchSettings: defaultMatchSettings,
+  roundNumber: 1,
+  roundHistory: [],
+  matchTotals: [],
+  hasDrawnThisTurn: false,
+  lastPlayedBy: null,
   roundStartTime: null,
+  turnStartTime: null,
+  turnTimer: 0,
+  penaltyPoints: {},
+  hintsUsed: {},
+  turnDirection: 1,
+  powerEffect: null,
+  pendingInterrupt: null,
+  pausedFrom: null,
+  pausedAt: null,
+  undoSnapshot: null,
   finalScores: [],
-  winner: null,
+  winners: [],
+  tieBreak: null,
+  teamScores: [],
   autoPlayNotifications: [],
   gameEndReason: null,
+  eventLog: [],
+}
+
+// What a notification says about the current player, and the card if one
+// was played for them; the notify action adds its id and the time
+type Notice = Omit<AutoPlayNotification, "id" | "timestamp">
+
+const noticeFor = (
+  context: GameContext,
+  type: Notice["type"],
+  card: Card | null = null
+): Notice => {
+  const player = context.players[context.currentPlayerIndex]
+  return { playerId: player.id, playerName: player.name, card, type }
+}
+
+// The notice once a card has gone on the pile for the current player
+const playedNotice = (context: GameContext, type: Notice["type"]): Notice =>
+  noticeFor(context, type, context.discardPile[context.discardPile.length - 1])
+
+const autoPlayNotice = {
+  type: "notify",
+  params: ({
+    context,
+    event,
+  }: {
+    context: GameContext
+    event: AnyEventObject
+  }) => playedNotice(context, event.timedOut ? "timeout" : "auto-play"),
+} as const
+
+const undoNotice = {
+  type: "notify",
+  params: ({ context }: { context: GameContext }) => noticeFor(context, "undo"),
+} as const
+
+// Play carries on from whoever landed a slam
+const interruptNotice = {
+  type: "notify",
+  params: ({ context }: { context: GameContext }) =>
+    playedNotice(context, "interrupt"),
+} as const
+
+// Put the table back as it was before the latest play; the player who made
+// it is the one to move again, so undoNotice names them
+const undoPlay = assign(({ context }: { context: GameContext }) => {
+  const { undoSnapshot } = context
+  if (!undoSnapshot) return {}
+
+  return {
+    players: undoSnapshot.players,
+    discardPile: undoSnapshot.discardPile,
+    deck: undoSnapshot.deck,
+    reshuffleCount: undoSnapshot.reshuffleCount,
+    currentPlayerIndex: undoSnapshot.currentPlayerIndex,
+    turnDirection: undoSnapshot.turnDirection,
+    powerEffect: null,
+    hasDrawnThisTurn: undoSnapshot.hasDrawnThisTurn,
+    lastPlayedBy: undoSnapshot.lastPlayedBy,
+    selectedCards: [],
+    undoSnapshot: null,
+  }
+})
+
+// Stake the first claim to an out-of-turn play. The card stays in hand until
+// the contention window closes.
+const claimInterrupt = assign(
+  ({ context, event }: { context: GameContext; event: AnyEventObject }) => {
+    const card = context.players
+      .find((player) => player.id === event.playerId)
+      ?.hand.find((held) => held.id === event.card.id)
+
+    return {
+      pendingInterrupt: card
+        ? { playerId: event.playerId, card, contenderIds: [] }
+        : null,
+    }
+  }
+)
+
+// Land the slam that won the contention window: the card goes on the pile
+// and play carries on from the interrupter, so waitingForTurn hands the turn
+// to the player after them. Whoever was interrupted loses their selection.
+// The slam stays pending until waitingForTurn has applied its power, if any.
+const landInterrupt = assign(({ context }: { context: GameContext }) => {
+  const { pendingInterrupt } = context
+  if (!pendingInterrupt) return {}
+
+  const interrupterIndex = context.players.findIndex(
+    (player) => player.id === pendingInterrupt.playerId
+  )
+
+  return {
+    players: context.players.map((player, index) => ({
+      ...player,
+      hand:
+        index === interrupterIndex
+          ? player.hand.filter((card) => card.id !== pendingInterrupt.card.id)
+          : player.hand,
+      isCurrentPlayer: false,
+    })),
+    discardPile: [...context.discardPile, pendingInterrupt.card],
+    currentPlayerIndex: interrupterIndex,
+    selectedCards: [],
+    lastPlayedBy: pendingInterrupt.playerId,
+    undoSnapshot: null,
+  }
+})
+
+// The seat `steps` places from `index` in the direction of play
+const seatAfter = (context: GameContext, index: number, steps = 1): number => {
+  const count = context.players.length
+  return (((index + steps * context.turnDirection) % count) + count) % count
+}
+
+// Carry out the power card the current player just left on top of the pile:
+// a reverse turns play around and a draw-two deals the next player cards
+// from the deck. A skip only changes who plays next, which is left to
+// waitingForTurn.
+const applyPowerCard = (
+  context: GameContext
+): Pick<
+  GameContext,
+  | "players"
+  | "deck"
+  | "discardPile"
+  | "reshuffleCount"
+  | "turnDirection"
+  | "powerEffect"
+> => {
+  const unchanged = {
+    players: context.players,
+    deck: context.deck,
+    discardPile: context.discardPile,
+    reshuffleCount: context.reshuffleCount,
+    turnDirection: context.turnDirection,
+    powerEffect: null,
+  }
+  const topCard = context.discardPile[context.discardPile.length - 1]
+  const type = topCard && getPowerEffectType(topCard, context.rules)
+  if (!type) return unchanged
+
+  const turnDirection =
+    type === "reverse"
+      ? (-context.turnDirection as 1 | -1)
+      : context.turnDirection
+  const targetIndex = seatAfter(
+    { ...context, turnDirection },
+    context.currentPlayerIndex
+  )
+  const effect = {
+    type,
+    card: topCard,
+    playerName: context.players[context.currentPlayerIndex].name,
+    targetName: type === "reverse" ? null : context.players[targetIndex].name,
+    cardsDrawn: 0,
+  }
+  if (type !== "draw-two") {
+    return { ...unchanged, turnDirection, powerEffect: effect }
+  }
+
+  // Drawn the same way DRAW_CARD draws, so replays deal the same cards
+  let { deck, discardPile, reshuffleCount } = context
+  const drawn: Card[] = []
+  for (let i = 0; i < DRAW_TWO_COUNT; i++) {
+    const random = createSeededRandom((context.seed ?? 0) + reshuffleCount + 1)
+    const result = drawCard(deck, discardPile, random)
+    if (!result.card) break
+    drawn.push(result.card)
+    deck = result.deck
+    discardPile = result.discardPile
+    if (result.reshuffled) reshuffleCount++
+  }
+
+  return {
+    players: context.players.map((player, index) =>
+      index === targetIndex
+        ? { ...player, hand: [...player.hand, ...drawn] }
+        : player
+    ),
+    deck,
+    discardPile,
+    reshuffleCount,
+    turnDirection,
+    powerEffect: { ...effect, cardsDrawn: drawn.length },
+  }
 }
 
+// Everything in the machine that reads the time: the log and notification
+// timestamps, the round, turn and pause times, and the clock actor that
+// reports the time while a round runs. The machine comes with the system
+// clock; provide this with a SimulatedClock (and pass the same clock to
+// createActor, for the delayed transitions) to run a game on simulated time.
+export const withClock = (clock: GameClock) => ({
+  actions: {
+    // Add the notification described by the params, stamped with the time.
+    // Only the last 10 are kept to prevent memory bloat.
+    notify: assign(
+      ({ context }: { context: GameContext }, params: unknown) => ({
+        autoPlayNotifications: [
+          ...context.autoPlayNotifications,
+          {
+            ...(params as Notice),
+            id: uuidv4(),
+            timestamp: new Date(clock.now()),
+          },
+        ].slice(-10),
+      })
+    ),
+    // Append the accepted event to the game log. START_GAME and NEXT_ROUND
+    // are logged with the seed they were dealt with.
+    logEvent: assign(
+      ({
+        context,
+        event,
+      }: {
+        context: GameContext
+        event: AnyEventObject
+      }) => ({
+        eventLog: [
+          ...context.eventLog,
+          {
+            timestamp: new Date(clock.now()),
+            event: (event.type === "START_GAME" || event.type === "NEXT_ROUND"
+              ? { ...event, seed: context.seed }
+              : event) as GameEvent,
+          },
+        ],
+      })
+    ),
+    // The round clock starts, full, once the cards are on the table
+    startRound: assign(({ context }: { context: GameContext }) => ({
+      roundStartTime: new Date(clock.now()),
+      gameTimer: context.rules.roundDurationSeconds,
+    })),
+    // Every turn gets a fresh shot clock, except one resumed from a pause
+    startTurn: assign(
+      ({ context, event }: { context: GameContext; event: AnyEventObject }) =>
+        isResumedTurn(context, event)
+          ? {}
+          : {
+              turnStartTime: new Date(clock.now()),
+              turnTimer: context.rules.turnDurationSeconds ?? 0,
+            }
+    ),
+    // Stop both clocks, remembering when
+    pauseClocks: assign<
+      GameContext,
+      AnyEventObject,
+      unknown,
+      AnyEventObject,
+      ProvidedActor
+    >(() => ({ pausedAt: new Date(clock.now()) })),
+    // Move both clocks on by the time spent paused, so the pause does not
+    // count against the round or the turn
+    resumeClocks: assign(({ context }: { context: GameContext }) => {
+      const pausedFor = context.pausedAt
+        ? clock.now() - context.pausedAt.getTime()
+        : 0
+      const shift = (time: Date | null) =>
+        time ? new Date(time.getTime() + pausedFor) : null
+
+      return {
+        roundStartTime: shift(context.roundStartTime),
+        turnStartTime: shift(context.turnStartTime),
+        pausedAt: null,
+      }
+    }),
+  },
+  actors: {
+    // Reports the time with CLOCK_TICK; the machine works out from its own
+    // context what that means for the round and the turn
+    gameClock: fromCallback<InternalGameEvent>(({ sendBack }) => {
+      let timeout: unknown
+
+      const report = () => {
+        sendBack({ type: "CLOCK_TICK", now: clock.now() })
+        timeout = clock.setTimeout(report, ROUND_CLOCK_CHECK_MS)
+      }
+
+      timeout = clock.setTimeout(report, ROUND_CLOCK_CHECK_MS)
+      return () => clock.clearTimeout(timeout)
+    }),
+  },
+})
+
+const systemClockImplementations = withClock(systemClock)
+
 export const cardGameMachine = createMachine({
   id: "cardGame",
   initial: "lobby",
@@ -50,123 +612,338 @@ export const cardGameMachine = createMachine({
     lobby: {
       on: {
         PLAYER_JOIN: {
-          actions: assign({
-            players: ({ context, event }) => [
-              ...context.players,
-              {
-                id: event.playerId,
-                name: event.playerName,
-                hand: [],
-                isCurrentPlayer: false,
-              } as Player,
-            ],
-          }),
+          // Seat ids must be unique, or one player could act for another
+          guard: ({ context, event }) =>
+            context.players.length < context.rules.maxPlayers &&
+            !context.players.some((player) => player.id === event.playerId),
+          actions: [
+            assign({
+              players: ({ context, event }) => [
+                ...context.players,
+                {
+                  id: event.playerId,
+                  name: event.playerName,
+                  hand: [],
+                  isCurrentPlayer: false,
+                  kind: event.kind ?? "human",
+                  botStrategy: event.botStrategy,
+                } as Player,
+              ],
+            }),
+            "logEvent",
+          ],
+        },
+        SET_RULES: {
+          guard: ({ context, event }) => {
+            const rules = { ...context.rules, ...event.rules }
+            return (
+              areGameRulesValid(rules) &&
+              context.players.length <= rules.maxPlayers
+            )
+          },
+          actions: [
+            assign({
+              rules: ({ context, event }) => ({
+                ...context.rules,
+                ...event.rules,
+              }),
+            }),
+            "logEvent",
+          ],
+        },
+        SET_MATCH: {
+          guard: ({ context, event }) =>
+            areMatchSettingsValid({
+              ...context.matchSettings,
+              ...event.settings,
+            }),
+          actions: [
+            assign({
+              matchSettings: ({ context, event }) => ({
+                ...context.matchSettings,
+                ...event.settings,
+              }),
+            }),
+            "logEvent",
+          ],
         },
         START_GAME: {
           target: "gameStarting",
-          guard: ({ context }) => context.players.length >= 2,
+          guard: ({ context }) =>
+            context.players.length >= 2 &&
+            isTeamTableReady(context.rules, context.players.length),
         },
       },
     },
     gameStarting: {
-      entry: assign({
-        deck: () => createDeck(),
-        roundStartTime: () => new Date(),
-        gameTimer: () => 180,
-      }),
+      entry: [
+        assign(({ context, event }) => {
+          // Use the seed from START_GAME when given so a deal can be replayed.
+          // Later rounds always get a fresh seed: the previous one is revealed
+          // once its round is scored.
+          const seed = event.seed ?? generateSeed()
+
+          return {
+            seed,
+            reshuffleCount: 0,
+            deck: createDeck(seed, context.rules),
+            roundStartTime: null,
+            gameTimer: context.rules.roundDurationSeconds,
+            penaltyPoints: {},
+            hintsUsed: {},
+            turnDirection: 1 as const,
+            powerEffect: null,
+            pendingInterrupt: null,
+            lastPlayedBy: null,
+            undoSnapshot: null,
+          }
+        }),
+        "logEvent",
+      ],
       after: {
         1000: {
           target: "playerTurn",
-          actions: assign(({ context }) => {
-            const { playerHands, remainingDeck } = dealCards(
-              context.deck,
-              context.players.length
-            )
+          actions: [
+            assign(({ context }) => {
+              const { playerHands, remainingDeck } = dealCards(
+                context.deck,
+                context.players.length,
+                context.rules.handSize
+              )
+              const firstPlayerIndex = getFirstPlayerIndex(
+                context.roundNumber,
+                context.players.length
+              )
 
-            const updatedPlayers = context.players.map((player, index) => ({
-              ...player,
-              hand: playerHands[index],
-              isCurrentPlayer: index === 0,
-            }))
-
-            // Place first card on discard pile
-            const discardPile =
-              remainingDeck.length > 0 ? [remainingDeck[0]] : []
-            const finalDeck = remainingDeck.slice(1)
-
-            return {
-              players: updatedPlayers,
-              deck: finalDeck,
-              discardPile,
-              currentPlayerIndex: 0,
-            }
-          }),
+              const updatedPlayers = context.players.map((player, index) => ({
+                ...player,
+                hand: playerHands[index],
+                isCurrentPlayer: index === firstPlayerIndex,
+              }))
+
+              // Place first card on discard pile
+              const discardPile =
+                remainingDeck.length > 0 ? [remainingDeck[0]] : []
+              const finalDeck = remainingDeck.slice(1)
+
+              return {
+                players: updatedPlayers,
+                deck: finalDeck,
+                discardPile,
+                currentPlayerIndex: firstPlayerIndex,
+              }
+            }),
+            "startRound",
+          ],
         },
       },
     },
     playerTurn: {
-      entry: assign({
-        selectedCards: () => [],
-      }),
+      entry: [
+        "startTurn",
+        assign(({ context, event }) =>
+          // A resumed turn carries on with its selection and draw
+          isResumedTurn(context, event)
+            ? { pausedFrom: null }
+            : {
+                selectedCards: [],
+                // An undone play hands the turn back as it was before the play
+                hasDrawnThisTurn:
+                  event.type === "UNDO" && context.hasDrawnThisTurn,
+                pausedFrom: null,
+              }
+        ),
+      ],
+      invoke: [
+        {
+          src: "botTurn",
+          input: ({ context }: { context: GameContext }) => ({
+            isBotTurn:
+              context.players[context.currentPlayerIndex]?.kind === "bot",
+          }),
+        },
+        { src: "gameClock" },
+      ],
       on: {
+        BOT_TURN: {
+          guard: ({ context }) => decideBotAction(context) !== null,
+          actions: raise(
+            ({ context }) => decideBotAction(context) as AnyEventObject
+          ),
+        },
+        PAUSE: {
+          target: "paused",
+          actions: [
+            assign({ pausedFrom: "playerTurn" as const }),
+            "pauseClocks",
+            "logEvent",
+          ],
+        },
+        // The next player has not acted yet, so the previous play can still
+        // be taken back
+        UNDO: {
+          target: "playerTurn",
+          reenter: true,
+          guard: ({ context, event }) => canUndo(context, event.playerId),
+          actions: [undoPlay, undoNotice, "logEvent"],
+        },
+        // Anyone but the player to move may slam a card matching the top
+        INTERRUPT: {
+          target: "interrupting",
+          guard: ({ context, event }) =>
+            canInterrupt(context, event.playerId, event.card.id),
+          actions: [claimInterrupt, "logEvent"],
+        },
+        // Hints are worked out by the player's own board; the machine only
+        // counts them so the score screen can show who asked
+        REQUEST_HINT: {
+          guard: ({ context, event }) =>
+            context.players[context.currentPlayerIndex]?.id === event.playerId,
+          actions: [
+            assign({
+              hintsUsed: ({ context, event }) => ({
+                ...context.hintsUsed,
+                [event.playerId]: (context.hintsUsed[event.playerId] ?? 0) + 1,
+              }),
+            }),
+            "logEvent",
+          ],
+        },
         END_GAME: {
           target: "gameEnding",
-          actions: assign({
-            gameEndReason: () => "manual_end" as const,
-          }),
+          actions: [
+            assign({
+              gameEndReason: () => "manual_end" as const,
+            }),
+            "logEvent",
+          ],
         },
         SKIP_TURN: {
           target: "waitingForTurn",
-          actions: assign(({ context }) => {
+          // Under the forced-draw rule a stuck player must draw first
+          guard: ({ context }) =>
+            !(
+              context.rules.forcedDrawBeforeSkip &&
+              canCurrentPlayerDraw(context)
+            ),
+          actions: [
+            {
+              type: "notify",
+              params: ({ context }) => noticeFor(context, "auto-skip"),
+            },
+            "logEvent",
+          ],
+        },
+        DRAW_CARD: {
+          guard: ({ context, event }) => {
             const currentPlayer = context.players[context.currentPlayerIndex]
+            return (
+              currentPlayer.id === event.playerId &&
+              canCurrentPlayerDraw(context)
+            )
+          },
+          actions: [
+            assign(({ context }) => {
+              // Reshuffles are seeded from the game seed so replays stay exact
+              const random = createSeededRandom(
+                (context.seed ?? 0) + context.reshuffleCount + 1
+              )
+              const { card, deck, discardPile, reshuffled } = drawCard(
+                context.deck,
+                context.discardPile,
+                random
+              )
 
-            // Add auto-skip notification
-            const notification = {
-              id: uuidv4(),
-              playerId: currentPlayer.id,
-              playerName: currentPlayer.name,
-              card: null, // No card for skip
-              timestamp: new Date(),
-              type: "auto-skip" as const,
-            }
-
-            // Keep only the last 10 notifications to prevent memory bloat
-            const updatedNotifications = [
-              ...context.autoPlayNotifications,
-              notification,
-            ].slice(-10)
+              const updatedPlayers = context.players.map((player, index) => ({
+                ...player,
+                hand:
+                  index === context.currentPlayerIndex && card
+                    ? [...player.hand, card]
+                    : player.hand,
+              }))
 
-            return {
-              autoPlayNotifications: updatedNotifications,
-            }
-          }),
-        },
-        CARD_SELECTED: {
-          actions: assign({
-            selectedCards: ({ context, event }) => {
-              const card = context.players
-                .find((p) => p.id === event.playerId)
-                ?.hand.find((c) => c.id === event.cardId)
-
-              if (
-                card &&
-                !context.selectedCards.find((c) => c.id === card.id)
-              ) {
-                return [...context.selectedCards, card]
+              return {
+                players: updatedPlayers,
+                deck,
+                discardPile,
+                reshuffleCount: reshuffled
+                  ? context.reshuffleCount + 1
+                  : context.reshuffleCount,
+                hasDrawnThisTurn: true,
               }
-              return context.selectedCards
+            }),
+            // The drawn card stays private
+            {
+              type: "notify",
+              params: ({ context }) => noticeFor(context, "auto-draw"),
             },
-          }),
+            "logEvent",
+          ],
+        },
+        CARD_SELECTED: {
+          actions: [
+            assign({
+              selectedCards: ({ context, event }) => {
+                const card = context.players
+                  .find((p) => p.id === event.playerId)
+                  ?.hand.find((c) => c.id === event.cardId)
+
+                if (
+                  card &&
+                  !context.selectedCards.find((c) => c.id === card.id)
+                ) {
+                  return [...context.selectedCards, card]
+                }
+                return context.selectedCards
+              },
+            }),
+            "logEvent",
+          ],
           guard: ({ context, event }) => {
             const currentPlayer = context.players[context.currentPlayerIndex]
             return currentPlayer.id === event.playerId
           },
         },
         CARD_DESELECTED: {
-          actions: assign({
-            selectedCards: ({ context, event }) =>
-              context.selectedCards.filter((card) => card.id !== event.cardId),
-          }),
+          actions: [
+            assign({
+              selectedCards: ({ context, event }) =>
+                context.selectedCards.filter(
+                  (card) => card.id !== event.cardId
+                ),
+            }),
+            "logEvent",
+          ],
+          guard: ({ context, event }) => {
+            const currentPlayer = context.players[context.currentPlayerIndex]
+            return currentPlayer.id === event.playerId
+          },
+        },
+        DECLARE_JOKER: {
+          actions: [
+            assign({
+              selectedCards: ({ context, event }) =>
+                context.selectedCards.map((card) =>
+                  card.id === event.cardId
+                    ? { ...card, declaredValue: event.value ?? undefined }
+                    : card
+                ),
+            }),
+            "logEvent",
+          ],
+          // Only a selected joker of the current player's can be declared
+          guard: ({ context, event }) => {
+            const currentPlayer = context.players[context.currentPlayerIndex]
+            const card = context.selectedCards.find(
+              (selected) => selected.id === event.cardId
+            )
+            return (
+              currentPlayer.id === event.playerId &&
+              card !== undefined &&
+              isJoker(card) &&
+              (event.value === null || isDeclarableValue(event.value))
+            )
+          },
         },
         PLAY_CARDS: [
           {
@@ -188,76 +965,106 @@ export const cardGameMachine = createMachine({
               return (
                 currentPlayer.id === event.playerId &&
                 event.cards.length > 0 &&
-                canPlayCards(event.cards, topDiscardCard) &&
+                areCardsInHand(currentPlayer, event.cards) &&
+                canPlayCards(
+                  toHeldCards(currentPlayer, event.cards),
+                  topDiscardCard,
+                  context.rules
+                ) &&
                 remainingCards.length === 0 // Player wins!
               )
             },
-            actions: assign(({ context, event }) => {
-              const currentPlayer = context.players[context.currentPlayerIndex]
-              const cardsToPlay = event.cards
+            actions: [
+              assign(({ context, event }) => {
+                const currentPlayer =
+                  context.players[context.currentPlayerIndex]
+                const cardsToPlay = toHeldCards(currentPlayer, event.cards)
 
-              // Remove played cards from player's hand
-              const updatedHand = currentPlayer.hand.filter(
-                (card) =>
-                  !cardsToPlay.find(
-                    (playedCard: Card) => playedCard.id === card.id
-                  )
-              )
+                // Remove played cards from player's hand
+                const updatedHand = currentPlayer.hand.filter(
+                  (card) =>
+                    !cardsToPlay.find(
+                      (playedCard: Card) => playedCard.id === card.id
+                    )
+                )
 
-              // Update discard pile
-              const newDiscardPile = [...context.discardPile, ...cardsToPlay]
+                // Update discard pile; a run goes on in run order
+                const newDiscardPile = [
+                  ...context.discardPile,
+                  ...arrangePlay(
+                    cardsToPlay,
+                    context.discardPile[context.discardPile.length - 1],
+                    context.rules
+                  ),
+                ]
 
-              // Update players
-              const updatedPlayers = context.players.map((player, index) => ({
-                ...player,
-                hand:
-                  index === context.currentPlayerIndex
-                    ? updatedHand
-                    : player.hand,
-                isCurrentPlayer: false,
-              }))
+                // Update players
+                const updatedPlayers = context.players.map((player, index) => ({
+                  ...player,
+                  hand:
+                    index === context.currentPlayerIndex
+                      ? updatedHand
+                      : player.hand,
+                  isCurrentPlayer: false,
+                }))
 
-              return {
-                players: updatedPlayers,
-                discardPile: newDiscardPile,
-                selectedCards: [],
-                gameEndReason: "player_won" as const,
-              }
-            }),
+                return {
+                  players: updatedPlayers,
+                  discardPile: newDiscardPile,
+                  selectedCards: [],
+                  lastPlayedBy: currentPlayer.id,
+                  gameEndReason: "player_won" as const,
+                }
+              }),
+              "logEvent",
+            ],
           },
           {
             target: "waitingForTurn",
-            actions: assign(({ context, event }) => {
-              const currentPlayer = context.players[context.currentPlayerIndex]
-              const cardsToPlay = event.cards
+            actions: [
+              assign(({ context, event }) => {
+                const currentPlayer =
+                  context.players[context.currentPlayerIndex]
+                const cardsToPlay = toHeldCards(currentPlayer, event.cards)
 
-              // Remove played cards from player's hand
-              const updatedHand = currentPlayer.hand.filter(
-                (card) =>
-                  !cardsToPlay.find(
-                    (playedCard: Card) => playedCard.id === card.id
-                  )
-              )
+                // Remove played cards from player's hand
+                const updatedHand = currentPlayer.hand.filter(
+                  (card) =>
+                    !cardsToPlay.find(
+                      (playedCard: Card) => playedCard.id === card.id
+                    )
+                )
 
-              // Update discard pile
-              const newDiscardPile = [...context.discardPile, ...cardsToPlay]
+                // Update discard pile; a run goes on in run order
+                const newDiscardPile = [
+                  ...context.discardPile,
+                  ...arrangePlay(
+                    cardsToPlay,
+                    context.discardPile[context.discardPile.length - 1],
+                    context.rules
+                  ),
+                ]
 
-              // Update players
-              const updatedPlayers = context.players.map((player, index) => ({
-                ...player,
-                hand:
-                  index === context.currentPlayerIndex
-                    ? updatedHand
-                    : player.hand,
-                isCurrentPlayer: false,
-              }))
+                // Update players
+                const updatedPlayers = context.players.map((player, index) => ({
+                  ...player,
+                  hand:
+                    index === context.currentPlayerIndex
+                      ? updatedHand
+                      : player.hand,
+                  isCurrentPlayer: false,
+                }))
 
-              return {
-                players: updatedPlayers,
-                discardPile: newDiscardPile,
-                selectedCards: [],
-              }
-            }),
+                return {
+                  players: updatedPlayers,
+                  discardPile: newDiscardPile,
+                  selectedCards: [],
+                  lastPlayedBy: currentPlayer.id,
+                  undoSnapshot: takeUndoSnapshot(context),
+                }
+              }),
+              "logEvent",
+            ],
             guard: ({ context, event }) => {
               const currentPlayer = context.players[context.currentPlayerIndex]
               const topDiscardCard =
@@ -266,7 +1073,12 @@ export const cardGameMachine = createMachine({
               return (
                 currentPlayer.id === event.playerId &&
                 event.cards.length > 0 &&
-                canPlayCards(event.cards, topDiscardCard)
+                areCardsInHand(currentPlayer, event.cards) &&
+                canPlayCards(
+                  toHeldCards(currentPlayer, event.cards),
+                  topDiscardCard,
+                  context.rules
+                )
               )
             },
           },
@@ -286,102 +1098,95 @@ export const cardGameMachine = createMachine({
 
               return (
                 currentPlayer.id === event.playerId &&
-                canPlayCards([event.card], topDiscardCard) &&
+                areCardsInHand(currentPlayer, [event.card]) &&
+                canPlayCards(
+                  toHeldCards(currentPlayer, [event.card]),
+                  topDiscardCard,
+                  context.rules
+                ) &&
                 remainingCards.length === 0 // Player wins!
               )
             },
-            actions: assign(({ context, event }) => {
-              const currentPlayer = context.players[context.currentPlayerIndex]
+            actions: [
+              assign(({ context, event }) => {
+                const currentPlayer =
+                  context.players[context.currentPlayerIndex]
 
-              // Remove played card from player's hand
-              const updatedHand = currentPlayer.hand.filter(
-                (card) => card.id !== event.card.id
-              )
+                // Remove played card from player's hand
+                const updatedHand = currentPlayer.hand.filter(
+                  (card) => card.id !== event.card.id
+                )
 
-              // Update discard pile
-              const newDiscardPile = [...context.discardPile, event.card]
+                // Update discard pile, declaring a joker if need be
+                const [playedCard] = arrangePlay(
+                  toHeldCards(currentPlayer, [event.card]),
+                  context.discardPile[context.discardPile.length - 1],
+                  context.rules
+                )
+                const newDiscardPile = [...context.discardPile, playedCard]
 
-              // Update players
-              const updatedPlayers = context.players.map((player, index) => ({
-                ...player,
-                hand:
-                  index === context.currentPlayerIndex
-                    ? updatedHand
-                    : player.hand,
-                isCurrentPlayer: false,
-              }))
+                // Update players
+                const updatedPlayers = context.players.map((player, index) => ({
+                  ...player,
+                  hand:
+                    index === context.currentPlayerIndex
+                      ? updatedHand
+                      : player.hand,
+                  isCurrentPlayer: false,
+                }))
 
-              // Add auto-play notification
-              const notification = {
-                id: uuidv4(),
-                playerId: currentPlayer.id,
-                playerName: currentPlayer.name,
-                card: event.card,
-                timestamp: new Date(),
-                type: "auto-play" as const,
-              }
-
-              // Keep only the last 10 notifications to prevent memory bloat
-              const updatedNotifications = [
-                ...context.autoPlayNotifications,
-                notification,
-              ].slice(-10)
-
-              return {
-                players: updatedPlayers,
-                discardPile: newDiscardPile,
-                selectedCards: [],
-                autoPlayNotifications: updatedNotifications,
-                gameEndReason: "player_won" as const,
-              }
-            }),
+                return {
+                  players: updatedPlayers,
+                  discardPile: newDiscardPile,
+                  selectedCards: [],
+                  lastPlayedBy: currentPlayer.id,
+                  gameEndReason: "player_won" as const,
+                }
+              }),
+              autoPlayNotice,
+              "logEvent",
+            ],
           },
           {
             target: "waitingForTurn",
-            actions: assign(({ context, event }) => {
-              const currentPlayer = context.players[context.currentPlayerIndex]
+            actions: [
+              assign(({ context, event }) => {
+                const currentPlayer =
+                  context.players[context.currentPlayerIndex]
 
-              // Remove played card from player's hand
-              const updatedHand = currentPlayer.hand.filter(
-                (card) => card.id !== event.card.id
-              )
-
-              // Update discard pile
-              const newDiscardPile = [...context.discardPile, event.card]
-
-              // Update players
-              const updatedPlayers = context.players.map((player, index) => ({
-                ...player,
-                hand:
-                  index === context.currentPlayerIndex
-                    ? updatedHand
-                    : player.hand,
-                isCurrentPlayer: false,
-              }))
+                // Remove played card from player's hand
+                const updatedHand = currentPlayer.hand.filter(
+                  (card) => card.id !== event.card.id
+                )
 
-              // Add auto-play notification
-              const notification = {
-                id: uuidv4(),
-                playerId: currentPlayer.id,
-                playerName: currentPlayer.name,
-                card: event.card,
-                timestamp: new Date(),
-                type: "auto-play" as const,
-              }
+                // Update discard pile, declaring a joker if need be
+                const [playedCard] = arrangePlay(
+                  toHeldCards(currentPlayer, [event.card]),
+                  context.discardPile[context.discardPile.length - 1],
+                  context.rules
+                )
+                const newDiscardPile = [...context.discardPile, playedCard]
 
-              // Keep only the last 10 notifications to prevent memory bloat
-              const updatedNotifications = [
-                ...context.autoPlayNotifications,
-                notification,
-              ].slice(-10)
+                // Update players
+                const updatedPlayers = context.players.map((player, index) => ({
+                  ...player,
+                  hand:
+                    index === context.currentPlayerIndex
+                      ? updatedHand
+                      : player.hand,
+                  isCurrentPlayer: false,
+                }))
 
-              return {
-                players: updatedPlayers,
-                discardPile: newDiscardPile,
-                selectedCards: [],
-                autoPlayNotifications: updatedNotifications,
-              }
-            }),
+                return {
+                  players: updatedPlayers,
+                  discardPile: newDiscardPile,
+                  selectedCards: [],
+                  lastPlayedBy: currentPlayer.id,
+                }
+              }),
+              autoPlayNotice,
+              "logEvent",
+            ],
             guard: ({ context, event }) => {
               const currentPlayer = context.players[context.currentPlayerIndex]
               const topDiscardCard =
@@ -389,33 +1194,103 @@ export const cardGameMachine = createMachine({
 
               return (
                 currentPlayer.id === event.playerId &&
-                canPlayCards([event.card], topDiscardCard)
+                areCardsInHand(currentPlayer, [event.card]) &&
+                canPlayCards(
+                  toHeldCards(currentPlayer, [event.card]),
+                  topDiscardCard,
+                  context.rules
+                )
               )
             },
           },
         ],
-        TIMER_TICK: [
-          {
-            target: "gameEnding",
-            guard: ({ event }) => event.remainingTime <= 0,
-            actions: assign({
-              gameTimer: ({ event }) => event.remainingTime,
-              gameEndReason: () => "timer_expired" as const,
+        // The shot clock ran out with nothing to auto-play, or under a policy
+        // that forfeits the turn. Unlike SKIP_TURN this does not wait for a
+        // forced draw.
+        TURN_TIMEOUT: {
+          target: "waitingForTurn",
+          guard: ({ context }) => context.rules.turnDurationSeconds !== null,
+          actions: [
+            assign(({ context }) => {
+              const currentPlayer = context.players[context.currentPlayerIndex]
+
+              return {
+                turnTimer: 0,
+                penaltyPoints:
+                  context.rules.turnTimeoutPolicy === "penalty"
+                    ? {
+                        ...context.penaltyPoints,
+                        [currentPlayer.id]:
+                          (context.penaltyPoints[currentPlayer.id] ?? 0) +
+                          TIMEOUT_PENALTY_POINTS,
+                      }
+                    : context.penaltyPoints,
+              }
             }),
+            {
+              type: "notify",
+              params: ({ context }) => noticeFor(context, "timeout"),
+            },
+            "logEvent",
+          ],
+        },
+        CLOCK_TICK: [
+          {
+            guard: ({ context, event }) =>
+              getRemainingSeconds(context, event.now) <= 0,
+            actions: raise({ type: "ROUND_TIMEOUT" }),
           },
           {
-            actions: assign({
-              gameTimer: ({ event }) => event.remainingTime,
-            }),
+            guard: ({ context, event }) => isTurnOver(context, event.now),
+            actions: raise(
+              ({ context }) => decideTimeoutAction(context) as AnyEventObject
+            ),
+          },
+          {
+            guard: ({ context, event }) =>
+              readRoundClock(context, event.now) !== null ||
+              readTurnClock(context, event.now) !== null,
+            actions: assign(({ context, event }) => ({
+              ...readRoundClock(context, event.now),
+              ...readTurnClock(context, event.now),
+            })),
           },
         ],
+        ROUND_TIMEOUT: {
+          target: "gameEnding",
+          actions: [
+            assign({
+              gameTimer: () => 0,
+              gameEndReason: () => "timer_expired" as const,
+            }),
+            "logEvent",
+          ],
+        },
       },
     },
     waitingForTurn: {
-      entry: assign(({ context }) => {
-        // Find the next player who has valid moves, or cycle through all players
-        let nextPlayerIndex =
-          (context.currentPlayerIndex + 1) % context.players.length
+      invoke: { src: "gameClock" },
+      entry: assign(({ context: before, event }) => {
+        // Only a card that was just played has an effect; skips and
+        // timeouts leave whatever is on top alone. A slammed power card
+        // works as if played in turn: it acts on the seats after the
+        // interrupter, whose slam arrives here still pending.
+        const played =
+          event.type === "PLAY_CARDS" ||
+          event.type === "AUTO_PLAY" ||
+          before.pendingInterrupt !== null
+        const context = {
+          ...before,
+          ...(played ? applyPowerCard(before) : { powerEffect: null }),
+        }
+
+        // Find the next player who has valid moves, or cycle through all
+        // players, going the way play is turning and past anyone skipped
+        let nextPlayerIndex = seatAfter(
+          context,
+          context.currentPlayerIndex,
+          context.powerEffect?.type === "skip" ? 2 : 1
+        )
         let attempts = 0
         const maxAttempts = context.players.length
 
@@ -425,15 +1300,14 @@ export const cardGameMachine = createMachine({
         // Keep advancing until we find a player with valid moves or exhaust all players
         while (attempts < maxAttempts && topDiscardCard) {
           const nextPlayer = context.players[nextPlayerIndex]
-          const validCards = getValidCards(nextPlayer.hand, topDiscardCard)
 
-          // If this player has valid moves, stop here
-          if (validCards.length > 0) {
+          // If this player can play (or draw), stop here
+          if (canPlayerAct(context, nextPlayer)) {
             break
           }
 
           // Otherwise, try the next player
-          nextPlayerIndex = (nextPlayerIndex + 1) % context.players.length
+          nextPlayerIndex = seatAfter(context, nextPlayerIndex)
           attempts++
         }
 
@@ -444,7 +1318,13 @@ export const cardGameMachine = createMachine({
 
         return {
           players: updatedPlayers,
+          deck: context.deck,
+          discardPile: context.discardPile,
+          reshuffleCount: context.reshuffleCount,
+          turnDirection: context.turnDirection,
+          powerEffect: context.powerEffect,
           currentPlayerIndex: nextPlayerIndex,
+          pendingInterrupt: null,
         }
       }),
       after: {
@@ -462,39 +1342,200 @@ export const cardGameMachine = createMachine({
         ],
       },
       on: {
-        TIMER_TICK: [
+        PAUSE: {
+          target: "paused",
+          actions: [
+            assign({ pausedFrom: "waitingForTurn" as const }),
+            "pauseClocks",
+            "logEvent",
+          ],
+        },
+        UNDO: {
+          target: "playerTurn",
+          guard: ({ context, event }) => canUndo(context, event.playerId),
+          actions: [undoPlay, undoNotice, "logEvent"],
+        },
+        INTERRUPT: {
+          target: "interrupting",
+          guard: ({ context, event }) =>
+            canInterrupt(context, event.playerId, event.card.id),
+          actions: [claimInterrupt, "logEvent"],
+        },
+        CLOCK_TICK: [
           {
-            target: "gameEnding",
-            guard: ({ event }) => event.remainingTime <= 0,
-            actions: assign({
-              gameTimer: ({ event }) => event.remainingTime,
+            guard: ({ context, event }) =>
+              getRemainingSeconds(context, event.now) <= 0,
+            actions: raise({ type: "ROUND_TIMEOUT" }),
+          },
+          {
+            guard: ({ context, event }) =>
+              readRoundClock(context, event.now) !== null,
+            actions: assign(({ context, event }) => ({
+              ...readRoundClock(context, event.now),
+            })),
+          },
+        ],
+        ROUND_TIMEOUT: {
+          target: "gameEnding",
+          actions: [
+            assign({
+              gameTimer: () => 0,
               gameEndReason: () => "timer_expired" as const,
             }),
+            "logEvent",
+          ],
+        },
+      },
+    },
+    // A slam has been claimed. Until the window closes nobody else can play,
+    // and later claims on the same top card only lose to the first.
+    interrupting: {
+      invoke: { src: "gameClock" },
+      after: {
+        [INTERRUPT_WINDOW_MS]: [
+          {
+            target: "gameEnding",
+            guard: ({ context }) =>
+              context.players.find(
+                (player) => player.id === context.pendingInterrupt?.playerId
+              )?.hand.length === 1,
+            actions: [
+              landInterrupt,
+              interruptNotice,
+              assign({
+                pendingInterrupt: null,
+                gameEndReason: () => "player_won" as const,
+              }),
+            ],
           },
           {
-            actions: assign({
-              gameTimer: ({ event }) => event.remainingTime,
+            target: "waitingForTurn",
+            actions: [landInterrupt, interruptNotice],
+          },
+        ],
+      },
+      on: {
+        INTERRUPT: {
+          guard: ({ context, event }) =>
+            context.pendingInterrupt !== null &&
+            context.pendingInterrupt.playerId !== event.playerId &&
+            !context.pendingInterrupt.contenderIds.includes(event.playerId) &&
+            canInterrupt(context, event.playerId, event.card.id),
+          actions: [
+            assign({
+              pendingInterrupt: ({ context, event }) =>
+                context.pendingInterrupt && {
+                  ...context.pendingInterrupt,
+                  contenderIds: [
+                    ...context.pendingInterrupt.contenderIds,
+                    event.playerId,
+                  ],
+                },
             }),
+            "logEvent",
+          ],
+        },
+        CLOCK_TICK: [
+          {
+            guard: ({ context, event }) =>
+              getRemainingSeconds(context, event.now) <= 0,
+            actions: raise({ type: "ROUND_TIMEOUT" }),
+          },
+          {
+            guard: ({ context, event }) =>
+              readRoundClock(context, event.now) !== null,
+            actions: assign(({ context, event }) => ({
+              ...readRoundClock(context, event.now),
+            })),
+          },
+        ],
+        ROUND_TIMEOUT: {
+          target: "gameEnding",
+          actions: [
+            assign({
+              gameTimer: () => 0,
+              gameEndReason: () => "timer_expired" as const,
+              pendingInterrupt: () => null,
+            }),
+            "logEvent",
+          ],
+        },
+      },
+    },
+    // Both clocks stand still and card events are ignored until RESUME
+    paused: {
+      on: {
+        RESUME: [
+          {
+            target: "playerTurn",
+            guard: ({ context }) => context.pausedFrom === "playerTurn",
+            actions: ["resumeClocks", "logEvent"],
+          },
+          // Paused between turns: finish what waitingForTurn was doing
+          {
+            target: "gameEnding",
+            guard: ({ context }) => !hasAnyValidMoves(context),
+            actions: [
+              "resumeClocks",
+              assign({
+                gameEndReason: () => "no_valid_moves" as const,
+                pausedFrom: () => null,
+              }),
+              "logEvent",
+            ],
+          },
+          {
+            target: "playerTurn",
+            actions: ["resumeClocks", "logEvent"],
           },
         ],
       },
     },
     gameEnding: {
       entry: assign(({ context }) => {
-        const finalScores: PlayerScore[] = context.players.map((player) => ({
-          playerId: player.id,
-          playerName: player.name,
-          finalScore: calculateHandScore(player.hand),
-          handCards: player.hand,
-        }))
+        const finalScores: PlayerScore[] = context.players.map((player) => {
+          const penaltyPoints = context.penaltyPoints[player.id] ?? 0
+          const hintsUsed = context.hintsUsed[player.id] ?? 0
+          const { total, breakdown } = scoreHand(
+            player.hand,
+            context.rules.scoringSystem,
+            context.gameEndReason === "player_won" && player.hand.length === 0
+          )
 
-        const winner = finalScores.reduce((lowest, current) =>
-          current.finalScore < lowest.finalScore ? current : lowest
+          return {
+            playerId: player.id,
+            playerName: player.name,
+            finalScore: total + penaltyPoints,
+            handCards: player.hand,
+            ...(penaltyPoints > 0 && { penaltyPoints }),
+            ...(hintsUsed > 0 && { hintsUsed }),
+            breakdown,
+          }
+        })
+
+        const { winners, tieBreak } = resolveWinners(
+          finalScores,
+          context.rules.tieBreakers,
+          context.lastPlayedBy
         )
 
         return {
           finalScores,
-          winner,
+          winners,
+          tieBreak,
+          teamScores: context.rules.teamPlay
+            ? getTeamScores(context.players, finalScores)
+            : [],
+          roundHistory: [
+            ...context.roundHistory,
+            {
+              roundNumber: context.roundNumber,
+              scores: finalScores,
+              winnerIds: winners.map((winner) => winner.playerId),
+              endReason: context.gameEndReason,
+            },
+          ],
+          matchTotals: addRoundToTotals(context.matchTotals, finalScores),
         }
       }),
       after: {
@@ -503,20 +1544,57 @@ export const cardGameMachine = createMachine({
     },
     gameOver: {
       on: {
+        // Deal the next round of the match to the same seats
+        NEXT_ROUND: {
+          target: "gameStarting",
+          guard: ({ context }) =>
+            !isMatchComplete(context) &&
+            context.players.length >= 2 &&
+            isTeamTableReady(context.rules, context.players.length),
+          actions: assign(({ context }) => ({
+            roundNumber: context.roundNumber + 1,
+            players: context.players.map((player) => ({
+              ...player,
+              hand: [],
+              isCurrentPlayer: false,
+            })),
+            discardPile: [],
+            selectedCards: [],
+            finalScores: [],
+            winners: [],
+            tieBreak: null,
+            teamScores: [],
+            gameEndReason: null,
+            autoPlayNotifications: [],
+          })),
+        },
         RESTART_GAME: {
           target: "lobby",
-          actions: assign(() => ({
+          // The table keeps its rules for the next game
+          actions: assign(({ context }) => ({
             ...initialContext,
+            rules: context.rules,
+            matchSettings: context.matchSettings,
             gameId: uuidv4(),
           })),
         },
         LEAVE_GAME: {
-          actions: assign({
-            players: ({ context, event }) =>
-              context.players.filter((player) => player.id !== event.playerId),
-          }),
+          actions: [
+            assign({
+              players: ({ context, event }) =>
+                context.players.filter(
+                  (player) => player.id !== event.playerId
+                ),
+            }),
+            "logEvent",
+          ],
         },
       },
     },
   },
+}).provide({
+  actions: systemClockImplementations.actions,
+  // Provided by name so a replay, which feeds in the logged plays and
+  // timeouts, can swap out the clock and the bots
+  actors: { ...systemClockImplementations.actors, botTurn },
 })
@@ -0,0 +1,80 @@
+import type { GameEvent } from "../types/game"
+import type { ClientMessage, ServerMessage } from "../types/protocol"
+
+// The subset of the WebSocket API the client needs; the browser WebSocket and
+// the `ws` package both satisfy it
+interface WebSocketLike {
+  readyState: number
+  send: (data: string) => void
+  close: () => void
+  onopen: ((event: unknown) => void) | null
+  onmessage: ((event: { data: unknown }) => void) | null
+  onclose: ((event: unknown) => void) | null
+  onerror: ((event: unknown) => void) | null
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike
+
+export interface GameClient {
+  ready: Promise<void>
+  join: (
+    gameId: string,
+    playerId: string,
+    playerName: string,
+    reconnectToken?: string
+  ) => void
+  spectate: (gameId: string, spectatorName: string) => void
+  send: (event: GameEvent) => void
+  onMessage: (listener: (message: ServerMessage) => void) => () => void
+  // Called once the connection is gone, whichever side ended it
+  onClose: (listener: () => void) => () => void
+  close: () => void
+}
+
+export const createGameClient = (
+  url: string,
+  WebSocketImpl: WebSocketConstructor = WebSocket as unknown as WebSocketConstructor
+): GameClient => {
+  const socket = new WebSocketImpl(url)
+  const listeners = new Set<(message: ServerMessage) => void>()
+  const closeListeners = new Set<() => void>()
+
+  const ready = new Promise<void>((resolve, reject) => {
+    socket.onopen = () => resolve()
+    socket.onerror = (error) => reject(error)
+  })
+
+  socket.onmessage = (event) => {
+    const message = JSON.parse(String(event.data)) as ServerMessage
+    listeners.forEach((listener) => listener(message))
+  }
+
+  socket.onclose = () => closeListeners.forEach((listener) => listener())
+
+  const sendMessage = (message: ClientMessage) =>
+    socket.send(JSON.stringify(message))
+
+  return {
+    ready,
+    join: (gameId, playerId, playerName, reconnectToken) =>
+      sendMessage({
+        type: "JOIN_GAME",
+        gameId,
+        playerId,
+        playerName,
+        reconnectToken,
+      }),
+    spectate: (gameId, spectatorName) =>
+      sendMessage({ type: "SPECTATE_GAME", gameId, spectatorName }),
+    send: (event) => sendMessage({ type: "GAME_EVENT", event }),
+    onMessage: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    onClose: (listener) => {
+      closeListeners.add(listener)
+      return () => closeListeners.delete(listener)
+    },
+    close: () => socket.close(),
+  }
+}
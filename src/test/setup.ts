@@ -1,24 +1,31 @@
 import "@testing-library/jest-dom"
-import { vi } from "vitest"
+import { afterEach, vi } from "vitest"
 
 // Mock UUID to make tests deterministic
 vi.mock("uuid", () => ({
   v4: vi.fn(() => "test-uuid-123"),
 }))
 
-// Mock window.matchMedia for responsive tests
-Object.defineProperty(window, "matchMedia", {
-  writable: true,
-  value: vi.fn().mockImplementation((query: string) => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: vi.fn(), // deprecated
-    removeListener: vi.fn(), // deprecated
-    addEventListener: vi.fn(),
-    removeEventListener: vi.fn(),
-    dispatchEvent: vi.fn(),
-  })),
+// Mock window.matchMedia for responsive tests (server tests run without a DOM)
+if (typeof window !== "undefined") {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: vi.fn(), // deprecated
+      removeListener: vi.fn(), // deprecated
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      dispatchEvent: vi.fn(),
+    })),
+  })
+}
+
+// Saved games must not leak from one test into the next
+afterEach(() => {
+  if (typeof window !== "undefined") window.localStorage.clear()
 })
 
 // Mock ResizeObserver
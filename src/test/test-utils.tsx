@@ -2,6 +2,7 @@ import type { ReactElement } from "react"
 import { render, type RenderOptions } from "@testing-library/react"
 import type { Card, Player, GameContext, CardValue } from "../types/game"
 import { vi } from "vitest"
+import { defaultGameRules } from "../utils/gameRules"
 
 // Custom render function that includes providers if needed
 const customRender = (
@@ -27,6 +28,7 @@ export const createMockCard = (overrides?: Partial<Card>): Card => {
     if (value === "J") return 11
     if (value === "Q") return 12
     if (value === "K") return 13
+    if (value === "Joker") return defaultGameRules.jokerPoints
     return parseInt(value, 10)
   }
 
@@ -44,6 +46,7 @@ export const createMockPlayer = (overrides?: Partial<Player>): Player => ({
     createMockCard({ id: "card-2", value: "8", suit: "spades" }),
   ],
   isCurrentPlayer: false,
+  kind: "human",
   ...overrides,
 })
 
@@ -68,11 +71,33 @@ export const createMockGameContext = (
   gameTimer: 180,
   selectedCards: [],
   gameId: "test-game-123",
+  seed: 12345,
+  reshuffleCount: 0,
+  rules: defaultGameRules,
+  matchSettings: { rounds: 1, pointLimit: null },
+  roundNumber: 1,
+  roundHistory: [],
+  matchTotals: [],
+  hasDrawnThisTurn: false,
+  lastPlayedBy: null,
   roundStartTime: new Date("2024-01-01T00:00:00Z"),
+  turnStartTime: null,
+  turnTimer: 0,
+  penaltyPoints: {},
+  hintsUsed: {},
+  turnDirection: 1,
+  powerEffect: null,
+  pendingInterrupt: null,
+  pausedFrom: null,
+  pausedAt: null,
+  undoSnapshot: null,
   finalScores: [],
-  winner: null,
+  winners: [],
+  tieBreak: null,
+  teamScores: [],
   autoPlayNotifications: [],
   gameEndReason: null,
+  eventLog: [],
   ...overrides,
 })
 
@@ -1,4 +1,5 @@
-export type Suit = "hearts" | "diamonds" | "clubs" | "spades"
+// Jokers have a suit and value of their own, so every card keeps both
+export type Suit = "hearts" | "diamonds" | "clubs" | "spades" | "joker"
 export type CardValue =
   | "A"
   | "2"
@@ -13,19 +14,27 @@ export type CardValue =
   | "J"
   | "Q"
   | "K"
+  | "Joker"
 
 export interface Card {
   id: string
   suit: Suit
   value: CardValue
   points: number
+  declaredValue?: CardValue // what a played joker stands for
 }
 
+export type PlayerKind = "human" | "bot"
+
+export type BotStrategyId = "random" | "greedy" | "lookahead"
+
 export interface Player {
   id: string
   name: string
   hand: Card[]
   isCurrentPlayer: boolean
+  kind: PlayerKind
+  botStrategy?: BotStrategyId // only set for bots
 }
 
 export interface PlayerScore {
@@ -33,15 +42,131 @@ export interface PlayerScore {
   playerName: string
   finalScore: number
   handCards: Card[]
+  penaltyPoints?: number // included in finalScore; only set when non-zero
+  hintsUsed?: number // hints asked for this round; only set when non-zero
+  breakdown?: ScoreLine[] // how the hand was scored; round scores only
+}
+
+// One line of a hand's score, e.g. the card points or a going-out bonus
+export interface ScoreLine {
+  label: string
+  points: number
+}
+
+export type ScoringSystemId =
+  | "classic"
+  | "face-tens"
+  | "spades-double"
+  | "going-out-bonus"
+
+export interface ScoringSystem {
+  id: ScoringSystemId
+  name: string
+  description: string
+  cardPoints: (card: Card) => number
+  // Lines added after the card points; wentOut is set for the player who
+  // emptied their hand to end the round
+  adjustments?: (hand: Card[], wentOut: boolean) => ScoreLine[]
 }
 
 export interface AutoPlayNotification {
   id: string
   playerId: string
   playerName: string
-  card: Card | null // null for auto-skip
+  card: Card | null // null for auto-skip and auto-draw (drawn card stays hidden)
   timestamp: Date
-  type: "auto-play" | "auto-skip"
+  type:
+    | "auto-play"
+    | "auto-skip"
+    | "auto-draw"
+    | "timeout"
+    | "undo"
+    | "interrupt"
+}
+
+// What happens when a player lets the shot clock run out
+export type TurnTimeoutPolicy = "auto-play" | "auto-skip" | "penalty"
+
+// Ways to split players tied on the lowest round score
+export type TieBreakerId = "fewest-cards" | "lowest-high-card" | "last-to-play"
+
+// How a tie for the lowest round score was settled
+export interface TieBreak {
+  tiedPlayerIds: string[]
+  decidedBy: TieBreakerId | null // null when the tied players share the win
+}
+
+// Table rules, picked in the lobby before START_GAME
+export interface GameRules {
+  roundDurationSeconds: number
+  turnDurationSeconds: number | null // shot clock per turn; null for none
+  turnTimeoutPolicy: TurnTimeoutPolicy
+  handSize: number // cards dealt to each player
+  maxPlayers: number
+  aceWrapsOnKing: boolean // an Ace may follow a King
+  allowSumPlays: boolean // e.g. 2+3 on a 5
+  forcedDrawBeforeSkip: boolean // a stuck player must draw before skipping
+  tieBreakers: TieBreakerId[] // applied in order; empty to share tied wins
+  scoringSystem: ScoringSystemId
+  allowUndo: boolean // a play can be taken back until the next player acts
+  spectatorsSeeHands: boolean // spectators see every hand, not just counts
+  powerCards: boolean // J skips, 8 reverses and 2 makes the next player draw two
+  jokers: number // wild jokers shuffled into the deck, 0 to 2
+  jokerPoints: number // what a joker left in hand scores
+  teamPlay: boolean // four players in two teams, partners sitting opposite
+  partnersSeeHands: boolean // team play only: partners see each other's hands
+  interrupts: boolean // a card matching the top may be played out of turn
+}
+
+export type PowerEffectType = "skip" | "reverse" | "draw-two"
+
+// What the power card left on top of the pile did, for the board to explain
+export interface PowerEffect {
+  type: PowerEffectType
+  card: Card
+  playerName: string // who played it
+  targetName: string | null // who was skipped or drew; null for a reverse
+  cardsDrawn: number // draw-two only; fewer than two when the piles run dry
+}
+
+// An out-of-turn play waiting for its contention window to close. The first
+// claim wins; anyone who claims after it is listed as beaten to it.
+export interface PendingInterrupt {
+  playerId: string
+  card: Card
+  contenderIds: string[]
+}
+
+export type GameRulesPresetId = "classic" | "blitz" | "no-wrap"
+
+export interface GameRulesPreset {
+  id: GameRulesPresetId
+  name: string
+  description: string
+  rules: GameRules
+}
+
+// How long a match runs: a fixed number of rounds, cut short as soon as any
+// player's running total reaches the point limit
+export interface MatchSettings {
+  rounds: number
+  pointLimit: number | null
+}
+
+// A team's share of a round. Partners sit opposite each other, so team 1 is
+// seats 1 and 3 and team 2 is seats 2 and 4.
+export interface TeamScore {
+  teamNumber: number
+  playerIds: string[]
+  playerNames: string[]
+  finalScore: number // the members' round scores added up
+}
+
+export interface RoundResult {
+  roundNumber: number
+  scores: PlayerScore[]
+  winnerIds: string[] // more than one when the win was shared
+  endReason: GameEndReason
 }
 
 export type GameEndReason =
@@ -59,32 +184,143 @@ export interface GameContext {
   gameTimer: number // seconds remaining
   selectedCards: Card[]
   gameId: string
+  seed: number | null // PRNG seed used to shuffle the deck
+  reshuffleCount: number // times the discard pile was reshuffled into the deck
+  rules: GameRules
+  matchSettings: MatchSettings
+  roundNumber: number // 1-based round within the match
+  roundHistory: RoundResult[]
+  matchTotals: PlayerScore[] // running totals, lowest leads
+  hasDrawnThisTurn: boolean
+  lastPlayedBy: string | null // who played the latest card this round
   roundStartTime: Date | null
+  turnStartTime: Date | null
+  turnTimer: number // seconds left on the shot clock
+  penaltyPoints: Record<string, number> // this round's timeout penalties
+  hintsUsed: Record<string, number> // this round's hints, by player
+  turnDirection: 1 | -1 // 1 goes up the seating order, -1 back down it
+  powerEffect: PowerEffect | null // what the latest play's power card did
+  pendingInterrupt: PendingInterrupt | null // set while a slam is contended
+  pausedFrom: Extract<GameState, "playerTurn" | "waitingForTurn"> | null
+  pausedAt: Date | null
+  undoSnapshot: UndoSnapshot | null // the table before the latest play
   finalScores: PlayerScore[]
-  winner: PlayerScore | null
+  winners: PlayerScore[] // lowest score, after tie-breakers
+  tieBreak: TieBreak | null // set when the lowest score was tied
+  teamScores: TeamScore[] // lowest first; empty without team play
   autoPlayNotifications: AutoPlayNotification[]
   gameEndReason: GameEndReason
+  eventLog: GameLogEntry[] // every accepted event since the lobby opened
+}
+
+// What UNDO puts back: the table as it was just before a play
+export interface UndoSnapshot {
+  playerId: string // only the player who made the play can take it back
+  logIndex: number // where the play sits in the event log
+  players: Player[]
+  discardPile: Card[]
+  deck: Card[]
+  reshuffleCount: number // a draw-two can reshuffle the discard pile
+  currentPlayerIndex: number
+  turnDirection: 1 | -1
+  hasDrawnThisTurn: boolean
+  lastPlayedBy: string | null
+}
+
+// One accepted event in the game log. START_GAME and NEXT_ROUND are logged
+// with the seed they were dealt with, so the log replays exactly.
+export interface GameLogEntry {
+  timestamp: Date
+  event: GameEvent
+}
+
+// A player as seen from one seat: only the viewer's own hand is revealed
+export interface PlayerView extends Player {
+  handCount: number
+  handHidden: boolean // hand is [] when hidden
+}
+
+// GameContext as seen from one seat (see projectContextForPlayer). Other
+// players' hands shrink to card counts, and the deck order, seed and event
+// log stay hidden until the round has been scored.
+export interface GameContextView
+  extends Omit<GameContext, "players" | "deck" | "undoSnapshot"> {
+  players: PlayerView[]
+  deckCount: number
+  undoableBy: string | null // who may UNDO right now, if anyone
+  viewerId: string | null // null for someone without a seat, or a spectator
+}
+
+// What a bot wants to do on its turn; the machine applies it through the
+// same guards as a human's PLAY_CARDS or SKIP_TURN
+export type BotDecision =
+  | { type: "PLAY_CARDS"; cards: Card[] }
+  | { type: "SKIP_TURN" }
+
+// A strategy only gets the bot's own seat's view, so it cannot read the other
+// hands, the deck order or the seed
+export interface BotStrategy {
+  id: BotStrategyId
+  name: string
+  description: string
+  decide: (
+    view: Readonly<GameContextView>,
+    playerId: string,
+    random: () => number
+  ) => BotDecision
 }
 
 export type GameEvent =
-  | { type: "PLAYER_JOIN"; playerId: string; playerName: string }
-  | { type: "START_GAME" }
+  | {
+      type: "PLAYER_JOIN"
+      playerId: string
+      playerName: string
+      kind?: PlayerKind
+      botStrategy?: BotStrategyId
+    }
+  | { type: "SET_RULES"; rules: Partial<GameRules> }
+  | { type: "SET_MATCH"; settings: Partial<MatchSettings> }
+  | { type: "START_GAME"; seed?: number }
   | { type: "CARDS_DEALT" }
   | { type: "CARD_SELECTED"; cardId: string; playerId: string }
   | { type: "CARD_DESELECTED"; cardId: string; playerId: string }
+  | {
+      type: "DECLARE_JOKER"
+      cardId: string
+      playerId: string
+      value: CardValue | null // null leaves the choice to the machine
+    }
   | { type: "PLAY_CARDS"; cards: Card[]; playerId: string }
-  | { type: "AUTO_PLAY"; card: Card; playerId: string }
+  | { type: "AUTO_PLAY"; card: Card; playerId: string; timedOut?: boolean }
+  | { type: "INTERRUPT"; card: Card; playerId: string }
+  | { type: "DRAW_CARD"; playerId: string }
+  | { type: "SKIP_TURN" }
   | { type: "TURN_COMPLETED"; nextPlayerId: string }
-  | { type: "TIMER_TICK"; remainingTime: number }
+  | { type: "ROUND_TIMEOUT" }
+  | { type: "TURN_TIMEOUT" }
   | { type: "END_GAME" }
+  | { type: "PAUSE" }
+  | { type: "RESUME" }
+  | { type: "UNDO"; playerId: string }
+  | { type: "REQUEST_HINT"; playerId: string }
   | { type: "SCORES_CALCULATED"; finalScores: PlayerScore[] }
+  | { type: "NEXT_ROUND"; seed?: number }
   | { type: "RESTART_GAME" }
   | { type: "LEAVE_GAME"; playerId: string }
 
+// Events the machine's own actors send it: the clock reporting the time and
+// a bot being prompted to act. They never come from a player and are not
+// logged; what they lead to (a timeout, a bot's play) is.
+export type InternalGameEvent =
+  | { type: "CLOCK_TICK"; now: number }
+  | { type: "BOT_TURN" }
+
 export type GameState =
   | "lobby"
   | "gameStarting"
   | "playerTurn"
   | "waitingForTurn"
+  | "interrupting"
+  | "paused"
   | "gameEnding"
   | "gameOver"
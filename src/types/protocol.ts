@@ -0,0 +1,30 @@
+import type { GameContextView, GameEvent, GameState } from "./game"
+
+// Messages a client sends to the multiplayer server
+export type ClientMessage =
+  | {
+      type: "JOIN_GAME"
+      gameId: string
+      playerId: string
+      playerName: string
+      reconnectToken?: string // from JOINED, to take the seat back later
+    }
+  | { type: "SPECTATE_GAME"; gameId: string; spectatorName: string }
+  | { type: "GAME_EVENT"; event: GameEvent }
+
+// Messages the server sends to its clients. Each player gets their own view
+// of the context, and spectators a read-only one; dates inside it arrive as
+// ISO strings because snapshots travel as JSON.
+export type ServerMessage =
+  | {
+      type: "SNAPSHOT"
+      gameId: string
+      state: GameState
+      context: GameContextView
+      spectators: string[] // names of everyone watching
+    }
+  // Sent only to the player who took the seat; whoever holds the token can
+  // sit back down after a dropped connection
+  | { type: "JOINED"; gameId: string; playerId: string; reconnectToken: string }
+  | { type: "EVENT_REJECTED"; event: GameEvent; reason: string }
+  | { type: "ERROR"; message: string }
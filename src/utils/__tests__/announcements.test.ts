@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest"
+import { getAnnouncements } from "../announcements"
+import type { AutoPlayNotification, GameContext } from "../../types/game"
+import {
+  createMockCard,
+  createMockGameContext,
+  createMockPlayer,
+} from "../../test/test-utils"
+
+const createContext = (overrides?: Partial<GameContext>) =>
+  createMockGameContext({
+    players: [
+      createMockPlayer({ id: "alice", name: "Alice", isCurrentPlayer: true }),
+      createMockPlayer({ id: "bob", name: "Bob" }),
+    ],
+    ...overrides,
+  })
+
+const notification = (
+  overrides: Partial<AutoPlayNotification>
+): AutoPlayNotification => ({
+  id: "notification-1",
+  playerId: "alice",
+  playerName: "Alice",
+  card: null,
+  timestamp: new Date(),
+  type: "auto-skip",
+  ...overrides,
+})
+
+describe("getAnnouncements", () => {
+  it("announces nothing for the first state seen", () => {
+    expect(
+      getAnnouncements(null, { state: "playerTurn", context: createContext() })
+    ).toEqual([])
+  })
+
+  it("announces nothing when only the clocks tick between warnings", () => {
+    const context = createContext()
+
+    expect(
+      getAnnouncements(
+        { state: "playerTurn", context },
+        { state: "playerTurn", context: { ...context, gameTimer: 170 } }
+      )
+    ).toEqual([])
+  })
+
+  it("announces whose turn it is when the turn passes", () => {
+    const context = createContext()
+
+    expect(
+      getAnnouncements(
+        { state: "waitingForTurn", context },
+        { state: "playerTurn", context: { ...context, currentPlayerIndex: 1 } }
+      )
+    ).toEqual(["Bob's turn"])
+  })
+
+  it("describes each new auto-play notification once", () => {
+    const seen = notification({ id: "old" })
+    const context = createContext({ autoPlayNotifications: [seen] })
+    const after = {
+      ...context,
+      autoPlayNotifications: [
+        seen,
+        notification({
+          id: "play",
+          type: "auto-play",
+          card: createMockCard({ value: "A", suit: "spades" }),
+        }),
+        notification({ id: "draw", playerName: "Bob", type: "auto-draw" }),
+        notification({ id: "timeout", playerName: "Bob", type: "timeout" }),
+        notification({ id: "undo", type: "undo" }),
+      ],
+    }
+
+    expect(
+      getAnnouncements(
+        { state: "playerTurn", context },
+        { state: "playerTurn", context: after }
+      )
+    ).toEqual([
+      "Alice auto-played Ace of spades",
+      "Bob had no valid moves and drew a card",
+      "Bob ran out of time",
+      "Alice took back their last play",
+    ])
+  })
+
+  it("describes a power card's effect once", () => {
+    const context = createContext()
+    const powerEffect = {
+      type: "skip" as const,
+      card: createMockCard({ id: "jack", value: "J", suit: "spades" }),
+      playerName: "Alice",
+      targetName: "Bob",
+      cardsDrawn: 0,
+    }
+    const skipped = { ...context, powerEffect }
+
+    expect(
+      getAnnouncements(
+        { state: "playerTurn", context },
+        { state: "waitingForTurn", context: skipped }
+      )
+    ).toEqual(["Alice's Jack of spades skipped Bob"])
+    expect(
+      getAnnouncements(
+        { state: "waitingForTurn", context: skipped },
+        {
+          state: "playerTurn",
+          context: { ...skipped, powerEffect: { ...powerEffect } },
+        }
+      )
+    ).not.toContain("Alice's Jack of spades skipped Bob")
+  })
+
+  it("warns once as the round clock crosses each mark", () => {
+    const context = createContext({ gameTimer: 61 })
+
+    expect(
+      getAnnouncements(
+        { state: "playerTurn", context },
+        { state: "playerTurn", context: { ...context, gameTimer: 60 } }
+      )
+    ).toEqual(["60 seconds left in the round"])
+    expect(
+      getAnnouncements(
+        { state: "playerTurn", context: { ...context, gameTimer: 60 } },
+        { state: "playerTurn", context: { ...context, gameTimer: 59 } }
+      )
+    ).toEqual([])
+  })
+
+  it("warns the current player when their shot clock is nearly out", () => {
+    const context = createContext({
+      rules: { ...createContext().rules, turnDurationSeconds: 20 },
+      turnTimer: 6,
+    })
+
+    expect(
+      getAnnouncements(
+        { state: "playerTurn", context },
+        { state: "playerTurn", context: { ...context, turnTimer: 5 } }
+      )
+    ).toEqual(["5 seconds left for Alice"])
+  })
+
+  it("announces a pause", () => {
+    const context = createContext()
+
+    expect(
+      getAnnouncements(
+        { state: "playerTurn", context },
+        { state: "paused", context }
+      )
+    ).toEqual(["Game paused"])
+  })
+
+  it("announces the winner, or the shared win, when the game ends", () => {
+    const context = createContext()
+    const score = (playerName: string, finalScore: number) => ({
+      playerId: playerName.toLowerCase(),
+      playerName,
+      finalScore,
+      handCards: [],
+    })
+
+    expect(
+      getAnnouncements(
+        { state: "gameEnding", context },
+        {
+          state: "gameOver",
+          context: { ...context, winners: [score("Alice", 1)] },
+        }
+      )
+    ).toEqual(["Game over. Alice wins with 1 point"])
+    expect(
+      getAnnouncements(
+        { state: "gameEnding", context },
+        {
+          state: "gameOver",
+          context: {
+            ...context,
+            matchSettings: { rounds: 3, pointLimit: null },
+            roundNumber: 2,
+            winners: [score("Alice", 12), score("Bob", 12)],
+          },
+        }
+      )
+    ).toEqual(["Round 2 over. Alice and Bob share the win with 12 points"])
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest"
+import {
+  botStrategies,
+  greedyBot,
+  lookaheadBot,
+  randomBot,
+} from "../botStrategies"
+import {
+  createCards,
+  createMockCard,
+  createMockGameContext,
+  createMockPlayer,
+} from "../../test/test-utils"
+import { projectContextForPlayer } from "../viewUtils"
+import type { Card } from "../../types/game"
+
+// What the machine hands a strategy: the bot's own seat's view
+const viewWithHand = (hand: Card[], topValue: Card["value"]) =>
+  projectContextForPlayer(
+    createMockGameContext({
+      players: [
+        createMockPlayer({
+          id: "bot",
+          kind: "bot",
+          hand,
+          isCurrentPlayer: true,
+        }),
+        createMockPlayer({ id: "other" }),
+      ],
+      discardPile: [createMockCard({ id: "top", value: topValue })],
+    }),
+    "bot"
+  )
+
+const playedIds = (decision: ReturnType<typeof randomBot.decide>) =>
+  decision.type === "PLAY_CARDS" ? decision.cards.map((c) => c.id) : []
+
+describe("botStrategies", () => {
+  it("registers every strategy by id", () => {
+    expect(Object.keys(botStrategies)).toEqual([
+      "random",
+      "greedy",
+      "lookahead",
+    ])
+    Object.entries(botStrategies).forEach(([id, strategy]) => {
+      expect(strategy.id).toBe(id)
+    })
+  })
+
+  it("skips when there is no legal play", () => {
+    const view = viewWithHand(createCards(["2", "K"]), "7")
+
+    Object.values(botStrategies).forEach((strategy) => {
+      expect(strategy.decide(view, "bot", () => 0)).toEqual({
+        type: "SKIP_TURN",
+      })
+    })
+  })
+
+  it("plays a sum combination when no single card is valid", () => {
+    const view = viewWithHand(createCards(["2", "3", "K"]), "5")
+
+    Object.values(botStrategies).forEach((strategy) => {
+      const decision = strategy.decide(view, "bot", () => 0)
+      expect(playedIds(decision)).toEqual(["card-0", "card-1"])
+    })
+  })
+
+  it("random bot picks plays using the random source", () => {
+    const hand = [
+      createMockCard({ id: "seven", value: "7" }),
+      createMockCard({ id: "eight", value: "8" }),
+    ]
+    const view = viewWithHand(hand, "7")
+
+    expect(playedIds(randomBot.decide(view, "bot", () => 0))).toEqual(["seven"])
+    expect(playedIds(randomBot.decide(view, "bot", () => 0.99))).not.toEqual([
+      "seven",
+    ])
+  })
+
+  it("greedy bot sheds the most points", () => {
+    const hand = [
+      createMockCard({ id: "seven", value: "7" }),
+      createMockCard({ id: "eight", value: "8" }),
+      createMockCard({ id: "two", value: "2" }),
+    ]
+    const view = viewWithHand(hand, "7")
+
+    expect(playedIds(greedyBot.decide(view, "bot", () => 0))).toEqual([
+      "seven",
+      "eight",
+    ])
+  })
+
+  it("lookahead bot keeps follow-up plays where greedy would not", () => {
+    // Dumping the K leaves nothing playable; 5+7 leaves both 8s live
+    const hand = [
+      createMockCard({ id: "king", value: "K" }),
+      createMockCard({ id: "five", value: "5" }),
+      createMockCard({ id: "seven", value: "7" }),
+      createMockCard({ id: "eight-1", value: "8" }),
+      createMockCard({ id: "eight-2", value: "8", suit: "spades" }),
+    ]
+    const view = viewWithHand(hand, "Q")
+
+    expect(playedIds(greedyBot.decide(view, "bot", () => 0))).toEqual(["king"])
+    expect(playedIds(lookaheadBot.decide(view, "bot", () => 0))).toEqual([
+      "five",
+      "seven",
+    ])
+  })
+
+  it("lookahead bot takes a play that empties its hand", () => {
+    const hand = [
+      createMockCard({ id: "two", value: "2" }),
+      createMockCard({ id: "three", value: "3" }),
+    ]
+    const view = viewWithHand(hand, "5")
+
+    expect(playedIds(lookaheadBot.decide(view, "bot", () => 0))).toEqual([
+      "two",
+      "three",
+    ])
+  })
+})
@@ -3,12 +3,26 @@ import {
   createDeck,
   dealCards,
   getCardNumericValue,
+  getCardName,
   canPlayCard,
   canPlayCards,
+  arrangePlay,
   getValidCards,
   calculateHandScore,
+  shuffleDeck,
+  canDrawCard,
+  drawCard,
+  reshuffleDiscardPile,
+  enumerateLegalPlays,
+  hasLegalPlay,
+  MAX_LEGAL_PLAYS,
+  declarePlay,
+  getJokerOptions,
+  getPlayedValue,
 } from '../cardUtils'
+import type { CardValue } from '../../types/game'
 import { createMockCard, createCards } from '../../test/test-utils'
+import { defaultGameRules } from '../gameRules'
 
 describe('cardUtils', () => {
   describe('createDeck', () => {
@@ -35,6 +49,44 @@ describe('cardUtils', () => {
       // Very unlikely to be identical if properly shuffled
       expect(deck1).not.toEqual(deck2)
     })
+
+    it('produces the same deal for the same seed', () => {
+      expect(createDeck(42)).toEqual(createDeck(42))
+    })
+
+    it('produces different deals for different seeds', () => {
+      expect(createDeck(42)).not.toEqual(createDeck(43))
+    })
+
+    it('gives every card a unique deterministic id', () => {
+      const deck = createDeck(7)
+      expect(new Set(deck.map(card => card.id)).size).toBe(52)
+      expect(deck.some(card => card.id === 'hearts-A')).toBe(true)
+    })
+
+    it('adds the table\'s jokers, scoring the table\'s penalty', () => {
+      const deck = createDeck(7, { ...defaultGameRules, jokers: 2, jokerPoints: 50 })
+      const jokers = deck.filter(card => card.value === 'Joker')
+
+      expect(deck).toHaveLength(54)
+      expect(jokers.map(card => card.id).sort()).toEqual(['joker-1', 'joker-2'])
+      expect(jokers.every(card => card.suit === 'joker' && card.points === 50)).toBe(true)
+    })
+  })
+
+  describe('shuffleDeck', () => {
+    it('uses the provided random source', () => {
+      const deck = createCards(['A', '2', '3', '4'])
+      // Always picking index 0 rotates the deck deterministically
+      const shuffled = shuffleDeck(deck, () => 0)
+      expect(shuffled.map(card => card.value)).toEqual(['2', '3', '4', 'A'])
+    })
+
+    it('does not mutate the original deck', () => {
+      const deck = createCards(['A', '2', '3'])
+      shuffleDeck(deck, () => 0.5)
+      expect(deck.map(card => card.value)).toEqual(['A', '2', '3'])
+    })
   })
 
   describe('dealCards', () => {
@@ -75,6 +127,17 @@ describe('cardUtils', () => {
     })
   })
 
+  describe('getCardName', () => {
+    it('spells out face cards and aces', () => {
+      expect(getCardName(createMockCard({ value: 'A', suit: 'hearts' }))).toBe('Ace of hearts')
+      expect(getCardName(createMockCard({ value: 'Q', suit: 'spades' }))).toBe('Queen of spades')
+    })
+
+    it('uses the number for number cards', () => {
+      expect(getCardName(createMockCard({ value: '10', suit: 'clubs' }))).toBe('10 of clubs')
+    })
+  })
+
   describe('canPlayCard', () => {
     const discardCard = createMockCard({ value: '7', suit: 'hearts' })
 
@@ -146,6 +209,71 @@ describe('cardUtils', () => {
     })
   })
 
+  describe('jokers', () => {
+    const joker = (declaredValue?: CardValue) =>
+      createMockCard({ id: 'joker-1', suit: 'joker', value: 'Joker', declaredValue })
+
+    it('is playable on anything until it is declared', () => {
+      const top = createMockCard({ value: '9' })
+      expect(canPlayCard(joker(), top)).toBe(true)
+      expect(canPlayCard(joker('10'), top)).toBe(true)
+      expect(canPlayCard(joker('3'), top)).toBe(false)
+    })
+
+    it('plays as its declared value once on the pile', () => {
+      const top = joker('5')
+      expect(getPlayedValue(top)).toBe('5')
+      expect(canPlayCard(createMockCard({ value: '6' }), top)).toBe(true)
+      expect(canPlayCard(createMockCard({ value: '7' }), top)).toBe(false)
+    })
+
+    it('lets anything follow a joker that starts the pile', () => {
+      expect(canPlayCard(createMockCard({ value: 'K' }), joker())).toBe(true)
+    })
+
+    it('validates a declared joker in combinations', () => {
+      const top = createMockCard({ value: '3' })
+      const four = createMockCard({ id: 'four', value: '4' })
+      const six = createMockCard({ id: 'six', value: '6' })
+
+      expect(canPlayCards([four, joker('5'), six], top)).toBe(true)
+      expect(canPlayCards([four, joker('9'), six], top)).toBe(false)
+      // 2 + a joker as 1 sums to the 3
+      expect(canPlayCards([createMockCard({ value: '2' }), joker('A')], top)).toBe(true)
+    })
+
+    it('declares an undeclared joker as the first value that makes the play legal', () => {
+      const top = createMockCard({ value: '3' })
+      const four = createMockCard({ id: 'four', value: '4' })
+      const six = createMockCard({ id: 'six', value: '6' })
+
+      expect(declarePlay([four, joker(), six], top)?.[1].declaredValue).toBe('5')
+      expect(arrangePlay([six, joker(), four], top).map(getPlayedValue)).toEqual(['4', '5', '6'])
+      expect(declarePlay([createMockCard({ value: 'K' }), joker()], top)).toBeNull()
+    })
+
+    it('offers only the values that keep the selection legal', () => {
+      const top = createMockCard({ value: '3' })
+      const four = createMockCard({ id: 'four', value: '4' })
+
+      expect(getJokerOptions([joker()], joker(), top)).toEqual(['3', '4'])
+      expect(getJokerOptions([four, joker()], joker(), top)).toEqual(['3', '4', '5'])
+    })
+
+    it('enumerates plays with a joker already declared', () => {
+      const top = createMockCard({ value: '3' })
+      const plays = enumerateLegalPlays([joker(), createMockCard({ id: 'five', value: '5' })], top)
+
+      expect(plays.map(play => play.map(getPlayedValue))).toContainEqual(['4', '5'])
+      expect(plays.flat().filter(card => card.value === 'Joker').every(card => card.declaredValue)).toBe(true)
+    })
+
+    it('goes back into the deck undeclared', () => {
+      const { deck } = reshuffleDiscardPile([joker('5'), createMockCard({ value: '6' })])
+      expect(deck[0]).toEqual(joker())
+    })
+  })
+
   describe('getValidCards', () => {
     const hand = createCards(['7', '8', '5', 'Q', 'A'])
     const discardCard = createMockCard({ value: '7', suit: 'hearts' })
@@ -164,6 +292,103 @@ describe('cardUtils', () => {
     })
   })
 
+  describe('enumerateLegalPlays', () => {
+    const describePlays = (plays: ReturnType<typeof enumerateLegalPlays>) =>
+      plays.map(play => play.map(card => card.value).join('+'))
+
+    it('finds single, set and sum plays', () => {
+      const hand = createCards(['5', '5', '2', '3', '9'])
+      const plays = describePlays(
+        enumerateLegalPlays(hand, createMockCard({ value: '5' }))
+      )
+
+      expect(plays).toEqual(['5', '5', '5+5', '2+3'])
+    })
+
+    it('finds sum combinations when no single card is valid', () => {
+      const hand = createCards(['2', '3', '4', 'K'])
+      const plays = describePlays(
+        enumerateLegalPlays(hand, createMockCard({ value: '9' }))
+      )
+
+      expect(plays).toEqual(['2+3+4'])
+      expect(getValidCards(hand, createMockCard({ value: '9' }))).toEqual([])
+    })
+
+    it('combines individually valid cards of different values', () => {
+      const hand = createCards(['7', '8'])
+      const plays = describePlays(
+        enumerateLegalPlays(hand, createMockCard({ value: '7' }))
+      )
+
+      expect(plays).toEqual(['7', '8', '7+8'])
+    })
+
+    it('only returns plays canPlayCards accepts', () => {
+      const top = createMockCard({ value: 'K' })
+      const hand = createCards(['A', 'Q', '6', '7', 'K', '3'])
+
+      enumerateLegalPlays(hand, top).forEach(play => {
+        expect(canPlayCards(play, top)).toBe(true)
+      })
+    })
+
+    it('returns nothing for a stuck hand', () => {
+      const hand = createCards(['2', 'K'])
+      const top = createMockCard({ value: '7' })
+
+      expect(enumerateLegalPlays(hand, top)).toEqual([])
+      expect(hasLegalPlay(hand, top)).toBe(false)
+    })
+
+    it('finds a sum play when no single card is playable', () => {
+      const top = createMockCard({ value: '9' })
+
+      expect(hasLegalPlay(createCards(['2', '3', '4', 'K']), top)).toBe(true)
+      expect(hasLegalPlay(createCards(['2', '3', 'K']), top)).toBe(false)
+    })
+
+    it('stops listing plays from a big hand on an undeclared joker', () => {
+      const top = createMockCard({ suit: 'joker', value: 'Joker', points: 25 })
+      const hand = createCards(['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'])
+        .flatMap(card => [card, { ...card, id: `${card.id}-twin` }])
+
+      const plays = enumerateLegalPlays(hand, top)
+
+      expect(hasLegalPlay(hand, top)).toBe(true)
+      expect(plays).toHaveLength(MAX_LEGAL_PLAYS)
+      expect(plays.filter(play => play.length === 1)).toHaveLength(hand.length)
+    })
+  })
+
+  describe('table rules', () => {
+    const king = createMockCard({ value: 'K' })
+    const ace = createMockCard({ value: 'A' })
+
+    it('stops an Ace following a King without wrapping', () => {
+      const noWrap = { ...defaultGameRules, aceWrapsOnKing: false }
+
+      expect(canPlayCard(ace, king)).toBe(true)
+      expect(canPlayCard(ace, king, noWrap)).toBe(false)
+      expect(getValidCards([ace], king, noWrap)).toEqual([])
+    })
+
+    it('rejects sum plays when they are turned off', () => {
+      const noSums = { ...defaultGameRules, allowSumPlays: false }
+      const hand = createCards(['2', '3'])
+      const five = createMockCard({ value: '5' })
+
+      expect(canPlayCards(hand, five, noSums)).toBe(false)
+      expect(enumerateLegalPlays(hand, five, noSums)).toEqual([])
+      expect(hasLegalPlay(hand, five)).toBe(true)
+    })
+
+    it('deals the configured hand size', () => {
+      const { playerHands } = dealCards(createDeck(1), 2, 5)
+      expect(playerHands.map(hand => hand.length)).toEqual([5, 5])
+    })
+  })
+
   describe('calculateHandScore', () => {
     it('calculates correct score for mixed hand', () => {
       const hand = createCards(['A', '5', 'J', 'Q', 'K'])
@@ -175,10 +400,57 @@ describe('cardUtils', () => {
       expect(calculateHandScore([])).toBe(0)
     })
 
+    it('counts a joker left in hand at its penalty', () => {
+      const joker = createMockCard({ suit: 'joker', value: 'Joker', points: 50 })
+      expect(calculateHandScore([joker, ...createCards(['3'])])).toBe(53)
+    })
+
     it('calculates score for all face cards', () => {
       const hand = createCards(['A', 'J', 'Q', 'K'])
       const score = calculateHandScore(hand)
       expect(score).toBe(1 + 11 + 12 + 13) // 37
     })
   })
+
+  describe('drawing', () => {
+    it('draws the top card of the deck', () => {
+      const deck = createCards(['2', '3'])
+      const pile = createCards(['9'])
+      const result = drawCard(deck, pile)
+
+      expect(result.card?.value).toBe('2')
+      expect(result.deck).toHaveLength(1)
+      expect(result.discardPile).toBe(pile)
+      expect(result.reshuffled).toBe(false)
+    })
+
+    it('reshuffles the discard pile but keeps the top card', () => {
+      const pile = createCards(['4', '5', '6'])
+      const result = drawCard([], pile, () => 0)
+
+      expect(result.reshuffled).toBe(true)
+      expect(result.card).not.toBeNull()
+      expect(result.deck).toHaveLength(1)
+      expect(result.discardPile).toEqual([pile[2]])
+    })
+
+    it('returns no card when nothing can be drawn', () => {
+      const pile = createCards(['4'])
+      const result = drawCard([], pile)
+
+      expect(result.card).toBeNull()
+      expect(result.discardPile).toEqual(pile)
+    })
+
+    it('leaves a single-card discard pile alone when reshuffling', () => {
+      const pile = createCards(['8'])
+      expect(reshuffleDiscardPile(pile)).toEqual({ deck: [], discardPile: pile })
+    })
+
+    it('knows when a card can be drawn', () => {
+      expect(canDrawCard(createCards(['2']), [])).toBe(true)
+      expect(canDrawCard([], createCards(['2', '3']))).toBe(true)
+      expect(canDrawCard([], createCards(['2']))).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest"
+import {
+  areGameRulesValid,
+  defaultGameRules,
+  findGameRulesPreset,
+  formatRoundDuration,
+  gameRulePresets,
+  MAX_HAND_SIZE,
+} from "../gameRules"
+
+describe("gameRules", () => {
+  it("uses the classic rules by default", () => {
+    expect(defaultGameRules).toEqual({
+      roundDurationSeconds: 180,
+      turnDurationSeconds: null,
+      turnTimeoutPolicy: "auto-play",
+      handSize: 7,
+      maxPlayers: 4,
+      aceWrapsOnKing: true,
+      allowSumPlays: true,
+      forcedDrawBeforeSkip: false,
+      tieBreakers: ["fewest-cards", "lowest-high-card", "last-to-play"],
+      scoringSystem: "classic",
+      allowUndo: false,
+      spectatorsSeeHands: false,
+      powerCards: false,
+      jokers: 0,
+      jokerPoints: 25,
+      teamPlay: false,
+      partnersSeeHands: false,
+      interrupts: false,
+    })
+    expect(gameRulePresets.classic.rules).toBe(defaultGameRules)
+  })
+
+  it("provides blitz and no-wrap presets", () => {
+    expect(gameRulePresets.blitz.rules.roundDurationSeconds).toBe(60)
+    expect(gameRulePresets["no-wrap"].rules.aceWrapsOnKing).toBe(false)
+  })
+
+  it("finds the preset matching a set of rules", () => {
+    expect(findGameRulesPreset({ ...defaultGameRules })?.id).toBe("classic")
+    expect(
+      findGameRulesPreset({ ...defaultGameRules, roundDurationSeconds: 60 })?.id
+    ).toBe("blitz")
+    expect(
+      findGameRulesPreset({ ...defaultGameRules, handSize: 5 })
+    ).toBeUndefined()
+  })
+
+  it("compares tie-breaker orders by their contents", () => {
+    const copied = JSON.parse(JSON.stringify(defaultGameRules))
+
+    expect(findGameRulesPreset(copied)?.id).toBe("classic")
+    expect(
+      findGameRulesPreset({
+        ...defaultGameRules,
+        tieBreakers: ["last-to-play"],
+      })
+    ).toBeUndefined()
+  })
+
+  it("rejects rules the deck cannot deal", () => {
+    expect(areGameRulesValid(defaultGameRules)).toBe(true)
+    expect(areGameRulesValid({ ...defaultGameRules, handSize: 13 })).toBe(false)
+    expect(areGameRulesValid({ ...defaultGameRules, handSize: 0 })).toBe(false)
+    expect(areGameRulesValid({ ...defaultGameRules, maxPlayers: 1 })).toBe(
+      false
+    )
+    expect(
+      areGameRulesValid({ ...defaultGameRules, roundDurationSeconds: -5 })
+    ).toBe(false)
+  })
+
+  it("caps the hand size even when the deck could deal more", () => {
+    const twoSeats = { ...defaultGameRules, maxPlayers: 2 }
+
+    expect(areGameRulesValid({ ...twoSeats, handSize: MAX_HAND_SIZE })).toBe(
+      true
+    )
+    expect(areGameRulesValid({ ...twoSeats, handSize: 25 })).toBe(false)
+  })
+
+  it("allows up to two jokers, which count towards the deal", () => {
+    const fullTable = { ...defaultGameRules, handSize: 13, maxPlayers: 4 }
+
+    expect(areGameRulesValid({ ...fullTable, jokers: 1 })).toBe(true)
+    expect(areGameRulesValid({ ...defaultGameRules, jokers: 3 })).toBe(false)
+    expect(areGameRulesValid({ ...defaultGameRules, jokerPoints: -1 })).toBe(
+      false
+    )
+  })
+
+  it("only allows team play at a four-seat table", () => {
+    expect(areGameRulesValid({ ...defaultGameRules, teamPlay: true })).toBe(
+      true
+    )
+    expect(
+      areGameRulesValid({ ...defaultGameRules, teamPlay: true, maxPlayers: 3 })
+    ).toBe(false)
+  })
+
+  it("accepts a shot clock of whole seconds with a known policy", () => {
+    expect(
+      areGameRulesValid({
+        ...defaultGameRules,
+        turnDurationSeconds: 10,
+        turnTimeoutPolicy: "penalty",
+      })
+    ).toBe(true)
+    expect(
+      areGameRulesValid({ ...defaultGameRules, turnDurationSeconds: 0 })
+    ).toBe(false)
+    expect(
+      areGameRulesValid({ ...defaultGameRules, turnDurationSeconds: 2.5 })
+    ).toBe(false)
+    expect(
+      areGameRulesValid({
+        ...defaultGameRules,
+        turnTimeoutPolicy: "forfeit" as never,
+      })
+    ).toBe(false)
+  })
+
+  it("accepts only known scoring systems", () => {
+    expect(
+      areGameRulesValid({ ...defaultGameRules, scoringSystem: "spades-double" })
+    ).toBe(true)
+    expect(
+      areGameRulesValid({ ...defaultGameRules, scoringSystem: "golf" as never })
+    ).toBe(false)
+  })
+
+  it("accepts each known tie-breaker at most once", () => {
+    expect(areGameRulesValid({ ...defaultGameRules, tieBreakers: [] })).toBe(
+      true
+    )
+    expect(
+      areGameRulesValid({
+        ...defaultGameRules,
+        tieBreakers: ["last-to-play", "last-to-play"],
+      })
+    ).toBe(false)
+    expect(
+      areGameRulesValid({
+        ...defaultGameRules,
+        tieBreakers: ["coin-toss" as never],
+      })
+    ).toBe(false)
+  })
+
+  it("formats round durations", () => {
+    expect(formatRoundDuration(180)).toBe("3 minutes")
+    expect(formatRoundDuration(60)).toBe("1 minute")
+    expect(formatRoundDuration(90)).toBe("90 seconds")
+  })
+})
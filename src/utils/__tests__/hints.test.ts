@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest"
+import { getHint, rankPlays } from "../hints"
+import { defaultGameRules } from "../gameRules"
+import { createMockCard } from "../../test/test-utils"
+import type { Card, CardValue, Suit } from "../../types/game"
+
+const card = (value: CardValue, suit: Suit): Card =>
+  createMockCard({ id: `${suit}-${value}`, value, suit })
+
+describe("hints", () => {
+  it("prefers the play that sheds the most points", () => {
+    const hint = getHint(
+      [card("2", "hearts"), card("3", "diamonds"), card("6", "hearts")],
+      [card("5", "clubs")]
+    )
+
+    expect(hint?.cards.map((c) => c.id)).toEqual(["hearts-6"])
+    expect(hint?.pointsShed).toBe(6)
+  })
+
+  it("explains a sum play and puts the card opponents can least follow last", () => {
+    const hint = getHint(
+      [card("2", "hearts"), card("3", "diamonds"), card("9", "spades")],
+      [card("5", "clubs")]
+    )
+
+    // Three unseen 2s and three unseen 3s can follow a 2; a 3 leaves seven
+    expect(hint?.cards.map((c) => c.id)).toEqual(["diamonds-3", "hearts-2"])
+    expect(hint?.followers).toBe(6)
+    expect(hint?.explanation).toBe(
+      "Play 3+2 as a sum to shed 5 points and leave the 2 of hearts on top (play it last); only 6 unseen cards can follow it."
+    )
+  })
+
+  it("breaks ties in points on how few unseen cards can follow", () => {
+    const rules = { ...defaultGameRules, scoringSystem: "face-tens" as const }
+    const plays = rankPlays(
+      [card("J", "hearts"), card("Q", "spades"), card("2", "clubs")],
+      [card("J", "clubs")],
+      rules
+    )
+
+    // J-Q is a run, so the Queen lands on top whatever the order
+    expect(plays.map((play) => play.cards.map((c) => c.value))).toEqual([
+      ["J", "Q"],
+      ["J"],
+      ["Q"],
+    ])
+    expect(plays.map((play) => play.followers)).toEqual([7, 5, 7])
+  })
+
+  it("explains a run in run order", () => {
+    const hint = getHint(
+      [card("6", "hearts"), card("4", "diamonds"), card("5", "spades")],
+      [card("3", "clubs")]
+    )
+
+    expect(hint?.cards.map((c) => c.value)).toEqual(["4", "5", "6"])
+    expect(hint?.explanation).toMatch(/^Play 4-5-6 as a run to empty your hand/)
+  })
+
+  it("calls out a play that wins the round", () => {
+    const hint = getHint(
+      [card("6", "hearts"), card("6", "spades")],
+      [card("5", "clubs")]
+    )
+
+    expect(hint?.winsRound).toBe(true)
+    expect(hint?.explanation).toBe(
+      "Play both 6s to empty your hand and win the round."
+    )
+  })
+
+  it("only counts cards the player cannot see", () => {
+    // Every 7 and 8 is in the hand or on the pile
+    const hint = getHint(
+      [card("7", "hearts"), card("7", "diamonds"), card("K", "spades")],
+      [
+        card("8", "hearts"),
+        card("8", "diamonds"),
+        card("8", "clubs"),
+        card("8", "spades"),
+        card("7", "spades"),
+        card("7", "clubs"),
+      ]
+    )
+
+    expect(hint?.followers).toBe(0)
+    expect(hint?.explanation).toMatch(/no unseen card can follow it\.$/)
+  })
+
+  it("counts the table's jokers not yet seen as followers", () => {
+    const playedJoker = createMockCard({
+      id: "joker-1",
+      suit: "joker",
+      value: "Joker",
+      declaredValue: "6",
+    })
+    const hint = getHint(
+      [card("7", "hearts"), card("7", "diamonds"), card("K", "spades")],
+      [
+        playedJoker,
+        card("8", "hearts"),
+        card("8", "diamonds"),
+        card("8", "clubs"),
+        card("8", "spades"),
+        card("7", "spades"),
+        card("7", "clubs"),
+      ],
+      { ...defaultGameRules, jokers: 2 }
+    )
+
+    // Only the other joker is left to follow a 7
+    expect(hint?.followers).toBe(1)
+  })
+
+  it("has nothing to suggest without a legal play", () => {
+    expect(getHint([card("K", "spades")], [card("5", "clubs")])).toBeNull()
+    expect(getHint([card("K", "spades")], [])).toBeNull()
+  })
+})
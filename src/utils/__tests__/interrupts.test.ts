@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest"
+import { canInterrupt, getInterruptCards } from "../interrupts"
+import {
+  createMockCard,
+  createMockGameContext,
+  createMockPlayer,
+} from "../../test/test-utils"
+
+// Player 1 is to move on the 6 of clubs; player 2 holds a 6, a 7 and a joker
+const createContext = (interrupts = true) => {
+  const context = createMockGameContext({
+    players: [
+      createMockPlayer({
+        id: "player-1",
+        hand: [createMockCard({ id: "p1-6", value: "6" })],
+        isCurrentPlayer: true,
+      }),
+      createMockPlayer({
+        id: "player-2",
+        hand: [
+          createMockCard({ id: "p2-6", value: "6", suit: "spades" }),
+          createMockCard({ id: "p2-7", value: "7" }),
+          createMockCard({ id: "joker-1", suit: "joker", value: "Joker" }),
+        ],
+      }),
+    ],
+  })
+  return { ...context, rules: { ...context.rules, interrupts } }
+}
+
+describe("interrupts", () => {
+  it("lets a player waiting their turn slam an exact match", () => {
+    const context = createContext()
+
+    expect(canInterrupt(context, "player-2", "p2-6")).toBe(true)
+    expect(canInterrupt(context, "player-2", "p2-7")).toBe(false)
+    expect(canInterrupt(context, "player-2", "joker-1")).toBe(false)
+    expect(
+      getInterruptCards(context, "player-2").map((card) => card.id)
+    ).toEqual(["p2-6"])
+  })
+
+  it("never lets the player to move, or a card not in hand, interrupt", () => {
+    const context = createContext()
+
+    expect(canInterrupt(context, "player-1", "p1-6")).toBe(false)
+    expect(canInterrupt(context, "player-2", "p1-6")).toBe(false)
+    expect(canInterrupt(context, "nobody", "p2-6")).toBe(false)
+  })
+
+  it("matches a joker on top by the value it was declared as", () => {
+    const context = {
+      ...createContext(),
+      discardPile: [
+        createMockCard({
+          id: "joker-2",
+          suit: "joker",
+          value: "Joker",
+          declaredValue: "7",
+        }),
+      ],
+    }
+
+    expect(
+      getInterruptCards(context, "player-2").map((card) => card.id)
+    ).toEqual(["p2-7"])
+  })
+
+  it("allows nothing out of turn unless the table plays with interrupts", () => {
+    expect(getInterruptCards(createContext(false), "player-2")).toEqual([])
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest"
+import {
+  KEY_BINDINGS_KEY,
+  defaultKeyBindings,
+  findKeyAction,
+  formatKeyCode,
+  getCardIndexForKey,
+  loadKeyBindings,
+  rebindKey,
+  saveKeyBindings,
+} from "../keyBindings"
+import type { GameStorage } from "../savedGame"
+
+const createStorage = (): GameStorage => {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+describe("keyBindings", () => {
+  it("finds the action bound to a key", () => {
+    expect(findKeyAction(defaultKeyBindings, "Space")).toBe("play")
+    expect(findKeyAction(defaultKeyBindings, "ArrowRight")).toBe("focusNext")
+    expect(findKeyAction(defaultKeyBindings, "KeyZ")).toBeUndefined()
+  })
+
+  it("maps number keys to cards in the hand", () => {
+    expect(getCardIndexForKey("Digit1")).toBe(0)
+    expect(getCardIndexForKey("Digit9")).toBe(8)
+    expect(getCardIndexForKey("Digit0")).toBeNull()
+    expect(getCardIndexForKey("KeyA")).toBeNull()
+  })
+
+  it("swaps keys so no key does two things", () => {
+    const bindings = rebindKey(defaultKeyBindings, "skip", "KeyP")
+
+    expect(bindings.skip).toBe("KeyP")
+    expect(bindings.pause).toBe("KeyS")
+    expect(rebindKey(defaultKeyBindings, "play", "KeyX").play).toBe("KeyX")
+  })
+
+  it("keeps number keys for jumping to cards", () => {
+    expect(rebindKey(defaultKeyBindings, "play", "Digit3")).toBe(
+      defaultKeyBindings
+    )
+  })
+
+  it("names keys the way they are printed", () => {
+    expect(formatKeyCode("KeyP")).toBe("P")
+    expect(formatKeyCode("Digit4")).toBe("4")
+    expect(formatKeyCode("ArrowLeft")).toBe("←")
+    expect(formatKeyCode("Escape")).toBe("Esc")
+    expect(formatKeyCode("Space")).toBe("Space")
+  })
+
+  it("saves and loads remapped keys", () => {
+    const storage = createStorage()
+    const bindings = rebindKey(defaultKeyBindings, "play", "KeyX")
+
+    saveKeyBindings(storage, bindings)
+
+    expect(loadKeyBindings(storage)).toEqual(bindings)
+  })
+
+  it("falls back to the defaults for missing or unusable bindings", () => {
+    const storage = createStorage()
+    expect(loadKeyBindings(storage)).toEqual(defaultKeyBindings)
+
+    storage.setItem(KEY_BINDINGS_KEY, "{broken")
+    expect(loadKeyBindings(storage)).toEqual(defaultKeyBindings)
+
+    storage.setItem(KEY_BINDINGS_KEY, JSON.stringify({ play: 5, skip: "KeyK" }))
+    expect(loadKeyBindings(storage)).toEqual({
+      ...defaultKeyBindings,
+      skip: "KeyK",
+    })
+
+    storage.setItem(KEY_BINDINGS_KEY, JSON.stringify({ skip: "Space" }))
+    expect(loadKeyBindings(storage)).toEqual(defaultKeyBindings)
+  })
+})
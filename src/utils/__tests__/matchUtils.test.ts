@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest"
+import {
+  addRoundToTotals,
+  areMatchSettingsValid,
+  defaultMatchSettings,
+  getFirstPlayerIndex,
+  getMatchStandings,
+  isMatchComplete,
+  isMultiRoundMatch,
+} from "../matchUtils"
+import type { PlayerScore } from "../../types/game"
+
+const score = (playerId: string, finalScore: number): PlayerScore => ({
+  playerId,
+  playerName: playerId,
+  finalScore,
+  handCards: [],
+})
+
+describe("matchUtils", () => {
+  it("plays a single round by default", () => {
+    expect(defaultMatchSettings).toEqual({ rounds: 1, pointLimit: null })
+    expect(isMultiRoundMatch(defaultMatchSettings)).toBe(false)
+    expect(isMultiRoundMatch({ rounds: 3, pointLimit: null })).toBe(true)
+    expect(isMultiRoundMatch({ rounds: 1, pointLimit: 50 })).toBe(true)
+  })
+
+  it("rejects settings that cannot be played", () => {
+    expect(areMatchSettingsValid({ rounds: 3, pointLimit: 100 })).toBe(true)
+    expect(areMatchSettingsValid({ rounds: 0, pointLimit: null })).toBe(false)
+    expect(areMatchSettingsValid({ rounds: 1.5, pointLimit: null })).toBe(false)
+    expect(areMatchSettingsValid({ rounds: 3, pointLimit: 0 })).toBe(false)
+  })
+
+  it("rotates the first player every round", () => {
+    expect(getFirstPlayerIndex(1, 3)).toBe(0)
+    expect(getFirstPlayerIndex(2, 3)).toBe(1)
+    expect(getFirstPlayerIndex(4, 3)).toBe(0)
+    expect(getFirstPlayerIndex(1, 0)).toBe(0)
+  })
+
+  it("adds round scores to the running totals", () => {
+    const totals = addRoundToTotals([], [score("a", 5), score("b", 12)])
+    const updated = addRoundToTotals(totals, [score("a", 3), score("b", 0)])
+
+    expect(totals.map((total) => total.finalScore)).toEqual([5, 12])
+    expect(updated.map((total) => total.finalScore)).toEqual([8, 12])
+  })
+
+  it("orders standings from lowest total", () => {
+    const standings = getMatchStandings([score("a", 20), score("b", 4)])
+
+    expect(standings.map((total) => total.playerId)).toEqual(["b", "a"])
+  })
+
+  it("completes after the last round or at the point limit", () => {
+    const round = {
+      roundNumber: 1,
+      scores: [],
+      winnerIds: [],
+      endReason: null,
+    }
+
+    expect(
+      isMatchComplete({
+        matchSettings: { rounds: 2, pointLimit: null },
+        roundHistory: [round],
+        matchTotals: [score("a", 90)],
+      })
+    ).toBe(false)
+    expect(
+      isMatchComplete({
+        matchSettings: { rounds: 2, pointLimit: null },
+        roundHistory: [round, { ...round, roundNumber: 2 }],
+        matchTotals: [score("a", 90)],
+      })
+    ).toBe(true)
+    expect(
+      isMatchComplete({
+        matchSettings: { rounds: 20, pointLimit: 100 },
+        roundHistory: [round],
+        matchTotals: [score("a", 100)],
+      })
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { createActor } from "xstate"
+import { cardGameMachine } from "../../machines/cardGameMachine"
+import type { GameContext } from "../../types/game"
+import {
+  buildReplay,
+  canReplay,
+  describeLogEntry,
+  isReplayMove,
+} from "../replay"
+import { createMockCard, createMockGameContext } from "../../test/test-utils"
+
+// Let two bots play a short game to the end. Stuck bots draw, so the game
+// does not end before either of them has played.
+const playBotGame = (): GameContext => {
+  const actor = createActor(cardGameMachine)
+  actor.start()
+  actor.send({
+    type: "SET_RULES",
+    rules: { handSize: 3, forcedDrawBeforeSkip: true },
+  })
+  ;["bot-1", "bot-2"].forEach((playerId) =>
+    actor.send({
+      type: "PLAYER_JOIN",
+      playerId,
+      playerName: playerId,
+      kind: "bot",
+      botStrategy: "greedy",
+    })
+  )
+  actor.send({ type: "START_GAME" })
+
+  for (let second = 1; second <= 120; second++) {
+    if (actor.getSnapshot().value === "gameOver") break
+    vi.advanceTimersByTime(1000)
+  }
+  vi.advanceTimersByTime(3000)
+
+  const { context } = actor.getSnapshot()
+  actor.stop()
+  return context
+}
+
+describe("replay", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("rebuilds the game exactly from its log", () => {
+    const context = playBotGame()
+    const steps = buildReplay(context.eventLog, context)
+    const last = steps[steps.length - 1]
+
+    expect(steps).toHaveLength(context.eventLog.length + 1)
+    expect(last.context.discardPile).toEqual(context.discardPile)
+    expect(last.context.players.map((player) => player.hand)).toEqual(
+      context.players.map((player) => player.hand)
+    )
+    expect(last.context.seed).toBe(context.seed)
+  })
+
+  it("starts from the empty lobby with the table's rules", () => {
+    const context = playBotGame()
+    const [first] = buildReplay(context.eventLog, context)
+
+    expect(first.entry).toBeNull()
+    expect(first.state).toBe("lobby")
+    expect(first.context.players).toEqual([])
+    expect(first.context.rules.handSize).toBe(3)
+  })
+
+  it("skips selections when stepping through moves", () => {
+    const context = playBotGame()
+    const steps = buildReplay(context.eventLog, context)
+    const selection = {
+      ...steps[1],
+      entry: {
+        timestamp: new Date(),
+        event: {
+          type: "CARD_SELECTED" as const,
+          playerId: "bot-1",
+          cardId: "card-1",
+        },
+      },
+    }
+
+    expect(isReplayMove(selection)).toBe(false)
+    expect(
+      steps
+        .filter(isReplayMove)
+        .some((step) => step.entry?.event.type === "PLAY_CARDS")
+    ).toBe(true)
+  })
+
+  it("replays a round that ran out of time", () => {
+    const actor = createActor(cardGameMachine)
+    actor.start()
+    ;["alice", "bob"].forEach((playerId) =>
+      actor.send({ type: "PLAYER_JOIN", playerId, playerName: playerId })
+    )
+    actor.send({ type: "START_GAME", seed: 3 })
+    const duration = actor.getSnapshot().context.rules.roundDurationSeconds
+    vi.advanceTimersByTime(1000 + duration * 1000 + 250)
+    const { context } = actor.getSnapshot()
+    actor.stop()
+
+    const last = buildReplay(context.eventLog, context).at(-1)
+
+    expect(context.eventLog.at(-1)?.event.type).toBe("ROUND_TIMEOUT")
+    expect(last?.state).toBe("gameEnding")
+    expect(last?.context.gameEndReason).toBe("timer_expired")
+  })
+
+  it("replays shot clock timeouts from the log", () => {
+    const actor = createActor(cardGameMachine)
+    actor.start()
+    actor.send({
+      type: "SET_RULES",
+      rules: { turnDurationSeconds: 10, turnTimeoutPolicy: "auto-skip" },
+    })
+    ;["alice", "bob"].forEach((playerId) =>
+      actor.send({ type: "PLAYER_JOIN", playerId, playerName: playerId })
+    )
+    actor.send({ type: "START_GAME", seed: 3 })
+    vi.advanceTimersByTime(1000 + 10_000 + 500)
+    const { context } = actor.getSnapshot()
+    actor.stop()
+
+    const steps = buildReplay(context.eventLog, context)
+    const last = steps[steps.length - 1]
+
+    expect(
+      context.eventLog.filter((entry) => entry.event.type === "TURN_TIMEOUT")
+    ).toHaveLength(1)
+    expect(last.entry?.event.type).toBe("TURN_TIMEOUT")
+    expect(last.context.autoPlayNotifications).toEqual([
+      expect.objectContaining({ type: "timeout", playerId: "alice" }),
+    ])
+  })
+
+  it("only replays logs that include the start of the game", () => {
+    const context = playBotGame()
+
+    expect(canReplay(context.eventLog)).toBe(true)
+    expect(canReplay(context.eventLog.slice(5))).toBe(false)
+  })
+
+  it("describes logged events", () => {
+    const context = createMockGameContext()
+    const card = createMockCard({ value: "7", suit: "hearts" })
+
+    expect(
+      describeLogEntry(
+        { type: "PLAY_CARDS", playerId: "player-1", cards: [card] },
+        context
+      )
+    ).toBe("Player 1 played 7 of hearts")
+    expect(describeLogEntry({ type: "SKIP_TURN" }, context)).toBe(
+      "Player 1 skipped their turn"
+    )
+    expect(describeLogEntry({ type: "START_GAME", seed: 42 }, context)).toBe(
+      "Game started with seed 42"
+    )
+    expect(describeLogEntry({ type: "ROUND_TIMEOUT" }, context)).toBe(
+      "Time ran out"
+    )
+    expect(describeLogEntry({ type: "PAUSE" }, context)).toBe("Game paused")
+    expect(
+      describeLogEntry({ type: "UNDO", playerId: "player-1" }, context)
+    ).toBe("Player 1 took back their last play")
+    expect(
+      describeLogEntry({ type: "REQUEST_HINT", playerId: "player-1" }, context)
+    ).toBe("Player 1 asked for a hint")
+    expect(
+      describeLogEntry(
+        { type: "INTERRUPT", playerId: "player-2", card },
+        context
+      )
+    ).toBe("Player 2 slammed 7 of hearts out of turn")
+    expect(
+      describeLogEntry(
+        {
+          type: "DECLARE_JOKER",
+          playerId: "player-1",
+          cardId: "joker-1",
+          value: "Q",
+        },
+        context
+      )
+    ).toBe("Player 1 declared a joker as Q")
+    expect(
+      describeLogEntry(
+        {
+          type: "PLAY_CARDS",
+          playerId: "player-1",
+          cards: [
+            createMockCard({
+              suit: "joker",
+              value: "Joker",
+              declaredValue: "Q",
+            }),
+          ],
+        },
+        context
+      )
+    ).toBe("Player 1 played Joker as Queen")
+    expect(describeLogEntry({ type: "TURN_TIMEOUT" }, context)).toBe(
+      "Player 1 ran out of time"
+    )
+    expect(
+      describeLogEntry(
+        { type: "AUTO_PLAY", playerId: "player-2", card, timedOut: true },
+        context
+      )
+    ).toBe("Player 2 ran out of time and auto-played 7 of hearts")
+  })
+})
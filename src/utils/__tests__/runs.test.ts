@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest"
+import {
+  arrangePlay,
+  canPlayCards,
+  enumerateLegalPlays,
+  getRunOrder,
+} from "../cardUtils"
+import { createCards, createMockCard } from "../../test/test-utils"
+import { defaultGameRules } from "../gameRules"
+
+const values = (cards: ReturnType<typeof createCards> | null) =>
+  cards?.map((card) => card.value)
+
+describe("runs", () => {
+  describe("canPlayCards", () => {
+    const threeDiscard = createMockCard({ value: "3", suit: "hearts" })
+
+    it("allows an ascending run whose first card is playable", () => {
+      expect(canPlayCards(createCards(["6", "4", "5"]), threeDiscard)).toBe(
+        true
+      )
+      expect(canPlayCards(createCards(["3", "4", "5"]), threeDiscard)).toBe(
+        true
+      )
+    })
+
+    it("rejects runs with a gap or that start too high", () => {
+      expect(canPlayCards(createCards(["4", "6"]), threeDiscard)).toBe(false)
+      expect(canPlayCards(createCards(["5", "6", "7"]), threeDiscard)).toBe(
+        false
+      )
+    })
+  })
+
+  describe("getRunOrder", () => {
+    it("puts a run in order from the card played on the top card", () => {
+      const top = createMockCard({ value: "3" })
+      expect(values(getRunOrder(createCards(["6", "4", "5"]), top))).toEqual([
+        "4",
+        "5",
+        "6",
+      ])
+    })
+
+    it("wraps from King to Ace like a single card does", () => {
+      const top = createMockCard({ value: "J" })
+      const run = createCards(["A", "Q", "K", "2"])
+
+      expect(values(getRunOrder(run, top))).toEqual(["Q", "K", "A", "2"])
+      expect(
+        getRunOrder(run, top, { ...defaultGameRules, aceWrapsOnKing: false })
+      ).toBeNull()
+    })
+
+    it("is not a run for a single card or a same-value set", () => {
+      const top = createMockCard({ value: "7" })
+      expect(getRunOrder(createCards(["8"]), top)).toBeNull()
+      expect(getRunOrder(createCards(["7", "7"]), top)).toBeNull()
+    })
+  })
+
+  describe("arrangePlay", () => {
+    it("arranges a run in run order and leaves other plays as played", () => {
+      const top = createMockCard({ value: "5" })
+      expect(values(arrangePlay(createCards(["7", "6"]), top))).toEqual([
+        "6",
+        "7",
+      ])
+      expect(values(arrangePlay(createCards(["3", "2"]), top))).toEqual([
+        "3",
+        "2",
+      ])
+    })
+  })
+
+  describe("enumerateLegalPlays", () => {
+    it("finds runs, in run order", () => {
+      const hand = createCards(["6", "4", "5", "K"])
+      const plays = enumerateLegalPlays(hand, createMockCard({ value: "3" }))
+
+      expect(plays.map((play) => values(play)?.join("+"))).toEqual([
+        "4",
+        "4+5",
+        "4+5+6",
+      ])
+    })
+  })
+})
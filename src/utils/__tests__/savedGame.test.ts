@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { createActor } from "xstate"
+import { cardGameMachine } from "../../machines/cardGameMachine"
+import {
+  SAVED_GAME_KEY,
+  SAVED_GAME_VERSION,
+  clearSavedGame,
+  isResumableState,
+  loadSavedGame,
+  resumeRoundClock,
+  saveGame,
+  type GameStorage,
+} from "../savedGame"
+
+const createStorage = (): GameStorage => {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+// Two bots playing, so the game moves on by itself
+const startBotGame = () => {
+  const actor = createActor(cardGameMachine)
+  actor.start()
+  ;["bot-1", "bot-2"].forEach((playerId) =>
+    actor.send({
+      type: "PLAYER_JOIN",
+      playerId,
+      playerName: playerId,
+      kind: "bot",
+      botStrategy: "greedy",
+    })
+  )
+  actor.send({ type: "START_GAME", seed: 7 })
+  vi.advanceTimersByTime(1000)
+  return actor
+}
+
+describe("savedGame", () => {
+  let storage: GameStorage
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    storage = createStorage()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("only resumes settled states", () => {
+    expect(isResumableState("playerTurn")).toBe(true)
+    expect(isResumableState("gameOver")).toBe(true)
+    expect(isResumableState("paused")).toBe(true)
+    expect(isResumableState("waitingForTurn")).toBe(false)
+    expect(isResumableState("lobby")).toBe(false)
+  })
+
+  it("round-trips a game in progress, dates included", () => {
+    const actor = startBotGame()
+    const { context } = actor.getSnapshot()
+    saveGame(storage, actor.getPersistedSnapshot())
+    actor.stop()
+
+    const saved = loadSavedGame(storage)
+
+    expect(saved?.version).toBe(SAVED_GAME_VERSION)
+    expect(saved?.savedAt).toBeInstanceOf(Date)
+    expect(saved?.snapshot.value).toBe("playerTurn")
+    expect(saved?.snapshot.context.players).toEqual(context.players)
+    expect(saved?.snapshot.context.roundStartTime).toEqual(
+      context.roundStartTime
+    )
+  })
+
+  it("restores notification timestamps as dates", () => {
+    const actor = startBotGame()
+    const snapshot = actor.getPersistedSnapshot()
+    const { context } = actor.getSnapshot()
+    actor.stop()
+    const timestamp = new Date("2024-05-01T12:00:00Z")
+    const withNotification = {
+      ...snapshot,
+      context: {
+        ...context,
+        autoPlayNotifications: [
+          {
+            id: "n-1",
+            playerId: "bot-1",
+            playerName: "bot-1",
+            card: null,
+            timestamp,
+            type: "auto-skip" as const,
+          },
+        ],
+      },
+    }
+    saveGame(storage, withNotification)
+
+    const saved = loadSavedGame(storage)
+
+    expect(saved?.snapshot.context.autoPlayNotifications[0].timestamp).toEqual(
+      timestamp
+    )
+  })
+
+  it("resumes a restored game, bots included", () => {
+    const actor = startBotGame()
+    const before = actor.getSnapshot().context
+    saveGame(storage, actor.getPersistedSnapshot())
+    actor.stop()
+
+    const saved = loadSavedGame(storage)
+    const restored = createActor(cardGameMachine, {
+      snapshot: saved!.snapshot as never,
+    })
+    restored.start()
+    vi.advanceTimersByTime(5000)
+
+    // The bot to move has played or drawn
+    const after = restored.getSnapshot().context
+    expect([after.discardPile.length, after.deck.length]).not.toEqual([
+      before.discardPile.length,
+      before.deck.length,
+    ])
+    restored.stop()
+  })
+
+  it("returns null when nothing is saved", () => {
+    expect(loadSavedGame(storage)).toBeNull()
+  })
+
+  it("rejects and removes unreadable saves and saves from other versions", () => {
+    const actor = startBotGame()
+    const snapshot = actor.getPersistedSnapshot()
+    actor.stop()
+
+    const invalidSaves = [
+      "not json",
+      JSON.stringify({ snapshot }),
+      JSON.stringify({ version: SAVED_GAME_VERSION + 1, snapshot }),
+      JSON.stringify({ version: SAVED_GAME_VERSION - 1, snapshot }),
+      JSON.stringify({
+        version: SAVED_GAME_VERSION,
+        snapshot: { ...snapshot, value: "waitingForTurn" },
+      }),
+      JSON.stringify({
+        version: SAVED_GAME_VERSION,
+        snapshot: { ...snapshot, context: { players: "nope" } },
+      }),
+    ]
+
+    invalidSaves.forEach((raw) => {
+      storage.setItem(SAVED_GAME_KEY, raw)
+
+      expect(loadSavedGame(storage)).toBeNull()
+      expect(storage.getItem(SAVED_GAME_KEY)).toBeNull()
+    })
+  })
+
+  it("clears the saved game", () => {
+    const actor = startBotGame()
+    saveGame(storage, actor.getPersistedSnapshot())
+    actor.stop()
+
+    clearSavedGame(storage)
+
+    expect(loadSavedGame(storage)).toBeNull()
+  })
+
+  it("does not count time away against the round", () => {
+    const actor = startBotGame()
+    const snapshot = actor.getPersistedSnapshot()
+    const { context } = actor.getSnapshot()
+    actor.stop()
+    const withTenSecondsGone = {
+      ...snapshot,
+      context: {
+        ...context,
+        gameTimer: context.rules.roundDurationSeconds - 10,
+      },
+    }
+    saveGame(storage, withTenSecondsGone)
+    const saved = loadSavedGame(storage)!
+    const now = Date.now() + 60 * 60 * 1000
+
+    const resumed = resumeRoundClock(saved.snapshot, now)
+
+    expect(resumed.context.roundStartTime).toEqual(new Date(now - 10_000))
+  })
+
+  it("counts a saved pause from when the game is resumed", () => {
+    const actor = startBotGame()
+    actor.send({ type: "PAUSE" })
+    saveGame(storage, actor.getPersistedSnapshot())
+    actor.stop()
+    const saved = loadSavedGame(storage)!
+    const now = Date.now() + 60 * 60 * 1000
+
+    const resumed = resumeRoundClock(saved.snapshot, now)
+
+    expect(saved.snapshot.value).toBe("paused")
+    expect(resumed.context.pausedAt).toEqual(new Date(now))
+  })
+
+  it("keeps the shot clock where it was on resume", () => {
+    const actor = startBotGame()
+    const snapshot = actor.getPersistedSnapshot()
+    const { context } = actor.getSnapshot()
+    actor.stop()
+    const midTurn = {
+      ...snapshot,
+      context: {
+        ...context,
+        rules: { ...context.rules, turnDurationSeconds: 10 },
+        turnStartTime: new Date(0),
+        turnTimer: 6,
+      },
+    }
+    saveGame(storage, midTurn)
+    const saved = loadSavedGame(storage)!
+    const now = Date.now() + 60 * 60 * 1000
+
+    const resumed = resumeRoundClock(saved.snapshot, now)
+
+    expect(resumed.context.turnStartTime).toEqual(new Date(now - 4000))
+  })
+})
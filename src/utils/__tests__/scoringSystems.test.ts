@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest"
+import { GOING_OUT_BONUS, scoreHand, scoringSystems } from "../scoringSystems"
+import { createMockCard } from "../../test/test-utils"
+
+const hand = [
+  createMockCard({ id: "7h", value: "7", suit: "hearts" }),
+  createMockCard({ id: "Ks", value: "K", suit: "spades" }),
+  createMockCard({ id: "3s", value: "3", suit: "spades" }),
+]
+
+describe("scoringSystems", () => {
+  it("sums the classic card points", () => {
+    expect(scoreHand(hand, "classic")).toEqual({
+      total: 23,
+      breakdown: [{ label: "Cards", points: 23 }],
+    })
+  })
+
+  it("counts face cards as 10", () => {
+    expect(scoreHand(hand, "face-tens").total).toBe(20)
+    expect(
+      scoringSystems["face-tens"].cardPoints(createMockCard({ value: "A" }))
+    ).toBe(1)
+  })
+
+  it("doubles the spades in a hand", () => {
+    expect(scoreHand(hand, "spades-double")).toEqual({
+      total: 39,
+      breakdown: [
+        { label: "Cards", points: 23 },
+        { label: "Spades doubled", points: 16 },
+      ],
+    })
+    expect(scoreHand([hand[0]], "spades-double").breakdown).toHaveLength(1)
+  })
+
+  it("rewards only the player who went out", () => {
+    expect(scoreHand([], "going-out-bonus", true)).toEqual({
+      total: -GOING_OUT_BONUS,
+      breakdown: [
+        { label: "Cards", points: 0 },
+        { label: "Went out first", points: -GOING_OUT_BONUS },
+      ],
+    })
+    expect(scoreHand(hand, "going-out-bonus", false).total).toBe(23)
+  })
+
+  it("scores an empty hand as nothing", () => {
+    Object.values(scoringSystems).forEach((system) => {
+      expect(scoreHand([], system.id).total).toBe(0)
+    })
+  })
+})
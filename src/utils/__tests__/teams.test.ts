@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest"
+import {
+  arePartners,
+  getTeamNumber,
+  getTeamScores,
+  isTeamTableReady,
+} from "../teams"
+import { defaultGameRules } from "../gameRules"
+import { createMockPlayer } from "../../test/test-utils"
+import type { PlayerScore } from "../../types/game"
+
+const players = ["Alice", "Bob", "Carol", "Dave"].map((name) =>
+  createMockPlayer({ id: name.toLowerCase(), name })
+)
+
+const score = (playerId: string, finalScore: number): PlayerScore => ({
+  playerId,
+  playerName: playerId,
+  finalScore,
+  handCards: [],
+})
+
+describe("teams", () => {
+  it("alternates seats between the teams so partners sit opposite", () => {
+    expect([0, 1, 2, 3].map(getTeamNumber)).toEqual([1, 2, 1, 2])
+    expect(arePartners(players, "alice", "carol")).toBe(true)
+    expect(arePartners(players, "bob", "dave")).toBe(true)
+    expect(arePartners(players, "alice", "bob")).toBe(false)
+    expect(arePartners(players, "alice", "alice")).toBe(false)
+    expect(arePartners(players, "alice", "nobody")).toBe(false)
+  })
+
+  it("needs exactly four players for team play", () => {
+    const teamRules = { ...defaultGameRules, teamPlay: true }
+
+    expect(isTeamTableReady(teamRules, 4)).toBe(true)
+    expect(isTeamTableReady(teamRules, 3)).toBe(false)
+    expect(isTeamTableReady(defaultGameRules, 3)).toBe(true)
+  })
+
+  it("adds up each team's scores and ranks the lowest first", () => {
+    const teamScores = getTeamScores(players, [
+      score("alice", 20),
+      score("bob", 5),
+      score("carol", 10),
+      score("dave", 12),
+    ])
+
+    expect(teamScores).toEqual([
+      {
+        teamNumber: 2,
+        playerIds: ["bob", "dave"],
+        playerNames: ["Bob", "Dave"],
+        finalScore: 17,
+      },
+      {
+        teamNumber: 1,
+        playerIds: ["alice", "carol"],
+        playerNames: ["Alice", "Carol"],
+        finalScore: 30,
+      },
+    ])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest"
+import {
+  formatTieBreakerOrder,
+  isTieBreakerOrderValid,
+  resolveWinners,
+} from "../tieBreakers"
+import { createCards } from "../../test/test-utils"
+import type { CardValue, PlayerScore } from "../../types/game"
+
+const score = (
+  playerId: string,
+  finalScore: number,
+  hand: CardValue[] = []
+): PlayerScore => ({
+  playerId,
+  playerName: playerId,
+  finalScore,
+  handCards: createCards(hand),
+})
+
+describe("tieBreakers", () => {
+  it("crowns the single lowest score without a tie-break", () => {
+    const scores = [score("alice", 9), score("bob", 4), score("carol", 7)]
+
+    expect(resolveWinners(scores, [], null)).toEqual({
+      winners: [scores[1]],
+      tieBreak: null,
+    })
+  })
+
+  it("splits a tie on fewest cards left", () => {
+    const scores = [score("alice", 10, ["5", "5"]), score("bob", 10, ["10"])]
+
+    expect(resolveWinners(scores, ["fewest-cards"], null)).toEqual({
+      winners: [scores[1]],
+      tieBreak: { tiedPlayerIds: ["alice", "bob"], decidedBy: "fewest-cards" },
+    })
+  })
+
+  it("applies the tie-breakers in order until one decides", () => {
+    const scores = [
+      score("alice", 10, ["3", "7"]),
+      score("bob", 10, ["4", "6"]),
+      score("carol", 12, ["Q"]),
+    ]
+
+    const { winners, tieBreak } = resolveWinners(
+      scores,
+      ["fewest-cards", "lowest-high-card", "last-to-play"],
+      "alice"
+    )
+
+    expect(winners).toEqual([scores[1]])
+    expect(tieBreak).toEqual({
+      tiedPlayerIds: ["alice", "bob"],
+      decidedBy: "lowest-high-card",
+    })
+  })
+
+  it("gives the tie to whoever played last", () => {
+    const scores = [score("alice", 6, ["6"]), score("bob", 6, ["6"])]
+
+    expect(
+      resolveWinners(scores, ["lowest-high-card", "last-to-play"], "alice")
+        .winners
+    ).toEqual([scores[0]])
+  })
+
+  it("shares the win when the tie-breakers leave players level", () => {
+    const scores = [
+      score("alice", 6, ["6"]),
+      score("bob", 6, ["2", "4"]),
+      score("carol", 6, ["6"]),
+    ]
+
+    expect(resolveWinners(scores, ["fewest-cards"], "bob")).toEqual({
+      winners: [scores[0], scores[2]],
+      tieBreak: {
+        tiedPlayerIds: ["alice", "bob", "carol"],
+        decidedBy: null,
+      },
+    })
+    expect(resolveWinners(scores, [], null).winners).toEqual(scores)
+  })
+
+  it("describes and validates tie-breaker orders", () => {
+    expect(formatTieBreakerOrder(["fewest-cards", "last-to-play"])).toBe(
+      "Fewest cards, then last to play"
+    )
+    expect(formatTieBreakerOrder([])).toBe("Shared win")
+    expect(isTieBreakerOrderValid(["last-to-play", "fewest-cards"])).toBe(true)
+    expect(isTieBreakerOrderValid(["fewest-cards", "fewest-cards"])).toBe(false)
+    expect(isTieBreakerOrderValid("fewest-cards")).toBe(false)
+  })
+})
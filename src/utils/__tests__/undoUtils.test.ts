@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest"
+import { canUndo, takeUndoSnapshot } from "../undoUtils"
+import type { GameContext, GameEvent } from "../../types/game"
+import {
+  createCards,
+  createMockGameContext,
+  createMockPlayer,
+} from "../../test/test-utils"
+
+const createContext = (allowUndo = true) => {
+  const context = createMockGameContext({
+    players: [
+      createMockPlayer({
+        id: "alice",
+        hand: createCards(["7", "K"]),
+        isCurrentPlayer: true,
+      }),
+      createMockPlayer({ id: "bob", hand: createCards(["8"]) }),
+    ],
+  })
+  return { ...context, rules: { ...context.rules, allowUndo } }
+}
+
+// The context after Alice's play was logged, followed by `events`
+const afterPlay = (context: GameContext, events: GameEvent[] = []) => {
+  const undoSnapshot = takeUndoSnapshot(context)
+  const eventLog = [
+    ...context.eventLog,
+    {
+      timestamp: new Date(),
+      event: { type: "PLAY_CARDS" as const, playerId: "alice", cards: [] },
+    },
+    ...events.map((event) => ({ timestamp: new Date(), event })),
+  ]
+  return { ...context, undoSnapshot, eventLog }
+}
+
+describe("takeUndoSnapshot", () => {
+  it("records the table before the current player's play", () => {
+    const context = createContext()
+
+    expect(takeUndoSnapshot(context)).toMatchObject({
+      playerId: "alice",
+      logIndex: context.eventLog.length,
+      players: context.players,
+      discardPile: context.discardPile,
+      deck: context.deck,
+      reshuffleCount: context.reshuffleCount,
+      currentPlayerIndex: 0,
+    })
+  })
+
+  it("records nothing when the table does not allow undo", () => {
+    expect(takeUndoSnapshot(createContext(false))).toBeNull()
+  })
+})
+
+describe("canUndo", () => {
+  it("lets only the player who made the play take it back", () => {
+    const context = afterPlay(createContext())
+
+    expect(canUndo(context, "alice")).toBe(true)
+    expect(canUndo(context, "bob")).toBe(false)
+  })
+
+  it("stays open through pauses", () => {
+    const context = afterPlay(createContext(), [
+      { type: "PAUSE" },
+      { type: "RESUME" },
+    ])
+
+    expect(canUndo(context, "alice")).toBe(true)
+  })
+
+  it("closes once anyone else acts", () => {
+    const context = afterPlay(createContext(), [
+      { type: "CARD_SELECTED", playerId: "bob", cardId: "card-0" },
+    ])
+
+    expect(canUndo(context, "alice")).toBe(false)
+  })
+
+  it("closes when the table stops allowing undo", () => {
+    const context = afterPlay(createContext())
+
+    expect(
+      canUndo(
+        { ...context, rules: { ...context.rules, allowUndo: false } },
+        "alice"
+      )
+    ).toBe(false)
+  })
+})
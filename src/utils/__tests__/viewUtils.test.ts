@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest"
+import {
+  projectContextForPlayer,
+  projectContextForSpectator,
+} from "../viewUtils"
+import {
+  createCards,
+  createMockCard,
+  createMockGameContext,
+  createMockPlayer,
+} from "../../test/test-utils"
+
+const createContext = () =>
+  createMockGameContext({
+    players: [
+      createMockPlayer({
+        id: "alice",
+        hand: createCards(["7", "8"]),
+        isCurrentPlayer: true,
+      }),
+      createMockPlayer({ id: "bob", hand: createCards(["2", "3", "4"]) }),
+    ],
+    deck: createCards(["9", "10", "J"]),
+    selectedCards: [createMockCard({ id: "card-0", value: "7" })],
+  })
+
+describe("projectContextForPlayer", () => {
+  it("reveals only the viewer's own hand", () => {
+    const view = projectContextForPlayer(createContext(), "alice")
+
+    expect(view.viewerId).toBe("alice")
+    expect(view.players[0]).toMatchObject({ handCount: 2, handHidden: false })
+    expect(view.players[0].hand).toHaveLength(2)
+    expect(view.players[1]).toMatchObject({
+      hand: [],
+      handCount: 3,
+      handHidden: true,
+    })
+  })
+
+  it("replaces the deck with a card count", () => {
+    const view = projectContextForPlayer(createContext(), "alice")
+
+    expect(view).not.toHaveProperty("deck")
+    expect(view.deckCount).toBe(3)
+  })
+
+  it("hides the seed and event log until the round has been scored", () => {
+    const context = {
+      ...createContext(),
+      eventLog: [
+        {
+          timestamp: new Date(),
+          event: { type: "START_GAME" as const, seed: 12345 },
+        },
+      ],
+    }
+
+    expect(projectContextForPlayer(context, "alice").seed).toBeNull()
+    expect(projectContextForPlayer(context, "alice").eventLog).toEqual([])
+
+    const scored = {
+      ...context,
+      finalScores: [
+        {
+          playerId: "alice",
+          playerName: "Alice",
+          finalScore: 15,
+          handCards: context.players[0].hand,
+        },
+      ],
+    }
+    expect(projectContextForPlayer(scored, "alice").seed).toBe(context.seed)
+    expect(projectContextForPlayer(scored, "alice").eventLog).toBe(
+      context.eventLog
+    )
+  })
+
+  it("only shows the current player their own selection", () => {
+    const context = createContext()
+
+    expect(
+      projectContextForPlayer(context, "alice").selectedCards
+    ).toHaveLength(1)
+    expect(projectContextForPlayer(context, "bob").selectedCards).toEqual([])
+  })
+
+  it("hides every hand from a viewer without a seat", () => {
+    const view = projectContextForPlayer(createContext(), null)
+
+    expect(view.players.every((player) => player.handHidden)).toBe(true)
+    expect(view.selectedCards).toEqual([])
+  })
+
+  it("hides the undo snapshot and shows only who may undo", () => {
+    const context = createContext()
+    const withUndo = {
+      ...context,
+      rules: { ...context.rules, allowUndo: true },
+      undoSnapshot: {
+        playerId: "alice",
+        logIndex: context.eventLog.length,
+        players: context.players,
+        discardPile: context.discardPile,
+        deck: context.deck,
+        reshuffleCount: 0,
+        currentPlayerIndex: 0,
+        turnDirection: 1 as const,
+        hasDrawnThisTurn: false,
+        lastPlayedBy: null,
+      },
+    }
+
+    const view = projectContextForPlayer(withUndo, "bob")
+
+    expect(view).not.toHaveProperty("undoSnapshot")
+    expect(view.undoableBy).toBe("alice")
+    expect(projectContextForPlayer(context, "bob").undoableBy).toBeNull()
+  })
+
+  it("shows partners each other's hands when the table allows it", () => {
+    const context = createMockGameContext({
+      players: ["alice", "bob", "carol", "dave"].map((id) =>
+        createMockPlayer({ id })
+      ),
+      rules: {
+        ...createMockGameContext().rules,
+        teamPlay: true,
+        partnersSeeHands: true,
+      },
+    })
+
+    const visibleHands = (viewerId: string) =>
+      projectContextForPlayer(context, viewerId)
+        .players.filter((player) => !player.handHidden)
+        .map((player) => player.id)
+
+    expect(visibleHands("alice")).toEqual(["alice", "carol"])
+    expect(visibleHands("dave")).toEqual(["bob", "dave"])
+    expect(
+      projectContextForPlayer(
+        { ...context, rules: { ...context.rules, partnersSeeHands: false } },
+        "alice"
+      ).players.filter((player) => !player.handHidden)
+    ).toHaveLength(1)
+  })
+
+  it("does not modify the original context", () => {
+    const context = createContext()
+    projectContextForPlayer(context, null)
+
+    expect(context.players[1].hand).toHaveLength(3)
+    expect(context.deck).toHaveLength(3)
+  })
+})
+
+describe("projectContextForSpectator", () => {
+  it("shows spectators card counts only by default", () => {
+    const view = projectContextForSpectator(createContext())
+
+    expect(view.viewerId).toBeNull()
+    expect(view.players.every((player) => player.handHidden)).toBe(true)
+    expect(view.players.map((player) => player.handCount)).toEqual([2, 3])
+    expect(view.selectedCards).toEqual([])
+  })
+
+  it("reveals every hand when the table allows it", () => {
+    const context = createContext()
+    const view = projectContextForSpectator({
+      ...context,
+      rules: { ...context.rules, spectatorsSeeHands: true },
+    })
+
+    expect(view.players.map((player) => player.hand.length)).toEqual([2, 3])
+    expect(view.selectedCards).toHaveLength(1)
+    expect(view).not.toHaveProperty("deck")
+    expect(view.seed).toBeNull()
+  })
+})
@@ -0,0 +1,128 @@
+import type {
+  AutoPlayNotification,
+  GameContext,
+  PlayerScore,
+} from "../types/game"
+import { getCardName } from "./cardUtils"
+import { describePowerEffect } from "./powerCards"
+
+export interface AnnouncedState {
+  state: string
+  context: GameContext
+}
+
+// Seconds left in the round at which a warning is read out
+const ROUND_WARNINGS = [60, 30, 10]
+// Seconds left on the shot clock at which the current player is warned
+const TURN_WARNING = 5
+
+const describeNotification = (notification: AutoPlayNotification): string => {
+  const name = notification.playerName
+  const card = notification.card && getCardName(notification.card)
+
+  switch (notification.type) {
+    case "auto-play":
+      return `${name} auto-played ${card}`
+    case "auto-skip":
+      return `${name} had no valid moves and was skipped`
+    case "auto-draw":
+      return `${name} had no valid moves and drew a card`
+    case "timeout":
+      return card
+        ? `${name} ran out of time and auto-played ${card}`
+        : `${name} ran out of time`
+    case "undo":
+      return `${name} took back their last play`
+    case "interrupt":
+      return `${name} slammed ${card} out of turn`
+  }
+}
+
+const formatPoints = (points: number) =>
+  `${points} point${points !== 1 ? "s" : ""}`
+
+const describeResult = (context: GameContext): string => {
+  const over =
+    context.matchSettings.rounds > 1
+      ? `Round ${context.roundNumber} over`
+      : "Game over"
+  const [first] = context.winners
+  if (!first) return over
+
+  const names = context.winners.map((winner: PlayerScore) => winner.playerName)
+  return names.length > 1
+    ? `${over}. ${names.join(" and ")} share the win with ${formatPoints(first.finalScore)}`
+    : `${over}. ${first.playerName} wins with ${formatPoints(first.finalScore)}`
+}
+
+// Passing from `from` down to `to` crosses `mark`
+const crosses = (from: number, to: number, mark: number) =>
+  from > mark && to <= mark
+
+// What a screen reader should hear about the change from `before` to
+// `after`, oldest first. Nothing is announced for the first state seen, so
+// resuming a game stays quiet.
+export const getAnnouncements = (
+  before: AnnouncedState | null,
+  after: AnnouncedState
+): string[] => {
+  if (!before) return []
+
+  const { context } = after
+  const messages: string[] = []
+
+  const seen = new Set(
+    before.context.autoPlayNotifications.map((notification) => notification.id)
+  )
+  context.autoPlayNotifications
+    .filter((notification) => !seen.has(notification.id))
+    .forEach((notification) =>
+      messages.push(describeNotification(notification))
+    )
+
+  // Each card is played at most once between effects, so its id tells a
+  // new effect from the one already read out
+  const { powerEffect } = context
+  if (
+    powerEffect &&
+    powerEffect.card.id !== before.context.powerEffect?.card.id
+  ) {
+    messages.push(describePowerEffect(powerEffect))
+  }
+
+  if (after.state === "paused" && before.state !== "paused") {
+    messages.push("Game paused")
+  }
+
+  const currentPlayer = context.players[context.currentPlayerIndex]
+  const sameTurn =
+    before.state === "playerTurn" &&
+    before.context.currentPlayerIndex === context.currentPlayerIndex
+  if (after.state === "playerTurn" && currentPlayer && !sameTurn) {
+    messages.push(`${currentPlayer.name}'s turn`)
+  }
+
+  if (after.state === "playerTurn" || after.state === "waitingForTurn") {
+    ROUND_WARNINGS.filter((seconds) =>
+      crosses(before.context.gameTimer, context.gameTimer, seconds)
+    ).forEach((seconds) =>
+      messages.push(`${seconds} seconds left in the round`)
+    )
+  }
+
+  if (
+    after.state === "playerTurn" &&
+    sameTurn &&
+    context.rules.turnDurationSeconds !== null &&
+    crosses(before.context.turnTimer, context.turnTimer, TURN_WARNING) &&
+    currentPlayer
+  ) {
+    messages.push(`${TURN_WARNING} seconds left for ${currentPlayer.name}`)
+  }
+
+  if (after.state === "gameOver" && before.state !== "gameOver") {
+    messages.push(describeResult(context))
+  }
+
+  return messages
+}
@@ -0,0 +1,95 @@
+import type {
+  BotDecision,
+  BotStrategy,
+  BotStrategyId,
+  Card as CardType,
+  GameContextView,
+} from "../types/game"
+import { enumerateLegalPlays, getValidCards } from "./cardUtils"
+
+const sumPoints = (cards: CardType[]): number =>
+  cards.reduce((total, card) => total + card.points, 0)
+
+const getBotTurn = (view: Readonly<GameContextView>, playerId: string) => {
+  const player = view.players.find((p) => p.id === playerId)
+  const topDiscardCard = view.discardPile[view.discardPile.length - 1]
+  if (!player || !topDiscardCard) return null
+
+  return {
+    player,
+    topDiscardCard,
+    plays: enumerateLegalPlays(player.hand, topDiscardCard, view.rules),
+  }
+}
+
+const skip: BotDecision = { type: "SKIP_TURN" }
+
+// Plays any legal move at random
+export const randomBot: BotStrategy = {
+  id: "random",
+  name: "Random",
+  description: "Plays a random legal move",
+  decide: (view, playerId, random) => {
+    const turn = getBotTurn(view, playerId)
+    if (!turn || turn.plays.length === 0) return skip
+
+    const cards = turn.plays[Math.floor(random() * turn.plays.length)]
+    return { type: "PLAY_CARDS", cards }
+  },
+}
+
+// Dumps as many points as possible every turn
+export const greedyBot: BotStrategy = {
+  id: "greedy",
+  name: "Greedy",
+  description: "Dumps the highest points it can",
+  decide: (view, playerId) => {
+    const turn = getBotTurn(view, playerId)
+    if (!turn || turn.plays.length === 0) return skip
+
+    const cards = turn.plays.reduce((best, play) => {
+      const diff = sumPoints(play) - sumPoints(best)
+      return diff > 0 || (diff === 0 && play.length > best.length) ? play : best
+    })
+    return { type: "PLAY_CARDS", cards }
+  },
+}
+
+// Weighs points shed against how many cards it can still play on its own
+// next turn, using the last card of each play as the new top card
+export const lookaheadBot: BotStrategy = {
+  id: "lookahead",
+  name: "Lookahead",
+  description: "Keeps follow-up plays available for its next turn",
+  decide: (view, playerId) => {
+    const turn = getBotTurn(view, playerId)
+    if (!turn || turn.plays.length === 0) return skip
+
+    const scorePlay = (play: CardType[]) => {
+      const newTopCard = play[play.length - 1]
+      const remainingHand = turn.player.hand.filter(
+        (card) => !play.some((played) => played.id === card.id)
+      )
+      // Emptying the hand wins outright
+      if (remainingHand.length === 0) return Number.POSITIVE_INFINITY
+
+      const followUps = getValidCards(
+        remainingHand,
+        newTopCard,
+        view.rules
+      ).length
+      return sumPoints(play) + followUps * 5
+    }
+
+    const cards = turn.plays.reduce((best, play) =>
+      scorePlay(play) > scorePlay(best) ? play : best
+    )
+    return { type: "PLAY_CARDS", cards }
+  },
+}
+
+export const botStrategies: Record<BotStrategyId, BotStrategy> = {
+  random: randomBot,
+  greedy: greedyBot,
+  lookahead: lookaheadBot,
+}
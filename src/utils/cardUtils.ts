@@ -1,5 +1,11 @@
-import type { Card as CardType, CardValue, Suit } from "../types/game"
-import { v4 as uuidv4 } from "uuid"
+import type {
+  Card as CardType,
+  CardValue,
+  GameRules,
+  Suit,
+} from "../types/game"
+import { createSeededRandom, type RandomSource } from "./random"
+import { defaultGameRules } from "./gameRules"
 
 export const getCardPoints = (value: CardValue): number => {
   switch (value) {
@@ -11,6 +17,8 @@ export const getCardPoints = (value: CardValue): number => {
       return 12
     case "K":
       return 13
+    case "Joker":
+      return defaultGameRules.jokerPoints
     default:
       return parseInt(value)
   }
@@ -26,35 +34,79 @@ export const getCardNumericValue = (value: CardValue): number => {
       return 12
     case "K":
       return 13
+    // A joker only has a value once it is declared; see getPlayedValue
+    case "Joker":
+      return 0
     default:
       return parseInt(value)
   }
 }
 
-export const createDeck = (): CardType[] => {
+// Every value a card can have, and so every value a joker can stand for
+export const cardValues: CardValue[] = [
+  "A",
+  "2",
+  "3",
+  "4",
+  "5",
+  "6",
+  "7",
+  "8",
+  "9",
+  "10",
+  "J",
+  "Q",
+  "K",
+]
+
+export const isJoker = (card: CardType): boolean => card.value === "Joker"
+
+// A joker can stand for any real card value, never another joker
+export const isDeclarableValue = (value: unknown): value is CardValue =>
+  cardValues.includes(value as CardValue)
+
+// The value a card is played as: what a joker was declared as, or the
+// card's own value. An undeclared joker is still wild.
+export const getPlayedValue = (card: CardType): CardValue =>
+  card.declaredValue ?? card.value
+
+// Card ids are derived from suit and value so a seeded deal is fully reproducible
+export const getCardId = (suit: Suit, value: CardValue): string =>
+  `${suit}-${value}`
+
+const cardValueNames: Partial<Record<CardValue, string>> = {
+  A: "Ace",
+  J: "Jack",
+  Q: "Queen",
+  K: "King",
+}
+
+const getValueName = (value: CardValue): string =>
+  cardValueNames[value] ?? value
+
+// "Ace of spades", "7 of hearts", "Joker as Queen"; how the card is read out
+// to screen readers
+export const getCardName = (card: CardType): string => {
+  if (!isJoker(card)) return `${getValueName(card.value)} of ${card.suit}`
+
+  return card.declaredValue
+    ? `Joker as ${getValueName(card.declaredValue)}`
+    : "Joker"
+}
+
+// The 52 cards, plus the table's jokers
+export const createDeck = (
+  seed?: number,
+  rules: GameRules = defaultGameRules
+): CardType[] => {
   const suits: Suit[] = ["hearts", "diamonds", "clubs", "spades"]
-  const values: CardValue[] = [
-    "A",
-    "2",
-    "3",
-    "4",
-    "5",
-    "6",
-    "7",
-    "8",
-    "9",
-    "10",
-    "J",
-    "Q",
-    "K",
-  ]
 
   const deck: CardType[] = []
 
   suits.forEach((suit) => {
-    values.forEach((value) => {
+    cardValues.forEach((value) => {
       deck.push({
-        id: uuidv4(),
+        id: getCardId(suit, value),
         suit,
         value,
         points: getCardPoints(value),
@@ -62,68 +114,205 @@ export const createDeck = (): CardType[] => {
     })
   })
 
-  return shuffleDeck(deck)
+  for (let joker = 1; joker <= rules.jokers; joker++) {
+    deck.push({
+      id: `joker-${joker}`,
+      suit: "joker",
+      value: "Joker",
+      points: rules.jokerPoints,
+    })
+  }
+
+  return shuffleDeck(
+    deck,
+    seed === undefined ? Math.random : createSeededRandom(seed)
+  )
 }
 
-export const shuffleDeck = (deck: CardType[]): CardType[] => {
+export const shuffleDeck = (
+  deck: CardType[],
+  random: RandomSource = Math.random
+): CardType[] => {
   const shuffled = [...deck]
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(random() * (i + 1))
     ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
   }
   return shuffled
 }
 
+// Whether `card` is one step up from `previous`
+const isNextInSequence = (
+  card: CardType,
+  previous: CardType,
+  rules: GameRules
+): boolean => {
+  const cardValue = getCardNumericValue(getPlayedValue(card))
+  const previousValue = getCardNumericValue(getPlayedValue(previous))
+
+  // Handle Ace on King (1 on 13), unless the table plays without wrapping
+  if (rules.aceWrapsOnKing && cardValue === 1 && previousValue === 13) {
+    return true
+  }
+
+  // Regular ascending sequence
+  return cardValue === previousValue + 1
+}
+
 export const canPlayCard = (
   card: CardType,
-  topDiscardCard: CardType
+  topDiscardCard: CardType,
+  rules: GameRules = defaultGameRules
 ): boolean => {
+  // An undeclared joker can be declared as anything, and anything can go on
+  // one (which only happens when a joker starts the pile)
+  if (
+    (isJoker(card) && !card.declaredValue) ||
+    (isJoker(topDiscardCard) && !topDiscardCard.declaredValue)
+  ) {
+    return true
+  }
+
   // Same value
-  if (card.value === topDiscardCard.value) {
+  if (getPlayedValue(card) === getPlayedValue(topDiscardCard)) {
     return true
   }
 
   // Ascending sequence
-  const cardValue = getCardNumericValue(card.value)
-  const topValue = getCardNumericValue(topDiscardCard.value)
+  return isNextInSequence(card, topDiscardCard, rules)
+}
 
-  // Handle Ace on King (1 on 13)
-  if (cardValue === 1 && topValue === 13) {
-    return true
+// The cards in run order if they make an ascending run on the top card, such
+// as 4-5-6 on a 3 or Q-K-A on a J: the first card must be playable on its
+// own and each one after it one step up from the last. Null if they do not.
+export const getRunOrder = (
+  cards: CardType[],
+  topDiscardCard: CardType,
+  rules: GameRules = defaultGameRules
+): CardType[] | null => {
+  if (cards.length < 2) return null
+
+  // Only one value follows a card, and cards of that value are as good as
+  // each other, so the first one found extends the run
+  const extend = (run: CardType[], rest: CardType[]): CardType[] | null => {
+    if (rest.length === 0) return run
+
+    const last = run[run.length - 1]
+    const card = rest.find((other) => isNextInSequence(other, last, rules))
+    return card
+      ? extend(
+          [...run, card],
+          rest.filter((other) => other !== card)
+        )
+      : null
   }
 
-  // Regular ascending sequence
-  if (cardValue === topValue + 1) {
-    return true
+  const firstValues = new Set<CardValue>()
+  for (const first of cards) {
+    const value = getPlayedValue(first)
+    if (firstValues.has(value) || !canPlayCard(first, topDiscardCard, rules)) {
+      continue
+    }
+    firstValues.add(value)
+    const found = extend(
+      [first],
+      cards.filter((other) => other !== first)
+    )
+    if (found) return found
   }
+  return null
+}
 
-  return false
+// Every way of declaring the undeclared jokers among `cards`; the cards
+// as they are when there are none. Declared jokers keep their value.
+const declareJokers = (cards: CardType[]): CardType[][] => {
+  const index = cards.findIndex((card) => isJoker(card) && !card.declaredValue)
+  if (index === -1) return [cards]
+
+  return cardValues.flatMap((declaredValue) =>
+    declareJokers(
+      cards.map((card, i) => (i === index ? { ...card, declaredValue } : card))
+    )
+  )
+}
+
+// The cards with each undeclared joker given the first value that makes
+// the play legal, or null if no declaration does
+export const declarePlay = (
+  cards: CardType[],
+  topDiscardCard: CardType,
+  rules: GameRules = defaultGameRules
+): CardType[] | null =>
+  cards.length === 0
+    ? null
+    : (declareJokers(cards).find((declared) =>
+        isLegalDeclaredPlay(declared, topDiscardCard, rules)
+      ) ?? null)
+
+// The values `joker` can be declared as so that `cards` (which include it)
+// make a legal play
+export const getJokerOptions = (
+  cards: CardType[],
+  joker: CardType,
+  topDiscardCard: CardType,
+  rules: GameRules = defaultGameRules
+): CardValue[] =>
+  cardValues.filter(
+    (declaredValue) =>
+      declarePlay(
+        cards.map((card) =>
+          card.id === joker.id ? { ...card, declaredValue } : card
+        ),
+        topDiscardCard,
+        rules
+      ) !== null
+  )
+
+// The order cards go onto the discard pile, with any undeclared jokers
+// declared: a run in run order, so its highest card ends up on top, and
+// anything else as it was played
+export const arrangePlay = (
+  cards: CardType[],
+  topDiscardCard: CardType,
+  rules: GameRules = defaultGameRules
+): CardType[] => {
+  const declared = declarePlay(cards, topDiscardCard, rules) ?? cards
+  return getRunOrder(declared, topDiscardCard, rules) ?? declared
 }
 
 export const getValidCards = (
   hand: CardType[],
-  topDiscardCard: CardType
+  topDiscardCard: CardType,
+  rules: GameRules = defaultGameRules
 ): CardType[] => {
-  return hand.filter((card) => canPlayCard(card, topDiscardCard))
+  return hand.filter((card) => canPlayCard(card, topDiscardCard, rules))
 }
 
 export const calculateHandScore = (hand: CardType[]): number => {
   return hand.reduce((total, card) => total + card.points, 0)
 }
 
-// Validate if multiple cards can be played together
+// Validate if multiple cards can be played together. A joker plays as what
+// it was declared as; an undeclared one may stand for any value that works.
 export const canPlayCards = (
   cards: CardType[],
-  topDiscardCard: CardType
+  topDiscardCard: CardType,
+  rules: GameRules = defaultGameRules
+): boolean => declarePlay(cards, topDiscardCard, rules) !== null
+
+// canPlayCards once every joker has been declared
+const isLegalDeclaredPlay = (
+  cards: CardType[],
+  topDiscardCard: CardType,
+  rules: GameRules
 ): boolean => {
-  if (cards.length === 0) return false
-  if (cards.length === 1) return canPlayCard(cards[0], topDiscardCard)
+  if (cards.length === 1) return canPlayCard(cards[0], topDiscardCard, rules)
 
-  // For multiple cards, check three scenarios:
+  // For multiple cards, check four scenarios:
 
   // 1. All cards are individually valid (e.g., 3s and 4s on a 3)
   const allIndividuallyValid = cards.every((card) =>
-    canPlayCard(card, topDiscardCard)
+    canPlayCard(card, topDiscardCard, rules)
   )
 
   if (allIndividuallyValid) {
@@ -131,28 +320,163 @@ export const canPlayCards = (
   }
 
   // 2. All cards have the same value (e.g., multiple 5s on a 5)
-  const firstCardValue = cards[0].value
-  const allSameValue = cards.every((card) => card.value === firstCardValue)
+  const firstCardValue = getPlayedValue(cards[0])
+  const allSameValue = cards.every(
+    (card) => getPlayedValue(card) === firstCardValue
+  )
 
   if (allSameValue) {
     // Check if the first card can be played (all others have same value)
-    return canPlayCard(cards[0], topDiscardCard)
+    return canPlayCard(cards[0], topDiscardCard, rules)
+  }
+
+  // 3. Cards make an ascending run (e.g., 4-5-6 on a 3)
+  if (getRunOrder(cards, topDiscardCard, rules)) {
+    return true
   }
 
-  // 3. Cards sum to the discard pile value (e.g., 2+3=5 on a 5)
+  // 4. Cards sum to the discard pile value (e.g., 2+3=5 on a 5)
+  if (!rules.allowSumPlays) return false
+
   const cardsSum = cards.reduce(
-    (sum, card) => sum + getCardNumericValue(card.value),
+    (sum, card) => sum + getCardNumericValue(getPlayedValue(card)),
     0
   )
-  const topDiscardValue = getCardNumericValue(topDiscardCard.value)
+  const topDiscardValue = getCardNumericValue(getPlayedValue(topDiscardCard))
 
   return cardsSum === topDiscardValue
 }
 
+// The most plays enumerateLegalPlays lists. The number of combinations
+// doubles with every card that could join one (on an undeclared joker that
+// is every card in the hand), so a big hand stops at this many.
+export const MAX_LEGAL_PLAYS = 500
+
+// Every legal play from a hand, multi-card combinations included. Plays are
+// a group of individually valid cards (which covers same-value sets), an
+// ascending run, or a group whose values sum to the top card; each is
+// checked against canPlayCards so the two can never disagree. Each play is
+// in the order it would land on the discard pile, with its jokers declared.
+// Single cards are listed first, so they are all there even when the list
+// stops at MAX_LEGAL_PLAYS.
+export const enumerateLegalPlays = (
+  hand: CardType[],
+  topDiscardCard: CardType,
+  rules: GameRules = defaultGameRules
+): CardType[][] => {
+  const plays: CardType[][] = []
+  const seen = new Set<string>()
+
+  // The same cards may be legal under several joker declarations; the first
+  // one found is kept
+  declareJokers(hand).forEach((declaredHand) =>
+    collectLegalPlays(declaredHand, topDiscardCard, rules, plays, seen)
+  )
+
+  return plays.sort((a, b) => a.length - b.length)
+}
+
+// Add every legal play from a hand whose jokers are all declared
+const collectLegalPlays = (
+  hand: CardType[],
+  topDiscardCard: CardType,
+  rules: GameRules,
+  plays: CardType[][],
+  seen: Set<string>
+) => {
+  const isFull = () => plays.length >= MAX_LEGAL_PLAYS
+
+  const addPlay = (play: CardType[]) => {
+    if (isFull()) return
+    const key = play
+      .map((card) => card.id)
+      .sort()
+      .join(",")
+    if (seen.has(key) || !canPlayCards(play, topDiscardCard, rules)) return
+    seen.add(key)
+    plays.push(arrangePlay(play, topDiscardCard, rules))
+  }
+
+  // Every non-empty group of individually valid cards, the cards on their
+  // own first
+  const validCards = getValidCards(hand, topDiscardCard, rules)
+  validCards.forEach((card) => addPlay([card]))
+  const collectValid = (start: number, current: CardType[]) => {
+    for (let i = start; i < validCards.length && !isFull(); i++) {
+      const next = [...current, validCards[i]]
+      addPlay(next)
+      collectValid(i + 1, next)
+    }
+  }
+  collectValid(0, [])
+
+  // Every run of two or more cards, climbing from a card playable on its own
+  const collectRuns = (run: CardType[]) => {
+    if (isFull()) return
+    const last = run[run.length - 1]
+    hand
+      .filter(
+        (card) => !run.includes(card) && isNextInSequence(card, last, rules)
+      )
+      .forEach((card) => {
+        const next = [...run, card]
+        addPlay(next)
+        collectRuns(next)
+      })
+  }
+  validCards.forEach((card) => collectRuns([card]))
+
+  // Every group of two or more cards summing to the top card; values are at
+  // least 1, so the search stops as soon as the running total overshoots
+  const target = getCardNumericValue(getPlayedValue(topDiscardCard))
+  const collectSums = (start: number, current: CardType[], sum: number) => {
+    for (let i = start; i < hand.length && !isFull(); i++) {
+      const total = sum + getCardNumericValue(getPlayedValue(hand[i]))
+      if (total > target) continue
+
+      const next = [...current, hand[i]]
+      if (total === target && next.length > 1) addPlay(next)
+      collectSums(i + 1, next, total)
+    }
+  }
+  if (rules.allowSumPlays) collectSums(0, [], 0)
+}
+
+// Whether two or more of the cards sum to the target. Values are at least 1,
+// so only totals up to the target are tracked, each with the most cards
+// found to make it (two is enough).
+const hasSumPlay = (cards: CardType[], target: number): boolean => {
+  const mostCards: number[] = Array(target + 1).fill(-1)
+  mostCards[0] = 0
+  cards.forEach((card) => {
+    const value = getCardNumericValue(getPlayedValue(card))
+    for (let total = target; total >= value && value > 0; total--) {
+      if (mostCards[total - value] < 0) continue
+      mostCards[total] = Math.max(
+        mostCards[total],
+        Math.min(2, mostCards[total - value] + 1)
+      )
+    }
+  })
+  return mostCards[target] === 2
+}
+
+// Whether a hand has any legal play at all, combinations included. Sets and
+// runs start with a card that is playable on its own (as does anything with
+// an undeclared joker), so without one only a sum is left to look for.
+export const hasLegalPlay = (
+  hand: CardType[],
+  topDiscardCard: CardType,
+  rules: GameRules = defaultGameRules
+): boolean =>
+  hand.some((card) => canPlayCard(card, topDiscardCard, rules)) ||
+  (rules.allowSumPlays &&
+    hasSumPlay(hand, getCardNumericValue(getPlayedValue(topDiscardCard))))
+
 export const dealCards = (
   deck: CardType[],
   numPlayers: number,
-  cardsPerPlayer: number = 7
+  cardsPerPlayer: number = defaultGameRules.handSize
 ): { playerHands: CardType[][]; remainingDeck: CardType[] } => {
   const playerHands: CardType[][] = Array(numPlayers)
     .fill(null)
@@ -174,3 +498,68 @@ export const dealCards = (
     remainingDeck: deck.slice(deckIndex),
   }
 }
+
+// A card can be drawn while the deck has cards or the discard pile has
+// anything beneath its top card to reshuffle
+export const canDrawCard = (
+  deck: CardType[],
+  discardPile: CardType[]
+): boolean => deck.length > 0 || discardPile.length > 1
+
+// A joker off the pile stands for nothing until it is played again
+const clearDeclaration = (card: CardType): CardType =>
+  card.declaredValue
+    ? { id: card.id, suit: card.suit, value: card.value, points: card.points }
+    : card
+
+// Reshuffle everything except the top discard back into a fresh deck. Jokers
+// go back undeclared, free to stand for anything again.
+export const reshuffleDiscardPile = (
+  discardPile: CardType[],
+  random: RandomSource = Math.random
+): { deck: CardType[]; discardPile: CardType[] } => {
+  if (discardPile.length <= 1) {
+    return { deck: [], discardPile }
+  }
+
+  const topCard = discardPile[discardPile.length - 1]
+  return {
+    deck: shuffleDeck(discardPile.slice(0, -1).map(clearDeclaration), random),
+    discardPile: [topCard],
+  }
+}
+
+// Draw the top card of the deck, reshuffling the discard pile first if the
+// deck has run out
+export const drawCard = (
+  deck: CardType[],
+  discardPile: CardType[],
+  random: RandomSource = Math.random
+): {
+  card: CardType | null
+  deck: CardType[]
+  discardPile: CardType[]
+  reshuffled: boolean
+} => {
+  let drawPile = deck
+  let pile = discardPile
+  let reshuffled = false
+
+  if (drawPile.length === 0) {
+    const reshuffledPiles = reshuffleDiscardPile(discardPile, random)
+    drawPile = reshuffledPiles.deck
+    pile = reshuffledPiles.discardPile
+    reshuffled = drawPile.length > 0
+  }
+
+  if (drawPile.length === 0) {
+    return { card: null, deck: drawPile, discardPile: pile, reshuffled }
+  }
+
+  return {
+    card: drawPile[0],
+    deck: drawPile.slice(1),
+    discardPile: pile,
+    reshuffled,
+  }
+}
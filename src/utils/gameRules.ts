@@ -0,0 +1,137 @@
+import type {
+  GameRules,
+  GameRulesPreset,
+  GameRulesPresetId,
+  TurnTimeoutPolicy,
+} from "../types/game"
+import { scoringSystems } from "./scoringSystems"
+import { TEAM_PLAYERS } from "./teams"
+import { isTieBreakerOrderValid } from "./tieBreakers"
+
+const DECK_SIZE = 52
+
+// Jokers a table can shuffle in, as in a standard pack
+export const MAX_JOKERS = 2
+
+// The most cards a hand can be dealt; a suit's worth keeps the search for
+// legal plays quick
+export const MAX_HAND_SIZE = 13
+
+// Points added to a player's round score each time the shot clock runs out
+// under the "penalty" policy
+export const TIMEOUT_PENALTY_POINTS = 5
+
+export const defaultGameRules: GameRules = {
+  roundDurationSeconds: 180,
+  turnDurationSeconds: null,
+  turnTimeoutPolicy: "auto-play",
+  handSize: 7,
+  maxPlayers: 4,
+  aceWrapsOnKing: true,
+  allowSumPlays: true,
+  forcedDrawBeforeSkip: false,
+  tieBreakers: ["fewest-cards", "lowest-high-card", "last-to-play"],
+  scoringSystem: "classic",
+  allowUndo: false,
+  spectatorsSeeHands: false,
+  powerCards: false,
+  jokers: 0,
+  jokerPoints: 25,
+  teamPlay: false,
+  partnersSeeHands: false,
+  interrupts: false,
+}
+
+export const gameRulePresets: Record<GameRulesPresetId, GameRulesPreset> = {
+  classic: {
+    id: "classic",
+    name: "Classic",
+    description: "3-minute rounds with every play allowed",
+    rules: defaultGameRules,
+  },
+  blitz: {
+    id: "blitz",
+    name: "Blitz 60s",
+    description: "The classic game squeezed into one minute",
+    rules: { ...defaultGameRules, roundDurationSeconds: 60 },
+  },
+  "no-wrap": {
+    id: "no-wrap",
+    name: "No Wrap",
+    description: "An Ace can no longer follow a King",
+    rules: { ...defaultGameRules, aceWrapsOnKing: false },
+  },
+}
+
+// Shot clock lengths offered in the lobby
+export const turnDurationOptions: (number | null)[] = [null, 10, 20, 30]
+
+// What a joker left in hand can score, as offered in the lobby
+export const jokerPointOptions = [0, 10, 25, 50]
+
+export const turnTimeoutPolicies: Record<
+  TurnTimeoutPolicy,
+  { name: string; description: string }
+> = {
+  "auto-play": {
+    name: "Auto-play",
+    description: "Play the lowest-point valid card, or skip if there is none",
+  },
+  "auto-skip": {
+    name: "Skip Turn",
+    description: "Lose the turn",
+  },
+  penalty: {
+    name: "Penalty",
+    description: `Lose the turn and add ${TIMEOUT_PENALTY_POINTS} points to the round score`,
+  },
+}
+
+// Rule values are primitives or lists of them
+const isSameRuleValue = (a: unknown, b: unknown): boolean =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((item, index) => item === b[index])
+    : a === b
+
+// The preset a rules object matches exactly, if any
+export const findGameRulesPreset = (
+  rules: GameRules
+): GameRulesPreset | undefined =>
+  Object.values(gameRulePresets).find((preset) =>
+    (Object.keys(preset.rules) as (keyof GameRules)[]).every((key) =>
+      isSameRuleValue(preset.rules[key], rules[key])
+    )
+  )
+
+// Rules are playable when every seat can be dealt a full hand and one card
+// is left over to start the discard pile, jokers included. Team play seats
+// exactly four.
+export const areGameRulesValid = (rules: GameRules): boolean =>
+  Number.isInteger(rules.roundDurationSeconds) &&
+  rules.roundDurationSeconds > 0 &&
+  (rules.turnDurationSeconds === null ||
+    (Number.isInteger(rules.turnDurationSeconds) &&
+      rules.turnDurationSeconds > 0)) &&
+  Object.keys(turnTimeoutPolicies).includes(rules.turnTimeoutPolicy) &&
+  isTieBreakerOrderValid(rules.tieBreakers) &&
+  Object.keys(scoringSystems).includes(rules.scoringSystem) &&
+  Number.isInteger(rules.handSize) &&
+  rules.handSize > 0 &&
+  rules.handSize <= MAX_HAND_SIZE &&
+  Number.isInteger(rules.maxPlayers) &&
+  rules.maxPlayers >= 2 &&
+  Number.isInteger(rules.jokers) &&
+  rules.jokers >= 0 &&
+  rules.jokers <= MAX_JOKERS &&
+  Number.isInteger(rules.jokerPoints) &&
+  rules.jokerPoints >= 0 &&
+  (!rules.teamPlay || rules.maxPlayers === TEAM_PLAYERS) &&
+  rules.handSize * rules.maxPlayers < DECK_SIZE + rules.jokers
+
+// "3 minutes", "1 minute", "90 seconds"
+export const formatRoundDuration = (seconds: number): string => {
+  if (seconds % 60 !== 0) return `${seconds} seconds`
+
+  const minutes = seconds / 60
+  return `${minutes} minute${minutes !== 1 ? "s" : ""}`
+}
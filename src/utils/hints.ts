@@ -0,0 +1,149 @@
+import type { Card as CardType, GameRules } from "../types/game"
+import {
+  canPlayCard,
+  createDeck,
+  enumerateLegalPlays,
+  getCardId,
+  getCardName,
+  getPlayedValue,
+  getRunOrder,
+  isJoker,
+} from "./cardUtils"
+import { defaultGameRules } from "./gameRules"
+import { scoreHand } from "./scoringSystems"
+
+export interface Hint {
+  cards: CardType[] // in playing order; the last one ends up on top
+  pointsShed: number // under the table's scoring system
+  followers: number // unseen cards that could be played on the new top card
+  winsRound: boolean // the play empties the hand
+  explanation: string
+}
+
+// Every card the player cannot see: the full deck less their own hand and
+// the discard pile. Opponents' hands are never looked at, so a hint tells
+// the player nothing they could not work out themselves. Jokers are all
+// alike, so only how many are in sight matters.
+const getUnseenCards = (
+  hand: CardType[],
+  discardPile: CardType[],
+  rules: GameRules
+): CardType[] => {
+  const inSight = [...hand, ...discardPile]
+  const seen = new Set(inSight.map((card) => getCardId(card.suit, card.value)))
+  const jokersSeen = inSight.filter(isJoker).length
+  const deck = createDeck(undefined, rules)
+  return [
+    ...deck.filter((card) => !isJoker(card) && !seen.has(card.id)),
+    ...deck.filter(isJoker).slice(jokersSeen),
+  ]
+}
+
+const countFollowers = (
+  topCard: CardType,
+  unseen: CardType[],
+  rules: GameRules
+): number => unseen.filter((card) => canPlayCard(card, topCard, rules)).length
+
+const pluralize = (count: number, noun: string) =>
+  `${count} ${noun}${count !== 1 ? "s" : ""}`
+
+// "the 7 of hearts", "both 7s", "4-5-6 as a run", "7 and 8", "2+3 as a sum";
+// a joker counts as what it stands for
+const describeCards = (
+  cards: CardType[],
+  topDiscardCard: CardType,
+  rules: GameRules
+): string => {
+  if (cards.length === 1) return `the ${getCardName(cards[0])}`
+
+  const values = cards.map(getPlayedValue)
+  if (values.every((value) => value === values[0])) {
+    return cards.length === 2
+      ? `both ${values[0]}s`
+      : `all ${cards.length} ${values[0]}s`
+  }
+
+  if (getRunOrder(cards, topDiscardCard, rules)) {
+    return `${values.join("-")} as a run`
+  }
+
+  const isSum = !cards.every((card) => canPlayCard(card, topDiscardCard, rules))
+  return isSum
+    ? `${values.join("+")} as a sum`
+    : `${values.slice(0, -1).join(", ")} and ${values[values.length - 1]}`
+}
+
+const explain = (
+  hint: Omit<Hint, "explanation">,
+  topDiscardCard: CardType,
+  rules: GameRules
+): string => {
+  const play = `Play ${describeCards(hint.cards, topDiscardCard, rules)}`
+  if (hint.winsRound) return `${play} to empty your hand and win the round.`
+
+  const topCard = hint.cards[hint.cards.length - 1]
+  // A run always lands in run order, so only other plays need telling
+  const playedLast =
+    !getRunOrder(hint.cards, topDiscardCard, rules) &&
+    hint.cards.some((card) => getPlayedValue(card) !== getPlayedValue(topCard))
+      ? " (play it last)"
+      : ""
+  const followers =
+    hint.followers === 0
+      ? "no unseen card can follow it"
+      : `only ${pluralize(hint.followers, "unseen card")} can follow it`
+
+  return `${play} to shed ${pluralize(hint.pointsShed, "point")} and leave the ${getCardName(topCard)} on top${playedLast}; ${followers}.`
+}
+
+// Every legal play, best first: one that empties the hand, then the most
+// points shed, then the fewest unseen cards able to follow it. A run keeps
+// its run order; any other play is ordered so that the card leaving
+// opponents the fewest options goes last.
+export const rankPlays = (
+  hand: CardType[],
+  discardPile: CardType[],
+  rules: GameRules = defaultGameRules
+): Hint[] => {
+  const topDiscardCard = discardPile[discardPile.length - 1]
+  if (!topDiscardCard) return []
+
+  const unseen = getUnseenCards(hand, discardPile, rules)
+  const handScore = scoreHand(hand, rules.scoringSystem).total
+
+  const hints = enumerateLegalPlays(hand, topDiscardCard, rules).map((play) => {
+    const remaining = hand.filter(
+      (card) => !play.some((played) => played.id === card.id)
+    )
+    const run = getRunOrder(play, topDiscardCard, rules)
+    const [topCard, followers] = (run ? [run[run.length - 1]] : play)
+      .map((card): [CardType, number] => [
+        card,
+        countFollowers(card, unseen, rules),
+      ])
+      .reduce((best, option) => (option[1] < best[1] ? option : best))
+
+    const hint = {
+      cards: run ?? [...play.filter((card) => card.id !== topCard.id), topCard],
+      pointsShed: handScore - scoreHand(remaining, rules.scoringSystem).total,
+      followers,
+      winsRound: remaining.length === 0,
+    }
+    return { ...hint, explanation: explain(hint, topDiscardCard, rules) }
+  })
+
+  return hints.sort(
+    (a, b) =>
+      Number(b.winsRound) - Number(a.winsRound) ||
+      b.pointsShed - a.pointsShed ||
+      a.followers - b.followers
+  )
+}
+
+// The best play for the hand, or null if there is none
+export const getHint = (
+  hand: CardType[],
+  discardPile: CardType[],
+  rules: GameRules = defaultGameRules
+): Hint | null => rankPlays(hand, discardPile, rules)[0] ?? null
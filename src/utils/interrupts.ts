@@ -0,0 +1,45 @@
+import type { Card, GameContext } from "../types/game"
+import { getPlayedValue, isJoker } from "./cardUtils"
+
+// How long a slam stays open to rival claims before it lands
+export const INTERRUPT_WINDOW_MS = 300
+
+type InterruptTable = Pick<
+  GameContext,
+  "rules" | "players" | "currentPlayerIndex" | "discardPile"
+>
+
+// Under the interrupt rule anyone but the player whose turn it is may slam a
+// card of exactly the top card's value. A joker has no value of its own, so
+// it never matches; the card is looked up in the hand, not taken on trust.
+export const canInterrupt = (
+  context: InterruptTable,
+  playerId: string,
+  cardId: string
+): boolean => {
+  const topDiscardCard = context.discardPile[context.discardPile.length - 1]
+  const playerIndex = context.players.findIndex(
+    (player) => player.id === playerId
+  )
+  const card = context.players[playerIndex]?.hand.find(
+    (held) => held.id === cardId
+  )
+
+  return (
+    context.rules.interrupts &&
+    topDiscardCard !== undefined &&
+    card !== undefined &&
+    playerIndex !== context.currentPlayerIndex &&
+    !isJoker(card) &&
+    card.value === getPlayedValue(topDiscardCard)
+  )
+}
+
+// The cards a player could slam right now
+export const getInterruptCards = (
+  context: InterruptTable,
+  playerId: string
+): Card[] =>
+  (context.players.find((player) => player.id === playerId)?.hand ?? []).filter(
+    (card) => canInterrupt(context, playerId, card.id)
+  )
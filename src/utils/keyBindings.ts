@@ -0,0 +1,116 @@
+import type { GameStorage } from "./savedGame"
+
+export const KEY_BINDINGS_KEY = "card-game:key-bindings"
+
+export type KeyAction =
+  | "focusPrevious"
+  | "focusNext"
+  | "toggleSelect"
+  | "play"
+  | "clearSelection"
+  | "skip"
+  | "pause"
+  | "help"
+
+// Bindings are KeyboardEvent.code values, so they follow the physical key
+// whatever the keyboard layout
+export type KeyBindings = Record<KeyAction, string>
+
+export const keyActions: Record<KeyAction, { description: string }> = {
+  focusPrevious: { description: "Move to the previous card" },
+  focusNext: { description: "Move to the next card" },
+  toggleSelect: { description: "Select or deselect the card" },
+  play: { description: "Play the selected cards" },
+  clearSelection: { description: "Clear the selection" },
+  skip: { description: "Skip the turn when stuck" },
+  pause: { description: "Pause or resume" },
+  help: { description: "Show or hide this help" },
+}
+
+export const defaultKeyBindings: KeyBindings = {
+  focusPrevious: "ArrowLeft",
+  focusNext: "ArrowRight",
+  toggleSelect: "Enter",
+  play: "Space",
+  clearSelection: "Escape",
+  skip: "KeyS",
+  pause: "KeyP",
+  help: "KeyH",
+}
+
+// Digit1 to Digit9 always jump to that card in the hand, so they cannot be
+// bound to anything else
+export const getCardIndexForKey = (code: string): number | null => {
+  const match = /^Digit([1-9])$/.exec(code)
+  return match ? Number(match[1]) - 1 : null
+}
+
+export const findKeyAction = (
+  bindings: KeyBindings,
+  code: string
+): KeyAction | undefined =>
+  (Object.keys(bindings) as KeyAction[]).find(
+    (action) => bindings[action] === code
+  )
+
+// Bind a key to an action. An action that already had the key takes over the
+// one it replaces, so no key ever does two things.
+export const rebindKey = (
+  bindings: KeyBindings,
+  action: KeyAction,
+  code: string
+): KeyBindings => {
+  if (getCardIndexForKey(code) !== null) return bindings
+
+  const previous = findKeyAction(bindings, code)
+  return previous && previous !== action
+    ? { ...bindings, [action]: code, [previous]: bindings[action] }
+    : { ...bindings, [action]: code }
+}
+
+const keyNames: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+}
+
+// "KeyP" -> "P", "Digit4" -> "4", "ArrowLeft" -> "←"
+export const formatKeyCode = (code: string): string =>
+  keyNames[code] ?? code.replace(/^(Key|Digit|Numpad)/, "")
+
+export const saveKeyBindings = (
+  storage: GameStorage,
+  bindings: KeyBindings
+): void => {
+  try {
+    storage.setItem(KEY_BINDINGS_KEY, JSON.stringify(bindings))
+  } catch {
+    // Storage can be full or disabled; the bindings last until reload
+  }
+}
+
+// The stored bindings over the defaults. Anything unreadable is ignored, and
+// so is a stored set where two actions share a key.
+export const loadKeyBindings = (storage: GameStorage): KeyBindings => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(storage.getItem(KEY_BINDINGS_KEY) ?? "null")
+  } catch {
+    parsed = null
+  }
+  if (typeof parsed !== "object" || parsed === null) return defaultKeyBindings
+
+  const stored = parsed as Record<string, unknown>
+  const bindings = { ...defaultKeyBindings }
+  for (const action of Object.keys(bindings) as KeyAction[]) {
+    const code = stored[action]
+    if (typeof code === "string" && getCardIndexForKey(code) === null) {
+      bindings[action] = code
+    }
+  }
+
+  const codes = Object.values(bindings)
+  return new Set(codes).size === codes.length ? bindings : defaultKeyBindings
+}
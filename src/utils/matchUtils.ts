@@ -0,0 +1,88 @@
+import type { GameContext, MatchSettings, PlayerScore } from "../types/game"
+
+export const defaultMatchSettings: MatchSettings = {
+  rounds: 1,
+  pointLimit: null,
+}
+
+export interface MatchLengthOption {
+  id: string
+  name: string
+  settings: MatchSettings
+}
+
+// The match lengths offered in the lobby
+export const matchLengthOptions: MatchLengthOption[] = [
+  { id: "single", name: "Single Round", settings: defaultMatchSettings },
+  {
+    id: "rounds-3",
+    name: "3 Rounds",
+    settings: { rounds: 3, pointLimit: null },
+  },
+  {
+    id: "rounds-5",
+    name: "5 Rounds",
+    settings: { rounds: 5, pointLimit: null },
+  },
+  {
+    id: "to-100",
+    name: "First to 100 Points",
+    settings: { rounds: 20, pointLimit: 100 },
+  },
+]
+
+export const areMatchSettingsValid = (settings: MatchSettings): boolean =>
+  Number.isInteger(settings.rounds) &&
+  settings.rounds >= 1 &&
+  (settings.pointLimit === null || settings.pointLimit > 0)
+
+// Anything longer than a single round is played as a match
+export const isMultiRoundMatch = (settings: MatchSettings): boolean =>
+  settings.rounds > 1 || settings.pointLimit !== null
+
+// The first player moves one seat to the left every round
+export const getFirstPlayerIndex = (
+  roundNumber: number,
+  playerCount: number
+): number => (playerCount > 0 ? (roundNumber - 1) % playerCount : 0)
+
+// Add one round's scores to the running totals
+export const addRoundToTotals = (
+  totals: PlayerScore[],
+  roundScores: PlayerScore[]
+): PlayerScore[] => {
+  const updated = totals.map((total) => ({ ...total }))
+
+  roundScores.forEach((score) => {
+    const existing = updated.find((total) => total.playerId === score.playerId)
+    if (existing) {
+      existing.finalScore += score.finalScore
+    } else {
+      updated.push({
+        playerId: score.playerId,
+        playerName: score.playerName,
+        finalScore: score.finalScore,
+        handCards: [],
+      })
+    }
+  })
+
+  return updated
+}
+
+// Match totals ordered from leader (lowest) to last
+export const getMatchStandings = (totals: PlayerScore[]): PlayerScore[] =>
+  [...totals].sort((a, b) => a.finalScore - b.finalScore)
+
+export const isMatchComplete = (
+  context: Pick<GameContext, "matchSettings" | "roundHistory" | "matchTotals">
+): boolean => {
+  const { rounds, pointLimit } = context.matchSettings
+
+  if (context.roundHistory.length >= rounds) return true
+
+  return (
+    pointLimit !== null &&
+    context.matchTotals.some((total) => total.finalScore >= pointLimit)
+  )
+}
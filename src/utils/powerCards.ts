@@ -0,0 +1,41 @@
+import type {
+  Card as CardType,
+  CardValue,
+  GameRules,
+  PowerEffect,
+  PowerEffectType,
+} from "../types/game"
+import { getCardName } from "./cardUtils"
+
+// Cards the next player must draw after a draw-two
+export const DRAW_TWO_COUNT = 2
+
+export const powerCardEffects: Partial<Record<CardValue, PowerEffectType>> = {
+  J: "skip",
+  "8": "reverse",
+  "2": "draw-two",
+}
+
+// The effect a card has once it lands on top of the pile, if the table
+// plays with power cards
+export const getPowerEffectType = (
+  card: CardType,
+  rules: GameRules
+): PowerEffectType | null =>
+  rules.powerCards ? (powerCardEffects[card.value] ?? null) : null
+
+// "Alice's Jack of spades skipped Bob"
+export const describePowerEffect = (effect: PowerEffect): string => {
+  const played = `${effect.playerName}'s ${getCardName(effect.card)}`
+
+  switch (effect.type) {
+    case "skip":
+      return `${played} skipped ${effect.targetName}`
+    case "reverse":
+      return `${played} reversed the turn order`
+    case "draw-two":
+      return effect.cardsDrawn > 0
+        ? `${played} made ${effect.targetName} draw ${effect.cardsDrawn} card${effect.cardsDrawn !== 1 ? "s" : ""}`
+        : `${played} would have made ${effect.targetName} draw, but there were no cards left`
+  }
+}
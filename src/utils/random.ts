@@ -0,0 +1,19 @@
+// A random source returns a float in [0, 1), the same contract as Math.random
+export type RandomSource = () => number
+
+// Mulberry32 PRNG - small, fast and good enough for shuffling a deck.
+// The same seed always yields the same sequence, so games can be replayed.
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Generate a fresh seed for games started without one
+export const generateSeed = (): number => Math.floor(Math.random() * 4294967296)
@@ -0,0 +1,151 @@
+import { createActor, fromCallback, SimulatedClock } from "xstate"
+import { cardGameMachine, withClock } from "../machines/cardGameMachine"
+import { getCardName, isJoker } from "./cardUtils"
+import type {
+  Card,
+  GameContext,
+  GameEvent,
+  GameLogEntry,
+  GameState,
+} from "../types/game"
+
+export interface ReplayStep {
+  entry: GameLogEntry | null // null for the empty lobby the replay starts in
+  state: GameState
+  context: GameContext
+}
+
+// Time between logged events is fed to the replay in small slices, so delayed
+// transitions that follow one another (gameEnding, then gameOver) still fire
+// before the next event arrives
+const REPLAY_TICK_MS = 100
+
+const advanceClock = (clock: SimulatedClock, ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += REPLAY_TICK_MS) {
+    clock.increment(Math.min(REPLAY_TICK_MS, ms - elapsed))
+  }
+}
+
+// A replay needs the log from the lobby on; games resumed from a save made
+// before logging existed only have the tail of it
+export const canReplay = (eventLog: GameLogEntry[]): boolean =>
+  eventLog.some((entry) => entry.event.type === "START_GAME")
+
+// Re-feed a game log into a fresh machine on a simulated clock and record the
+// state after every event. The rules and match length the table started with
+// are applied first, since the lobby keeps them from the previous game.
+export const buildReplay = (
+  eventLog: GameLogEntry[],
+  { rules, matchSettings }: Pick<GameContext, "rules" | "matchSettings">
+): ReplayStep[] => {
+  const clock = new SimulatedClock()
+  // The log already holds every timeout and bot play, so the replay's own
+  // clock and bots stay silent
+  const replayMachine = cardGameMachine.provide({
+    actions: withClock(clock).actions,
+    actors: {
+      gameClock: fromCallback(() => {}),
+      botTurn: fromCallback(() => {}),
+    },
+  })
+  const actor = createActor(replayMachine, { clock })
+  actor.start()
+  actor.send({ type: "SET_RULES", rules })
+  actor.send({ type: "SET_MATCH", settings: matchSettings })
+
+  const recordStep = (entry: GameLogEntry | null): ReplayStep => {
+    const snapshot = actor.getSnapshot()
+    return {
+      entry,
+      state: snapshot.value as GameState,
+      context: snapshot.context,
+    }
+  }
+
+  const steps = [recordStep(null)]
+  let previousTime = eventLog[0]?.timestamp.getTime() ?? 0
+
+  eventLog.forEach((entry) => {
+    const time = entry.timestamp.getTime()
+    advanceClock(clock, time - previousTime)
+    previousTime = time
+
+    actor.send(entry.event)
+    steps.push(recordStep(entry))
+  })
+
+  actor.stop()
+  return steps
+}
+
+// Card selections and joker declarations are logged for completeness, but
+// stepping through them one by one would bury the actual moves
+export const isReplayMove = (step: ReplayStep): boolean =>
+  step.entry === null ||
+  !["CARD_SELECTED", "CARD_DESELECTED", "DECLARE_JOKER"].includes(
+    step.entry.event.type
+  )
+
+const formatCard = (card: Card) =>
+  isJoker(card) ? getCardName(card) : `${card.value} of ${card.suit}`
+
+// One line describing a logged event; `before` is the context it was sent to
+export const describeLogEntry = (
+  event: GameEvent,
+  before: GameContext
+): string => {
+  const nameOf = (playerId: string) =>
+    before.players.find((player) => player.id === playerId)?.name ?? playerId
+  const currentName = before.players[before.currentPlayerIndex]?.name
+
+  switch (event.type) {
+    case "PLAYER_JOIN":
+      return `${event.playerName} joined`
+    case "SET_RULES":
+      return "Rules changed"
+    case "SET_MATCH":
+      return "Match length changed"
+    case "START_GAME":
+      return `Game started with seed ${event.seed}`
+    case "NEXT_ROUND":
+      return `Round ${before.roundNumber + 1} started with seed ${event.seed}`
+    case "CARD_SELECTED":
+      return `${nameOf(event.playerId)} selected a card`
+    case "CARD_DESELECTED":
+      return `${nameOf(event.playerId)} deselected a card`
+    case "DECLARE_JOKER":
+      return event.value
+        ? `${nameOf(event.playerId)} declared a joker as ${event.value}`
+        : `${nameOf(event.playerId)} left a joker undeclared`
+    case "PLAY_CARDS":
+      return `${nameOf(event.playerId)} played ${event.cards.map(formatCard).join(", ")}`
+    case "AUTO_PLAY":
+      return event.timedOut
+        ? `${nameOf(event.playerId)} ran out of time and auto-played ${formatCard(event.card)}`
+        : `${nameOf(event.playerId)} auto-played ${formatCard(event.card)}`
+    case "INTERRUPT":
+      return `${nameOf(event.playerId)} slammed ${formatCard(event.card)} out of turn`
+    case "DRAW_CARD":
+      return `${nameOf(event.playerId)} drew a card`
+    case "SKIP_TURN":
+      return `${currentName} skipped their turn`
+    case "ROUND_TIMEOUT":
+      return "Time ran out"
+    case "TURN_TIMEOUT":
+      return `${currentName} ran out of time`
+    case "END_GAME":
+      return "Game ended early"
+    case "PAUSE":
+      return "Game paused"
+    case "RESUME":
+      return "Game resumed"
+    case "UNDO":
+      return `${nameOf(event.playerId)} took back their last play`
+    case "REQUEST_HINT":
+      return `${nameOf(event.playerId)} asked for a hint`
+    case "LEAVE_GAME":
+      return `${nameOf(event.playerId)} left`
+    default:
+      return event.type
+  }
+}
@@ -0,0 +1,150 @@
+import type { Snapshot } from "xstate"
+import type { GameContext, GameState } from "../types/game"
+
+export const SAVED_GAME_KEY = "card-game:saved-game"
+
+// Bump whenever the persisted snapshot changes shape. Saves are not
+// migrated: one from any other version is dropped, and the player starts a
+// new game.
+export const SAVED_GAME_VERSION = 1
+
+// The parts of storage we need; window.localStorage satisfies it
+export type GameStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">
+
+// What the machine actor's getPersistedSnapshot() returns
+export interface PersistedGameSnapshot {
+  status: string
+  value: GameState
+  context: GameContext
+  children: Record<string, unknown>
+  historyValue?: unknown
+}
+
+export interface SavedGame {
+  version: number
+  savedAt: Date
+  snapshot: PersistedGameSnapshot
+}
+
+// Only settled states are saved. The others are short hops that wait on a
+// delayed transition, and XState does not persist pending delays, so a game
+// restored into one of them would never move on.
+const RESUMABLE_STATES: GameState[] = ["playerTurn", "paused", "gameOver"]
+
+export const isResumableState = (value: unknown): value is GameState =>
+  RESUMABLE_STATES.includes(value as GameState)
+
+// Save the snapshot from the game actor's getPersistedSnapshot()
+export const saveGame = (
+  storage: GameStorage,
+  snapshot: Snapshot<unknown>
+): void => {
+  try {
+    storage.setItem(
+      SAVED_GAME_KEY,
+      JSON.stringify({
+        version: SAVED_GAME_VERSION,
+        savedAt: new Date().toISOString(),
+        snapshot,
+      })
+    )
+  } catch {
+    // Storage can be full or disabled; the game itself carries on
+  }
+}
+
+export const clearSavedGame = (storage: GameStorage): void =>
+  storage.removeItem(SAVED_GAME_KEY)
+
+// Dates travel through JSON as ISO strings
+const reviveDates = (context: GameContext): GameContext => ({
+  ...context,
+  roundStartTime: context.roundStartTime
+    ? new Date(context.roundStartTime)
+    : null,
+  turnStartTime: context.turnStartTime ? new Date(context.turnStartTime) : null,
+  pausedAt: context.pausedAt ? new Date(context.pausedAt) : null,
+  autoPlayNotifications: context.autoPlayNotifications.map((notification) => ({
+    ...notification,
+    timestamp: new Date(notification.timestamp),
+  })),
+  eventLog: context.eventLog.map((entry) => ({
+    ...entry,
+    timestamp: new Date(entry.timestamp),
+  })),
+})
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null
+
+const isGameSnapshot = (
+  snapshot: Record<string, unknown>
+): snapshot is Record<string, unknown> & PersistedGameSnapshot => {
+  const { context } = snapshot
+  return (
+    snapshot.status === "active" &&
+    isResumableState(snapshot.value) &&
+    isRecord(snapshot.children) &&
+    isRecord(context) &&
+    Array.isArray(context.players) &&
+    Array.isArray(context.autoPlayNotifications) &&
+    Array.isArray(context.eventLog)
+  )
+}
+
+// Read the saved game, if there is a usable one. Anything unreadable, or
+// saved by another version, is removed so it is not offered again.
+export const loadSavedGame = (storage: GameStorage): SavedGame | null => {
+  const raw = storage.getItem(SAVED_GAME_KEY)
+  if (raw === null) return null
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    parsed = null
+  }
+
+  if (
+    !isRecord(parsed) ||
+    parsed.version !== SAVED_GAME_VERSION ||
+    !isRecord(parsed.snapshot) ||
+    !isGameSnapshot(parsed.snapshot)
+  ) {
+    clearSavedGame(storage)
+    return null
+  }
+
+  const snapshot = parsed.snapshot
+  return {
+    version: SAVED_GAME_VERSION,
+    savedAt: new Date(String(parsed.savedAt)),
+    snapshot: { ...snapshot, context: reviveDates(snapshot.context) },
+  }
+}
+
+// Time spent away from a saved game does not count against the round: move
+// the round and turn starts so both clocks pick up with the seconds that
+// were left. A paused game counts its pause from now, for the same reason.
+export const resumeRoundClock = (
+  snapshot: PersistedGameSnapshot,
+  now: number = Date.now()
+): PersistedGameSnapshot => {
+  const { context } = snapshot
+  if (!context.roundStartTime) return snapshot
+
+  const elapsedSeconds = context.rules.roundDurationSeconds - context.gameTimer
+  const turnElapsedSeconds =
+    (context.rules.turnDurationSeconds ?? 0) - context.turnTimer
+  return {
+    ...snapshot,
+    context: {
+      ...context,
+      roundStartTime: new Date(now - elapsedSeconds * 1000),
+      turnStartTime: context.turnStartTime
+        ? new Date(now - turnElapsedSeconds * 1000)
+        : null,
+      pausedAt: context.pausedAt ? new Date(now) : null,
+    },
+  }
+}
@@ -0,0 +1,86 @@
+import type {
+  Card as CardType,
+  ScoreLine,
+  ScoringSystem,
+  ScoringSystemId,
+} from "../types/game"
+
+// Points taken off the round score of the player who empties their hand
+// under the going-out bonus
+export const GOING_OUT_BONUS = 10
+
+const isFaceCard = (card: CardType) => ["J", "Q", "K"].includes(card.value)
+
+// Ace=1, 2-10 at face value, J=11, Q=12, K=13
+export const classicScoring: ScoringSystem = {
+  id: "classic",
+  name: "Classic",
+  description: "Ace=1, 2-10=face value, J=11, Q=12, K=13",
+  cardPoints: (card) => card.points,
+}
+
+// Every face card counts the same as a 10
+export const faceTensScoring: ScoringSystem = {
+  id: "face-tens",
+  name: "Face Cards 10",
+  description: "Ace=1, 2-10=face value, J, Q and K=10",
+  cardPoints: (card) => (isFaceCard(card) ? 10 : card.points),
+}
+
+// Classic points, with spades counted twice
+export const spadesDoubleScoring: ScoringSystem = {
+  id: "spades-double",
+  name: "Spades Double",
+  description: "Classic values, but spades count double",
+  cardPoints: (card) => card.points,
+  adjustments: (hand) => {
+    const spadePoints = hand
+      .filter((card) => card.suit === "spades")
+      .reduce((total, card) => total + card.points, 0)
+    return spadePoints > 0
+      ? [{ label: "Spades doubled", points: spadePoints }]
+      : []
+  },
+}
+
+// Classic points, with a bonus for the player who goes out
+export const goingOutBonusScoring: ScoringSystem = {
+  id: "going-out-bonus",
+  name: "Going Out Bonus",
+  description: `Classic values, and emptying your hand first takes ${GOING_OUT_BONUS} points off`,
+  cardPoints: (card) => card.points,
+  adjustments: (_hand, wentOut) =>
+    wentOut ? [{ label: "Went out first", points: -GOING_OUT_BONUS }] : [],
+}
+
+export const scoringSystems: Record<ScoringSystemId, ScoringSystem> = {
+  classic: classicScoring,
+  "face-tens": faceTensScoring,
+  "spades-double": spadesDoubleScoring,
+  "going-out-bonus": goingOutBonusScoring,
+}
+
+export interface HandScore {
+  total: number
+  breakdown: ScoreLine[] // the card points first, then any adjustments
+}
+
+export const scoreHand = (
+  hand: CardType[],
+  systemId: ScoringSystemId,
+  wentOut = false
+): HandScore => {
+  const system = scoringSystems[systemId]
+  const breakdown = [
+    {
+      label: "Cards",
+      points: hand.reduce((total, card) => total + system.cardPoints(card), 0),
+    },
+    ...(system.adjustments?.(hand, wentOut) ?? []),
+  ]
+
+  return {
+    total: breakdown.reduce((total, line) => total + line.points, 0),
+    breakdown,
+  }
+}
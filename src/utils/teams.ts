@@ -0,0 +1,56 @@
+import type { GameRules, Player, PlayerScore, TeamScore } from "../types/game"
+
+// Team play is two against two
+export const TEAM_COUNT = 2
+export const TEAM_PLAYERS = 4
+
+// Seats alternate between the teams, so partners sit opposite each other
+// and turns pass from one team to the other
+export const getTeamNumber = (seatIndex: number): number =>
+  (seatIndex % TEAM_COUNT) + 1
+
+// Team play needs exactly four seats; other tables play every player for
+// themselves
+export const isTeamTableReady = (
+  rules: GameRules,
+  playerCount: number
+): boolean => !rules.teamPlay || playerCount === TEAM_PLAYERS
+
+export const arePartners = (
+  players: Player[],
+  playerId: string,
+  otherId: string
+): boolean => {
+  const seat = players.findIndex((player) => player.id === playerId)
+  const otherSeat = players.findIndex((player) => player.id === otherId)
+  return (
+    seat !== -1 &&
+    otherSeat !== -1 &&
+    seat !== otherSeat &&
+    getTeamNumber(seat) === getTeamNumber(otherSeat)
+  )
+}
+
+// Each team's round score, lowest first. Players are matched to their
+// scores by id, so a seat without a score adds nothing.
+export const getTeamScores = (
+  players: Player[],
+  scores: PlayerScore[]
+): TeamScore[] =>
+  Array.from({ length: TEAM_COUNT }, (_, index) => {
+    const members = players.filter(
+      (_player, seat) => getTeamNumber(seat) === index + 1
+    )
+    return {
+      teamNumber: index + 1,
+      playerIds: members.map((player) => player.id),
+      playerNames: members.map((player) => player.name),
+      finalScore: members.reduce(
+        (sum, player) =>
+          sum +
+          (scores.find((score) => score.playerId === player.id)?.finalScore ??
+            0),
+        0
+      ),
+    }
+  }).sort((a, b) => a.finalScore - b.finalScore)
@@ -0,0 +1,86 @@
+import type { PlayerScore, TieBreak, TieBreakerId } from "../types/game"
+
+interface TieBreaker {
+  name: string
+  description: string
+  // Lower is better; players who share the best rank stay in the tie
+  rank: (score: PlayerScore, lastPlayedBy: string | null) => number
+}
+
+export const tieBreakers: Record<TieBreakerId, TieBreaker> = {
+  "fewest-cards": {
+    name: "Fewest cards",
+    description: "Fewest cards left in hand",
+    rank: (score) => score.handCards.length,
+  },
+  "lowest-high-card": {
+    name: "Lowest high card",
+    description: "Lowest top card left in hand",
+    rank: (score) => Math.max(0, ...score.handCards.map((card) => card.points)),
+  },
+  "last-to-play": {
+    name: "Last to play",
+    description: "Played the latest card of the round",
+    rank: (score, lastPlayedBy) => (score.playerId === lastPlayedBy ? 0 : 1),
+  },
+}
+
+// Tie-breaker orders offered in the lobby
+export const tieBreakerOrderOptions: TieBreakerId[][] = [
+  ["fewest-cards", "lowest-high-card", "last-to-play"],
+  ["lowest-high-card", "fewest-cards", "last-to-play"],
+  ["last-to-play"],
+  [],
+]
+
+// "Fewest cards, then last to play", or "Shared win" for no tie-breakers
+export const formatTieBreakerOrder = (order: TieBreakerId[]): string =>
+  order.length === 0
+    ? "Shared win"
+    : order
+        .map((id, index) =>
+          index === 0
+            ? tieBreakers[id].name
+            : tieBreakers[id].name.toLowerCase()
+        )
+        .join(", then ")
+
+export const isTieBreakerOrderValid = (order: unknown): boolean =>
+  Array.isArray(order) &&
+  order.every((id) => Object.keys(tieBreakers).includes(id)) &&
+  new Set(order).size === order.length
+
+export interface RoundWinners {
+  winners: PlayerScore[]
+  tieBreak: TieBreak | null
+}
+
+// The lowest score wins. Players tied on it go through the tie-breakers in
+// order, each keeping only those who rank best; whoever is still level after
+// the last one shares the win.
+export const resolveWinners = (
+  scores: PlayerScore[],
+  order: TieBreakerId[],
+  lastPlayedBy: string | null
+): RoundWinners => {
+  const lowest = Math.min(...scores.map((score) => score.finalScore))
+  const tied = scores.filter((score) => score.finalScore === lowest)
+  if (tied.length <= 1) return { winners: tied, tieBreak: null }
+
+  const tiedPlayerIds = tied.map((score) => score.playerId)
+  let remaining = tied
+
+  for (const id of order) {
+    const ranks = remaining.map((score) =>
+      tieBreakers[id].rank(score, lastPlayedBy)
+    )
+    const best = Math.min(...ranks)
+    remaining = remaining.filter((_, index) => ranks[index] === best)
+
+    if (remaining.length === 1) {
+      return { winners: remaining, tieBreak: { tiedPlayerIds, decidedBy: id } }
+    }
+  }
+
+  return { winners: remaining, tieBreak: { tiedPlayerIds, decidedBy: null } }
+}
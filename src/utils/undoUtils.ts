@@ -0,0 +1,35 @@
+import type { GameContext, GameEvent, UndoSnapshot } from "../types/game"
+
+// Events that do not count as anyone acting, so they leave an undo open
+const PASSIVE_EVENTS: GameEvent["type"][] = ["PAUSE", "RESUME"]
+
+// The table just before the current player's play, or null when the table
+// does not allow undo
+export const takeUndoSnapshot = (context: GameContext): UndoSnapshot | null =>
+  context.rules.allowUndo
+    ? {
+        playerId: context.players[context.currentPlayerIndex].id,
+        logIndex: context.eventLog.length,
+        players: context.players,
+        discardPile: context.discardPile,
+        deck: context.deck,
+        reshuffleCount: context.reshuffleCount,
+        currentPlayerIndex: context.currentPlayerIndex,
+        turnDirection: context.turnDirection,
+        hasDrawnThisTurn: context.hasDrawnThisTurn,
+        lastPlayedBy: context.lastPlayedBy,
+      }
+    : null
+
+// A play can be taken back by whoever made it, as long as nothing but pauses
+// has been logged since
+export const canUndo = (context: GameContext, playerId: string): boolean => {
+  const { undoSnapshot } = context
+  if (!context.rules.allowUndo || undoSnapshot?.playerId !== playerId) {
+    return false
+  }
+
+  return context.eventLog
+    .slice(undoSnapshot.logIndex + 1)
+    .every((entry) => PASSIVE_EVENTS.includes(entry.event.type))
+}
@@ -0,0 +1,74 @@
+import type {
+  GameContext,
+  GameContextView,
+  Player,
+  PlayerView,
+} from "../types/game"
+import { arePartners } from "./teams"
+import { canUndo } from "./undoUtils"
+
+const projectPlayer = (player: Player, handHidden: boolean): PlayerView => ({
+  ...player,
+  hand: handHidden ? [] : player.hand,
+  handCount: player.hand.length,
+  handHidden,
+})
+
+// The shared redaction; `canSeeHand` decides whose hand stays face up
+const projectContext = (
+  context: GameContext,
+  viewerId: string | null,
+  canSeeHand: (player: Player) => boolean
+): GameContextView => {
+  const { deck, players, undoSnapshot, ...publicContext } = context
+  const currentPlayer = players[context.currentPlayerIndex]
+  const roundScored = context.finalScores.length > 0
+
+  return {
+    ...publicContext,
+    players: players.map((player) =>
+      projectPlayer(player, !canSeeHand(player))
+    ),
+    deckCount: deck.length,
+    // The seed reproduces the whole deal, so it would give the deck away
+    seed: roundScored ? context.seed : null,
+    // The log carries the seed too
+    eventLog: roundScored ? context.eventLog : [],
+    // Selections are part of the current player's hand
+    selectedCards:
+      currentPlayer && canSeeHand(currentPlayer) ? context.selectedCards : [],
+    // The undo snapshot holds every hand and the deck; only who may use it
+    // is public
+    undoableBy:
+      undoSnapshot && canUndo(context, undoSnapshot.playerId)
+        ? undoSnapshot.playerId
+        : null,
+    viewerId,
+  }
+}
+
+// Redact a full GameContext down to what one player is allowed to see: their
+// own hand, and their partner's when the table lets partners see each other's.
+// Pass null for a viewer without a seat, who sees no hands at all.
+export const projectContextForPlayer = (
+  context: GameContext,
+  viewerId: string | null
+): GameContextView =>
+  projectContext(
+    context,
+    viewerId,
+    (player) =>
+      player.id === viewerId ||
+      (viewerId !== null &&
+        context.rules.teamPlay &&
+        context.rules.partnersSeeHands &&
+        arePartners(context.players, viewerId, player.id))
+  )
+
+// What a spectator sees: every hand when the table allows it, otherwise the
+// same as a viewer without a seat. The deck, seed and log stay hidden either
+// way, since spectators may still be talking to the players.
+export const projectContextForSpectator = (
+  context: GameContext
+): GameContextView =>
+  projectContext(context, null, () => context.rules.spectatorsSeeHands)